@@ -13,6 +13,18 @@ const roomRoutes = require('./routes/roomRoutes');
 const ticketRoutes = require('./routes/ticketRoutes');
 const chatRoutes = require('./routes/chatRoutes');
 const adminRoutes = require('./routes/adminRoutes');
+const staffRoutes = require('./routes/staffRoutes');
+const slaRoutes = require('./routes/slaRoutes');
+const archiveRoutes = require('./routes/archiveRoutes');
+const guestRoutes = require('./routes/guestRoutes');
+const classifierRoutes = require('./routes/classifierRoutes');
+const knowledgeRoutes = require('./routes/knowledgeRoutes');
+const cannedResponseRoutes = require('./routes/cannedResponseRoutes');
+const propertyRoutes = require('./routes/propertyRoutes');
+const hotelRoutes = require('./routes/hotelRoutes');
+const qrRoutes = require('./routes/qrRoutes');
+const analyticsRoutes = require('./routes/analyticsRoutes');
+const bookingRoutes = require('./routes/bookingRoutes');
 
 // Import error handler
 const { errorHandler } = require('./middleware/errorMiddleware');
@@ -50,7 +62,7 @@ const corsOptions = {
   },
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS', 'PATCH'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'Accept', 'Origin'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'Accept', 'Origin', 'X-Hotel-Id'],
   exposedHeaders: ['Content-Length', 'X-Requested-With'],
   maxAge: 86400 // 24 hours
 };
@@ -158,6 +170,18 @@ app.use('/api/rooms', roomRoutes);
 app.use('/api/tickets', ticketRoutes);
 app.use('/api/chat', chatRoutes);
 app.use('/api/admin', adminRoutes);
+app.use('/api/staff', staffRoutes);
+app.use('/api/sla', slaRoutes);
+app.use('/api/archive', archiveRoutes);
+app.use('/api/guest', guestRoutes);
+app.use('/api/classifier', classifierRoutes);
+app.use('/api/knowledge', knowledgeRoutes);
+app.use('/api/canned-responses', cannedResponseRoutes);
+app.use('/api/properties', propertyRoutes);
+app.use('/api/hotels', hotelRoutes);
+app.use('/api/qr-codes', qrRoutes);
+app.use('/api/analytics', analyticsRoutes);
+app.use('/api/bookings', bookingRoutes);
 
 // Backend only serves API routes - frontend is deployed separately
 
@@ -0,0 +1,95 @@
+const ScanEvent = require('../models/ScanEvent');
+const Room = require('../models/Room');
+const Ticket = require('../models/Ticket');
+const ErrorResponse = require('../utils/errorResponse');
+const { DEVICE_CLASSES, sumFunnel, summarizeFloors } = require('../utils/scanAnalytics');
+
+// A request counts as done once staff finish it, whether or not the guest signs off
+const DONE_STATUSES = ['completed', 'verified'];
+
+const dateRange = ({ from, to }) => {
+  const range = {};
+  if (from && !Number.isNaN(Date.parse(from))) range.$gte = new Date(from);
+  if (to && !Number.isNaN(Date.parse(to))) range.$lte = new Date(to);
+  return Object.keys(range).length > 0 ? { createdAt: range } : {};
+};
+
+// @desc    QR code adoption funnel (scan, chat, ticket, completed) per room and floor
+// @route   GET /api/analytics/scans?from=&to=
+// @access  Private
+exports.getScanFunnel = async (req, res, next) => {
+  try {
+    const match = { hotel: req.user.hotelId, ...dateRange(req.query) };
+
+    const [roomStats, deviceStats, rooms] = await Promise.all([
+      ScanEvent.aggregate([
+        { $match: match },
+        {
+          $lookup: {
+            from: Ticket.collection.name,
+            localField: 'ticket',
+            foreignField: '_id',
+            as: 'ticketDoc',
+          },
+        },
+        {
+          $group: {
+            _id: '$room',
+            scans: { $sum: 1 },
+            chats: { $sum: { $cond: [{ $ifNull: ['$chatStartedAt', false] }, 1, 0] } },
+            tickets: { $sum: { $cond: [{ $ifNull: ['$ticket', false] }, 1, 0] } },
+            completed: {
+              $sum: {
+                $cond: [
+                  { $in: [{ $arrayElemAt: ['$ticketDoc.status', 0] }, DONE_STATUSES] },
+                  1,
+                  0,
+                ],
+              },
+            },
+            lastScanAt: { $max: '$createdAt' },
+          },
+        },
+      ]),
+      ScanEvent.aggregate([{ $match: match }, { $group: { _id: '$device', scans: { $sum: 1 } } }]),
+      Room.find({ isActive: true }).select('number floor').lean(),
+    ]);
+
+    // Every active room is listed, so rooms nobody scans stand out
+    const statsByRoom = new Map(roomStats.map((stats) => [String(stats._id), stats]));
+    const roomRows = rooms
+      .map((room) => {
+        const stats = statsByRoom.get(String(room._id)) || {};
+        return {
+          _id: room._id,
+          number: room.number,
+          floor: room.floor,
+          scans: stats.scans || 0,
+          chats: stats.chats || 0,
+          tickets: stats.tickets || 0,
+          completed: stats.completed || 0,
+          lastScanAt: stats.lastScanAt || null,
+        };
+      })
+      .sort((a, b) => a.floor - b.floor || a.number.localeCompare(b.number, 'en', { numeric: true }));
+
+    const scansByDevice = new Map(deviceStats.map((stats) => [stats._id, stats.scans]));
+
+    res.status(200).json({
+      success: true,
+      data: {
+        totals: {
+          rooms: roomRows.length,
+          roomsScanned: roomRows.filter((room) => room.scans > 0).length,
+          ...sumFunnel(roomRows),
+        },
+        devices: DEVICE_CLASSES.map((device) => ({ device, scans: scansByDevice.get(device) || 0 })),
+        floors: summarizeFloors(roomRows),
+        rooms: roomRows,
+      },
+    });
+  } catch (error) {
+    console.error('Get scan funnel error:', error);
+    next(new ErrorResponse('Server error', 500));
+  }
+};
@@ -0,0 +1,157 @@
+const ArchivedTicket = require('../models/ArchivedTicket');
+const RetentionPolicy = require('../models/RetentionPolicy');
+const { body, validationResult } = require('express-validator');
+const ErrorResponse = require('../utils/errorResponse');
+const { ticketScope } = require('../utils/accessControl');
+
+// @desc    Browse archived tickets
+// @route   GET /api/archive/tickets
+// @access  Private
+exports.getArchivedTickets = async (req, res, next) => {
+  try {
+    const { search, category, page = 1, limit = 20 } = req.query;
+
+    const filters = {};
+    if (category) filters.category = category;
+    if (search) filters.$text = { $search: search };
+    const query = ticketScope(req.user, filters);
+
+    const [tickets, total] = await Promise.all([
+      ArchivedTicket.find(query)
+        .select('-snapshot -messageText')
+        .sort({ archivedAt: -1 })
+        .limit(limit * 1)
+        .skip((page - 1) * limit),
+      ArchivedTicket.countDocuments(query),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      count: tickets.length,
+      total,
+      totalPages: Math.ceil(total / limit),
+      currentPage: Number(page),
+      data: tickets,
+    });
+  } catch (error) {
+    console.error('Get archived tickets error:', error);
+    next(new ErrorResponse('Server error', 500));
+  }
+};
+
+// @desc    Get a single archived ticket with its full history
+// @route   GET /api/archive/tickets/:id
+// @access  Private
+exports.getArchivedTicket = async (req, res, next) => {
+  try {
+    const ticket = await ArchivedTicket.findOne(ticketScope(req.user, { _id: req.params.id }));
+
+    if (!ticket) {
+      return next(new ErrorResponse('Archived ticket not found', 404));
+    }
+
+    res.status(200).json({
+      success: true,
+      data: ticket,
+    });
+  } catch (error) {
+    console.error('Get archived ticket error:', error);
+    next(new ErrorResponse('Server error', 500));
+  }
+};
+
+// @desc    Restore an archived ticket to the live board
+// @route   POST /api/archive/tickets/:id/restore
+// @access  Private/Manager
+exports.restoreTicket = async (req, res, next) => {
+  try {
+    const archived = await ArchivedTicket.findOne(ticketScope(req.user, { _id: req.params.id }));
+
+    if (!archived) {
+      return next(new ErrorResponse('Archived ticket not found', 404));
+    }
+
+    const ticket = await archived.restore();
+
+    res.status(200).json({
+      success: true,
+      data: ticket,
+    });
+  } catch (error) {
+    console.error('Restore ticket error:', error);
+    if (error.code === 11000) {
+      return next(new ErrorResponse('This ticket is already on the live board', 409));
+    }
+    next(new ErrorResponse('Server error', 500));
+  }
+};
+
+// @desc    Get the hotel's retention policy
+// @route   GET /api/archive/retention
+// @access  Private
+exports.getRetentionPolicy = async (req, res, next) => {
+  try {
+    const policy = await RetentionPolicy.getForHotel(req.user.hotelId);
+
+    res.status(200).json({
+      success: true,
+      data: policy,
+    });
+  } catch (error) {
+    console.error('Get retention policy error:', error);
+    next(new ErrorResponse('Server error', 500));
+  }
+};
+
+// @desc    Update the hotel's retention policy
+// @route   PUT /api/archive/retention
+// @access  Private/Manager
+exports.updateRetentionPolicy = async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array(),
+      });
+    }
+
+    const { archiveAfterDays, purgeAfterDays = null } = req.body;
+
+    if (purgeAfterDays !== null && purgeAfterDays <= archiveAfterDays) {
+      return next(new ErrorResponse('Purge period must be longer than the archive period', 400));
+    }
+
+    const policy = await RetentionPolicy.findOneAndUpdate(
+      { hotel: req.user.hotelId },
+      { archiveAfterDays, purgeAfterDays, $setOnInsert: { manager: req.user.managerId } },
+      { new: true, upsert: true, runValidators: true, setDefaultsOnInsert: true }
+    );
+
+    res.status(200).json({
+      success: true,
+      data: {
+        archiveAfterDays: policy.archiveAfterDays,
+        purgeAfterDays: policy.purgeAfterDays,
+        isDefault: false,
+      },
+    });
+  } catch (error) {
+    console.error('Update retention policy error:', error);
+    next(new ErrorResponse('Server error', 500));
+  }
+};
+
+// Validation middleware for retention policies
+exports.validateRetention = [
+  body('archiveAfterDays')
+    .isInt({ min: 1 })
+    .withMessage('Archive period must be at least 1 day')
+    .toInt(),
+
+  body('purgeAfterDays')
+    .optional({ nullable: true })
+    .isInt({ min: 1 })
+    .withMessage('Purge period must be at least 1 day')
+    .toInt(),
+];
@@ -1,6 +1,7 @@
 const { createClient } = require('@supabase/supabase-js');
 const jwt = require('jsonwebtoken');
 const User = require('../models/User');
+const Hotel = require('../models/Hotel');
 const OTP = require('../models/OTP');
 const { sendOTPEmail } = require('../utils/emailService');
 
@@ -208,7 +209,9 @@ exports.verifyRegistration = async (req, res) => {
         id: user._id,
         name: user.name,
         hotelName: user.hotelName,
-        email: user.email
+        email: user.email,
+        role: user.role,
+        allowedCategories: user.allowedCategories
       },
       token,
       message: 'Registration completed successfully!'
@@ -224,6 +227,113 @@ exports.verifyRegistration = async (req, res) => {
   }
 };
 
+// @desc    Accept a staff invitation and create the staff account
+// @route   POST /api/auth/accept-invite
+// @access  Public
+exports.acceptInvite = async (req, res) => {
+  try {
+    const { email, otp, name, password } = req.body;
+
+    if (!email || !otp || !password) {
+      return res.status(400).json({
+        success: false,
+        message: 'Email, invitation code and password are required'
+      });
+    }
+
+    const verificationResult = await OTP.verifyOTP(email, otp, 'staff_invite');
+
+    if (!verificationResult.isValid) {
+      return res.status(400).json({
+        success: false,
+        message: verificationResult.message
+      });
+    }
+
+    const otpRecord = verificationResult.otpRecord;
+    const invite = otpRecord.inviteData;
+
+    if (!invite || !invite.hotelOwner) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invitation data not found. Please ask for a new invitation.'
+      });
+    }
+
+    const staffName = name || invite.name;
+
+    // Sign up with Supabase Auth
+    const { data: authData, error: authError } = await supabase.auth.signUp({
+      email: otpRecord.email,
+      password,
+      options: {
+        data: {
+          name: staffName,
+          hotel_name: invite.hotelName,
+          email_confirm: true
+        }
+      }
+    });
+
+    if (authError) {
+      console.error('Auth error:', authError);
+      return res.status(400).json({ 
+        success: false,
+        message: authError.message 
+      });
+    }
+
+    const user = await User.create({
+      name: staffName,
+      hotelName: invite.hotelName,
+      email: otpRecord.email,
+      supabaseId: authData.user.id,
+      role: invite.role,
+      allowedCategories: invite.allowedCategories,
+      hotels: invite.hotels,
+      hotelOwner: invite.hotelOwner,
+      invitedBy: invite.invitedBy,
+    });
+
+    // Generate JWT token
+    const token = jwt.sign(
+      { 
+        userId: user._id,
+        supabaseId: user.supabaseId,
+        email: user.email,
+        name: user.name,
+        hotelName: user.hotelName
+      },
+      process.env.JWT_SECRET,
+      { expiresIn: '7d' }
+    );
+
+    await OTP.findByIdAndDelete(otpRecord._id);
+
+    return res.status(201).json({
+      success: true,
+      user: {
+        id: user._id,
+        name: user.name,
+        hotelName: user.hotelName,
+        email: user.email,
+        role: user.role,
+        allowedCategories: user.allowedCategories
+      },
+      token,
+      message: 'Welcome to the team!'
+    });
+
+  } catch (error) {
+    console.error('Accept invite error:', error);
+    return res.status(500).json({ 
+      success: false,
+      message: 'Server error while accepting invitation',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+};
+
 // @desc    Authenticate hotel manager (Step 1: Send OTP)
 // @route   POST /api/auth/login
 // @access  Public
@@ -263,6 +373,13 @@ exports.login = async (req, res) => {
       });
     }
 
+    if (!user.isActive) {
+      return res.status(401).json({
+        success: false,
+        message: 'This account has been deactivated'
+      });
+    }
+
     // Generate and send OTP
     const otpRecord = await OTP.createOTP(email, 'login', 10);
     
@@ -351,6 +468,8 @@ exports.verifyLogin = async (req, res) => {
         name: user.name,
         hotelName: user.hotelName,
         email: user.email,
+        role: user.role,
+        allowedCategories: user.allowedCategories,
       },
       token,
       message: 'Login successful!'
@@ -410,7 +529,10 @@ exports.getMe = async (req, res) => {
     }
 
     // Get fresh user data from database
-    const user = await User.findById(req.user.userId).select('-__v -createdAt -updatedAt');
+    const [user, hotel] = await Promise.all([
+      User.findById(req.user.userId).select('-__v -createdAt -updatedAt'),
+      Hotel.findById(req.user.hotelId),
+    ]);
     
     if (!user) {
       return res.status(404).json({
@@ -425,7 +547,21 @@ exports.getMe = async (req, res) => {
         id: user._id,
         name: user.name,
         hotelName: user.hotelName,
+        // Hotel the dashboard is working in; its slug appears in guest links
+        hotel: {
+          id: hotel._id,
+          slug: hotel.slug,
+          name: hotel.name,
+          // Management is sent to the onboarding wizard until this is set
+          onboarded: Boolean(hotel.onboardedAt),
+        },
+        // Properties the dashboard header can switch between
+        hotels: req.user.properties,
+        // Whether the account works at every property, including ones added later
+        hasAllProperties: req.user.hotels.length === 0,
         email: user.email,
+        role: user.role,
+        allowedCategories: user.allowedCategories,
         isActive: user.isActive
       },
     });
@@ -1,323 +1,420 @@
 const Booking = require('../models/Booking');
-const Hotel = require('../models/Hotel');
+const Room = require('../models/Room');
+const RoomLock = require('../models/RoomLock');
 const { body, validationResult } = require('express-validator');
-const QRCode = require('qrcode');
-
-// @desc    Create a new booking
-// @route   POST /api/hotels/:hotelId/bookings
-// @access  Public
-exports.createBooking = async (req, res) => {
-  try {
-    const { hotelId } = req.params;
-    const { room: roomId, checkIn, checkOut } = req.body;
-
-    // Find the hotel and room
-    const hotel = await Hotel.findById(hotelId);
-    if (!hotel) {
-      return res.status(404).json({
-        success: false,
-        message: `Hotel not found with id of ${hotelId}`,
-      });
-    }
+const ErrorResponse = require('../utils/errorResponse');
+const { BOOKING_STATUSES, ROOM_HOLDING_BOOKING_STATUSES } = require('../utils/constants');
+const { startStay, endStay } = require('../utils/roomStay');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Longest window the availability calendar loads at once
+const MAX_CALENDAR_DAYS = 92;
+
+// Moves staff can make from each booking status
+const BOOKING_TRANSITIONS = {
+  confirmed: ['checked_in', 'cancelled', 'no-show'],
+  checked_in: ['completed'],
+  completed: [],
+  cancelled: [],
+  'no-show': [],
+};
 
-    const room = hotel.rooms.id(roomId);
-    if (!room) {
-      return res.status(404).json({
-        success: false,
-        message: `Room not found with id of ${roomId}`,
-      });
-    }
+// Stays are whole nights, so dates are kept at UTC midnight
+const startOfDay = (value) => {
+  const date = new Date(value);
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+};
 
-    // Check room availability
-    const isAvailable = await Booking.isRoomAvailable(roomId, checkIn, checkOut);
-    if (!isAvailable) {
-      return res.status(400).json({
-        success: false,
-        message: 'Room is not available for the selected dates',
-      });
-    }
+const formatDay = (date) => new Date(date).toISOString().slice(0, 10);
+
+const BOOKING_FIELDS = [
+  'guest',
+  'numberOfGuests',
+  'totalAmount',
+  'specialRequests',
+  'notes',
+  'paymentStatus',
+  'paymentMethod',
+  'source',
+];
 
-    // Calculate total amount (simplified - in a real app, you'd have more complex pricing logic)
-    const nights = Math.ceil((new Date(checkOut) - new Date(checkIn)) / (1000 * 60 * 60 * 24));
-    const totalAmount = room.price * nights;
+// Error for the stay that already holds the room, or null if it is free
+const checkAvailability = async (room, checkIn, checkOut, excludeBookingId) => {
+  const conflict = await Booking.findConflict(room._id, checkIn, checkOut, excludeBookingId);
+  if (!conflict) return null;
 
-    // Create booking
-    const booking = await Booking.create({
-      ...req.body,
-      hotel: hotelId,
-      room: roomId,
-      totalAmount,
-    });
+  return new ErrorResponse(
+    `Room ${room.number} is already booked for ${conflict.guest.name} from ${formatDay(conflict.checkIn)} to ${formatDay(conflict.checkOut)}`,
+    409
+  );
+};
 
-    // Generate QR code for guest access
-    const qrCodeData = {
-      bookingId: booking._id,
-      hotelId,
-      roomId,
-      guestName: booking.guest.name,
-      checkIn: booking.checkIn,
-      checkOut: booking.checkOut,
-    };
+// Error for a room another request is booking right now
+const roomBusyError = (room) =>
+  new ErrorResponse(`Room ${room.number} is being booked by someone else; please try again`, 409);
 
-    const qrCodeUrl = await QRCode.toDataURL(JSON.stringify(qrCodeData));
+// @desc    Rooms and their bookings for a range of days
+// @route   GET /api/bookings/calendar?from=&to=
+// @access  Private
+exports.getCalendar = async (req, res, next) => {
+  try {
+    const from = startOfDay(req.query.from && !Number.isNaN(Date.parse(req.query.from)) ? req.query.from : Date.now());
+    const to =
+      req.query.to && !Number.isNaN(Date.parse(req.query.to))
+        ? startOfDay(req.query.to)
+        : new Date(from.getTime() + 14 * DAY_MS);
+
+    if (to <= from) {
+      return next(new ErrorResponse('The end date must be after the start date', 400));
+    }
+    if ((to - from) / DAY_MS > MAX_CALENDAR_DAYS) {
+      return next(new ErrorResponse(`The calendar can show up to ${MAX_CALENDAR_DAYS} days at once`, 400));
+    }
 
-    res.status(201).json({
+    const [rooms, bookings] = await Promise.all([
+      Room.find({ isActive: true })
+        .select('number type floor status')
+        .collation({ locale: 'en', numericOrdering: true })
+        .sort({ floor: 1, number: 1 }),
+      Booking.find({
+        status: { $in: ROOM_HOLDING_BOOKING_STATUSES },
+        checkIn: { $lt: to },
+        checkOut: { $gt: from },
+      }).sort({ checkIn: 1 }),
+    ]);
+
+    res.status(200).json({
       success: true,
       data: {
-        ...booking.toObject(),
-        qrCodeUrl,
+        from,
+        to,
+        rooms,
+        bookings,
       },
     });
   } catch (error) {
-    console.error('Create booking error:', error);
-    res.status(500).json({ message: 'Server error' });
+    console.error('Get booking calendar error:', error);
+    next(new ErrorResponse('Server error', 500));
   }
 };
 
-// @desc    Get all bookings for a hotel
-// @route   GET /api/hotels/:hotelId/bookings
+// @desc    Get bookings, optionally those overlapping a range of days
+// @route   GET /api/bookings?status=&from=&to=
 // @access  Private
-exports.getBookings = async (req, res) => {
+exports.getBookings = async (req, res, next) => {
   try {
-    // Check if user is hotel manager
-    const hotel = await Hotel.findById(req.params.hotelId);
-    if (!hotel) {
-      return res.status(404).json({
-        success: false,
-        message: `Hotel not found with id of ${req.params.hotelId}`,
-      });
+    const query = {};
+    if (BOOKING_STATUSES.includes(req.query.status)) query.status = req.query.status;
+    if (req.query.from && !Number.isNaN(Date.parse(req.query.from))) {
+      query.checkOut = { $gt: startOfDay(req.query.from) };
     }
-
-    if (hotel.manager.toString() !== req.user.id) {
-      return res.status(401).json({
-        success: false,
-        message: `User ${req.user.id} is not authorized to view these bookings`,
-      });
+    if (req.query.to && !Number.isNaN(Date.parse(req.query.to))) {
+      query.checkIn = { $lt: startOfDay(req.query.to) };
     }
 
-    const bookings = await Booking.find({ hotel: req.params.hotelId })
+    const bookings = await Booking.find(query)
       .sort({ checkIn: -1 })
-      .populate('room', 'number type');
+      .populate('room', 'number type floor status');
 
-    res.json({
+    res.status(200).json({
       success: true,
       count: bookings.length,
       data: bookings,
     });
   } catch (error) {
     console.error('Get bookings error:', error);
-    res.status(500).json({ message: 'Server error' });
+    next(new ErrorResponse('Server error', 500));
   }
 };
 
 // @desc    Get single booking
 // @route   GET /api/bookings/:id
-// @access  Public (with token)
-exports.getBooking = async (req, res) => {
+// @access  Private
+exports.getBooking = async (req, res, next) => {
   try {
-    const booking = await Booking.findById(req.params.id)
-      .populate('hotel', 'name location contact')
-      .populate('room', 'number type price');
+    const booking = await Booking.findById(req.params.id).populate('room', 'number type floor status');
 
     if (!booking) {
-      return res.status(404).json({
-        success: false,
-        message: `Booking not found with id of ${req.params.id}`,
-      });
-    }
-
-    // If not a guest accessing their own booking, check if user is hotel manager
-    if (req.user) {
-      const hotel = await Hotel.findById(booking.hotel);
-      if (hotel.manager.toString() !== req.user.id) {
-        return res.status(401).json({
-          success: false,
-          message: `User ${req.user.id} is not authorized to view this booking`,
-        });
-      }
+      return next(new ErrorResponse(`Booking not found with id of ${req.params.id}`, 404));
     }
 
-    res.json({
+    res.status(200).json({
       success: true,
       data: booking,
     });
   } catch (error) {
     console.error('Get booking error:', error);
-    res.status(500).json({ message: 'Server error' });
+    next(new ErrorResponse('Server error', 500));
   }
 };
 
-// @desc    Update booking
-// @route   PUT /api/bookings/:id
-// @access  Private
-exports.updateBooking = async (req, res) => {
+// @desc    Create a booking, e.g. by dragging across the calendar
+// @route   POST /api/bookings
+// @access  Private/Manager
+exports.createBooking = async (req, res, next) => {
   try {
-    let booking = await Booking.findById(req.params.id);
-
-    if (!booking) {
-      return res.status(404).json({
-        success: false,
-        message: `Booking not found with id of ${req.params.id}`,
-      });
+    const room = await Room.findOne({ _id: req.body.room, isActive: true });
+    if (!room) {
+      return next(new ErrorResponse(`Room not found with id of ${req.body.room}`, 404));
     }
 
-    // Check if user is hotel manager
-    const hotel = await Hotel.findById(booking.hotel);
-    if (hotel.manager.toString() !== req.user.id) {
-      return res.status(401).json({
-        success: false,
-        message: `User ${req.user.id} is not authorized to update this booking`,
-      });
+    const checkIn = startOfDay(req.body.checkIn);
+    const checkOut = startOfDay(req.body.checkOut);
+    if (checkOut <= checkIn) {
+      return next(new ErrorResponse('Check-out must be at least one night after check-in', 400));
     }
 
-    // Check room availability if dates or room are being updated
-    if (req.body.checkIn || req.body.checkOut || req.body.room) {
-      const isAvailable = await Booking.isRoomAvailable(
-        req.body.room || booking.room,
-        req.body.checkIn || booking.checkIn,
-        req.body.checkOut || booking.checkOut,
-        booking._id
-      );
-
-      if (!isAvailable) {
-        return res.status(400).json({
-          success: false,
-          message: 'Room is not available for the selected dates',
-        });
-      }
-    }
+    // Hold the room from the availability check until the booking is written
+    const lockToken = await RoomLock.acquire(room._id);
+    if (!lockToken) return next(roomBusyError(room));
 
-    // Update booking
-    booking = await Booking.findByIdAndUpdate(req.params.id, req.body, {
-      new: true,
-      runValidators: true,
-    });
+    const booking = new Booking({ room: room._id, checkIn, checkOut });
+    try {
+      const conflict = await checkAvailability(room, checkIn, checkOut);
+      if (conflict) return next(conflict);
 
-    res.json({
+      BOOKING_FIELDS.forEach((field) => {
+        if (req.body[field] !== undefined) booking[field] = req.body[field];
+      });
+      await booking.save();
+    } finally {
+      await RoomLock.release(room._id, lockToken);
+    }
+    await booking.populate('room', 'number type floor status');
+
+    res.status(201).json({
       success: true,
       data: booking,
     });
   } catch (error) {
-    console.error('Update booking error:', error);
-    res.status(500).json({ message: 'Server error' });
+    console.error('Create booking error:', error);
+    // Bad enum values and the like are reported by the error handler
+    if (error.name === 'ValidationError') return next(error);
+    next(new ErrorResponse('Server error', 500));
   }
 };
 
-// @desc    Cancel booking
-// @route   DELETE /api/bookings/:id
-// @access  Public (with token or booking reference)
-exports.cancelBooking = async (req, res) => {
+// @desc    Update a booking; moving it to other dates or another room is
+//          checked against the room's other bookings
+// @route   PUT /api/bookings/:id
+// @access  Private/Manager
+exports.updateBooking = async (req, res, next) => {
   try {
     const booking = await Booking.findById(req.params.id);
 
     if (!booking) {
-      return res.status(404).json({
-        success: false,
-        message: `Booking not found with id of ${req.params.id}`,
-      });
+      return next(new ErrorResponse(`Booking not found with id of ${req.params.id}`, 404));
     }
 
-    // Check if user is authorized (either hotel manager or guest with booking reference)
-    if (req.user) {
-      const hotel = await Hotel.findById(booking.hotel);
-      if (hotel.manager.toString() !== req.user.id) {
-        return res.status(401).json({
-          success: false,
-          message: `User ${req.user.id} is not authorized to cancel this booking`,
-        });
+    const roomId = req.body.room || String(booking.room);
+    const checkIn = req.body.checkIn ? startOfDay(req.body.checkIn) : booking.checkIn;
+    const checkOut = req.body.checkOut ? startOfDay(req.body.checkOut) : booking.checkOut;
+    const isMoving =
+      roomId !== String(booking.room) ||
+      checkIn.getTime() !== booking.checkIn.getTime() ||
+      checkOut.getTime() !== booking.checkOut.getTime();
+
+    let lockedRoom = null;
+    let lockToken = null;
+    if (isMoving) {
+      if (!['confirmed', 'checked_in'].includes(booking.status)) {
+        return next(new ErrorResponse('Only upcoming and current stays can be moved', 400));
       }
-    } else if (req.body.bookingReference !== booking.bookingNumber) {
-      return res.status(401).json({
-        success: false,
-        message: 'Invalid booking reference',
-      });
+      // The guest is already in the room, so only their departure can change
+      if (
+        booking.status === 'checked_in' &&
+        (roomId !== String(booking.room) || checkIn.getTime() !== booking.checkIn.getTime())
+      ) {
+        return next(new ErrorResponse('A checked-in stay can only be extended or shortened', 400));
+      }
+      if (checkOut <= checkIn) {
+        return next(new ErrorResponse('Check-out must be at least one night after check-in', 400));
+      }
+
+      const room = await Room.findOne({ _id: roomId, isActive: true });
+      if (!room) {
+        return next(new ErrorResponse(`Room not found with id of ${roomId}`, 404));
+      }
+
+      // Hold the room from the availability check until the move is written
+      lockToken = await RoomLock.acquire(room._id);
+      if (!lockToken) return next(roomBusyError(room));
+      lockedRoom = room;
     }
 
-    // Update booking status to cancelled
-    booking.status = 'cancelled';
-    booking.cancellationDate = Date.now();
-    if (req.body.reason) {
-      booking.cancellationReason = req.body.reason;
+    try {
+      if (lockedRoom) {
+        const conflict = await checkAvailability(lockedRoom, checkIn, checkOut, booking._id);
+        if (conflict) return next(conflict);
+
+        booking.room = lockedRoom._id;
+        booking.checkIn = checkIn;
+        booking.checkOut = checkOut;
+      }
+
+      // Merged so changing the guest's phone doesn't drop their email
+      BOOKING_FIELDS.forEach((field) => {
+        if (req.body[field] !== undefined) booking.set(field, req.body[field], { merge: true });
+      });
+      await booking.save();
+    } finally {
+      if (lockToken) await RoomLock.release(lockedRoom._id, lockToken);
     }
-    await booking.save();
+    await booking.populate('room', 'number type floor status');
 
-    res.json({
+    res.status(200).json({
       success: true,
-      data: {},
+      data: booking,
     });
   } catch (error) {
-    console.error('Cancel booking error:', error);
-    res.status(500).json({ message: 'Server error' });
+    console.error('Update booking error:', error);
+    // Bad enum values and the like are reported by the error handler
+    if (error.name === 'ValidationError') return next(error);
+    next(new ErrorResponse('Server error', 500));
   }
 };
 
-// @desc    Generate guest access link/QR code
-// @route   GET /api/hotels/:hotelId/guest-link
-// @access  Public
-exports.generateGuestLink = async (req, res) => {
+// @desc    Check a guest in or out, or cancel or mark a no-show. Checking in
+//          marks the room occupied; checking out frees it and rotates its QR code.
+// @route   PUT /api/bookings/:id/status
+// @access  Private/Manager
+exports.updateBookingStatus = async (req, res, next) => {
   try {
-    const { hotelId } = req.params;
-    const { roomId, checkIn, checkOut, guestName } = req.query;
-
-    // Basic validation
-    if (!roomId || !checkIn || !checkOut || !guestName) {
-      return res.status(400).json({
-        success: false,
-        message: 'Please provide roomId, checkIn, checkOut, and guestName',
-      });
+    const { status, requirePin, reason } = req.body;
+    const booking = await Booking.findById(req.params.id);
+
+    if (!booking) {
+      return next(new ErrorResponse(`Booking not found with id of ${req.params.id}`, 404));
     }
 
-    // Generate a unique token for guest access
-    const token = require('crypto').randomBytes(32).toString('hex');
-    const expiresAt = new Date();
-    expiresAt.setHours(expiresAt.getHours() + 24); // Token expires in 24 hours
+    if (!BOOKING_TRANSITIONS[booking.status].includes(status)) {
+      return next(new ErrorResponse(`A ${booking.status} booking cannot be marked ${status}`, 400));
+    }
 
-    // In a real app, you'd store this token in the database with an expiration time
-    // and associate it with the booking
+    const room = await Room.findOne({ _id: booking.room, isActive: true });
 
-    // Generate QR code
-    const qrCodeData = {
-      hotelId,
-      roomId,
-      guestName,
-      checkIn,
-      checkOut,
-      token,
-    };
+    if (status === 'checked_in') {
+      if (!room) {
+        return next(new ErrorResponse('The booked room no longer exists', 404));
+      }
+      // Arriving on the day is fine; earlier would open the room before the stay
+      if (startOfDay(Date.now()) < booking.checkIn) {
+        return next(new ErrorResponse(`This stay starts on ${formatDay(booking.checkIn)}; the guest can't check in before then`, 400));
+      }
+      if (room.status !== 'available') {
+        return next(new ErrorResponse(`Room ${room.number} is ${room.status}; free it before checking in`, 409));
+      }
 
-    const qrCodeUrl = await QRCode.toDataURL(JSON.stringify(qrCodeData));
+      room.status = 'occupied';
+      startStay(room, requirePin);
+      await room.save();
+      booking.checkedInAt = new Date();
+    } else if (status === 'completed') {
+      if (room && room.status === 'occupied') {
+        room.status = 'available';
+        await endStay(room, req.user);
+        await room.save();
+      }
 
-    // Generate a shareable link
-    const baseUrl = process.env.FRONTEND_URL || 'https://hotelflow-frontend-three.vercel.app';
-    const guestLink = `${baseUrl}/guest/checkin?token=${token}`;
+      // Leaving early frees the remaining nights
+      const now = new Date();
+      booking.checkedOutAt = now;
+      if (now < booking.checkOut) {
+        booking.checkOut = new Date(Math.max(startOfDay(now).getTime(), booking.checkIn.getTime() + DAY_MS));
+      }
+    } else if (status === 'cancelled') {
+      booking.cancellationDate = new Date();
+      if (reason) booking.cancellationReason = reason;
+    }
 
-    res.json({
+    booking.status = status;
+    await booking.save();
+    await booking.populate('room', 'number type floor status stayPin');
+
+    res.status(200).json({
       success: true,
-      data: {
-        qrCodeUrl,
-        guestLink,
-        expiresAt,
-      },
+      data: booking,
     });
   } catch (error) {
-    console.error('Generate guest link error:', error);
-    res.status(500).json({ message: 'Server error' });
+    console.error('Update booking status error:', error);
+    next(new ErrorResponse('Server error', 500));
   }
 };
 
-// Validation middleware for booking
+const handleValidation = (req, res, next) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      errors: errors.array(),
+    });
+  }
+  next();
+};
+
+// Fields shared by new bookings and updates; all optional here
+const bookingDetailRules = [
+  body('guest.email')
+    .optional({ values: 'falsy' })
+    .isEmail()
+    .withMessage('Please include a valid email'),
+
+  body('numberOfGuests')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Number of guests must be at least 1')
+    .toInt(),
+
+  body('totalAmount')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('Total amount cannot be negative')
+    .toFloat(),
+
+  body('specialRequests')
+    .optional()
+    .isLength({ max: 500 })
+    .withMessage('Special requests cannot exceed 500 characters'),
+
+  body('notes')
+    .optional()
+    .isLength({ max: 1000 })
+    .withMessage('Notes cannot exceed 1000 characters'),
+];
+
+// Validation middleware for new bookings
 exports.validateBooking = [
-  body('guest.name', 'Guest name is required').not().isEmpty(),
-  body('guest.email', 'Please include a valid email').isEmail(),
-  body('room', 'Room ID is required').not().isEmpty(),
-  body('checkIn', 'Check-in date is required').isISO8601(),
-  body('checkOut', 'Check-out date is required').isISO8601(),
-  body('numberOfGuests', 'Number of guests is required').isInt({ min: 1 }),
-  (req, res, next) => {
-    const errors = validationResult(req);
-    if (!errors.isEmpty()) {
-      return res.status(400).json({ errors: errors.array() });
-    }
-    next();
-  },
+  body('room').isMongoId().withMessage('Room is required'),
+  body('guest.name').trim().notEmpty().withMessage('Guest name is required'),
+  body('checkIn').isISO8601().withMessage('Check-in date is required'),
+  body('checkOut').isISO8601().withMessage('Check-out date is required'),
+  ...bookingDetailRules,
+  handleValidation,
+];
+
+// Validation middleware for booking updates, e.g. a stay dragged to new dates
+exports.validateBookingUpdate = [
+  body('room').optional().isMongoId().withMessage('Invalid room'),
+  body('guest.name').optional().trim().notEmpty().withMessage('Guest name is required'),
+  body('checkIn').optional().isISO8601().withMessage('Invalid check-in date'),
+  body('checkOut').optional().isISO8601().withMessage('Invalid check-out date'),
+  ...bookingDetailRules,
+  handleValidation,
+];
+
+// Validation middleware for booking status changes
+exports.validateBookingStatus = [
+  body('status').isIn(BOOKING_STATUSES).withMessage('Invalid booking status'),
+  body('requirePin')
+    .optional()
+    .isBoolean()
+    .withMessage('requirePin must be true or false')
+    .toBoolean(),
+  body('reason')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Reason cannot exceed 500 characters'),
+  handleValidation,
 ];
@@ -0,0 +1,169 @@
+const CannedResponse = require('../models/CannedResponse');
+const Ticket = require('../models/Ticket');
+const { body, validationResult } = require('express-validator');
+const mongoose = require('mongoose');
+const ErrorResponse = require('../utils/errorResponse');
+const { TICKET_CATEGORIES } = require('../utils/constants');
+const { TICKET_STATUSES } = require('../utils/ticketLifecycle');
+const { ticketScope } = require('../utils/accessControl');
+const { TEMPLATE_VARIABLES, renderTemplate } = require('../services/cannedResponses');
+
+const RESPONSE_FIELDS = ['title', 'body', 'category', 'actions'];
+
+const pickResponseFields = (source) =>
+  RESPONSE_FIELDS.reduce((fields, field) => {
+    if (source[field] !== undefined) fields[field] = source[field];
+    return fields;
+  }, {});
+
+// @desc    Get the hotel's canned responses, filled in for a ticket if one is given
+// @route   GET /api/canned-responses
+// @access  Private
+exports.getCannedResponses = async (req, res, next) => {
+  try {
+    const filter = { manager: req.user.managerId };
+    let ticket = null;
+
+    if (req.query.ticketId) {
+      ticket = await Ticket.findOne(ticketScope(req.user, { _id: req.query.ticketId }));
+      if (!ticket) {
+        return next(new ErrorResponse('Ticket not found', 404));
+      }
+      filter.category = { $in: [ticket.category, null] };
+    }
+
+    const responses = await CannedResponse.find(filter).sort('-usageCount title');
+
+    const data = responses.map((response) => ({
+      ...response.toObject(),
+      isMacro: response.isMacro(),
+      ...(ticket && { rendered: renderTemplate(response.body, ticket, { staffName: req.user.name }) }),
+    }));
+
+    res.status(200).json({
+      success: true,
+      count: data.length,
+      variables: TEMPLATE_VARIABLES,
+      data,
+    });
+  } catch (error) {
+    console.error('Get canned responses error:', error);
+    next(new ErrorResponse('Server error', 500));
+  }
+};
+
+// @desc    Add a canned response or macro
+// @route   POST /api/canned-responses
+// @access  Private/Manager
+exports.createCannedResponse = async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array(),
+      });
+    }
+
+    const response = await CannedResponse.create({
+      ...pickResponseFields(req.body),
+      manager: req.user.managerId,
+      createdBy: req.user.userId,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: response,
+    });
+  } catch (error) {
+    console.error('Create canned response error:', error);
+    next(new ErrorResponse('Server error', 500));
+  }
+};
+
+// @desc    Update a canned response or macro
+// @route   PUT /api/canned-responses/:id
+// @access  Private/Manager
+exports.updateCannedResponse = async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array(),
+      });
+    }
+
+    const response = await CannedResponse.findOneAndUpdate(
+      { _id: req.params.id, manager: req.user.managerId },
+      pickResponseFields(req.body),
+      { new: true, runValidators: true }
+    );
+
+    if (!response) {
+      return next(new ErrorResponse('Canned response not found', 404));
+    }
+
+    res.status(200).json({
+      success: true,
+      data: response,
+    });
+  } catch (error) {
+    console.error('Update canned response error:', error);
+    next(new ErrorResponse('Server error', 500));
+  }
+};
+
+// @desc    Delete a canned response or macro
+// @route   DELETE /api/canned-responses/:id
+// @access  Private/Manager
+exports.deleteCannedResponse = async (req, res, next) => {
+  try {
+    const response = await CannedResponse.findOneAndDelete({
+      _id: req.params.id,
+      manager: req.user.managerId,
+    });
+
+    if (!response) {
+      return next(new ErrorResponse('Canned response not found', 404));
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {},
+    });
+  } catch (error) {
+    console.error('Delete canned response error:', error);
+    next(new ErrorResponse('Server error', 500));
+  }
+};
+
+// Validation middleware for canned responses
+exports.validateCannedResponse = [
+  body('title')
+    .if((value, { req }) => req.method === 'POST' || value !== undefined)
+    .trim()
+    .notEmpty()
+    .withMessage('Title is required'),
+
+  body('body')
+    .if((value, { req }) => req.method === 'POST' || value !== undefined)
+    .trim()
+    .notEmpty()
+    .withMessage('Response text is required'),
+
+  body('category')
+    .optional({ nullable: true })
+    .isIn(TICKET_CATEGORIES)
+    .withMessage('Invalid ticket category'),
+
+  body('actions.status')
+    .optional({ nullable: true })
+    .isIn(TICKET_STATUSES.filter((status) => status !== 'on_hold'))
+    .withMessage('Macros can move tickets to any status except on hold'),
+
+  body('actions.assignee')
+    .optional({ nullable: true })
+    .custom((assignee) => ['self', 'unassigned'].includes(assignee) || mongoose.isValidObjectId(assignee))
+    .withMessage('Assignee must be self, unassigned or a staff member'),
+];
@@ -1,40 +1,26 @@
-const axios = require("axios");
+const crypto = require("crypto");
+const mongoose = require("mongoose");
 const Ticket = require("../models/Ticket");
 const Room = require("../models/Room");
-
-// External API classification using your hotel classifier
-const classifyWithExternalAPI = async (message, roomNumber) => {
-  try {
-    console.log("🔍 Calling external classification API:", {
-      message,
-      roomNumber,
-    });
-
-    const response = await axios.post(
-      "https://hotel-classifier-api.onrender.com/classify",
-      {
-        guest_message: message,
-        room_number: roomNumber.toString(),
-      }
-    );
-
-    console.log("✅ External API response:", response.data);
-    return response.data;
-  } catch (error) {
-    console.error(
-      "❌ External classification API failed:",
-      error.response?.data || error.message
-    );
-    // Fallback response
-    return {
-      should_create_ticket: false,
-      categories: [],
-      confidence: 0.0,
-      reasoning: "Classification service unavailable",
-      suggested_priority: "low",
-      estimated_completion_time: null,
-    };
-  }
+const ChatSession = require("../models/ChatSession");
+const ScanEvent = require("../models/ScanEvent");
+const ReplySuggestionFeedback = require("../models/ReplySuggestionFeedback");
+const { ticketScope } = require("../utils/accessControl");
+const { emitToTicket, emitToHotelBoard } = require("../utils/ticketRooms");
+const {
+  DUPLICATE_WINDOW_MINUTES,
+  REPLY_SUGGESTION_TYPES,
+} = require("../utils/constants");
+const { classifyMessage } = require("../services/classification");
+const { findKnowledgeAnswer } = require("../services/knowledgeBase");
+const { suggestReplies } = require("../services/replySuggestions");
+
+// Map the classifier's urgency wording onto our ticket priorities
+const normalizePriority = (urgency) => {
+  const value = String(urgency || "").toLowerCase();
+  if (["high", "urgent", "critical", "emergency"].includes(value)) return "high";
+  if (value === "low") return "low";
+  return "medium";
 };
 
 // @desc    Handle AI chat for guests
@@ -51,11 +37,29 @@ exports.chatWithAI = async (req, res) => {
       });
     }
 
-    // Get classification from your external API
-    const classification = await classifyWithExternalAPI(
-      message,
-      guestInfo.roomNumber
-    );
+    // A guest session pins the exact room, and with it the hotel; a bare room
+    // number could belong to any hotel, so anonymous chats get no hotel context
+    const room = req.guest ? await Room.findById(req.guest.roomId) : null;
+    const hotelId = room ? room.hotel : null;
+
+    // Questions the hotel has already answered never need staff; everything
+    // else is classified with the hotel's configured providers
+    const knowledgeAnswer = await findKnowledgeAnswer(message, hotelId);
+    const classification = knowledgeAnswer
+      ? {
+          provider: "knowledge_base",
+          reply: knowledgeAnswer.answer,
+          should_create_ticket: false,
+          categories: [],
+          confidence: knowledgeAnswer.score,
+          reasoning: `Answered from the knowledge base: "${knowledgeAnswer.question}"`,
+          suggested_priority: "low",
+          estimated_completion_time: null,
+        }
+      : await classifyMessage(message, {
+          roomNumber: guestInfo.roomNumber,
+          hotelId,
+        });
 
     // Use the reply field from the API response, fallback to default if not available
     let aiResponse = classification.reply || "I'll help you with that right away!";
@@ -75,15 +79,31 @@ exports.chatWithAI = async (req, res) => {
       }
     }
 
+    // Keep the transcript so it survives a reload and staff can read it later
+    let chatSessionId = null;
+    if (req.guest) {
+      try {
+        const chatSession = await ChatSession.findOrCreateForGuest(req.guest);
+        chatSession.addExchange(message, classification, aiResponse);
+        await chatSession.save();
+        chatSessionId = chatSession._id;
+        await ScanEvent.recordChat(req.guest);
+      } catch (error) {
+        console.error("Save chat transcript error:", error);
+      }
+    }
+
     res.json({
       success: true,
       message: aiResponse,
+      chatSessionId,
       shouldCreateTicket: classification.should_create_ticket,
       categories: classification.categories,
       confidence: classification.confidence,
       reasoning: classification.reasoning,
       priority: classification.suggested_priority,
       estimatedCompletion: classification.estimated_completion_time,
+      knowledgeAnswer,
       timestamp: new Date(),
     });
   } catch (error) {
@@ -97,7 +117,7 @@ exports.chatWithAI = async (req, res) => {
 
 // @desc    Create ticket from guest chat
 // @route   POST /api/tickets/guest
-// @access  Public
+// @access  Private/Guest
 exports.createGuestTicket = async (req, res) => {
   try {
     const {
@@ -105,6 +125,8 @@ exports.createGuestTicket = async (req, res) => {
       guestInfo,
       initialMessage,
       conversationHistory = [],
+      // Set when the guest has already been shown their open requests and wants a new one
+      allowDuplicate = false,
     } = req.body;
 
     if (!roomNumber || !guestInfo || !initialMessage) {
@@ -114,11 +136,20 @@ exports.createGuestTicket = async (req, res) => {
       });
     }
 
-    // Get classification from your external API
-    const classification = await classifyWithExternalAPI(
-      initialMessage,
-      roomNumber
-    );
+    // Find the room to get the manager; the guest session pins the exact room
+    const room = await Room.findOne({ _id: req.guest.roomId, number: roomNumber });
+    if (!room) {
+      return res.status(404).json({
+        success: false,
+        message: "Room not found",
+      });
+    }
+
+    // Classify with the hotel's configured providers
+    const classification = await classifyMessage(initialMessage, {
+      roomNumber,
+      hotelId: room.hotel,
+    });
 
     // Check if ticket should be created
     if (!classification.should_create_ticket) {
@@ -131,21 +162,52 @@ exports.createGuestTicket = async (req, res) => {
       });
     }
 
-    // Find the room to get the manager
-    const room = await Room.findOne({ number: roomNumber });
-    if (!room) {
-      return res.status(404).json({
-        success: false,
-        message: "Room not found",
-      });
-    }
-
-    // Create separate tickets for each category
+    // Create separate tickets for each category, folding repeats into open ones
     const createdTickets = [];
+    const mergedTickets = [];
+    const requestGroupId = crypto.randomUUID();
+    const duplicateSince = new Date(
+      Date.now() - DUPLICATE_WINDOW_MINUTES * 60 * 1000
+    );
+    const io = req.app && req.app.get("io");
 
     if (classification.categories && classification.categories.length > 0) {
       for (const categoryInfo of classification.categories) {
         try {
+          const existing = allowDuplicate
+            ? null
+            : await Ticket.findOpenDuplicate(
+                room,
+                req.guest.sessionId,
+                categoryInfo.category,
+                duplicateSince
+              );
+
+          if (existing) {
+            existing.messages.push({
+              content: initialMessage,
+              sender: "guest",
+              senderName: guestInfo.name,
+            });
+            existing.markRead("guest");
+            await existing.save();
+            await existing.populate("room");
+            mergedTickets.push(existing);
+
+            if (io) {
+              const message = existing.messages[existing.messages.length - 1];
+              emitToTicket(io, existing, "newMessage");
+              emitToHotelBoard(io, existing, "guestMessage", { ticket: existing, message });
+              if (existing.assignedTo) {
+                io.to(`user_${existing.assignedTo}`).emit("guestMessage", {
+                  ticket: existing,
+                  message,
+                });
+              }
+            }
+            continue;
+          }
+
           const ticket = await Ticket.create({
             room: room._id,
             roomNumber: roomNumber,
@@ -156,7 +218,19 @@ exports.createGuestTicket = async (req, res) => {
               phone: guestInfo.phone || "",
             },
             status: "raised",
+            hotel: room.hotel,
             manager: room.manager,
+            guestSession: req.guest.sessionId,
+            requestGroupId,
+            classification: {
+              provider: classification.provider,
+              guestMessage: initialMessage,
+              category: categoryInfo.category,
+              predictedCategories: classification.categories.map(
+                (cat) => cat.category
+              ),
+              confidence: classification.confidence,
+            },
             subject: `${categoryInfo.category.toUpperCase()} - Room ${roomNumber}`,
             messages: [
               {
@@ -166,8 +240,13 @@ exports.createGuestTicket = async (req, res) => {
                 timestamp: new Date().toISOString(),
               },
             ],
-            priority: categoryInfo.urgency || "medium",
-            estimatedCompletion: classification.estimated_completion_time,
+            priority: normalizePriority(
+              categoryInfo.urgency || classification.suggested_priority
+            ),
+            estimatedCompletion:
+              classification.estimated_completion_time != null
+                ? String(classification.estimated_completion_time)
+                : null,
             confidence: classification.confidence,
           });
 
@@ -176,9 +255,8 @@ exports.createGuestTicket = async (req, res) => {
           createdTickets.push(ticket);
 
           // Emit real-time notification to managers for each ticket
-          if (req.app && req.app.get("io")) {
-            const io = req.app.get("io");
-            io.emit("newTicket", {
+          if (io) {
+            emitToHotelBoard(io, ticket, "newTicket", {
               ticket,
               notification: {
                 title: "New Service Request",
@@ -196,12 +274,39 @@ exports.createGuestTicket = async (req, res) => {
       }
     }
 
-    res.status(201).json({
+    // Tie the new requests back to the conversation that raised them
+    if (createdTickets.length > 0) {
+      await ChatSession.linkTickets(
+        req.guest,
+        createdTickets.map((ticket) => ticket._id)
+      );
+      await ScanEvent.recordTicket(req.guest, createdTickets[0]._id).catch((error) =>
+        console.error("Record scan ticket error:", error)
+      );
+    }
+
+    // Let the guest's tracker pick up the new requests
+    if (createdTickets.length > 0 && req.app && req.app.get("io")) {
+      req.app
+        .get("io")
+        .to(`guest_${req.guest.sessionId}`)
+        .emit("guestTicketsCreated", createdTickets.map((ticket) => ticket._id));
+    }
+
+    res.status(createdTickets.length > 0 ? 201 : 200).json({
       success: true,
-      message: `Service request${createdTickets.length > 1 ? "s" : ""} created successfully`,
+      message:
+        createdTickets.length > 0
+          ? `Service request${createdTickets.length > 1 ? "s" : ""} created successfully`
+          : "Added to your existing request",
       data: createdTickets.length === 1 ? createdTickets[0] : createdTickets,
       ticketCount: createdTickets.length,
-      categories: classification.categories.map((cat) => cat.category),
+      categories: createdTickets.map((ticket) => ticket.category),
+      requestGroupId: createdTickets.length > 0 ? requestGroupId : null,
+      merged: mergedTickets.map((ticket) => ({
+        ticketId: ticket._id,
+        category: ticket.category,
+      })),
       shouldCreateTicket: true,
     });
   } catch (error) {
@@ -213,19 +318,90 @@ exports.createGuestTicket = async (req, res) => {
   }
 };
 
-// @desc    Get all tickets
+// @desc    Get the guest's conversation with the assistant
+// @route   GET /api/chat/session
+// @access  Guest
+exports.getChatSession = async (req, res) => {
+  try {
+    const chatSession = await ChatSession.findOne({
+      sessionId: req.guest.sessionId,
+      room: req.guest.roomId,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: chatSession,
+    });
+  } catch (error) {
+    console.error("Get chat session error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to load conversation",
+    });
+  }
+};
+
+// @desc    Get the assistant conversation a ticket was raised from
+// @route   GET /api/tickets/:id/transcript
+// @access  Private
+exports.getTicketTranscript = async (req, res) => {
+  try {
+    const ticket = await Ticket.findOne(
+      ticketScope(req.user, { _id: req.params.id })
+    ).select("_id");
+
+    if (!ticket) {
+      return res.status(404).json({
+        success: false,
+        message: "Ticket not found",
+      });
+    }
+
+    const chatSession = await ChatSession.findOne({
+      tickets: ticket._id,
+      manager: req.user.managerId,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: chatSession,
+    });
+  } catch (error) {
+    console.error("Get ticket transcript error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to load conversation",
+    });
+  }
+};
+
+// @desc    Get all tickets visible to the current staff member
 // @route   GET /api/tickets
-// @access  Public
+// @access  Private
 exports.getTickets = async (req, res) => {
   try {
-    const { status, category } = req.query;
-
-    let query = {};
-    if (status) query.status = status;
-    if (category) query.category = category;
+    const { status, category, assignedTo } = req.query;
+
+    let filters = {};
+    if (status) filters.status = status;
+    if (category) filters.category = category;
+    // "me" and "unassigned" are shortcuts for the two common queues
+    if (assignedTo === "me") filters.assignedTo = req.user.userId;
+    else if (assignedTo === "unassigned") filters.assignedTo = null;
+    else if (assignedTo) {
+      if (!mongoose.isValidObjectId(assignedTo)) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid assignee",
+        });
+      }
+      filters.assignedTo = assignedTo;
+    }
+    const query = ticketScope(req.user, filters);
 
     const tickets = await Ticket.find(query)
       .populate("room")
+      .populate("assignedTo", "name email role")
       .sort({ createdAt: -1 });
 
     res.json({
@@ -243,13 +419,15 @@ exports.getTickets = async (req, res) => {
 
 // @desc    Update ticket status
 // @route   PUT /api/tickets/:id
-// @access  Public
+// @access  Private
 exports.updateTicket = async (req, res) => {
   try {
     const { id } = req.params;
-    const { status, response } = req.body;
+    const { status, response, reason } = req.body;
 
-    const ticket = await Ticket.findById(id).populate("room");
+    const ticket = await Ticket.findOne(ticketScope(req.user, { _id: id }))
+      .populate("room")
+      .populate("assignedTo", "name email role");
 
     if (!ticket) {
       return res.status(404).json({
@@ -258,9 +436,26 @@ exports.updateTicket = async (req, res) => {
       });
     }
 
-    // Update ticket status
-    if (status) {
-      ticket.status = status;
+    // Update ticket status through the lifecycle rules
+    if (status && status !== ticket.status) {
+      if (!ticket.canTransitionTo(status)) {
+        return res.status(400).json({
+          success: false,
+          message: `Cannot move a ticket from ${ticket.status} to ${status}`,
+        });
+      }
+      if (status === "on_hold" && !reason) {
+        return res.status(400).json({
+          success: false,
+          message: "A reason is required to put a ticket on hold",
+        });
+      }
+      ticket.transitionTo(status, {
+        actorType: "staff",
+        actor: req.user.userId,
+        actorName: req.user.name,
+        reason: reason || null,
+      });
     }
 
     // Add response message if provided
@@ -268,17 +463,18 @@ exports.updateTicket = async (req, res) => {
       ticket.messages.push({
         content: response,
         sender: "manager",
-        senderName: "Hotel Staff",
+        senderName: req.user.name || "Hotel Staff",
         timestamp: new Date().toISOString(),
       });
     }
 
     await ticket.save();
 
-    // Emit real-time update
+    // Emit real-time update; a reply has to reach the guest's open thread too
     if (req.app && req.app.get("io")) {
       const io = req.app.get("io");
-      io.emit("ticketUpdated", ticket);
+      emitToTicket(io, ticket, response ? "newMessage" : "ticketUpdated");
+      emitToHotelBoard(io, ticket, "ticketUpdated");
     }
 
     res.json({
@@ -296,12 +492,12 @@ exports.updateTicket = async (req, res) => {
 
 // @desc    Delete ticket
 // @route   DELETE /api/tickets/:id
-// @access  Public
+// @access  Private/Manager
 exports.deleteTicket = async (req, res) => {
   try {
     const { id } = req.params;
 
-    const ticket = await Ticket.findById(id);
+    const ticket = await Ticket.findOne(ticketScope(req.user, { _id: id }));
 
     if (!ticket) {
       return res.status(404).json({
@@ -332,14 +528,16 @@ exports.managerAIAssist = async (req, res) => {
   try {
     const { ticketId, conversationHistory, requestType } = req.body;
 
-    if (!ticketId || !conversationHistory) {
+    if (!ticketId) {
       return res.status(400).json({
         success: false,
-        message: "Ticket ID and conversation history are required",
+        message: "Ticket ID is required",
       });
     }
 
-    const ticket = await Ticket.findById(ticketId).populate("room");
+    const ticket = await Ticket.findOne(
+      ticketScope(req.user, { _id: ticketId })
+    ).populate("room");
     if (!ticket) {
       return res.status(404).json({
         success: false,
@@ -347,12 +545,17 @@ exports.managerAIAssist = async (req, res) => {
       });
     }
 
-    // Simple fallback suggestion
-    const fallbackSuggestion = `Thank you for bringing this to our attention, ${ticket.guestInfo.name}. We understand your concern and will address this promptly within 30 minutes.`;
+    const suggestions = await suggestReplies(ticket, {
+      conversationHistory,
+      requestType,
+      staffName: req.user.name,
+    });
 
     res.json({
       success: true,
-      suggestion: fallbackSuggestion,
+      // First suggestion on its own for older clients
+      suggestion: suggestions.length > 0 ? suggestions[0].text : null,
+      suggestions,
       timestamp: new Date(),
     });
   } catch (error) {
@@ -363,3 +566,63 @@ exports.managerAIAssist = async (req, res) => {
     });
   }
 };
+
+// @desc    Rate a suggested reply or record what was sent from it
+// @route   POST /api/chat/manager-assist/feedback
+// @access  Private
+exports.rateReplySuggestion = async (req, res) => {
+  try {
+    const { ticketId, suggestionId, type, provider, text, rating, sentText } = req.body;
+
+    if (!ticketId || !suggestionId || !text || !REPLY_SUGGESTION_TYPES.includes(type)) {
+      return res.status(400).json({
+        success: false,
+        message: "Ticket, suggestion id, type and text are required",
+      });
+    }
+
+    if (rating !== undefined && !["up", "down", null].includes(rating)) {
+      return res.status(400).json({
+        success: false,
+        message: "Rating must be up, down or null",
+      });
+    }
+
+    const ticket = await Ticket.findOne(
+      ticketScope(req.user, { _id: ticketId })
+    ).select("_id");
+    if (!ticket) {
+      return res.status(404).json({
+        success: false,
+        message: "Ticket not found",
+      });
+    }
+
+    const update = {
+      ticket: ticket._id,
+      type,
+      provider: provider || null,
+      suggestion: text,
+      staff: req.user.userId,
+    };
+    if (rating !== undefined) update.rating = rating;
+    if (typeof sentText === "string" && sentText.trim()) update.sentText = sentText;
+
+    const feedback = await ReplySuggestionFeedback.findOneAndUpdate(
+      { manager: req.user.managerId, suggestionId },
+      update,
+      { new: true, upsert: true, runValidators: true, setDefaultsOnInsert: true }
+    );
+
+    res.status(200).json({
+      success: true,
+      data: feedback,
+    });
+  } catch (error) {
+    console.error("Rate reply suggestion error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to save feedback",
+    });
+  }
+};
@@ -0,0 +1,276 @@
+const ClassifierSettings = require('../models/ClassifierSettings');
+const ClassificationFeedback = require('../models/ClassificationFeedback');
+const Ticket = require('../models/Ticket');
+const { body, validationResult } = require('express-validator');
+const ErrorResponse = require('../utils/errorResponse');
+const { TICKET_CATEGORIES, CLASSIFIER_PROVIDERS } = require('../utils/constants');
+const { createClassifier } = require('../services/classification');
+const { csvCell } = require('../utils/csv');
+const { checkPublicHttpsUrl } = require('../utils/publicUrl');
+
+// @desc    Get the hotel's classification settings
+// @route   GET /api/classifier/settings
+// @access  Private
+exports.getSettings = async (req, res, next) => {
+  try {
+    const settings = await ClassifierSettings.getForHotel(req.user.hotelId);
+
+    res.status(200).json({
+      success: true,
+      data: settings,
+    });
+  } catch (error) {
+    console.error('Get classifier settings error:', error);
+    next(new ErrorResponse('Server error', 500));
+  }
+};
+
+// @desc    Update the hotel's classification settings
+// @route   PUT /api/classifier/settings
+// @access  Private/Manager
+exports.updateSettings = async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array(),
+      });
+    }
+
+    const update = {};
+    ['providers', 'remoteUrl', 'remoteTimeoutMs', 'keywords', 'minScore'].forEach((field) => {
+      if (req.body[field] !== undefined) update[field] = req.body[field];
+    });
+
+    await ClassifierSettings.findOneAndUpdate(
+      { manager: req.user.managerId, hotel: req.user.hotelId },
+      update,
+      {
+        new: true,
+        upsert: true,
+        runValidators: true,
+        setDefaultsOnInsert: true,
+      }
+    );
+
+    res.status(200).json({
+      success: true,
+      data: await ClassifierSettings.getForHotel(req.user.hotelId),
+    });
+  } catch (error) {
+    console.error('Update classifier settings error:', error);
+    next(new ErrorResponse('Server error', 500));
+  }
+};
+
+// @desc    Classify a sample message with the hotel's settings
+// @route   POST /api/classifier/preview
+// @access  Private
+exports.previewClassification = async (req, res, next) => {
+  try {
+    const { message } = req.body;
+
+    if (!message || typeof message !== 'string' || !message.trim()) {
+      return next(new ErrorResponse('Message is required', 400));
+    }
+
+    const settings = await ClassifierSettings.getForHotel(req.user.hotelId);
+    const result = await createClassifier(settings).classify(message.trim());
+
+    res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error('Preview classification error:', error);
+    next(new ErrorResponse('Server error', 500));
+  }
+};
+
+// Date format used to bucket the accuracy report
+const PERIOD_FORMATS = {
+  day: '%Y-%m-%d',
+  week: '%G-W%V',
+  month: '%Y-%m',
+};
+
+// Optional ?from=&to= query as a createdAt condition
+const dateRange = ({ from, to }) => {
+  const range = {};
+  if (from && !Number.isNaN(Date.parse(from))) range.$gte = new Date(from);
+  if (to && !Number.isNaN(Date.parse(to))) range.$lte = new Date(to);
+  return Object.keys(range).length > 0 ? { createdAt: range } : {};
+};
+
+// @desc    Export staff corrections as classifier training data
+// @route   GET /api/classifier/feedback/export
+// @access  Private/Manager
+exports.exportFeedback = async (req, res, next) => {
+  try {
+    const format = req.query.format === 'csv' ? 'csv' : 'json';
+
+    const feedback = await ClassificationFeedback.find({
+      hotel: req.user.hotelId,
+      ...dateRange(req.query),
+    })
+      .sort('createdAt')
+      .lean();
+
+    const examples = feedback.map((item) => ({
+      guest_message: item.guestMessage,
+      predicted_categories: item.predictedCategories,
+      confidence: item.confidence,
+      provider: item.provider,
+      previous_category: item.previousCategory,
+      corrected_category: item.correctedCategory,
+      corrected_at: item.createdAt,
+    }));
+
+    if (format === 'csv') {
+      const columns = Object.keys(examples[0] || {
+        guest_message: null,
+        predicted_categories: null,
+        confidence: null,
+        provider: null,
+        previous_category: null,
+        corrected_category: null,
+        corrected_at: null,
+      });
+      const rows = examples.map((example) =>
+        columns
+          .map((column) =>
+            csvCell(
+              Array.isArray(example[column])
+                ? example[column].join('|')
+                : example[column] instanceof Date
+                ? example[column].toISOString()
+                : example[column]
+            )
+          )
+          .join(',')
+      );
+
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', 'attachment; filename="classifier-feedback.csv"');
+      return res.status(200).send([columns.join(','), ...rows].join('\n'));
+    }
+
+    res.status(200).json({
+      success: true,
+      count: examples.length,
+      data: examples,
+    });
+  } catch (error) {
+    console.error('Export classifier feedback error:', error);
+    next(new ErrorResponse('Server error', 500));
+  }
+};
+
+// @desc    Share of classified tickets staff did not have to re-categorise
+// @route   GET /api/classifier/accuracy
+// @access  Private/Manager
+exports.getAccuracyReport = async (req, res, next) => {
+  try {
+    const interval = PERIOD_FORMATS[req.query.interval] ? req.query.interval : 'week';
+
+    const rows = await Ticket.aggregate([
+      {
+        $match: {
+          hotel: req.user.hotelId,
+          'classification.category': { $ne: null },
+          ...dateRange(req.query),
+        },
+      },
+      {
+        $group: {
+          _id: {
+            category: '$classification.category',
+            period: { $dateToString: { format: PERIOD_FORMATS[interval], date: '$createdAt' } },
+          },
+          total: { $sum: 1 },
+          corrected: {
+            $sum: { $cond: [{ $ne: [{ $ifNull: ['$classification.correctedAt', null] }, null] }, 1, 0] },
+          },
+        },
+      },
+      { $sort: { '_id.period': 1 } },
+    ]);
+
+    const accuracy = (total, corrected) =>
+      total > 0 ? Number(((total - corrected) / total).toFixed(3)) : null;
+
+    const categories = TICKET_CATEGORIES.map((category) => {
+      const periods = rows
+        .filter((row) => row._id.category === category)
+        .map((row) => ({
+          period: row._id.period,
+          total: row.total,
+          corrected: row.corrected,
+          accuracy: accuracy(row.total, row.corrected),
+        }));
+      const total = periods.reduce((sum, period) => sum + period.total, 0);
+      const corrected = periods.reduce((sum, period) => sum + period.corrected, 0);
+
+      return { category, total, corrected, accuracy: accuracy(total, corrected), periods };
+    });
+
+    const total = categories.reduce((sum, category) => sum + category.total, 0);
+    const corrected = categories.reduce((sum, category) => sum + category.corrected, 0);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        interval,
+        overall: { total, corrected, accuracy: accuracy(total, corrected) },
+        categories,
+      },
+    });
+  } catch (error) {
+    console.error('Get classifier accuracy error:', error);
+    next(new ErrorResponse('Server error', 500));
+  }
+};
+
+// Validation middleware for classifier settings
+exports.validateSettings = [
+  body('providers')
+    .optional()
+    .isArray({ min: 1 })
+    .withMessage('At least one classification provider is required'),
+
+  body('providers.*')
+    .isIn(CLASSIFIER_PROVIDERS)
+    .withMessage(`Providers must be one of: ${CLASSIFIER_PROVIDERS.join(', ')}`),
+
+  body('remoteUrl')
+    .optional({ nullable: true })
+    .custom(checkPublicHttpsUrl)
+    .withMessage('Remote URL must be an https address on the public internet'),
+
+  body('remoteTimeoutMs')
+    .optional()
+    .isInt({ min: 500 })
+    .withMessage('Remote timeout must be at least 500ms')
+    .toInt(),
+
+  body('keywords')
+    .optional()
+    .isObject()
+    .withMessage('Keywords must be an object of category lists')
+    .custom((keywords) =>
+      Object.entries(keywords).every(
+        ([category, list]) =>
+          TICKET_CATEGORIES.includes(category) &&
+          Array.isArray(list) &&
+          list.every((keyword) => typeof keyword === 'string')
+      )
+    )
+    .withMessage('Keywords must be lists of words for known categories'),
+
+  body('minScore')
+    .optional()
+    .isFloat({ min: 0.5 })
+    .withMessage('Minimum score must be at least 0.5')
+    .toFloat(),
+];
@@ -0,0 +1,400 @@
+const Ticket = require('../models/Ticket');
+const Room = require('../models/Room');
+const QRCode = require('../models/QRCode');
+const ScanEvent = require('../models/ScanEvent');
+const ErrorResponse = require('../utils/errorResponse');
+const {
+  STAY_PIN_LOCKOUT_MINUTES,
+  createGuestSession,
+  verifyRoomAccessToken,
+  stayPinMatches,
+} = require('../utils/guestToken');
+const { createAttemptLimiter } = require('../utils/attemptLimiter');
+const { toGuestView, emitToTicket, emitToTicketParticipants, emitToHotelBoard } = require('../utils/ticketRooms');
+const { TICKET_STATUSES, OPEN_TICKET_STATUSES } = require('../utils/ticketLifecycle');
+const { classifyDevice } = require('../utils/scanAnalytics');
+
+// Guests can no longer write into requests that are fully wrapped up
+const THREAD_CLOSED_STATUSES = ['verified', 'cancelled'];
+
+// Wrong stay PINs from one client, across every room
+const pinAttemptsByClient = createAttemptLimiter({
+  maxFailures: 20,
+  windowMs: STAY_PIN_LOCKOUT_MINUTES * 60 * 1000,
+});
+
+const PIN_LOCKED_MESSAGE = `Too many wrong PINs. Try again in ${STAY_PIN_LOCKOUT_MINUTES} minutes or ask reception for help.`;
+
+// Tickets the guest raised, plus any raised from their room during the current stay
+const currentStayFilter = async (guest) => {
+  const room = await Room.findById(guest.roomId);
+  return room ? room.getStayTicketFilter(guest.sessionId) : null;
+};
+
+// @desc    Exchange the access token from a room's QR code for a guest chat session
+// @route   POST /api/guest/session
+// @access  Public
+exports.startSession = async (req, res, next) => {
+  try {
+    const { roomNumber, accessToken } = req.body;
+    const guestName =
+      typeof req.body.guestName === 'string' && req.body.guestName.trim()
+        ? req.body.guestName.trim()
+        : `Guest-${roomNumber}`;
+
+    if (!req.hotel) {
+      return next(new ErrorResponse('Hotel is required', 400));
+    }
+
+    if (!roomNumber) {
+      return next(new ErrorResponse('Room number is required', 400));
+    }
+
+    // Limited to req.hotel by identifyHotel, so room 101 is this hotel's 101
+    const room = await Room.findOne({ number: String(roomNumber), isActive: true });
+
+    if (!room) {
+      return next(new ErrorResponse('Room not found', 404));
+    }
+
+    // Knowing a room number isn't enough; the guest must have scanned the
+    // room's current QR code. QRCode is also limited to req.hotel.
+    const qrToken = verifyRoomAccessToken(accessToken);
+    if (!qrToken || !(await QRCode.validateToken(qrToken, room.number))) {
+      return next(
+        new ErrorResponse('This link is invalid or has expired. Please scan the QR code in your room.', 403)
+      );
+    }
+
+    // A PIN issued at check-in keeps out anyone who only has a photo of the
+    // code; guesses are limited per room and per client
+    if (room.stayPin) {
+      if (!req.body.pin) {
+        return res.status(403).json({
+          success: false,
+          message: 'Enter the PIN you were given at check-in',
+          pinRequired: true,
+        });
+      }
+
+      if (pinAttemptsByClient.isBlocked(req.ip) || !(await Room.claimStayPinAttempt(room._id))) {
+        return res.status(429).json({
+          success: false,
+          message: PIN_LOCKED_MESSAGE,
+          pinRequired: true,
+        });
+      }
+
+      const matched = stayPinMatches(room.stayPin, req.body.pin);
+      await Room.settleStayPinAttempt(room._id, matched);
+      if (!matched) {
+        pinAttemptsByClient.recordFailure(req.ip);
+        return res.status(403).json({
+          success: false,
+          message: 'That PIN is not right',
+          pinRequired: true,
+        });
+      }
+    }
+
+    const { token, session } = createGuestSession(req.hotel, room, guestName);
+
+    // Count the rest of the visit towards the scan that brought the guest here
+    try {
+      await ScanEvent.linkSession(req.body.scanId, session);
+    } catch (error) {
+      console.error('Link scan to guest session error:', error);
+    }
+
+    res.status(201).json({
+      success: true,
+      data: {
+        token,
+        hotelSlug: session.hotelSlug,
+        hotelName: req.hotel.name,
+        roomNumber: session.roomNumber,
+        guestName: session.guestName,
+        expiresAt: session.expiresAt,
+      },
+    });
+  } catch (error) {
+    console.error('Start guest session error:', error);
+    next(new ErrorResponse('Server error', 500));
+  }
+};
+
+// @desc    Record a guest landing on a room's chat page from its QR code
+// @route   POST /api/guest/scans
+// @access  Public
+exports.recordScan = async (req, res, next) => {
+  try {
+    const { roomNumber, accessToken } = req.body;
+
+    if (!req.hotel) {
+      return next(new ErrorResponse('Hotel is required', 400));
+    }
+
+    const room = await Room.findOne({ number: String(roomNumber || ''), isActive: true });
+
+    if (!room) {
+      return next(new ErrorResponse('Room not found', 404));
+    }
+
+    // Only scans of the room's current code count, so the numbers can't be
+    // padded by calling the endpoint with a guessed room number
+    const qrToken = verifyRoomAccessToken(accessToken);
+    if (!qrToken || !(await QRCode.validateToken(qrToken, room.number))) {
+      return next(new ErrorResponse('This link is invalid or has expired', 403));
+    }
+
+    // A guest rescanning with a session they already have is linked straight away
+    const sessionId =
+      req.guest && req.guest.roomId === String(room._id) ? req.guest.sessionId : null;
+
+    const scan = await ScanEvent.create({
+      room: room._id,
+      roomNumber: room.number,
+      floor: room.floor,
+      device: classifyDevice(req.header('User-Agent')),
+      sessionId,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: { _id: scan._id },
+    });
+  } catch (error) {
+    console.error('Record scan error:', error);
+    next(new ErrorResponse('Server error', 500));
+  }
+};
+
+// @desc    Get every ticket raised in the guest's session
+// @route   GET /api/guest/tickets
+// @access  Private/Guest
+exports.getSessionTickets = async (req, res, next) => {
+  try {
+    const tickets = await Ticket.find({ guestSession: req.guest.sessionId })
+      .populate('assignedTo', 'name')
+      .sort('-createdAt');
+
+    res.status(200).json({
+      success: true,
+      count: tickets.length,
+      data: tickets.map(toGuestView),
+    });
+  } catch (error) {
+    console.error('Get guest tickets error:', error);
+    next(new ErrorResponse('Server error', 500));
+  }
+};
+
+// @desc    Get a single ticket from the guest's session
+// @route   GET /api/guest/tickets/:id
+// @access  Private/Guest
+exports.getSessionTicket = async (req, res, next) => {
+  try {
+    const ticket = await Ticket.findOne({
+      _id: req.params.id,
+      guestSession: req.guest.sessionId,
+    }).populate('assignedTo', 'name');
+
+    if (!ticket) {
+      return next(new ErrorResponse('Ticket not found', 404));
+    }
+
+    res.status(200).json({
+      success: true,
+      data: toGuestView(ticket),
+    });
+  } catch (error) {
+    console.error('Get guest ticket error:', error);
+    next(new ErrorResponse('Server error', 500));
+  }
+};
+
+// @desc    Get open tickets for the guest's room during the current stay
+// @route   GET /api/tickets/room/:roomNumber
+// @access  Private/Guest
+exports.getRoomTickets = async (req, res, next) => {
+  try {
+    if (String(req.params.roomNumber) !== String(req.guest.roomNumber)) {
+      return next(new ErrorResponse('Not authorized to view tickets for this room', 403));
+    }
+
+    const stay = await currentStayFilter(req.guest);
+    if (!stay) {
+      return next(new ErrorResponse('Room not found', 404));
+    }
+
+    const tickets = await Ticket.find({
+      ...stay,
+      status: { $in: OPEN_TICKET_STATUSES },
+    })
+      .populate('assignedTo', 'name')
+      .sort('-createdAt');
+
+    res.status(200).json({
+      success: true,
+      count: tickets.length,
+      data: tickets.map(toGuestView),
+    });
+  } catch (error) {
+    console.error('Get room tickets error:', error);
+    next(new ErrorResponse('Server error', 500));
+  }
+};
+
+// @desc    Add a guest follow-up to a ticket thread
+// @route   POST /api/guest/tickets/:id/messages
+// @access  Private/Guest
+exports.addMessage = async (req, res, next) => {
+  try {
+    const { content } = req.body;
+
+    if (!content || typeof content !== 'string' || !content.trim()) {
+      return next(new ErrorResponse('Message content is required', 400));
+    }
+
+    // Anyone staying in the room may add to its open requests, not just whoever raised them
+    const stay = await currentStayFilter(req.guest);
+    const ticket = await Ticket.findOne({
+      _id: req.params.id,
+      ...(stay || { guestSession: req.guest.sessionId }),
+    });
+
+    if (!ticket) {
+      return next(new ErrorResponse('Ticket not found', 404));
+    }
+
+    if (THREAD_CLOSED_STATUSES.includes(ticket.status)) {
+      return next(new ErrorResponse('This request is closed', 400));
+    }
+
+    ticket.messages.push({
+      content: content.trim(),
+      sender: 'guest',
+      senderName: ticket.guestInfo.name,
+    });
+    ticket.markRead('guest');
+    await ticket.save();
+    await ticket.populate('room', 'number type floor');
+    await ticket.populate('assignedTo', 'name email role');
+
+    const message = ticket.messages[ticket.messages.length - 1];
+
+    // Reach whoever has the ticket open, plus the board and the assignee
+    const io = req.app.get('io');
+    if (io) {
+      emitToTicket(io, ticket, 'newMessage');
+      emitToHotelBoard(io, ticket, 'guestMessage', { ticket, message });
+      if (ticket.assignedTo) {
+        io.to(`user_${ticket.assignedTo._id}`).emit('guestMessage', { ticket, message });
+      }
+    }
+
+    res.status(201).json({
+      success: true,
+      data: toGuestView(ticket),
+    });
+  } catch (error) {
+    console.error('Add guest message error:', error);
+    next(new ErrorResponse('Server error', 500));
+  }
+};
+
+// @desc    Mark a ticket's conversation as read by the guest
+// @route   PUT /api/guest/tickets/:id/read
+// @access  Private/Guest
+exports.markTicketRead = async (req, res, next) => {
+  try {
+    const ticket = await Ticket.findOne({
+      _id: req.params.id,
+      guestSession: req.guest.sessionId,
+    });
+
+    if (!ticket) {
+      return next(new ErrorResponse('Ticket not found', 404));
+    }
+
+    const readAt = ticket.markRead('guest');
+    await ticket.save();
+
+    const io = req.app.get('io');
+    if (io) {
+      emitToTicketParticipants(io, ticket._id, 'ticketRead', {
+        ticketId: ticket._id,
+        side: 'guest',
+        readAt,
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: ticket.lastReadAt,
+    });
+  } catch (error) {
+    console.error('Mark guest ticket read error:', error);
+    next(new ErrorResponse('Server error', 500));
+  }
+};
+
+// @desc    Cancel, verify or reopen one of the guest's tickets
+// @route   PUT /api/guest/tickets/:id/status
+// @access  Private/Guest
+exports.updateTicketStatus = async (req, res, next) => {
+  try {
+    const { status } = req.body;
+    const reason = typeof req.body.reason === 'string' ? req.body.reason.trim() : '';
+
+    if (!TICKET_STATUSES.includes(status)) {
+      return next(new ErrorResponse('Invalid status', 400));
+    }
+
+    const ticket = await Ticket.findOne({
+      _id: req.params.id,
+      guestSession: req.guest.sessionId,
+    });
+
+    if (!ticket) {
+      return next(new ErrorResponse('Ticket not found', 404));
+    }
+
+    if (!ticket.canTransitionTo(status, 'guest')) {
+      return next(
+        new ErrorResponse(`Cannot move a ticket from ${ticket.status} to ${status}`, 400)
+      );
+    }
+
+    ticket.transitionTo(status, {
+      actorType: 'guest',
+      actorName: ticket.guestInfo.name,
+      reason: reason || null,
+    });
+    if (reason) {
+      ticket.messages.push({
+        content: reason,
+        sender: 'guest',
+        senderName: ticket.guestInfo.name,
+      });
+    }
+    await ticket.save();
+    await ticket.populate('room', 'number type floor');
+    await ticket.populate('assignedTo', 'name email role');
+
+    // Staff need to see guest-driven changes on the board
+    const io = req.app.get('io');
+    if (io) {
+      emitToTicket(io, ticket, 'ticketUpdated');
+      emitToHotelBoard(io, ticket, 'ticketUpdated');
+    }
+
+    res.status(200).json({
+      success: true,
+      data: toGuestView(ticket),
+    });
+  } catch (error) {
+    console.error('Update guest ticket status error:', error);
+    next(new ErrorResponse('Server error', 500));
+  }
+};
@@ -1,5 +1,30 @@
 const Hotel = require('../models/Hotel');
 const { body, validationResult } = require('express-validator');
+const { canAccessHotels } = require('../utils/accessControl');
+
+// Details managers may edit; ownership and the guest link slug stay fixed
+const HOTEL_FIELDS = [
+  'name',
+  'description',
+  'location',
+  'contact',
+  'amenities',
+  'checkInTime',
+  'checkOutTime',
+  'branding',
+];
+
+const pickHotelFields = (source) =>
+  HOTEL_FIELDS.reduce((fields, field) => {
+    if (source[field] !== undefined) fields[field] = source[field];
+    return fields;
+  }, {});
+
+// A hotel in the user's group that they work at
+const findManagedHotel = async (user, hotelId) => {
+  if (!canAccessHotels(user, [hotelId])) return null;
+  return Hotel.findOne({ _id: hotelId, manager: String(user.managerId), isActive: true });
+};
 
 // @desc    Get all hotels
 // @route   GET /api/hotels
@@ -52,10 +77,11 @@ exports.getHotel = async (req, res) => {
 // @access  Private
 exports.createHotel = async (req, res) => {
   try {
-    // Add manager to req.body
-    req.body.manager = req.user.id;
-
-    const hotel = await Hotel.create(req.body);
+    const hotel = await Hotel.create({
+      ...pickHotelFields(req.body),
+      slug: await Hotel.generateSlug(req.body.name),
+      manager: String(req.user.managerId),
+    });
 
     res.status(201).json({
       success: true,
@@ -69,10 +95,10 @@ exports.createHotel = async (req, res) => {
 
 // @desc    Update hotel
 // @route   PUT /api/hotels/:id
-// @access  Private
+// @access  Private/Manager
 exports.updateHotel = async (req, res) => {
   try {
-    let hotel = await Hotel.findById(req.params.id);
+    const hotel = await findManagedHotel(req.user, req.params.id);
 
     if (!hotel) {
       return res.status(404).json({
@@ -81,18 +107,8 @@ exports.updateHotel = async (req, res) => {
       });
     }
 
-    // Make sure user is hotel owner
-    if (hotel.manager !== req.user.id) {
-      return res.status(401).json({
-        success: false,
-        message: `User ${req.user.id} is not authorized to update this hotel`,
-      });
-    }
-
-    hotel = await Hotel.findByIdAndUpdate(req.params.id, req.body, {
-      new: true,
-      runValidators: true,
-    });
+    hotel.set(pickHotelFields(req.body));
+    await hotel.save();
 
     res.json({
       success: true,
@@ -106,10 +122,10 @@ exports.updateHotel = async (req, res) => {
 
 // @desc    Delete hotel
 // @route   DELETE /api/hotels/:id
-// @access  Private
+// @access  Private/Owner
 exports.deleteHotel = async (req, res) => {
   try {
-    const hotel = await Hotel.findById(req.params.id);
+    const hotel = await findManagedHotel(req.user, req.params.id);
 
     if (!hotel) {
       return res.status(404).json({
@@ -118,11 +134,11 @@ exports.deleteHotel = async (req, res) => {
       });
     }
 
-    // Make sure user is hotel owner
-    if (hotel.manager !== req.user.id) {
-      return res.status(401).json({
+    // The group always keeps at least one property
+    if (req.user.hotelIds.length === 1) {
+      return res.status(400).json({
         success: false,
-        message: `User ${req.user.id} is not authorized to delete this hotel`,
+        message: 'Cannot delete the only property in the group',
       });
     }
 
@@ -140,12 +156,39 @@ exports.deleteHotel = async (req, res) => {
   }
 };
 
+// @desc    Mark the onboarding wizard as finished for a hotel
+// @route   PUT /api/hotels/:id/onboarding
+// @access  Private/Manager
+exports.completeOnboarding = async (req, res) => {
+  try {
+    const hotel = await findManagedHotel(req.user, req.params.id);
+
+    if (!hotel) {
+      return res.status(404).json({
+        success: false,
+        message: `Hotel not found with id of ${req.params.id}`,
+      });
+    }
+
+    hotel.onboardedAt = hotel.onboardedAt || new Date();
+    await hotel.save();
+
+    res.json({
+      success: true,
+      data: hotel,
+    });
+  } catch (error) {
+    console.error('Complete onboarding error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
 // @desc    Get hotels by manager
 // @route   GET /api/hotels/manager/my-hotels
 // @access  Private
 exports.getHotelsByManager = async (req, res) => {
   try {
-    const hotels = await Hotel.find({ manager: req.user.id })
+    const hotels = await Hotel.find({ _id: { $in: req.user.hotelIds } })
       .select('-__v');
       // Removed populate since we're storing manager as string ID
 
@@ -167,12 +210,13 @@ exports.validateHotel = [
   body('location.city', 'City is required').not().isEmpty(),
   body('location.country', 'Country is required').not().isEmpty(),
   body('contact.phone', 'Phone number is required').not().isEmpty(),
-  body('rooms').custom((rooms) => {
-    if (!Array.isArray(rooms) || rooms.length === 0) {
-      throw new Error('At least one room is required');
-    }
-    return true;
-  }),
+  body('contact.email', 'Please add a valid email').optional({ checkFalsy: true }).isEmail(),
+  body(['checkInTime', 'checkOutTime'], 'Times must use the 24-hour HH:MM format')
+    .optional()
+    .matches(/^([01]\d|2[0-3]):[0-5]\d$/),
+  body(['branding.primaryColor', 'branding.accentColor'], 'Colours must be hex values like #1a2b3c')
+    .optional()
+    .matches(/^#[0-9a-fA-F]{6}$/),
   (req, res, next) => {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
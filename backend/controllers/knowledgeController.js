@@ -0,0 +1,258 @@
+const KnowledgeEntry = require('../models/KnowledgeEntry');
+const Hotel = require('../models/Hotel');
+const { body, validationResult } = require('express-validator');
+const ErrorResponse = require('../utils/errorResponse');
+const { KNOWLEDGE_TOPICS } = require('../utils/constants');
+const {
+  buildHotelEntries,
+  createKnowledgeBase,
+  getKnowledgeEntries,
+} = require('../services/knowledgeBase');
+
+const ENTRY_FIELDS = ['topic', 'question', 'answer', 'keywords', 'isActive'];
+
+const pickEntryFields = (source) =>
+  ENTRY_FIELDS.reduce((fields, field) => {
+    if (source[field] !== undefined) fields[field] = source[field];
+    return fields;
+  }, {});
+
+// Hotel profile details the assistant answers from
+const hotelDetails = (hotel) =>
+  hotel
+    ? {
+        name: hotel.name,
+        checkInTime: hotel.checkInTime,
+        checkOutTime: hotel.checkOutTime,
+        amenities: hotel.amenities,
+      }
+    : null;
+
+// @desc    Get the hotel's knowledge base
+// @route   GET /api/knowledge
+// @access  Private
+exports.getKnowledgeBase = async (req, res, next) => {
+  try {
+    const [entries, hotel] = await Promise.all([
+      KnowledgeEntry.find({ manager: req.user.managerId }).sort('topic question'),
+      Hotel.findById(req.user.hotelId),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      count: entries.length,
+      data: {
+        entries,
+        hotel: hotelDetails(hotel),
+        // Answered automatically from the hotel profile
+        hotelEntries: buildHotelEntries(hotel),
+      },
+    });
+  } catch (error) {
+    console.error('Get knowledge base error:', error);
+    next(new ErrorResponse('Server error', 500));
+  }
+};
+
+// @desc    Add a knowledge base entry
+// @route   POST /api/knowledge
+// @access  Private/Manager
+exports.createEntry = async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array(),
+      });
+    }
+
+    const entry = await KnowledgeEntry.create({
+      ...pickEntryFields(req.body),
+      manager: req.user.managerId,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: entry,
+    });
+  } catch (error) {
+    console.error('Create knowledge entry error:', error);
+    next(new ErrorResponse('Server error', 500));
+  }
+};
+
+// @desc    Update a knowledge base entry
+// @route   PUT /api/knowledge/:id
+// @access  Private/Manager
+exports.updateEntry = async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array(),
+      });
+    }
+
+    const entry = await KnowledgeEntry.findOneAndUpdate(
+      { _id: req.params.id, manager: req.user.managerId },
+      pickEntryFields(req.body),
+      { new: true, runValidators: true }
+    );
+
+    if (!entry) {
+      return next(new ErrorResponse('Knowledge base entry not found', 404));
+    }
+
+    res.status(200).json({
+      success: true,
+      data: entry,
+    });
+  } catch (error) {
+    console.error('Update knowledge entry error:', error);
+    next(new ErrorResponse('Server error', 500));
+  }
+};
+
+// @desc    Delete a knowledge base entry
+// @route   DELETE /api/knowledge/:id
+// @access  Private/Manager
+exports.deleteEntry = async (req, res, next) => {
+  try {
+    const entry = await KnowledgeEntry.findOneAndDelete({
+      _id: req.params.id,
+      manager: req.user.managerId,
+    });
+
+    if (!entry) {
+      return next(new ErrorResponse('Knowledge base entry not found', 404));
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {},
+    });
+  } catch (error) {
+    console.error('Delete knowledge entry error:', error);
+    next(new ErrorResponse('Server error', 500));
+  }
+};
+
+// @desc    Update the check-in/out times and amenities on the hotel profile
+// @route   PUT /api/knowledge/hotel
+// @access  Private/Manager
+exports.updateHotelDetails = async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array(),
+      });
+    }
+
+    const update = {};
+    ['checkInTime', 'checkOutTime', 'amenities'].forEach((field) => {
+      if (req.body[field] !== undefined) update[field] = req.body[field];
+    });
+
+    const hotel = await Hotel.findOneAndUpdate(
+      { _id: req.user.hotelId },
+      update,
+      { new: true, runValidators: true }
+    );
+
+    if (!hotel) {
+      return next(new ErrorResponse('No hotel profile found for this account', 404));
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        hotel: hotelDetails(hotel),
+        hotelEntries: buildHotelEntries(hotel),
+      },
+    });
+  } catch (error) {
+    console.error('Update hotel details error:', error);
+    next(new ErrorResponse('Server error', 500));
+  }
+};
+
+// @desc    See how the assistant would answer a guest question
+// @route   POST /api/knowledge/preview
+// @access  Private
+exports.previewAnswer = async (req, res, next) => {
+  try {
+    const { message } = req.body;
+
+    if (!message || typeof message !== 'string' || !message.trim()) {
+      return next(new ErrorResponse('Message is required', 400));
+    }
+
+    const entries = await getKnowledgeEntries(req.user.hotelId);
+
+    res.status(200).json({
+      success: true,
+      data: createKnowledgeBase(entries).answer(message.trim()),
+    });
+  } catch (error) {
+    console.error('Preview knowledge answer error:', error);
+    next(new ErrorResponse('Server error', 500));
+  }
+};
+
+// Validation middleware for knowledge base entries
+exports.validateEntry = [
+  body('topic')
+    .optional()
+    .isIn(KNOWLEDGE_TOPICS)
+    .withMessage(`Topic must be one of: ${KNOWLEDGE_TOPICS.join(', ')}`),
+
+  body('question')
+    .if((value, { req }) => req.method === 'POST' || value !== undefined)
+    .trim()
+    .notEmpty()
+    .withMessage('Question is required'),
+
+  body('answer')
+    .if((value, { req }) => req.method === 'POST' || value !== undefined)
+    .trim()
+    .notEmpty()
+    .withMessage('Answer is required'),
+
+  body('keywords')
+    .optional()
+    .isArray()
+    .withMessage('Keywords must be a list of words'),
+
+  body('keywords.*')
+    .isString()
+    .withMessage('Keywords must be a list of words'),
+
+  body('isActive')
+    .optional()
+    .isBoolean()
+    .withMessage('isActive must be true or false')
+    .toBoolean(),
+];
+
+// Validation middleware for the hotel profile details
+exports.validateHotelDetails = [
+  body(['checkInTime', 'checkOutTime'])
+    .optional()
+    .matches(/^([01]\d|2[0-3]):[0-5]\d$/)
+    .withMessage('Times must be in HH:MM format'),
+
+  body('amenities')
+    .optional()
+    .isArray()
+    .withMessage('Amenities must be a list'),
+
+  body('amenities.*')
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage('Amenities cannot be blank'),
+];
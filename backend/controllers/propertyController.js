@@ -0,0 +1,131 @@
+const Hotel = require('../models/Hotel');
+const Room = require('../models/Room');
+const Ticket = require('../models/Ticket');
+const { body, validationResult } = require('express-validator');
+const ErrorResponse = require('../utils/errorResponse');
+const { OPEN_TICKET_STATUSES } = require('../utils/ticketLifecycle');
+const { runAcrossHotels } = require('../utils/tenant');
+
+const toProperty = (hotel) => ({
+  id: hotel._id,
+  name: hotel.name,
+  slug: hotel.slug,
+});
+
+// @desc    Get the properties the user can switch between
+// @route   GET /api/properties
+// @access  Private
+exports.getProperties = (req, res) => {
+  res.status(200).json({
+    success: true,
+    count: req.user.properties.length,
+    data: {
+      activeId: req.user.hotelId,
+      properties: req.user.properties,
+    },
+  });
+};
+
+// @desc    Add a property to the owner's group
+// @route   POST /api/properties
+// @access  Private/Owner
+exports.createProperty = async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array(),
+      });
+    }
+
+    const hotel = await Hotel.create({
+      name: req.body.name,
+      slug: await Hotel.generateSlug(req.body.name),
+      manager: String(req.user.managerId),
+    });
+
+    res.status(201).json({
+      success: true,
+      data: toProperty(hotel),
+    });
+  } catch (error) {
+    console.error('Create property error:', error);
+    next(new ErrorResponse('Server error', 500));
+  }
+};
+
+// @desc    Open tickets, unassigned tickets and SLA breaches for every property
+// @route   GET /api/properties/overview
+// @access  Private/Manager
+exports.getOverview = async (req, res, next) => {
+  try {
+    const hotelIds = req.user.hotelIds;
+
+    // Each count covers the user's properties only, so the hotel limit can go
+    const [hotels, ticketStats, roomStats] = await runAcrossHotels(() =>
+      Promise.all([
+        Hotel.find({ _id: { $in: hotelIds } }).sort('createdAt'),
+        Ticket.aggregate([
+          { $match: { hotel: { $in: hotelIds }, status: { $in: OPEN_TICKET_STATUSES } } },
+          {
+            $group: {
+              _id: '$hotel',
+              open: { $sum: 1 },
+              unassigned: { $sum: { $cond: [{ $ifNull: ['$assignedTo', false] }, 0, 1] } },
+              breached: { $sum: { $cond: [{ $ifNull: ['$sla.breachedAt', false] }, 1, 0] } },
+              highPriority: { $sum: { $cond: [{ $eq: ['$priority', 'high'] }, 1, 0] } },
+              oldestOpenAt: { $min: '$createdAt' },
+            },
+          },
+        ]),
+        Room.aggregate([
+          { $match: { hotel: { $in: hotelIds }, isActive: true } },
+          { $group: { _id: '$hotel', rooms: { $sum: 1 } } },
+        ]),
+      ])
+    );
+
+    const ticketsByHotel = new Map(ticketStats.map((stats) => [String(stats._id), stats]));
+    const roomsByHotel = new Map(roomStats.map((stats) => [String(stats._id), stats.rooms]));
+
+    const properties = hotels.map((hotel) => {
+      const stats = ticketsByHotel.get(String(hotel._id)) || {};
+      return {
+        ...toProperty(hotel),
+        isActive: String(hotel._id) === String(req.user.hotelId),
+        rooms: roomsByHotel.get(String(hotel._id)) || 0,
+        open: stats.open || 0,
+        unassigned: stats.unassigned || 0,
+        breached: stats.breached || 0,
+        highPriority: stats.highPriority || 0,
+        oldestOpenAt: stats.oldestOpenAt || null,
+      };
+    });
+
+    const totals = ['rooms', 'open', 'unassigned', 'breached', 'highPriority'].reduce(
+      (acc, field) => ({
+        ...acc,
+        [field]: properties.reduce((sum, property) => sum + property[field], 0),
+      }),
+      {}
+    );
+
+    res.status(200).json({
+      success: true,
+      count: properties.length,
+      data: { properties, totals },
+    });
+  } catch (error) {
+    console.error('Get property overview error:', error);
+    next(new ErrorResponse('Server error', 500));
+  }
+};
+
+// Validation middleware for new properties
+exports.validateProperty = [
+  body('name')
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Property name must be between 2 and 100 characters'),
+];
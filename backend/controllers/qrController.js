@@ -1,6 +1,8 @@
 const QRCode = require('../models/QRCode');
-const qr = require('qrcode');
+const Room = require('../models/Room');
 const { body, validationResult } = require('express-validator');
+const { attachRoomQRCode } = require('../utils/qrGenerator');
+const { verifyRoomAccessToken } = require('../utils/guestToken');
 
 // @desc    Generate QR code for a room
 // @route   POST /api/qr-codes/generate
@@ -17,55 +19,39 @@ exports.generateQRCode = [
     try {
       const errors = validationResult(req);
       if (!errors.isEmpty()) {
-        return res.status(400).json({ 
+        return res.status(400).json({
           success: false,
-          errors: errors.array() 
+          errors: errors.array()
         });
       }
 
-      const { roomNumber, daysValid = 30 } = req.body;
-      const hotelId = req.user.hotelId;
-      const userId = req.user.id;
-
-      // Generate new QR code
-      const qrCode = await QRCode.generateForRoom(
-        roomNumber, 
-        hotelId, 
-        userId, 
-        daysValid
-      );
-
-      // Generate QR code image data URL
-      const qrData = {
-        roomNumber,
-        token: qrCode.token,
-        hotelId: hotelId.toString(),
-      };
-
-      const qrDataUrl = await new Promise((resolve, reject) => {
-        qr.toDataURL(JSON.stringify(qrData), {
-          errorCorrectionLevel: 'H', // High error correction
-          type: 'image/png',
-          margin: 1,
-          scale: 8,
-        }, (err, url) => {
-          if (err) return reject(err);
-          resolve(url);
+      const { roomNumber, daysValid } = req.body;
+
+      const room = await Room.findOne({ number: roomNumber, isActive: true });
+      if (!room) {
+        return res.status(404).json({
+          success: false,
+          message: `Room ${roomNumber} not found`,
         });
-      });
+      }
+
+      // Replaces the room's current code; the old one stops working
+      const qrCode = await attachRoomQRCode(room, req.user, daysValid);
+      await room.save();
 
       res.json({
         success: true,
         data: {
           qrCode: qrCode.toObject(),
-          qrDataUrl,
+          qrDataUrl: room.qrCode,
+          url: room.qrCodeUrl,
           expiresAt: qrCode.expiresAt,
         },
       });
 
     } catch (error) {
       console.error('Generate QR code error:', error);
-      res.status(500).json({ 
+      res.status(500).json({
         success: false,
         message: 'Failed to generate QR code',
         error: process.env.NODE_ENV === 'development' ? error.message : undefined
@@ -86,14 +72,16 @@ exports.validateQRCode = [
     try {
       const errors = validationResult(req);
       if (!errors.isEmpty()) {
-        return res.status(400).json({ 
+        return res.status(400).json({
           success: false,
-          errors: errors.array() 
+          errors: errors.array()
         });
       }
 
+      // token is the signed access token from the QR code link
       const { token, roomNumber } = req.body;
-      const isValid = await QRCode.validateToken(token, roomNumber);
+      const qrToken = verifyRoomAccessToken(token);
+      const isValid = Boolean(qrToken) && (await QRCode.validateToken(qrToken, roomNumber));
 
       res.json({
         success: true,
@@ -105,7 +93,7 @@ exports.validateQRCode = [
 
     } catch (error) {
       console.error('Validate QR code error:', error);
-      res.status(500).json({ 
+      res.status(500).json({
         success: false,
         message: 'Failed to validate QR code',
       });
@@ -118,7 +106,7 @@ exports.validateQRCode = [
 // @access  Private (Hotel Staff)
 exports.getQRCodes = async (req, res) => {
   try {
-    const qrCodes = await QRCode.find({ 
+    const qrCodes = await QRCode.find({
       hotel: req.user.hotelId,
       isActive: true,
       expiresAt: { $gt: new Date() },
@@ -132,7 +120,7 @@ exports.getQRCodes = async (req, res) => {
 
   } catch (error) {
     console.error('Get QR codes error:', error);
-    res.status(500).json({ 
+    res.status(500).json({
       success: false,
       message: 'Failed to get QR codes',
     });
@@ -145,7 +133,7 @@ exports.getQRCodes = async (req, res) => {
 exports.revokeQRCode = async (req, res) => {
   try {
     const qrCode = await QRCode.findOneAndUpdate(
-      { 
+      {
         _id: req.params.id,
         hotel: req.user.hotelId,
         isActive: true,
@@ -161,6 +149,13 @@ exports.revokeQRCode = async (req, res) => {
       });
     }
 
+    // The printed code and the sessions started from it no longer work, so
+    // the room shows as needing a new one
+    await Room.updateOne(
+      { number: qrCode.roomNumber, isActive: true },
+      { $set: { qrCode: null, qrCodeUrl: null, qrRotatedAt: new Date() } }
+    );
+
     res.json({
       success: true,
       data: {},
@@ -169,7 +164,7 @@ exports.revokeQRCode = async (req, res) => {
 
   } catch (error) {
     console.error('Revoke QR code error:', error);
-    res.status(500).json({ 
+    res.status(500).json({
       success: false,
       message: 'Failed to revoke QR code',
     });
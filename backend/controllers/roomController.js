@@ -1,7 +1,29 @@
 const Room = require('../models/Room');
+const Ticket = require('../models/Ticket');
+const Hotel = require('../models/Hotel');
 const { body, validationResult } = require('express-validator');
 const ErrorResponse = require('../utils/errorResponse');
-const QRCode = require('qrcode');
+const { OPEN_TICKET_STATUSES } = require('../utils/ticketLifecycle');
+const { attachRoomQRCode } = require('../utils/qrGenerator');
+const { startStay, endStay } = require('../utils/roomStay');
+const {
+  NUMBERING_SCHEMES,
+  MAX_GENERATED_ROOMS,
+  generateRoomLayout,
+} = require('../utils/roomNumbering');
+const {
+  MAX_IMPORT_ROWS,
+  ROOM_EXPORT_COLUMNS,
+  validateRoomRows,
+} = require('../utils/roomImport');
+const { toCsv, parseCsv } = require('../utils/csv');
+const { renderPdf, renderSvg } = require('../utils/vectorDocument');
+const {
+  SHEET_LAYOUTS,
+  SHEET_FORMATS,
+  MAX_SHEET_ROOMS,
+  buildQRSheets
+} = require('../utils/qrSheets');
 
 // @desc    Get all rooms for the manager's hotel
 // @route   GET /api/rooms
@@ -9,7 +31,7 @@ const QRCode = require('qrcode');
 exports.getRooms = async (req, res, next) => {
   try {
     const rooms = await Room.find({ 
-      manager: req.user.userId,
+      manager: req.user.managerId,
       isActive: true 
     }).select('-__v -createdAt -updatedAt');
 
@@ -31,7 +53,7 @@ exports.getRoom = async (req, res, next) => {
   try {
     const room = await Room.findOne({
       _id: req.params.id,
-      manager: req.user.userId,
+      manager: req.user.managerId,
       isActive: true
     }).select('-__v -createdAt -updatedAt');
 
@@ -55,12 +77,12 @@ exports.getRoom = async (req, res, next) => {
 exports.createRoom = async (req, res, next) => {
   try {
     // Add manager to request body
-    req.body.manager = req.user.userId;
+    req.body.manager = req.user.managerId;
     
     // Check for duplicate room number
     const roomExists = await Room.findOne({
       number: req.body.number,
-      manager: req.user.userId,
+      manager: req.user.managerId,
       isActive: true
     });
 
@@ -74,21 +96,8 @@ exports.createRoom = async (req, res, next) => {
     const room = await Room.create(req.body);
 
     // Generate QR code for the room
-    const frontendUrl = process.env.FRONTEND_URL || 'https://hotelflow-frontend-three.vercel.app';
-    const roomUrl = `${frontendUrl}/hotel/${room.number}`;
-    
     try {
-      const qrCodeDataUrl = await QRCode.toDataURL(roomUrl, {
-        width: 300,
-        margin: 2,
-        color: {
-          dark: '#000000',
-          light: '#FFFFFF'
-        }
-      });
-      
-      room.qrCode = qrCodeDataUrl;
-      room.qrCodeUrl = roomUrl;
+      await attachRoomQRCode(room, req.user);
       await room.save();
     } catch (qrError) {
       console.error('QR code generation error:', qrError);
@@ -116,7 +125,7 @@ exports.updateRoom = async (req, res, next) => {
   try {
     let room = await Room.findOne({
       _id: req.params.id,
-      manager: req.user.userId,
+      manager: req.user.managerId,
       isActive: true
     });
 
@@ -130,7 +139,7 @@ exports.updateRoom = async (req, res, next) => {
     if (req.body.number && req.body.number !== room.number) {
       const roomExists = await Room.findOne({
         number: req.body.number,
-        manager: req.user.userId,
+        manager: req.user.managerId,
         isActive: true,
         _id: { $ne: req.params.id }
       });
@@ -145,6 +154,8 @@ exports.updateRoom = async (req, res, next) => {
       }
     }
 
+    const wasOccupied = room.status === 'occupied';
+
     // Update room fields
     const fieldsToUpdate = ['number', 'type', 'floor', 'status'];
     fieldsToUpdate.forEach(field => {
@@ -153,6 +164,12 @@ exports.updateRoom = async (req, res, next) => {
       }
     });
 
+    if (wasOccupied && room.status !== 'occupied') {
+      await endStay(room, req.user);
+    } else if (!wasOccupied && room.status === 'occupied') {
+      startStay(room, req.body.requirePin);
+    }
+
     await room.save();
 
     res.status(200).json({
@@ -172,7 +189,7 @@ exports.deleteRoom = async (req, res, next) => {
   try {
     const room = await Room.findOne({
       _id: req.params.id,
-      manager: req.user.userId,
+      manager: req.user.managerId,
       isActive: true
     });
 
@@ -185,7 +202,7 @@ exports.deleteRoom = async (req, res, next) => {
     // Check for active tickets
     const activeTickets = await Ticket.countDocuments({
       room: room._id,
-      status: { $in: ['raised', 'in_progress'] }
+      status: { $in: OPEN_TICKET_STATUSES }
     });
 
     if (activeTickets > 0) {
@@ -211,15 +228,17 @@ exports.deleteRoom = async (req, res, next) => {
   }
 };
 
-// @desc    Get room by number (public)
-// @route   GET /api/rooms/number/:number
+// @desc    Get a hotel's room by number (public)
+// @route   GET /api/rooms/public/:hotelSlug/:number
 // @access  Public
 exports.getRoomByNumber = async (req, res, next) => {
   try {
+    // Limited to the hotel in the URL by identifyHotel. The QR link carries
+    // the room's access token, so it never leaves the dashboard.
     const room = await Room.findOne({
       number: req.params.number,
       isActive: true
-    }).select('-__v -createdAt -updatedAt -isActive');
+    }).select('-__v -createdAt -updatedAt -isActive -qrCode -qrCodeUrl -qrRotatedAt -stayPin -stayPinAttempts -stayPinLockedUntil');
 
     if (!room) {
       return next(
@@ -264,6 +283,12 @@ exports.validateRoom = [
     .optional()
     .isIn(['available', 'occupied', 'maintenance'])
     .withMessage('Invalid room status'),
+
+  body('requirePin')
+    .optional()
+    .isBoolean()
+    .withMessage('requirePin must be true or false')
+    .toBoolean(),
     
   (req, res, next) => {
     const errors = validationResult(req);
@@ -277,14 +302,14 @@ exports.validateRoom = [
   }
 ];
 
-// @desc    Generate QR code for existing room
+// @desc    Generate or rotate the QR code for a room, ending current guest sessions
 // @route   POST /api/rooms/:id/qr
 // @access  Private/Manager
 exports.generateQRCode = async (req, res, next) => {
   try {
     const room = await Room.findOne({
       _id: req.params.id,
-      manager: req.user.userId,
+      manager: req.user.managerId,
       isActive: true
     });
 
@@ -292,27 +317,15 @@ exports.generateQRCode = async (req, res, next) => {
       return next(new ErrorResponse(`Room not found with id of ${req.params.id}`, 404));
     }
 
-    const frontendUrl = process.env.FRONTEND_URL || 'https://hotelflow-frontend-three.vercel.app';
-    const roomUrl = `${frontendUrl}/hotel/${room.number}`;
-    
-    const qrCodeDataUrl = await QRCode.toDataURL(roomUrl, {
-      width: 300,
-      margin: 2,
-      color: {
-        dark: '#000000',
-        light: '#FFFFFF'
-      }
-    });
-    
-    room.qrCode = qrCodeDataUrl;
-    room.qrCodeUrl = roomUrl;
+    await attachRoomQRCode(room, req.user);
     await room.save();
 
     res.status(200).json({
       success: true,
       data: {
-        qrCode: qrCodeDataUrl,
-        url: roomUrl
+        qrCode: room.qrCode,
+        url: room.qrCodeUrl,
+        qrRotatedAt: room.qrRotatedAt
       }
     });
   } catch (error) {
@@ -328,7 +341,7 @@ exports.downloadQRCode = async (req, res, next) => {
   try {
     const room = await Room.findOne({
       _id: req.params.id,
-      manager: req.user.userId,
+      manager: req.user.managerId,
       isActive: true
     });
 
@@ -356,3 +369,337 @@ exports.downloadQRCode = async (req, res, next) => {
     next(new ErrorResponse('Server error', 500));
   }
 };
+
+// @desc    Generate rooms from a numbering pattern, or preview them
+// @route   POST /api/rooms/bulk?preview=true
+// @access  Private/Manager
+exports.bulkCreateRooms = async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array()
+      });
+    }
+
+    let layout;
+    try {
+      layout = generateRoomLayout(req.body);
+    } catch (layoutError) {
+      return next(new ErrorResponse(layoutError.message, 400));
+    }
+
+    // Numbers already in use are skipped so the wizard can be re-run safely
+    const existing = await Room.distinct('number', {
+      number: { $in: layout.map((room) => room.number) },
+      isActive: true
+    });
+    const taken = new Set(existing);
+
+    if (req.query.preview === 'true') {
+      return res.status(200).json({
+        success: true,
+        count: layout.length,
+        data: layout.map((room) => ({ ...room, exists: taken.has(room.number) }))
+      });
+    }
+
+    const rooms = await Room.insertMany(
+      layout
+        .filter((room) => !taken.has(room.number))
+        .map((room) => ({ ...room, manager: req.user.managerId }))
+    );
+
+    res.status(201).json({
+      success: true,
+      count: rooms.length,
+      data: {
+        created: rooms,
+        skipped: layout.filter((room) => taken.has(room.number)).map((room) => room.number)
+      }
+    });
+  } catch (error) {
+    console.error('Bulk create rooms error:', error);
+    next(new ErrorResponse('Server error', 500));
+  }
+};
+
+// @desc    Generate QR codes for every room that doesn't have one yet
+// @route   POST /api/rooms/qr
+// @access  Private/Manager
+exports.generateMissingQRCodes = async (req, res, next) => {
+  try {
+    // Codes printed before access tokens link to the bare room page, which
+    // no longer starts a session, so they are replaced too
+    const rooms = await Room.find({
+      isActive: true,
+      $or: [{ qrCode: null }, { qrCode: '' }, { qrCodeUrl: { $not: /\?t=/ } }]
+    });
+
+    for (const room of rooms) {
+      await attachRoomQRCode(room, req.user);
+      await room.save();
+    }
+
+    res.status(200).json({
+      success: true,
+      count: rooms.length,
+      data: rooms.map((room) => ({
+        _id: room._id,
+        number: room.number,
+        qrCode: room.qrCode,
+        url: room.qrCodeUrl
+      }))
+    });
+  } catch (error) {
+    console.error('Generate QR codes error:', error);
+    next(new ErrorResponse('Server error', 500));
+  }
+};
+
+// @desc    Download printable QR code sheets for selected rooms or a floor
+// @route   POST /api/rooms/qr/sheets
+// @access  Private/Manager
+exports.printQRSheets = async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array()
+      });
+    }
+
+    const { layout = 'grid', format = 'pdf', roomIds, floor, instructions } = req.body;
+
+    const filter = { isActive: true };
+    if (roomIds && roomIds.length > 0) filter._id = { $in: roomIds };
+    if (floor !== undefined) filter.floor = floor;
+
+    const rooms = await Room.find(filter)
+      .collation({ locale: 'en', numericOrdering: true })
+      .sort({ floor: 1, number: 1 });
+
+    if (rooms.length === 0) {
+      return next(new ErrorResponse('No rooms found to print', 404));
+    }
+    if (rooms.length > MAX_SHEET_ROOMS) {
+      return next(new ErrorResponse(`Cannot print more than ${MAX_SHEET_ROOMS} rooms at once`, 400));
+    }
+
+    // Rooms without a working link get one now so every printed code starts a session
+    for (const room of rooms.filter((room) => !/\?t=/.test(room.qrCodeUrl || ''))) {
+      await attachRoomQRCode(room, req.user);
+      await room.save();
+    }
+
+    const hotel = await Hotel.findById(req.user.hotelId).select('name branding');
+    const branding = (hotel && hotel.branding) || {};
+
+    const pages = buildQRSheets({
+      layout,
+      hotelName: hotel ? hotel.name : '',
+      rooms: rooms.map((room) => ({ number: room.number, url: room.qrCodeUrl })),
+      primaryColor: req.body.primaryColor || branding.primaryColor || '#111827',
+      accentColor: req.body.accentColor || branding.accentColor || '#2563eb',
+      instructions
+    });
+
+    const filename = `${req.user.hotelSlug}-qr-${layout}.${format}`;
+    res.setHeader('Content-Type', format === 'pdf' ? 'application/pdf' : 'image/svg+xml');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.status(200).send(format === 'pdf' ? renderPdf(pages) : renderSvg(pages));
+  } catch (error) {
+    console.error('Print QR sheets error:', error);
+    next(new ErrorResponse('Server error', 500));
+  }
+};
+
+// Rows from an uploaded file; JSON may be sent as text or already parsed
+const readImportRows = ({ format, content }) => {
+  if (format === 'csv') return parseCsv(String(content || ''));
+  const rows = typeof content === 'string' ? JSON.parse(content) : content;
+  // Accept the export's { data: [...] } wrapper as well as a bare list
+  return Array.isArray(rows) ? rows : rows && rows.data;
+};
+
+// @desc    Import rooms from a CSV or JSON file, or check it without saving
+// @route   POST /api/rooms/import?dryRun=true
+// @access  Private/Manager
+exports.importRooms = async (req, res, next) => {
+  try {
+    let rows;
+    try {
+      rows = readImportRows(req.body);
+    } catch (parseError) {
+      return next(new ErrorResponse('Could not read the file; check that it is valid CSV or JSON', 400));
+    }
+
+    if (!Array.isArray(rows) || rows.length === 0) {
+      return next(new ErrorResponse('The file does not contain any rooms', 400));
+    }
+    if (rows.length > MAX_IMPORT_ROWS) {
+      return next(new ErrorResponse(`Cannot import more than ${MAX_IMPORT_ROWS} rooms at once`, 400));
+    }
+
+    const existing = await Room.distinct('number', { isActive: true });
+    const results = validateRoomRows(rows, existing).map((result) => ({
+      ...result,
+      outcome: result.room ? 'ready' : 'invalid'
+    }));
+
+    // Rows that fail validation are reported and skipped; the rest are
+    // created one by one so a single failure doesn't stop the import
+    if (req.query.dryRun !== 'true') {
+      for (const result of results.filter(({ room }) => room)) {
+        try {
+          const room = new Room({ ...result.room, manager: req.user.managerId });
+          await attachRoomQRCode(room, req.user);
+          await room.save();
+          result.outcome = 'created';
+        } catch (rowError) {
+          result.outcome = 'failed';
+          result.errors.push(
+            rowError.code === 11000 ? `Room ${result.room.number} already exists` : rowError.message
+          );
+        }
+      }
+    }
+
+    const count = (outcome) => results.filter((result) => result.outcome === outcome).length;
+
+    res.status(200).json({
+      success: true,
+      count: results.length,
+      data: {
+        dryRun: req.query.dryRun === 'true',
+        ready: count('ready'),
+        created: count('created'),
+        invalid: count('invalid'),
+        failed: count('failed'),
+        rows: results
+      }
+    });
+  } catch (error) {
+    console.error('Import rooms error:', error);
+    next(new ErrorResponse('Server error', 500));
+  }
+};
+
+// @desc    Export every room with its status and QR link
+// @route   GET /api/rooms/export?format=csv
+// @access  Private/Manager
+exports.exportRooms = async (req, res, next) => {
+  try {
+    const format = req.query.format === 'csv' ? 'csv' : 'json';
+
+    const rooms = await Room.find({ isActive: true })
+      .select(ROOM_EXPORT_COLUMNS.join(' '))
+      .sort({ floor: 1, number: 1 })
+      .lean();
+
+    const rows = rooms.map((room) =>
+      Object.fromEntries(ROOM_EXPORT_COLUMNS.map((column) => [column, room[column] ?? null]))
+    );
+
+    if (format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', `attachment; filename="${req.user.hotelSlug}-rooms.csv"`);
+      return res.status(200).send(toCsv(ROOM_EXPORT_COLUMNS, rows));
+    }
+
+    res.status(200).json({
+      success: true,
+      count: rows.length,
+      data: rows
+    });
+  } catch (error) {
+    console.error('Export rooms error:', error);
+    next(new ErrorResponse('Server error', 500));
+  }
+};
+
+// Validation middleware for bulk room generation
+exports.validateRoomLayout = [
+  body('startFloor')
+    .isInt({ min: 1, max: 200 })
+    .withMessage('Start floor must be a number between 1 and 200')
+    .toInt(),
+
+  body('floors')
+    .isInt({ min: 1, max: 200 })
+    .withMessage('Floors must be a number between 1 and 200')
+    .toInt(),
+
+  body('roomsPerFloor')
+    .isInt({ min: 1, max: MAX_GENERATED_ROOMS })
+    .withMessage('Rooms per floor must be at least 1')
+    .toInt(),
+
+  body('scheme')
+    .optional()
+    .isIn(NUMBERING_SCHEMES)
+    .withMessage('Invalid numbering scheme'),
+
+  body('prefix')
+    .optional()
+    .trim()
+    .matches(/^[0-9A-Za-z-]{0,10}$/)
+    .withMessage('Prefix can only contain letters, numbers, and hyphens'),
+
+  body('types')
+    .isArray({ min: 1 })
+    .withMessage('At least one room type is required'),
+
+  body('types.*.type')
+    .trim()
+    .notEmpty()
+    .withMessage('Room type is required')
+    .isLength({ max: 50 })
+    .withMessage('Room type must be less than 50 characters'),
+
+  body('types.*.count')
+    .isInt({ min: 1 })
+    .withMessage('Room type count must be at least 1')
+    .toInt(),
+];
+
+// Validation middleware for printable QR code sheets
+exports.validateQRSheets = [
+  body('layout')
+    .optional()
+    .isIn(SHEET_LAYOUTS)
+    .withMessage('Invalid sheet layout'),
+
+  body('format')
+    .optional()
+    .isIn(SHEET_FORMATS)
+    .withMessage('Format must be pdf or svg'),
+
+  body('roomIds')
+    .optional()
+    .isArray({ max: MAX_SHEET_ROOMS })
+    .withMessage(`Select up to ${MAX_SHEET_ROOMS} rooms`),
+
+  body('roomIds.*')
+    .isMongoId()
+    .withMessage('Invalid room id'),
+
+  body('floor')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('Floor must be a non-negative number')
+    .toInt(),
+
+  body(['primaryColor', 'accentColor'])
+    .optional()
+    .matches(/^#[0-9a-fA-F]{6}$/)
+    .withMessage('Colours must be hex values like #1a2b3c'),
+
+  body('instructions')
+    .optional()
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage('Instructions must be less than 200 characters'),
+];
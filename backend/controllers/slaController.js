@@ -0,0 +1,204 @@
+const SlaPolicy = require('../models/SlaPolicy');
+const EscalationPolicy = require('../models/EscalationPolicy');
+const { body, validationResult } = require('express-validator');
+const ErrorResponse = require('../utils/errorResponse');
+const { TICKET_CATEGORIES, TICKET_PRIORITIES, ESCALATION_RULES } = require('../utils/constants');
+
+// @desc    Get the SLA matrix (configured policies merged with defaults)
+// @route   GET /api/sla/policies
+// @access  Private
+exports.getPolicies = async (req, res, next) => {
+  try {
+    const policies = await SlaPolicy.getMatrix(req.user.hotelId);
+
+    res.status(200).json({
+      success: true,
+      count: policies.length,
+      data: policies,
+    });
+  } catch (error) {
+    console.error('Get SLA policies error:', error);
+    next(new ErrorResponse('Server error', 500));
+  }
+};
+
+// @desc    Create or update the SLA policy for a category and priority
+// @route   PUT /api/sla/policies
+// @access  Private/Manager
+exports.upsertPolicy = async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array(),
+      });
+    }
+
+    const { category, priority, acknowledgeMinutes, resolveMinutes } = req.body;
+
+    if (acknowledgeMinutes > resolveMinutes) {
+      return next(new ErrorResponse('Acknowledge time cannot exceed resolve time', 400));
+    }
+
+    const policy = await SlaPolicy.findOneAndUpdate(
+      { manager: req.user.managerId, hotel: req.user.hotelId, category, priority },
+      { acknowledgeMinutes, resolveMinutes },
+      { new: true, upsert: true, runValidators: true, setDefaultsOnInsert: true }
+    );
+
+    res.status(200).json({
+      success: true,
+      data: {
+        category: policy.category,
+        priority: policy.priority,
+        acknowledgeMinutes: policy.acknowledgeMinutes,
+        resolveMinutes: policy.resolveMinutes,
+        isDefault: false,
+      },
+    });
+  } catch (error) {
+    console.error('Upsert SLA policy error:', error);
+    next(new ErrorResponse('Server error', 500));
+  }
+};
+
+// @desc    Reset a category and priority back to the default SLA
+// @route   DELETE /api/sla/policies/:category/:priority
+// @access  Private/Manager
+exports.resetPolicy = async (req, res, next) => {
+  try {
+    const { category, priority } = req.params;
+
+    await SlaPolicy.findOneAndDelete({
+      manager: req.user.managerId,
+      category,
+      priority,
+    });
+
+    const targets = await SlaPolicy.resolveFor(req.user.hotelId, category, priority);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        category,
+        priority,
+        acknowledgeMinutes: targets.acknowledgeMinutes,
+        resolveMinutes: targets.resolveMinutes,
+        isDefault: true,
+      },
+    });
+  } catch (error) {
+    console.error('Reset SLA policy error:', error);
+    next(new ErrorResponse('Server error', 500));
+  }
+};
+
+// @desc    Get the escalation rules with this hotel's thresholds
+// @route   GET /api/sla/escalations
+// @access  Private
+exports.getEscalationRules = async (req, res, next) => {
+  try {
+    const rules = await EscalationPolicy.getRules(req.user.hotelId);
+
+    res.status(200).json({
+      success: true,
+      count: rules.length,
+      data: rules,
+    });
+  } catch (error) {
+    console.error('Get escalation rules error:', error);
+    next(new ErrorResponse('Server error', 500));
+  }
+};
+
+// @desc    Set how long a ticket waits before an escalation rule fires
+// @route   PUT /api/sla/escalations
+// @access  Private/Manager
+exports.updateEscalationRule = async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array(),
+      });
+    }
+
+    const { rule, afterMinutes } = req.body;
+
+    await EscalationPolicy.findOneAndUpdate(
+      { manager: req.user.managerId, hotel: req.user.hotelId, rule },
+      { afterMinutes },
+      { new: true, upsert: true, runValidators: true, setDefaultsOnInsert: true }
+    );
+
+    const rules = await EscalationPolicy.getRules(req.user.hotelId);
+
+    res.status(200).json({
+      success: true,
+      data: rules.find((entry) => entry.id === rule),
+    });
+  } catch (error) {
+    console.error('Update escalation rule error:', error);
+    next(new ErrorResponse('Server error', 500));
+  }
+};
+
+// @desc    Reset an escalation rule back to its default threshold
+// @route   DELETE /api/sla/escalations/:rule
+// @access  Private/Manager
+exports.resetEscalationRule = async (req, res, next) => {
+  try {
+    const { rule } = req.params;
+
+    if (!ESCALATION_RULES.some((entry) => entry.id === rule)) {
+      return next(new ErrorResponse('Escalation rule not found', 404));
+    }
+
+    await EscalationPolicy.findOneAndDelete({ hotel: req.user.hotelId, rule });
+
+    const rules = await EscalationPolicy.getRules(req.user.hotelId);
+
+    res.status(200).json({
+      success: true,
+      data: rules.find((entry) => entry.id === rule),
+    });
+  } catch (error) {
+    console.error('Reset escalation rule error:', error);
+    next(new ErrorResponse('Server error', 500));
+  }
+};
+
+// Validation middleware for SLA policies
+exports.validatePolicy = [
+  body('category')
+    .isIn(TICKET_CATEGORIES)
+    .withMessage('Invalid ticket category'),
+
+  body('priority')
+    .isIn(TICKET_PRIORITIES)
+    .withMessage('Priority must be low, medium, or high'),
+
+  body('acknowledgeMinutes')
+    .isInt({ min: 1 })
+    .withMessage('Acknowledge time must be a whole number of minutes')
+    .toInt(),
+
+  body('resolveMinutes')
+    .isInt({ min: 1 })
+    .withMessage('Resolve time must be a whole number of minutes')
+    .toInt(),
+];
+
+// Validation middleware for escalation thresholds
+exports.validateEscalationRule = [
+  body('rule')
+    .isIn(ESCALATION_RULES.map((rule) => rule.id))
+    .withMessage('Invalid escalation rule'),
+
+  body('afterMinutes')
+    .isInt({ min: 1 })
+    .withMessage('Escalation time must be a whole number of minutes')
+    .toInt(),
+];
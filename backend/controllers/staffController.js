@@ -0,0 +1,316 @@
+const mongoose = require('mongoose');
+const User = require('../models/User');
+const OTP = require('../models/OTP');
+const { body, validationResult } = require('express-validator');
+const ErrorResponse = require('../utils/errorResponse');
+const { sendOTPEmail } = require('../utils/emailService');
+const { TICKET_CATEGORIES } = require('../utils/constants');
+const { staffScope, canAccessHotels } = require('../utils/accessControl');
+
+// Invitations stay valid for 7 days
+const INVITE_EXPIRY_MINUTES = 7 * 24 * 60;
+
+// Roles an invite or update may assign (there is only ever one owner)
+const ASSIGNABLE_ROLES = ['manager', 'supervisor', 'staff'];
+
+// Only the owner may create or edit other managers
+const canAssignRole = (actor, role) => actor.role === 'owner' || role !== 'manager';
+
+// Property access can only be handed out for properties the actor works at;
+// an empty list (every property) needs an actor who has that themselves
+const canGrantHotels = (actor, hotels) =>
+  canAccessHotels(actor, hotels) && (hotels.length > 0 || actor.hotels.length === 0);
+
+const toStaffMember = (user) => ({
+  id: user._id,
+  name: user.name,
+  email: user.email,
+  role: user.role,
+  allowedCategories: user.allowedCategories,
+  hotels: user.hotels || [],
+  isActive: user.isActive,
+  createdAt: user.createdAt,
+});
+
+// @desc    Get all staff accounts working at the current property
+// @route   GET /api/staff
+// @access  Private/Manager
+exports.getStaff = async (req, res, next) => {
+  try {
+    const users = await User.find(staffScope(req.user)).sort({ createdAt: 1 });
+
+    res.status(200).json({
+      success: true,
+      count: users.length,
+      data: users.map(toStaffMember),
+    });
+  } catch (error) {
+    console.error('Get staff error:', error);
+    next(new ErrorResponse('Server error', 500));
+  }
+};
+
+// @desc    Get pending staff invitations
+// @route   GET /api/staff/invites
+// @access  Private/Manager
+exports.getInvites = async (req, res, next) => {
+  try {
+    const invites = await OTP.find({
+      type: 'staff_invite',
+      isUsed: false,
+      expiresAt: { $gt: new Date() },
+      'inviteData.hotelOwner': req.user.managerId,
+    }).sort({ createdAt: -1 });
+
+    res.status(200).json({
+      success: true,
+      count: invites.length,
+      data: invites.map((invite) => ({
+        id: invite._id,
+        email: invite.email,
+        name: invite.inviteData.name,
+        role: invite.inviteData.role,
+        allowedCategories: invite.inviteData.allowedCategories,
+        hotels: invite.inviteData.hotels || [],
+        expiresAt: invite.expiresAt,
+      })),
+    });
+  } catch (error) {
+    console.error('Get invites error:', error);
+    next(new ErrorResponse('Server error', 500));
+  }
+};
+
+// @desc    Invite a staff member by email
+// @route   POST /api/staff/invite
+// @access  Private/Manager
+exports.inviteStaff = async (req, res, next) => {
+  try {
+    const { name, email, role, allowedCategories = [] } = req.body;
+    // New staff work at the property they were invited from unless told otherwise
+    const hotels = req.body.hotels || [req.user.hotelId];
+
+    if (!canAssignRole(req.user, role)) {
+      return next(new ErrorResponse('Only the hotel owner can invite managers', 403));
+    }
+
+    if (!canGrantHotels(req.user, hotels)) {
+      return next(new ErrorResponse('You can only invite staff to properties you work at', 403));
+    }
+
+    const existingUser = await User.findOne({ email });
+    if (existingUser) {
+      return next(new ErrorResponse('A user already exists with this email', 400));
+    }
+
+    const invite = await OTP.createOTP(email, 'staff_invite', INVITE_EXPIRY_MINUTES);
+    invite.inviteData = {
+      name,
+      role,
+      allowedCategories,
+      hotels,
+      hotelName: req.user.hotelName,
+      hotelOwner: req.user.managerId,
+      invitedBy: req.user.userId,
+    };
+    await invite.save();
+
+    try {
+      await sendOTPEmail(email, invite.otp, 'staff_invite');
+    } catch (emailError) {
+      await OTP.findByIdAndDelete(invite._id);
+      console.error('Invite email failed:', emailError);
+      return next(new ErrorResponse('Failed to send invitation email. Please try again.', 500));
+    }
+
+    res.status(201).json({
+      success: true,
+      message: `Invitation sent to ${invite.email}`,
+      data: {
+        id: invite._id,
+        email: invite.email,
+        name,
+        role,
+        allowedCategories,
+        hotels,
+        expiresAt: invite.expiresAt,
+      },
+    });
+  } catch (error) {
+    console.error('Invite staff error:', error);
+    next(new ErrorResponse('Server error', 500));
+  }
+};
+
+// @desc    Revoke a pending invitation
+// @route   DELETE /api/staff/invites/:id
+// @access  Private/Manager
+exports.revokeInvite = async (req, res, next) => {
+  try {
+    const invite = await OTP.findOneAndDelete({
+      _id: req.params.id,
+      type: 'staff_invite',
+      'inviteData.hotelOwner': req.user.managerId,
+    });
+
+    if (!invite) {
+      return next(new ErrorResponse(`Invitation not found with id of ${req.params.id}`, 404));
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {},
+    });
+  } catch (error) {
+    console.error('Revoke invite error:', error);
+    next(new ErrorResponse('Server error', 500));
+  }
+};
+
+// @desc    Update a staff member's role, categories, properties or active state
+// @route   PUT /api/staff/:id
+// @access  Private/Manager
+exports.updateStaff = async (req, res, next) => {
+  try {
+    // Only staff working at the manager's current property, never the owner
+    const staff = await User.findOne(
+      staffScope(req.user, { _id: req.params.id, hotelOwner: req.user.managerId })
+    );
+
+    if (!staff) {
+      return next(new ErrorResponse(`Staff member not found with id of ${req.params.id}`, 404));
+    }
+
+    if (!canAssignRole(req.user, staff.role) || !canAssignRole(req.user, req.body.role)) {
+      return next(new ErrorResponse('Only the hotel owner can change managers', 403));
+    }
+
+    if (req.body.hotels !== undefined && !canGrantHotels(req.user, req.body.hotels)) {
+      return next(new ErrorResponse('You can only give access to properties you work at', 403));
+    }
+
+    const fieldsToUpdate = ['role', 'allowedCategories', 'hotels', 'isActive'];
+    fieldsToUpdate.forEach((field) => {
+      if (req.body[field] !== undefined) {
+        staff[field] = req.body[field];
+      }
+    });
+
+    await staff.save();
+
+    res.status(200).json({
+      success: true,
+      data: toStaffMember(staff),
+    });
+  } catch (error) {
+    console.error('Update staff error:', error);
+    next(new ErrorResponse('Server error', 500));
+  }
+};
+
+// @desc    Deactivate a staff account
+// @route   DELETE /api/staff/:id
+// @access  Private/Manager
+exports.deactivateStaff = async (req, res, next) => {
+  try {
+    const staff = await User.findOne(
+      staffScope(req.user, { _id: req.params.id, hotelOwner: req.user.managerId, isActive: true })
+    );
+
+    if (!staff) {
+      return next(new ErrorResponse(`Staff member not found with id of ${req.params.id}`, 404));
+    }
+
+    if (!canAssignRole(req.user, staff.role)) {
+      return next(new ErrorResponse('Only the hotel owner can deactivate managers', 403));
+    }
+
+    staff.isActive = false;
+    await staff.save();
+
+    res.status(200).json({
+      success: true,
+      data: {},
+    });
+  } catch (error) {
+    console.error('Deactivate staff error:', error);
+    next(new ErrorResponse('Server error', 500));
+  }
+};
+
+const validateCategories = body('allowedCategories')
+  .optional()
+  .isArray()
+  .withMessage('Allowed categories must be a list')
+  .custom((categories) => categories.every((category) => TICKET_CATEGORIES.includes(category)))
+  .withMessage('Invalid ticket category');
+
+const validateHotels = body('hotels')
+  .optional()
+  .isArray()
+  .withMessage('Properties must be a list')
+  .custom((hotels) => hotels.every((hotel) => mongoose.isValidObjectId(hotel)))
+  .withMessage('Invalid property');
+
+const handleValidation = (req, res, next) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      errors: errors.array(),
+    });
+  }
+  next();
+};
+
+// Validation middleware for staff invitations
+exports.validateInvite = [
+  body('name')
+    .trim()
+    .notEmpty()
+    .withMessage('Name is required')
+    .isLength({ min: 2, max: 50 })
+    .withMessage('Name must be between 2 and 50 characters'),
+
+  body('email')
+    .trim()
+    .notEmpty()
+    .withMessage('Email is required')
+    .isEmail()
+    .withMessage('Please include a valid email')
+    .normalizeEmail(),
+
+  body('role')
+    .isIn(ASSIGNABLE_ROLES)
+    .withMessage('Role must be manager, supervisor or staff'),
+
+  validateCategories,
+
+  validateHotels,
+
+  body('allowedCategories')
+    .if(body('role').isIn(['supervisor', 'staff']))
+    .isArray({ min: 1 })
+    .withMessage('Supervisors and staff need at least one category'),
+
+  handleValidation,
+];
+
+// Validation middleware for staff updates
+exports.validateStaffUpdate = [
+  body('role')
+    .optional()
+    .isIn(ASSIGNABLE_ROLES)
+    .withMessage('Role must be manager, supervisor or staff'),
+
+  validateCategories,
+
+  validateHotels,
+
+  body('isActive')
+    .optional()
+    .isBoolean()
+    .withMessage('isActive must be true or false'),
+
+  handleValidation,
+];
@@ -1,58 +1,100 @@
 const Ticket = require("../models/Ticket");
 const Room = require("../models/Room");
+const ScanEvent = require("../models/ScanEvent");
 const { body, validationResult } = require("express-validator");
 const ErrorResponse = require("../utils/errorResponse");
-
-// Lightweight category classifier (kept local to avoid cross-deps)
-// Returns one of: reception, housekeeping, porter, concierge, service_fb, maintenance
-const classifyCategoryFast = (text = "") => {
-  const t = String(text || "").toLowerCase();
-  if (/(clean|towel|linen|sheet|housekeep|trash|amenit)/.test(t))
-    return "housekeeping";
-  if (
-    /(luggage|baggage|bags|bell ?(boy|hop)|porter|trolley|cart|carry|help with bags)/.test(
-      t
-    )
-  )
-    return "porter";
-  if (
-    /(break|broken|leak|ac|heater|hvac|power|door|plumb|fix|repair|not working|maintenance)/.test(
-      t
-    )
-  )
-    return "maintenance";
-  if (
-    /(food|breakfast|dinner|lunch|menu|order|restaurant|bar|drink|beverage|room service)/.test(
-      t
-    )
-  )
-    return "service_fb";
-  if (
-    /(taxi|uber|cab|transport|reservation|book|tour|attraction|recommend|directions|concierge)/.test(
-      t
-    )
-  )
-    return "concierge";
-  if (
-    /(check[- ]?in|check[- ]?out|bill|payment|key|card|front desk|reception)/.test(
-      t
-    )
-  )
-    return "reception";
-  return "reception";
-};
+const User = require("../models/User");
+const ClassifierSettings = require("../models/ClassifierSettings");
+const ClassificationFeedback = require("../models/ClassificationFeedback");
+const CannedResponse = require("../models/CannedResponse");
+const { TICKET_CATEGORIES } = require("../utils/constants");
+const { createLocalClassifier } = require("../services/classification/localClassifier");
+const { renderTemplate } = require("../services/cannedResponses");
+const { ticketScope, canAccessCategory, staffScope } = require("../utils/accessControl");
+const { emitToTicket, emitToTicketParticipants, emitToHotelBoard } = require("../utils/ticketRooms");
+const {
+  TICKET_STATUSES,
+  OPEN_TICKET_STATUSES,
+} = require("../utils/ticketLifecycle");
 
 // Helper function to emit ticket updates
 const emitTicketUpdate = (req, ticket, event = "ticketUpdated") => {
   if (req.app.get("io")) {
-    const io = req.app.get("io");
-    io.to(`ticket_${ticket._id}`).emit(event, ticket);
+    emitToTicket(req.app.get("io"), ticket, event);
+  }
+};
+
+// Look up the staff member a ticket is being given to, applying the same
+// rules whether it comes from the assign control or a macro
+const resolveAssignee = async (req, ticket, assigneeId) => {
+  // Regular staff can only pick up a ticket themselves or drop their own
+  if (req.user.role === "staff") {
+    const isSelf = assigneeId && String(assigneeId) === String(req.user.userId);
+    const isOwnTicket =
+      !assigneeId && String(ticket.assignedTo) === String(req.user.userId);
+    if (!isSelf && !isOwnTicket) {
+      return {
+        error: new ErrorResponse("Staff can only assign tickets to themselves", 403),
+      };
+    }
+  }
+
+  if (!assigneeId) {
+    return { assignee: null };
+  }
+
+  const assignee = await User.findOne(
+    staffScope(req.user, { _id: assigneeId, isActive: true })
+  );
+
+  if (!assignee) {
+    return { error: new ErrorResponse("Staff member not found", 404) };
+  }
+
+  if (!canAccessCategory(assignee, ticket.category)) {
+    return {
+      error: new ErrorResponse(
+        `${assignee.name} does not handle ${ticket.category} requests`,
+        400
+      ),
+    };
+  }
+
+  return { assignee };
+};
+
+// Hand the ticket over and note it in the thread; returns the previous assignee
+const setAssignee = (req, ticket, assignee) => {
+  const previousAssignee = ticket.assignedTo;
+  ticket.assignedTo = assignee ? assignee._id : null;
+  ticket.assignedAt = assignee ? new Date() : null;
+  ticket.messages.push({
+    content: assignee
+      ? `Assigned to ${assignee.name} by ${req.user.name}`
+      : `Unassigned by ${req.user.name}`,
+    sender: "system",
+    senderName: "System",
+  });
+  return previousAssignee;
+};
+
+// Push an assignment to the ticket room, both assignees and the board
+const emitAssignment = (req, ticket, previousAssignee) => {
+  emitTicketUpdate(req, ticket, "ticketAssigned");
+  const io = req.app.get("io");
+  if (io) {
+    const assigneeId = ticket.assignedTo && (ticket.assignedTo._id || ticket.assignedTo);
+    emitToHotelBoard(io, ticket, "ticketAssigned");
+    if (assigneeId) io.to(`user_${assigneeId}`).emit("ticketAssigned", ticket);
+    if (previousAssignee && String(previousAssignee) !== String(assigneeId)) {
+      io.to(`user_${previousAssignee}`).emit("ticketAssigned", ticket);
+    }
   }
 };
 
 // @desc    Create a new ticket (guest request)
 // @route   POST /api/tickets
-// @access  Public
+// @access  Private/Guest
 exports.createTicket = [
   // Input validation
   [
@@ -88,6 +130,11 @@ exports.createTicket = [
         category: incomingCategory,
       } = req.body;
 
+      // A guest session only raises tickets for the room it was started in
+      if (roomId !== req.guest.roomId) {
+        return next(new ErrorResponse("Your session is for a different room", 403));
+      }
+
       // Verify room exists and is active
       const room = await Room.findOne({
         _id: roomId,
@@ -98,17 +145,30 @@ exports.createTicket = [
         return next(new ErrorResponse("Invalid room or room not found", 404));
       }
 
-      // Determine category from provided value or heuristics on subject/message
+      // Determine category from provided value or the hotel's keyword classifier
       const resolvedCategory =
         incomingCategory ||
-        classifyCategoryFast(`${subject || ""} ${content || ""}`);
+        createLocalClassifier(
+          await ClassifierSettings.getForHotel(room.hotel)
+        ).classifyCategory(`${subject || ""} ${content || ""}`);
+      const classification = incomingCategory
+        ? null
+        : {
+            provider: "local",
+            guestMessage: content,
+            category: resolvedCategory,
+            predictedCategories: [resolvedCategory],
+          };
 
       // Create new ticket with all required fields
       const ticketData = {
         room: roomId,
         roomNumber: room.number, // Get room number from the found room
+        hotel: room.hotel,
         manager: room.manager, // Get manager from the room
+        guestSession: req.guest.sessionId,
         category: resolvedCategory,
+        classification,
         guestInfo: {
           name: guestName,
           contact: guestContact || "Not provided",
@@ -128,14 +188,19 @@ exports.createTicket = [
 
       const ticket = await Ticket.create(ticketData);
 
+      // Adoption tracking must never cost the guest their request
+      await ScanEvent.recordTicket(req.guest, ticket._id).catch((error) =>
+        console.error("Record scan ticket error:", error)
+      );
+
       // Populate room details for response
       await ticket.populate("room", "number type floor");
 
       // Notify managers about new ticket immediately via WebSocket
       if (req.app.get("io")) {
         const io = req.app.get("io");
-        // Emit to all managers (they should join 'managers' room)
-        io.to("managers").emit("newTicket", {
+        // Emit to the dashboards following this category (joined via joinManagersRoom)
+        emitToHotelBoard(io, ticket, "newTicket", {
           ticket,
           message: `New ticket raised by ${guestName} in Room ${room.number}`,
           timestamp: new Date(),
@@ -183,10 +248,11 @@ exports.getTickets = async (req, res, next) => {
     } = req.query;
 
     // Build query
-    const query = { manager: req.user.userId };
+    const filters = {};
 
-    if (status) query.status = status;
-    if (roomId) query.room = roomId;
+    if (status) filters.status = status;
+    if (roomId) filters.room = roomId;
+    const query = ticketScope(req.user, filters);
 
     // Execute query with pagination
     const tickets = await Ticket.find(query)
@@ -199,17 +265,14 @@ exports.getTickets = async (req, res, next) => {
     const total = await Ticket.countDocuments(query);
 
     // Get ticket counts by status
-    const raisedCount = await Ticket.countDocuments({
-      ...query,
-      status: "raised",
-    });
-    const inProgressCount = await Ticket.countDocuments({
+    const statusCounts = await Promise.all(
+      TICKET_STATUSES.map((ticketStatus) =>
+        Ticket.countDocuments({ ...query, status: ticketStatus })
+      )
+    );
+    const breachedCount = await Ticket.countDocuments({
       ...query,
-      status: "in_progress",
-    });
-    const completedCount = await Ticket.countDocuments({
-      ...query,
-      status: "completed",
+      "sla.breachedAt": { $ne: null },
     });
 
     res.status(200).json({
@@ -219,9 +282,13 @@ exports.getTickets = async (req, res, next) => {
       totalPages: Math.ceil(total / limit),
       currentPage: Number(page),
       stats: {
-        raised: raisedCount,
-        in_progress: inProgressCount,
-        completed: completedCount,
+        ...Object.fromEntries(
+          TICKET_STATUSES.map((ticketStatus, index) => [
+            ticketStatus,
+            statusCounts[index],
+          ])
+        ),
+        breached: breachedCount,
         total,
       },
       data: tickets,
@@ -237,10 +304,9 @@ exports.getTickets = async (req, res, next) => {
 // @access  Private/Manager
 exports.getTicket = async (req, res, next) => {
   try {
-    const ticket = await Ticket.findOne({
-      _id: req.params.id,
-      manager: req.user.userId,
-    }).populate("room", "number type floor");
+    const ticket = await Ticket.findOne(ticketScope(req.user, { _id: req.params.id }))
+      .populate("room", "number type floor")
+      .populate("assignedTo", "name email role");
 
     if (!ticket) {
       return next(new ErrorResponse("Ticket not found", 404));
@@ -262,23 +328,37 @@ exports.getTicket = async (req, res, next) => {
 exports.updateTicketStatus = async (req, res, next) => {
   try {
     const { status } = req.body;
+    const reason = typeof req.body.reason === "string" ? req.body.reason.trim() : "";
 
-    if (!["raised", "in_progress", "completed"].includes(status)) {
+    if (!TICKET_STATUSES.includes(status)) {
       return next(new ErrorResponse("Invalid status", 400));
     }
 
-    let ticket = await Ticket.findOne({
-      _id: req.params.id,
-      manager: req.user.userId,
-    });
+    let ticket = await Ticket.findOne(ticketScope(req.user, { _id: req.params.id }));
 
     if (!ticket) {
       return next(new ErrorResponse("Ticket not found", 404));
     }
 
-    ticket.status = status;
+    if (!ticket.canTransitionTo(status)) {
+      return next(
+        new ErrorResponse(`Cannot move a ticket from ${ticket.status} to ${status}`, 400)
+      );
+    }
+
+    if (status === "on_hold" && !reason) {
+      return next(new ErrorResponse("A reason is required to put a ticket on hold", 400));
+    }
+
+    ticket.transitionTo(status, {
+      actorType: "staff",
+      actor: req.user.userId,
+      actorName: req.user.name,
+      reason: reason || null,
+    });
     await ticket.save();
     await ticket.populate("room", "number type floor");
+    await ticket.populate("assignedTo", "name email role");
 
     // Notify about status update
     emitTicketUpdate(req, ticket);
@@ -304,18 +384,11 @@ exports.addMessage = async (req, res, next) => {
       return next(new ErrorResponse("Message content is required", 400));
     }
 
-    // For guest requests, we'll need to verify the ticket ID matches their room
-    // For now, we'll just handle manager messages
-    const isManager = req.user?.role === "manager";
-
-    if (!isManager) {
+    if (!req.user) {
       return next(new ErrorResponse("Unauthorized", 401));
     }
 
-    const ticket = await Ticket.findOne({
-      _id: req.params.id,
-      manager: req.user.userId,
-    });
+    const ticket = await Ticket.findOne(ticketScope(req.user, { _id: req.params.id }));
 
     if (!ticket) {
       return next(new ErrorResponse("Ticket not found", 404));
@@ -329,6 +402,8 @@ exports.addMessage = async (req, res, next) => {
     };
 
     ticket.messages.push(message);
+    // Replying implies staff have read the thread so far
+    ticket.markRead("staff");
     await ticket.save();
 
     // Populate room for the notification
@@ -339,10 +414,312 @@ exports.addMessage = async (req, res, next) => {
 
     res.status(201).json({
       success: true,
-      data: message,
+      data: ticket.messages[ticket.messages.length - 1],
     });
   } catch (error) {
     console.error("Add message error:", error);
     next(new ErrorResponse("Server error", 500));
   }
 };
+
+// @desc    Mark a ticket's conversation as read by staff
+// @route   PUT /api/tickets/:id/read
+// @access  Private
+exports.markTicketRead = async (req, res, next) => {
+  try {
+    const ticket = await Ticket.findOne(ticketScope(req.user, { _id: req.params.id }));
+
+    if (!ticket) {
+      return next(new ErrorResponse("Ticket not found", 404));
+    }
+
+    const readAt = ticket.markRead("staff");
+    await ticket.save();
+
+    const io = req.app.get("io");
+    if (io) {
+      emitToTicketParticipants(io, ticket._id, "ticketRead", {
+        ticketId: ticket._id,
+        side: "staff",
+        readAt,
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: ticket.lastReadAt,
+    });
+  } catch (error) {
+    console.error("Mark ticket read error:", error);
+    next(new ErrorResponse("Server error", 500));
+  }
+};
+
+// @desc    Assign or unassign a ticket to a staff member
+// @route   PUT /api/tickets/:id/assign
+// @access  Private
+exports.assignTicket = async (req, res, next) => {
+  try {
+    const { assigneeId = null } = req.body;
+
+    const ticket = await Ticket.findOne(ticketScope(req.user, { _id: req.params.id }));
+
+    if (!ticket) {
+      return next(new ErrorResponse("Ticket not found", 404));
+    }
+
+    const { assignee, error } = await resolveAssignee(req, ticket, assigneeId);
+    if (error) {
+      return next(error);
+    }
+
+    const previousAssignee = setAssignee(req, ticket, assignee);
+
+    await ticket.save();
+    await ticket.populate("room", "number type floor");
+    await ticket.populate("assignedTo", "name email role");
+
+    emitAssignment(req, ticket, previousAssignee);
+
+    res.status(200).json({
+      success: true,
+      data: ticket,
+    });
+  } catch (error) {
+    console.error("Assign ticket error:", error);
+    next(new ErrorResponse("Server error", 500));
+  }
+};
+
+// @desc    Send a canned response, running its macro actions
+// @route   POST /api/tickets/:id/canned-response
+// @access  Private
+exports.applyCannedResponse = async (req, res, next) => {
+  try {
+    const { cannedResponseId, content } = req.body;
+
+    const ticket = await Ticket.findOne(ticketScope(req.user, { _id: req.params.id }));
+
+    if (!ticket) {
+      return next(new ErrorResponse("Ticket not found", 404));
+    }
+
+    const cannedResponse = cannedResponseId
+      ? await CannedResponse.findOne({ _id: cannedResponseId, manager: req.user.managerId })
+      : null;
+
+    if (!cannedResponse) {
+      return next(new ErrorResponse("Canned response not found", 404));
+    }
+
+    // Staff may have edited the filled-in text before sending
+    const text =
+      typeof content === "string" && content.trim()
+        ? content.trim()
+        : renderTemplate(cannedResponse.body, ticket, { staffName: req.user.name });
+
+    // Check every action before changing anything
+    const { status, assignee: assigneeAction } = cannedResponse.actions || {};
+    const changeStatus = status && status !== ticket.status;
+    if (changeStatus && !ticket.canTransitionTo(status)) {
+      return next(
+        new ErrorResponse(`Cannot move a ticket from ${ticket.status} to ${status}`, 400)
+      );
+    }
+
+    let assignment = null;
+    if (assigneeAction) {
+      const assigneeId =
+        assigneeAction === "self"
+          ? req.user.userId
+          : assigneeAction === "unassigned"
+          ? null
+          : assigneeAction;
+      assignment = await resolveAssignee(req, ticket, assigneeId);
+      if (assignment.error) {
+        return next(assignment.error);
+      }
+    }
+
+    ticket.messages.push({
+      content: text,
+      sender: "manager",
+      senderName: req.user.name,
+    });
+    ticket.markRead("staff");
+
+    if (changeStatus) {
+      ticket.transitionTo(status, {
+        actorType: "staff",
+        actor: req.user.userId,
+        actorName: req.user.name,
+      });
+    }
+
+    const previousAssignee = assignment ? setAssignee(req, ticket, assignment.assignee) : null;
+
+    await ticket.save();
+    await ticket.populate("room", "number type floor");
+    await ticket.populate("assignedTo", "name email role");
+
+    await CannedResponse.updateOne(
+      { _id: cannedResponse._id },
+      { $inc: { usageCount: 1 }, $set: { lastUsedAt: new Date() } }
+    );
+
+    emitTicketUpdate(req, ticket, "newMessage");
+    if (changeStatus) emitTicketUpdate(req, ticket);
+    if (assignment) emitAssignment(req, ticket, previousAssignee);
+
+    res.status(200).json({
+      success: true,
+      data: ticket,
+    });
+  } catch (error) {
+    console.error("Apply canned response error:", error);
+    next(new ErrorResponse("Server error", 500));
+  }
+};
+
+// @desc    Move a ticket to another category, recording the correction
+// @route   PUT /api/tickets/:id/category
+// @access  Private
+exports.updateTicketCategory = async (req, res, next) => {
+  try {
+    const { category } = req.body;
+
+    if (!TICKET_CATEGORIES.includes(category)) {
+      return next(new ErrorResponse("Invalid category", 400));
+    }
+
+    const ticket = await Ticket.findOne(ticketScope(req.user, { _id: req.params.id }));
+
+    if (!ticket) {
+      return next(new ErrorResponse("Ticket not found", 404));
+    }
+
+    if (ticket.category === category) {
+      return next(new ErrorResponse(`Ticket is already in ${category}`, 400));
+    }
+
+    const previousCategory = ticket.category;
+    const classification = ticket.classification;
+    const firstGuestMessage = ticket.messages.find((message) => message.sender === "guest");
+
+    // Each correction becomes a labelled example for the classifier
+    await ClassificationFeedback.create({
+      manager: ticket.manager,
+      hotel: ticket.hotel,
+      ticket: ticket._id,
+      guestMessage:
+        (classification && classification.guestMessage) ||
+        (firstGuestMessage || ticket.messages[0] || {}).content ||
+        ticket.subject,
+      previousCategory,
+      predictedCategories:
+        classification && classification.predictedCategories.length > 0
+          ? classification.predictedCategories
+          : [previousCategory],
+      confidence: classification ? classification.confidence : null,
+      provider: classification ? classification.provider : null,
+      correctedCategory: category,
+      correctedBy: req.user.userId,
+      correctedByName: req.user.name,
+    });
+
+    ticket.category = category;
+    if (classification && !classification.correctedAt) {
+      classification.correctedAt = new Date();
+    }
+    if (ticket.subject === `${previousCategory.toUpperCase()} - Room ${ticket.roomNumber}`) {
+      ticket.subject = `${category.toUpperCase()} - Room ${ticket.roomNumber}`;
+    }
+
+    // The current assignee may not work in the new department
+    let unassigned = null;
+    if (ticket.assignedTo) {
+      const assignee = await User.findById(ticket.assignedTo);
+      if (!assignee || !canAccessCategory(assignee, category)) {
+        unassigned = ticket.assignedTo;
+        ticket.assignedTo = null;
+        ticket.assignedAt = null;
+      }
+    }
+
+    ticket.messages.push({
+      content: `Moved from ${previousCategory} to ${category} by ${req.user.name}${
+        unassigned ? " and unassigned" : ""
+      }`,
+      sender: "system",
+      senderName: "System",
+    });
+
+    await ticket.save();
+    await ticket.populate("room", "number type floor");
+    await ticket.populate("assignedTo", "name email role");
+
+    emitTicketUpdate(req, ticket);
+    const io = req.app.get("io");
+    if (io) {
+      emitToHotelBoard(io, ticket, "ticketUpdated");
+      // The old department's board only learns that the ticket has left it
+      emitToHotelBoard(io, ticket, "ticketUpdated", { _id: ticket._id, category: ticket.category }, [
+        previousCategory,
+      ]);
+      if (unassigned) io.to(`user_${unassigned}`).emit("ticketAssigned", ticket);
+    }
+
+    res.status(200).json({
+      success: true,
+      data: ticket,
+    });
+  } catch (error) {
+    console.error("Update ticket category error:", error);
+    next(new ErrorResponse("Server error", 500));
+  }
+};
+
+// @desc    Get open ticket counts per staff member
+// @route   GET /api/tickets/workload
+// @access  Private
+exports.getWorkload = async (req, res, next) => {
+  try {
+    const [counts, staff] = await Promise.all([
+      Ticket.getWorkload(ticketScope(req.user)),
+      User.find(staffScope(req.user, { isActive: true }))
+        .select("name email role allowedCategories")
+        .sort({ name: 1 }),
+    ]);
+
+    const emptyCounts = () => ({
+      ...Object.fromEntries(OPEN_TICKET_STATUSES.map((status) => [status, 0])),
+      total: 0,
+    });
+    const byAssignee = new Map();
+    counts.forEach(({ _id, count }) => {
+      const key = _id.assignedTo ? String(_id.assignedTo) : "unassigned";
+      if (!byAssignee.has(key)) byAssignee.set(key, emptyCounts());
+      const entry = byAssignee.get(key);
+      entry[_id.status] = count;
+      entry.total += count;
+    });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        unassigned: byAssignee.get("unassigned") || emptyCounts(),
+        staff: staff.map((member) => ({
+          id: member._id,
+          name: member.name,
+          email: member.email,
+          role: member.role,
+          allowedCategories: member.allowedCategories,
+          open: byAssignee.get(String(member._id)) || emptyCounts(),
+        })),
+      },
+    });
+  } catch (error) {
+    console.error("Get workload error:", error);
+    next(new ErrorResponse("Server error", 500));
+  }
+};
@@ -1,7 +1,12 @@
 const { body, validationResult } = require('express-validator');
-const jwt = require('jsonwebtoken');
 const { createClient } = require('@supabase/supabase-js');
 const User = require('../models/User');
+const Hotel = require('../models/Hotel');
+const Room = require('../models/Room');
+const { MANAGEMENT_ROLES } = require('../utils/constants');
+const { verifyGuestToken } = require('../utils/guestToken');
+const { verifyStaffJwt } = require('../utils/staffToken');
+const { runWithHotel } = require('../utils/tenant');
 
 // Initialize Supabase client
 const supabase = createClient(process.env.SUPABASE_URL, process.env.SUPABASE_ANON_KEY);
@@ -21,8 +26,8 @@ exports.authenticateManager = exports.authenticate = async (req, res, next) => {
     const token = authHeader.replace('Bearer ', '');
 
     try {
-      // Verify the JWT token using our local secret
-      const decoded = jwt.verify(token, process.env.JWT_SECRET);
+      // Verify the JWT token using our local secret; guest and QR tokens are refused
+      const decoded = verifyStaffJwt(token);
       
       // Verify the user exists in our database
       const user = await User.findOne({ _id: decoded.userId, isActive: true });
@@ -34,16 +39,34 @@ exports.authenticateManager = exports.authenticate = async (req, res, next) => {
         });
       }
 
+      // Property picked in the dashboard header, if the user may work there
+      const { hotel, hotels } = await Hotel.selectForUser(user, req.header('X-Hotel-Id'));
+
+      if (!hotel) {
+        return res.status(403).json({
+          success: false,
+          message: 'You do not have access to any property'
+        });
+      }
+
       // Add user to request object
       req.user = {
         userId: user._id,  // Add user ID for database lookups
+        managerId: user.managerId, // Hotel owner account that rooms and tickets belong to
+        hotelId: hotel._id, // Every room, ticket and settings query is limited to this property
+        hotelSlug: hotel.slug,
+        hotelIds: hotels.map((property) => property._id), // Properties the user may switch to
+        properties: hotels.map(({ _id, name, slug }) => ({ id: _id, name, slug })),
+        hotels: user.hotels || [], // Properties the account is limited to (empty means all)
         supabaseId: user.supabaseId,
         email: user.email,
         name: user.name,
-        hotelName: user.hotelName
+        hotelName: user.hotelName,
+        role: user.role,
+        allowedCategories: user.allowedCategories || []
       };
       
-      return next();
+      return runWithHotel(hotel._id, next);
     } catch (jwtError) {
       console.error('JWT verification failed:', jwtError);
       return res.status(401).json({ 
@@ -63,30 +86,121 @@ exports.authenticateManager = exports.authenticate = async (req, res, next) => {
 };
 
 /**
- * Middleware to check if user has manager role
+ * Middleware factory to restrict a route to the given staff roles
  * Must be used after authenticate middleware
  */
-exports.authorizeManager = (req, res, next) => {
-  // Since we only have managers in our system, this is just a placeholder
-  // In a more complex system, we would check user roles here
+exports.authorize = (...roles) => (req, res, next) => {
   if (!req.user) {
     return res.status(401).json({ 
       success: false,
       message: 'Not authorized to access this route' 
     });
   }
-  
-  // If we need to add more granular permissions in the future:
-  // if (req.user.role !== 'manager') {
-  //   return res.status(403).json({ 
-  //     success: false,
-  //     message: 'Not authorized to access this resource' 
-  //   });
-  // }
-  
+
+  if (!roles.includes(req.user.role)) {
+    return res.status(403).json({ 
+      success: false,
+      message: `Role ${req.user.role} is not authorized to access this resource` 
+    });
+  }
+
+  next();
+};
+
+/**
+ * Middleware to check if user has a management role (owner or manager)
+ * Must be used after authenticate middleware
+ */
+exports.authorizeManager = exports.authorize(...MANAGEMENT_ROLES);
+
+// Guest session behind a token, or null once it has expired or the room's
+// QR code has been rotated since it started
+const verifyCurrentGuest = async (token) => {
+  const guest = verifyGuestToken(token);
+  if (!guest) return null;
+
+  return (await Room.acceptsGuestSession(guest)) ? guest : null;
+};
+
+const getBearerToken = (req) => {
+  const authHeader = req.header('Authorization');
+  return authHeader && authHeader.startsWith('Bearer ')
+    ? authHeader.replace('Bearer ', '')
+    : null;
+};
+
+/**
+ * Middleware for guest-facing routes; requires a guest session token
+ * Sets req.guest to the decoded session
+ */
+exports.authenticateGuest = async (req, res, next) => {
+  try {
+    const guest = await verifyCurrentGuest(getBearerToken(req));
+
+    if (!guest) {
+      return res.status(401).json({
+        success: false,
+        message: 'Guest session is missing or has expired'
+      });
+    }
+
+    req.guest = guest;
+    runWithHotel(guest.hotelId, next);
+  } catch (err) {
+    console.error('Guest authentication error:', err);
+    return res.status(500).json({
+      success: false,
+      message: 'Server Error'
+    });
+  }
+};
+
+/**
+ * Middleware that attaches the guest session when a valid token is sent,
+ * but still lets anonymous guests through
+ */
+exports.identifyGuest = async (req, res, next) => {
+  try {
+    req.guest = await verifyCurrentGuest(getBearerToken(req));
+  } catch (err) {
+    console.error('Identify guest error:', err);
+    req.guest = null;
+  }
+  if (req.guest) return runWithHotel(req.guest.hotelId, next);
   next();
 };
 
+/**
+ * Middleware for public routes that name a hotel by its slug, either as the
+ * :hotelSlug route param or a hotelSlug body field. Sets req.hotel and limits
+ * the rest of the request to that hotel; requests that don't name one (or
+ * already carry a guest session) pass through untouched.
+ */
+exports.identifyHotel = async (req, res, next) => {
+  const slug = req.params.hotelSlug || (req.body && req.body.hotelSlug);
+  if (req.guest || !slug) return next();
+
+  try {
+    const hotel = await Hotel.findOne({ slug: String(slug).toLowerCase(), isActive: true });
+
+    if (!hotel) {
+      return res.status(404).json({
+        success: false,
+        message: 'Hotel not found'
+      });
+    }
+
+    req.hotel = hotel;
+    return runWithHotel(hotel._id, next);
+  } catch (err) {
+    console.error('Identify hotel error:', err);
+    return res.status(500).json({
+      success: false,
+      message: 'Server Error'
+    });
+  }
+};
+
 // Alias for backward compatibility
 exports.validateManagerSignup = exports.validateRegistration;
 
@@ -0,0 +1,115 @@
+const mongoose = require('mongoose');
+const { TICKET_CATEGORIES } = require('../utils/constants');
+const { hotelScoped, runWithHotel } = require('../utils/tenant');
+
+// Completed tickets moved out of the live collection by the retention policy.
+// The full ticket document is kept in `snapshot` so it can be restored as-is.
+const archivedTicketSchema = new mongoose.Schema(
+  {
+    originalId: {
+      type: mongoose.Schema.ObjectId,
+      required: true,
+      unique: true,
+    },
+    manager: {
+      type: mongoose.Schema.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    roomNumber: {
+      type: String,
+      trim: true,
+    },
+    category: {
+      type: String,
+      enum: TICKET_CATEGORIES,
+    },
+    subject: {
+      type: String,
+      trim: true,
+    },
+    guestName: {
+      type: String,
+      trim: true,
+    },
+    messageText: {
+      type: String,
+      default: '',
+    },
+    ticketCreatedAt: Date,
+    completedAt: Date,
+    archivedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    snapshot: {
+      type: mongoose.Schema.Types.Mixed,
+      required: true,
+    },
+  },
+  {
+    timestamps: false,
+  }
+);
+
+archivedTicketSchema.plugin(hotelScoped);
+
+archivedTicketSchema.index({ hotel: 1, archivedAt: -1 });
+archivedTicketSchema.index({ hotel: 1, completedAt: 1 });
+archivedTicketSchema.index({ subject: 'text', guestName: 'text', messageText: 'text', roomNumber: 'text' });
+
+// Static method to move tickets into the archive
+archivedTicketSchema.statics.archiveTickets = async function(tickets) {
+  if (tickets.length === 0) return 0;
+
+  const docs = tickets.map((ticket) => {
+    const snapshot = ticket.toObject({ virtuals: false, depopulate: true });
+    return {
+      originalId: ticket._id,
+      hotel: ticket.hotel,
+      manager: ticket.manager,
+      roomNumber: ticket.roomNumber,
+      category: ticket.category,
+      subject: ticket.subject,
+      guestName: ticket.guestInfo?.name,
+      messageText: (ticket.messages || []).map((message) => message.content).join('\n'),
+      ticketCreatedAt: ticket.createdAt,
+      completedAt: ticket.completedAt,
+      snapshot,
+    };
+  });
+
+  // ordered: false so one bad document doesn't stop the rest of the batch
+  try {
+    await this.insertMany(docs, { ordered: false });
+  } catch (error) {
+    console.error('Some tickets could not be archived:', error.message);
+  }
+
+  // Only remove live tickets that are safely in the archive
+  const archived = await this.find({
+    originalId: { $in: tickets.map((ticket) => ticket._id) },
+  }).select('originalId');
+
+  const Ticket = mongoose.model('Ticket');
+  const result = await Ticket.deleteMany({
+    _id: { $in: archived.map((doc) => doc.originalId) },
+  });
+  return result.deletedCount;
+};
+
+// Restore an archived ticket into the live collection of the hotel it came from
+archivedTicketSchema.methods.restore = async function() {
+  const Ticket = mongoose.model('Ticket');
+  const snapshot = { ...this.snapshot, hotel: this.hotel, restoredAt: new Date() };
+
+  return runWithHotel(this.hotel, async () => {
+    // Insert the raw document so the original _id and timestamps survive
+    await Ticket.collection.insertOne(snapshot);
+    await this.deleteOne();
+
+    return Ticket.findById(snapshot._id);
+  });
+};
+
+module.exports = mongoose.model('ArchivedTicket', archivedTicketSchema);
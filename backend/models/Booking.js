@@ -1,11 +1,14 @@
+const crypto = require('crypto');
 const mongoose = require('mongoose');
+const { hotelScoped } = require('../utils/tenant');
+const { BOOKING_STATUSES, ROOM_HOLDING_BOOKING_STATUSES } = require('../utils/constants');
 
 const bookingSchema = new mongoose.Schema(
   {
+    // Reference given to the guest, unique within the hotel
     bookingNumber: {
       type: String,
       required: true,
-      unique: true,
       trim: true,
     },
     hotel: {
@@ -24,9 +27,9 @@ const bookingSchema = new mongoose.Schema(
         required: [true, 'Guest name is required'],
         trim: true,
       },
+      // Optional so walk-ins can be booked straight from the calendar
       email: {
         type: String,
-        required: [true, 'Guest email is required'],
         trim: true,
         lowercase: true,
         match: [
@@ -55,19 +58,27 @@ const bookingSchema = new mongoose.Schema(
     },
     numberOfGuests: {
       type: Number,
-      required: [true, 'Number of guests is required'],
+      default: 1,
       min: [1, 'Number of guests must be at least 1'],
     },
     totalAmount: {
       type: Number,
-      required: [true, 'Total amount is required'],
+      default: 0,
       min: [0, 'Total amount cannot be negative'],
     },
     status: {
       type: String,
-      enum: ['confirmed', 'cancelled', 'completed', 'no-show'],
+      enum: BOOKING_STATUSES,
       default: 'confirmed',
     },
+    checkedInAt: {
+      type: Date,
+      default: null,
+    },
+    checkedOutAt: {
+      type: Date,
+      default: null,
+    },
     specialRequests: {
       type: String,
       trim: true,
@@ -112,11 +123,13 @@ const bookingSchema = new mongoose.Schema(
   }
 );
 
+bookingSchema.plugin(hotelScoped);
+
 // Indexes for better query performance
-bookingSchema.index({ hotel: 1 });
-bookingSchema.index({ room: 1 });
+bookingSchema.index({ hotel: 1, bookingNumber: 1 }, { unique: true });
+bookingSchema.index({ room: 1, checkIn: 1, checkOut: 1 });
+bookingSchema.index({ hotel: 1, checkIn: 1, checkOut: 1 });
 bookingSchema.index({ 'guest.email': 1 });
-bookingSchema.index({ checkIn: 1, checkOut: 1 });
 bookingSchema.index({ status: 1 });
 bookingSchema.index({ paymentStatus: 1 });
 
@@ -125,56 +138,36 @@ bookingSchema.virtual('duration').get(function () {
   return Math.ceil((this.checkOut - this.checkIn) / (1000 * 60 * 60 * 24));
 });
 
-// Generate booking number before saving
-bookingSchema.pre('save', async function (next) {
-  if (!this.isNew) return next();
-  
-  // Generate a unique booking number (e.g., HOTEL-123456)
-  const count = await this.constructor.countDocuments();
-  this.bookingNumber = `HOTEL-${(count + 1).toString().padStart(6, '0')}`;
-  
-  next();
-});
-
-// Update room availability when a booking is created
-bookingSchema.post('save', async function (doc) {
-  if (doc.status === 'confirmed') {
-    // Update room availability if needed
-    // This is a simplified example - in a real app, you'd want to handle this more carefully
-    await mongoose.model('Hotel').updateOne(
-      { 'rooms._id': doc.room },
-      { $set: { 'rooms.$.isAvailable': false } }
-    );
-  }
-});
-
-// Update room availability when a booking is cancelled
-bookingSchema.post('findOneAndUpdate', async function (doc) {
-  if (doc && doc.status === 'cancelled') {
-    // Update room availability when a booking is cancelled
-    await mongoose.model('Hotel').updateOne(
-      { 'rooms._id': doc.room },
-      { $set: { 'rooms.$.isAvailable': true } }
-    );
+// Give new bookings a reference before the required check runs
+bookingSchema.pre('validate', function (next) {
+  if (!this.bookingNumber) {
+    this.bookingNumber = `BK-${crypto.randomBytes(4).toString('hex').toUpperCase()}`;
   }
+  next();
 });
 
-// Static method to check room availability
-bookingSchema.statics.isRoomAvailable = async function (roomId, checkIn, checkOut, excludeBookingId = null) {
+/**
+ * First booking that holds the room for any night between checkIn and checkOut.
+ * Stays are half-open, so one guest can check out the day the next checks in.
+ * @param {string|ObjectId} roomId - Room to check
+ * @param {Date|string} checkIn - First night
+ * @param {Date|string} checkOut - Departure day
+ * @param {string|ObjectId} [excludeBookingId] - Booking being moved or extended
+ * @returns {Promise<Object|null>}
+ */
+bookingSchema.statics.findConflict = function (roomId, checkIn, checkOut, excludeBookingId = null) {
   const query = {
     room: roomId,
-    status: { $ne: 'cancelled' }, // Exclude cancelled bookings
-    $or: [
-      { checkIn: { $lt: new Date(checkOut) }, checkOut: { $gt: new Date(checkIn) } },
-    ],
+    status: { $in: ROOM_HOLDING_BOOKING_STATUSES },
+    checkIn: { $lt: new Date(checkOut) },
+    checkOut: { $gt: new Date(checkIn) },
   };
 
   if (excludeBookingId) {
     query._id = { $ne: excludeBookingId };
   }
 
-  const existingBooking = await this.findOne(query);
-  return !existingBooking;
+  return this.findOne(query);
 };
 
 const Booking = mongoose.model('Booking', bookingSchema);
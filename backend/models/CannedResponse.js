@@ -0,0 +1,79 @@
+const mongoose = require('mongoose');
+const { TICKET_CATEGORIES } = require('../utils/constants');
+const { TICKET_STATUSES } = require('../utils/ticketLifecycle');
+const { hotelScoped } = require('../utils/tenant');
+
+// What a macro does to the ticket besides sending its reply
+const macroActionsSchema = new mongoose.Schema({
+  // On hold needs a reason, so macros cannot park a ticket
+  status: {
+    type: String,
+    enum: [...TICKET_STATUSES.filter((status) => status !== 'on_hold'), null],
+    default: null,
+  },
+  // 'self', 'unassigned' or a staff member's id
+  assignee: {
+    type: String,
+    default: null,
+  },
+}, { _id: false });
+
+// A saved reply staff can send with one click; with actions it becomes a macro
+const cannedResponseSchema = new mongoose.Schema(
+  {
+    manager: {
+      type: mongoose.Schema.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    title: {
+      type: String,
+      required: [true, 'Title is required'],
+      trim: true,
+      maxlength: [80, 'Title cannot exceed 80 characters'],
+    },
+    // May use {guestName}, {roomNumber}, {eta}, {staffName} and {department}
+    body: {
+      type: String,
+      required: [true, 'Response text is required'],
+      trim: true,
+      maxlength: [2000, 'Response text cannot exceed 2000 characters'],
+    },
+    // Only offered on tickets of this category; null for every category
+    category: {
+      type: String,
+      enum: [...TICKET_CATEGORIES, null],
+      default: null,
+    },
+    actions: {
+      type: macroActionsSchema,
+      default: () => ({}),
+    },
+    usageCount: {
+      type: Number,
+      default: 0,
+    },
+    lastUsedAt: {
+      type: Date,
+      default: null,
+    },
+    createdBy: {
+      type: mongoose.Schema.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+cannedResponseSchema.plugin(hotelScoped);
+
+cannedResponseSchema.index({ hotel: 1, category: 1 });
+
+// Whether using the response also changes the ticket
+cannedResponseSchema.methods.isMacro = function() {
+  return Boolean(this.actions && (this.actions.status || this.actions.assignee));
+};
+
+module.exports = mongoose.model('CannedResponse', cannedResponseSchema);
@@ -0,0 +1,137 @@
+const mongoose = require('mongoose');
+const { TICKET_CATEGORIES } = require('../utils/constants');
+const { hotelScoped } = require('../utils/tenant');
+
+// What the classifier made of a guest turn
+const turnClassificationSchema = new mongoose.Schema({
+  provider: {
+    type: String,
+    default: null,
+  },
+  categories: [{
+    type: String,
+    enum: TICKET_CATEGORIES,
+  }],
+  confidence: {
+    type: Number,
+    default: null,
+  },
+  priority: {
+    type: String,
+    default: null,
+  },
+  shouldCreateTicket: {
+    type: Boolean,
+    default: false,
+  },
+}, { _id: false });
+
+const turnSchema = new mongoose.Schema({
+  role: {
+    type: String,
+    enum: ['guest', 'assistant'],
+    required: true,
+  },
+  content: {
+    type: String,
+    required: [true, 'Message content is required'],
+    trim: true,
+  },
+  // Only set on guest turns
+  classification: {
+    type: turnClassificationSchema,
+    default: undefined,
+  },
+}, { timestamps: true });
+
+// The guest's conversation with Ella, one per guest session and room
+const chatSessionSchema = new mongoose.Schema(
+  {
+    sessionId: {
+      type: String,
+      required: true,
+    },
+    room: {
+      type: mongoose.Schema.ObjectId,
+      ref: 'Room',
+      required: true,
+    },
+    roomNumber: {
+      type: String,
+      required: true,
+    },
+    manager: {
+      type: mongoose.Schema.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    guestName: {
+      type: String,
+      trim: true,
+    },
+    turns: [turnSchema],
+    // Tickets raised from this conversation
+    tickets: [{
+      type: mongoose.Schema.ObjectId,
+      ref: 'Ticket',
+    }],
+    lastMessageAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+chatSessionSchema.plugin(hotelScoped);
+
+chatSessionSchema.index({ hotel: 1, sessionId: 1, room: 1 }, { unique: true });
+chatSessionSchema.index({ tickets: 1 });
+
+// Find the guest session's conversation, starting one on first use
+chatSessionSchema.statics.findOrCreateForGuest = async function(guest) {
+  return this.findOneAndUpdate(
+    { hotel: guest.hotelId, sessionId: guest.sessionId, room: guest.roomId },
+    {
+      $setOnInsert: {
+        roomNumber: guest.roomNumber,
+        manager: guest.managerId,
+        guestName: guest.guestName,
+      },
+    },
+    { new: true, upsert: true, setDefaultsOnInsert: true }
+  );
+};
+
+// Record a guest message with its classification and Ella's reply
+chatSessionSchema.methods.addExchange = function(message, classification, reply) {
+  this.turns.push({
+    role: 'guest',
+    content: message,
+    classification: {
+      provider: classification.provider || null,
+      categories: (classification.categories || [])
+        .map((cat) => cat.category)
+        .filter((category) => TICKET_CATEGORIES.includes(category)),
+      confidence: classification.confidence != null ? classification.confidence : null,
+      priority: classification.suggested_priority || null,
+      shouldCreateTicket: Boolean(classification.should_create_ticket),
+    },
+  });
+  this.turns.push({ role: 'assistant', content: reply });
+  this.lastMessageAt = new Date();
+};
+
+// Link tickets raised from the guest session's conversation
+chatSessionSchema.statics.linkTickets = async function(guest, ticketIds) {
+  if (!guest || ticketIds.length === 0) return null;
+
+  return this.updateOne(
+    { hotel: guest.hotelId, sessionId: guest.sessionId, room: guest.roomId },
+    { $addToSet: { tickets: { $each: ticketIds } } }
+  );
+};
+
+module.exports = mongoose.model('ChatSession', chatSessionSchema);
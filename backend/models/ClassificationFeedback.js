@@ -0,0 +1,65 @@
+const mongoose = require('mongoose');
+const { TICKET_CATEGORIES } = require('../utils/constants');
+const { hotelScoped } = require('../utils/tenant');
+
+// A staff correction of the classifier, kept as a labelled training example
+const classificationFeedbackSchema = new mongoose.Schema(
+  {
+    manager: {
+      type: mongoose.Schema.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    ticket: {
+      type: mongoose.Schema.ObjectId,
+      ref: 'Ticket',
+      required: true,
+    },
+    guestMessage: {
+      type: String,
+      required: [true, 'Guest message is required'],
+      trim: true,
+    },
+    // Category the ticket had before the correction
+    previousCategory: {
+      type: String,
+      enum: TICKET_CATEGORIES,
+      required: true,
+    },
+    predictedCategories: [{
+      type: String,
+      enum: TICKET_CATEGORIES,
+    }],
+    confidence: {
+      type: Number,
+      default: null,
+    },
+    provider: {
+      type: String,
+      default: null,
+    },
+    correctedCategory: {
+      type: String,
+      enum: TICKET_CATEGORIES,
+      required: [true, 'Corrected category is required'],
+    },
+    correctedBy: {
+      type: mongoose.Schema.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    correctedByName: {
+      type: String,
+      trim: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+classificationFeedbackSchema.plugin(hotelScoped);
+
+classificationFeedbackSchema.index({ hotel: 1, createdAt: -1 });
+
+module.exports = mongoose.model('ClassificationFeedback', classificationFeedbackSchema);
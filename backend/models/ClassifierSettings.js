@@ -0,0 +1,89 @@
+const mongoose = require('mongoose');
+const { TICKET_CATEGORIES, CLASSIFIER_PROVIDERS } = require('../utils/constants');
+const { hotelScoped } = require('../utils/tenant');
+
+const classifierSettingsSchema = new mongoose.Schema(
+  {
+    manager: {
+      type: mongoose.Schema.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    // One set of settings per hotel
+    hotel: {
+      type: mongoose.Schema.ObjectId,
+      ref: 'Hotel',
+      required: [true, 'Hotel is required'],
+      unique: true,
+    },
+    // Providers tried in order until one answers
+    providers: {
+      type: [{ type: String, enum: CLASSIFIER_PROVIDERS }],
+      default: ['remote', 'local'],
+      validate: {
+        validator: (providers) => providers.length > 0,
+        message: 'At least one classification provider is required',
+      },
+    },
+    // Overrides the default remote classifier endpoint
+    remoteUrl: {
+      type: String,
+      trim: true,
+      default: null,
+    },
+    remoteTimeoutMs: {
+      type: Number,
+      default: 8000,
+      min: [500, 'Remote timeout must be at least 500ms'],
+    },
+    // Extra keywords per category for the local classifier, in any language
+    keywords: {
+      type: Map,
+      of: [String],
+      default: {},
+      validate: {
+        validator: (keywords) =>
+          [...keywords.keys()].every((category) => TICKET_CATEGORIES.includes(category)),
+        message: 'Keywords must be grouped by ticket category',
+      },
+    },
+    // Minimum keyword score before the local classifier picks a category
+    minScore: {
+      type: Number,
+      default: 1,
+      min: [0.5, 'Minimum score must be at least 0.5'],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+classifierSettingsSchema.plugin(hotelScoped);
+
+// Defaults used for hotels that have not configured classification
+classifierSettingsSchema.statics.DEFAULTS = {
+  providers: ['remote', 'local'],
+  remoteUrl: null,
+  remoteTimeoutMs: 8000,
+  keywords: {},
+  minScore: 1,
+};
+
+// Static method to get the effective settings for a hotel
+classifierSettingsSchema.statics.getForHotel = async function(hotelId) {
+  const settings = hotelId ? await this.findOne({ hotel: hotelId }) : null;
+  if (settings) {
+    return {
+      providers: settings.providers,
+      remoteUrl: settings.remoteUrl,
+      remoteTimeoutMs: settings.remoteTimeoutMs,
+      keywords: Object.fromEntries(settings.keywords || []),
+      minScore: settings.minScore,
+      isDefault: false,
+    };
+  }
+  return { ...this.DEFAULTS, isDefault: true };
+};
+
+module.exports = mongoose.model('ClassifierSettings', classifierSettingsSchema);
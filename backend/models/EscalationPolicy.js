@@ -0,0 +1,64 @@
+const mongoose = require('mongoose');
+const { ESCALATION_RULES } = require('../utils/constants');
+const { hotelScoped } = require('../utils/tenant');
+
+// A hotel's own threshold for one escalation rule; rules without one use the default
+const escalationPolicySchema = new mongoose.Schema(
+  {
+    manager: {
+      type: mongoose.Schema.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    rule: {
+      type: String,
+      enum: ESCALATION_RULES.map((rule) => rule.id),
+      required: [true, 'Escalation rule is required'],
+    },
+    afterMinutes: {
+      type: Number,
+      required: [true, 'Escalation time is required'],
+      min: [1, 'Escalation time must be at least 1 minute'],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+escalationPolicySchema.plugin(hotelScoped);
+
+// One threshold per rule for each hotel
+escalationPolicySchema.index({ hotel: 1, rule: 1 }, { unique: true });
+
+// Default rules with any configured thresholds swapped in
+const applyOverrides = (policies) => {
+  const overrides = new Map(policies.map((policy) => [policy.rule, policy.afterMinutes]));
+  return ESCALATION_RULES.map((rule) => ({
+    ...rule,
+    afterMinutes: overrides.has(rule.id) ? overrides.get(rule.id) : rule.afterMinutes,
+    isDefault: !overrides.has(rule.id),
+  }));
+};
+
+// Static method to get every rule with the hotel's thresholds applied
+escalationPolicySchema.statics.getRules = async function(hotelId) {
+  const policies = await this.find({ hotel: hotelId });
+  return applyOverrides(policies);
+};
+
+// Static method to get each hotel's rules, for the background escalation run
+escalationPolicySchema.statics.getRulesByHotel = async function() {
+  const policies = await this.find({});
+  const byHotel = new Map();
+  policies.forEach((policy) => {
+    const key = String(policy.hotel);
+    byHotel.set(key, [...(byHotel.get(key) || []), policy]);
+  });
+
+  const rules = new Map();
+  byHotel.forEach((hotelPolicies, hotelId) => rules.set(hotelId, applyOverrides(hotelPolicies)));
+  return rules;
+};
+
+module.exports = mongoose.model('EscalationPolicy', escalationPolicySchema);
@@ -1,36 +1,5 @@
 const mongoose = require('mongoose');
 
-const roomSchema = new mongoose.Schema({
-  number: {
-    type: String,
-    required: [true, 'Room number is required'],
-    trim: true,
-  },
-  type: {
-    type: String,
-    required: [true, 'Room type is required'],
-    trim: true,
-  },
-  price: {
-    type: Number,
-    required: [true, 'Room price is required'],
-    min: [0, 'Price cannot be negative'],
-  },
-  amenities: [{
-    type: String,
-    trim: true,
-  }],
-  maxGuests: {
-    type: Number,
-    required: true,
-    default: 2,
-  },
-  isAvailable: {
-    type: Boolean,
-    default: true,
-  },
-});
-
 const hotelSchema = new mongoose.Schema(
   {
     name: {
@@ -39,20 +8,26 @@ const hotelSchema = new mongoose.Schema(
       trim: true,
       maxlength: [100, 'Hotel name cannot exceed 100 characters'],
     },
+    // Identifies the hotel in guest links: /hotel/<slug>/<roomNumber>
+    slug: {
+      type: String,
+      trim: true,
+      lowercase: true,
+      match: [/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Slug can only contain lowercase letters, numbers and hyphens'],
+    },
     description: {
       type: String,
       trim: true,
       maxlength: [1000, 'Description cannot exceed 1000 characters'],
     },
+    // Location and contact details are filled in after sign-up
     location: {
       address: {
         type: String,
-        required: [true, 'Address is required'],
         trim: true,
       },
       city: {
         type: String,
-        required: [true, 'City is required'],
         trim: true,
       },
       state: {
@@ -61,7 +36,6 @@ const hotelSchema = new mongoose.Schema(
       },
       country: {
         type: String,
-        required: [true, 'Country is required'],
         trim: true,
       },
       postalCode: {
@@ -83,7 +57,6 @@ const hotelSchema = new mongoose.Schema(
     contact: {
       phone: {
         type: String,
-        required: [true, 'Phone number is required'],
         trim: true,
       },
       email: {
@@ -106,7 +79,6 @@ const hotelSchema = new mongoose.Schema(
       required: [true, 'Manager ID is required'],
       trim: true,
     },
-    rooms: [roomSchema],
     amenities: [{
       type: String,
       trim: true,
@@ -119,6 +91,24 @@ const hotelSchema = new mongoose.Schema(
       type: String,
       default: '12:00',
     },
+    // Colours used on printed QR code sheets
+    branding: {
+      primaryColor: {
+        type: String,
+        match: [/^#[0-9a-fA-F]{6}$/, 'Colours must be hex values like #1a2b3c'],
+        default: '#111827',
+      },
+      accentColor: {
+        type: String,
+        match: [/^#[0-9a-fA-F]{6}$/, 'Colours must be hex values like #1a2b3c'],
+        default: '#2563eb',
+      },
+    },
+    // Set once the onboarding wizard has been completed for this property
+    onboardedAt: {
+      type: Date,
+      default: null,
+    },
     isActive: {
       type: Boolean,
       default: true,
@@ -134,6 +124,82 @@ const hotelSchema = new mongoose.Schema(
 // Indexes
 hotelSchema.index({ 'location.coordinates': '2dsphere' });
 hotelSchema.index({ manager: 1 });
+hotelSchema.index({ slug: 1 }, { unique: true, sparse: true });
+
+const slugify = (value) =>
+  String(value || '')
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 48) || 'hotel';
+
+// Pick a slug for a hotel name that no other hotel uses yet
+hotelSchema.statics.generateSlug = async function(name) {
+  const base = slugify(name);
+  let slug = base;
+  for (let suffix = 2; await this.exists({ slug }); suffix++) {
+    slug = `${base}-${suffix}`;
+  }
+  return slug;
+};
+
+// Hotels set up before guest links carried a slug get one on first use
+hotelSchema.methods.ensureSlug = async function() {
+  if (!this.slug) {
+    this.slug = await this.constructor.generateSlug(this.name);
+    await this.save({ validateBeforeSave: false });
+  }
+  return this;
+};
+
+// First hotel in an owner's group, created on first use
+hotelSchema.statics.findOrCreateForOwner = async function(ownerId, name) {
+  const hotel = await this.findOne({ manager: String(ownerId), isActive: true }).sort('createdAt');
+  if (hotel) return hotel.ensureSlug();
+
+  return this.create({
+    name,
+    slug: await this.generateSlug(name),
+    manager: String(ownerId),
+  });
+};
+
+// Properties a staff account may work in: every hotel in the owner's group
+// unless the account is limited to some of them
+hotelSchema.statics.findForUser = async function(user) {
+  const hotels = await this.find({ manager: String(user.managerId), isActive: true }).sort('createdAt');
+  if (hotels.length === 0) {
+    hotels.push(await this.findOrCreateForOwner(user.managerId, user.hotelName));
+  }
+  await Promise.all(hotels.map((hotel) => hotel.ensureSlug()));
+
+  const allowed = (user.hotels || []).map(String);
+  return allowed.length > 0
+    ? hotels.filter((hotel) => allowed.includes(String(hotel._id)))
+    : hotels;
+};
+
+/**
+ * Work out which property a staff request acts for
+ * @param {Object} user - User document
+ * @param {string} [requestedId] - Property picked in the dashboard (X-Hotel-Id)
+ * @returns {Promise<{hotel: Object|null, hotels: Object[]}>} - The active property
+ *   (the first one when none or an inaccessible one was asked for) and every
+ *   property the user may switch to
+ */
+hotelSchema.statics.selectForUser = async function(user, requestedId) {
+  const hotels = await this.findForUser(user);
+  const hotel =
+    hotels.find((candidate) => String(candidate._id) === String(requestedId)) || hotels[0] || null;
+  return { hotel, hotels };
+};
+
+hotelSchema.pre('validate', function(next) {
+  if (!this.slug && this.name) this.slug = slugify(this.name);
+  next();
+});
 
 // Virtual for booking
 hotelSchema.virtual('bookings', {
@@ -0,0 +1,50 @@
+const mongoose = require('mongoose');
+const { KNOWLEDGE_TOPICS } = require('../utils/constants');
+const { hotelScoped } = require('../utils/tenant');
+
+// A question guests ask that the assistant can answer without staff
+const knowledgeEntrySchema = new mongoose.Schema(
+  {
+    manager: {
+      type: mongoose.Schema.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    topic: {
+      type: String,
+      enum: KNOWLEDGE_TOPICS,
+      default: 'faq',
+    },
+    question: {
+      type: String,
+      required: [true, 'Question is required'],
+      trim: true,
+      maxlength: [300, 'Question cannot exceed 300 characters'],
+    },
+    answer: {
+      type: String,
+      required: [true, 'Answer is required'],
+      trim: true,
+      maxlength: [2000, 'Answer cannot exceed 2000 characters'],
+    },
+    // Extra words guests use for this question, in any language
+    keywords: [{
+      type: String,
+      trim: true,
+      lowercase: true,
+    }],
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+knowledgeEntrySchema.plugin(hotelScoped);
+
+knowledgeEntrySchema.index({ hotel: 1, isActive: 1 });
+
+module.exports = mongoose.model('KnowledgeEntry', knowledgeEntrySchema);
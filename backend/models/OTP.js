@@ -14,7 +14,7 @@ const otpSchema = new mongoose.Schema({
   },
   type: {
     type: String,
-    enum: ['login', 'registration', 'password_reset'],
+    enum: ['login', 'registration', 'password_reset', 'staff_invite'],
     required: [true, 'OTP type is required'],
   },
   isUsed: {
@@ -37,6 +37,16 @@ const otpSchema = new mongoose.Schema({
     email: String,
     password: String,
   },
+  // Pending staff account details for 'staff_invite' codes
+  inviteData: {
+    name: String,
+    role: String,
+    allowedCategories: [String],
+    hotels: [mongoose.Schema.Types.ObjectId],
+    hotelName: String,
+    hotelOwner: mongoose.Schema.Types.ObjectId,
+    invitedBy: mongoose.Schema.Types.ObjectId,
+  },
 }, {
   timestamps: true,
 });
@@ -1,5 +1,6 @@
 const mongoose = require('mongoose');
 const crypto = require('crypto');
+const { hotelScoped } = require('../utils/tenant');
 
 const qrCodeSchema = new mongoose.Schema(
   {
@@ -40,6 +41,10 @@ const qrCodeSchema = new mongoose.Schema(
   }
 );
 
+qrCodeSchema.plugin(hotelScoped);
+
+qrCodeSchema.index({ hotel: 1, roomNumber: 1, isActive: 1 });
+
 // Generate a secure random token
 qrCodeSchema.statics.generateToken = function() {
   return new Promise((resolve, reject) => {
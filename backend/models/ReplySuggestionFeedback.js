@@ -0,0 +1,61 @@
+const mongoose = require('mongoose');
+const { REPLY_SUGGESTION_TYPES } = require('../utils/constants');
+
+// What staff made of a suggested reply: their rating and what they actually sent
+const replySuggestionFeedbackSchema = new mongoose.Schema(
+  {
+    manager: {
+      type: mongoose.Schema.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    ticket: {
+      type: mongoose.Schema.ObjectId,
+      ref: 'Ticket',
+      required: true,
+    },
+    // Id handed out with the suggestion, so later feedback updates the same record
+    suggestionId: {
+      type: String,
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: REPLY_SUGGESTION_TYPES,
+      required: true,
+    },
+    provider: {
+      type: String,
+      default: null,
+    },
+    suggestion: {
+      type: String,
+      required: [true, 'Suggestion text is required'],
+      trim: true,
+    },
+    rating: {
+      type: String,
+      enum: ['up', 'down', null],
+      default: null,
+    },
+    // The reply as sent, after any edits
+    sentText: {
+      type: String,
+      trim: true,
+      default: null,
+    },
+    staff: {
+      type: mongoose.Schema.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+replySuggestionFeedbackSchema.index({ manager: 1, suggestionId: 1 }, { unique: true });
+replySuggestionFeedbackSchema.index({ manager: 1, type: 1, rating: 1 });
+
+module.exports = mongoose.model('ReplySuggestionFeedback', replySuggestionFeedbackSchema);
@@ -0,0 +1,53 @@
+const mongoose = require('mongoose');
+const { hotelScoped } = require('../utils/tenant');
+
+const retentionPolicySchema = new mongoose.Schema(
+  {
+    manager: {
+      type: mongoose.Schema.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    // Completed tickets stay on the board this many days before being archived
+    archiveAfterDays: {
+      type: Number,
+      default: 1,
+      min: [1, 'Tickets must be kept for at least 1 day'],
+    },
+    // Archived tickets are permanently deleted this many days after completion (null = keep forever)
+    purgeAfterDays: {
+      type: Number,
+      default: null,
+      min: [1, 'Purge period must be at least 1 day'],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+retentionPolicySchema.plugin(hotelScoped);
+
+// One policy per hotel
+retentionPolicySchema.index({ hotel: 1 }, { unique: true });
+
+// Defaults used for hotels that have not configured retention
+retentionPolicySchema.statics.DEFAULTS = {
+  archiveAfterDays: 1,
+  purgeAfterDays: null,
+};
+
+// Static method to get the effective policy for a hotel
+retentionPolicySchema.statics.getForHotel = async function(hotelId) {
+  const policy = await this.findOne({ hotel: hotelId });
+  if (policy) {
+    return {
+      archiveAfterDays: policy.archiveAfterDays,
+      purgeAfterDays: policy.purgeAfterDays,
+      isDefault: false,
+    };
+  }
+  return { ...this.DEFAULTS, isDefault: true };
+};
+
+module.exports = mongoose.model('RetentionPolicy', retentionPolicySchema);
@@ -1,4 +1,6 @@
 const mongoose = require('mongoose');
+const { hotelScoped } = require('../utils/tenant');
+const { MAX_STAY_PIN_ATTEMPTS, STAY_PIN_LOCKOUT_MINUTES } = require('../utils/guestToken');
 
 const roomSchema = new mongoose.Schema(
   {
@@ -21,6 +23,11 @@ const roomSchema = new mongoose.Schema(
       enum: ['available', 'occupied', 'maintenance'],
       default: 'available',
     },
+    // When the current guest's stay began; set as the room becomes occupied
+    stayStartedAt: {
+      type: Date,
+      default: null,
+    },
     manager: {
       type: mongoose.Schema.Types.ObjectId,
       ref: 'User',
@@ -36,6 +43,26 @@ const roomSchema = new mongoose.Schema(
     qrCodeUrl: {
       type: String, // The URL that the QR code points to
     },
+    // When the room's QR access token last changed (issued, rotated or
+    // revoked); guest sessions started before it have ended
+    qrRotatedAt: {
+      type: Date,
+      default: null,
+    },
+    // PIN the guest enters along with the QR code, if one was issued at check-in
+    stayPin: {
+      type: String,
+      default: null,
+    },
+    // Wrong PINs entered since the last lockout or correct PIN
+    stayPinAttempts: {
+      type: Number,
+      default: 0,
+    },
+    stayPinLockedUntil: {
+      type: Date,
+      default: null,
+    },
   },
   {
     timestamps: true,
@@ -44,8 +71,13 @@ const roomSchema = new mongoose.Schema(
   }
 );
 
-// Indexes for faster queries
-roomSchema.index({ number: 1 }, { unique: true });
+roomSchema.plugin(hotelScoped);
+
+// Indexes for faster queries; room numbers only need to be unique within a hotel
+roomSchema.index(
+  { hotel: 1, number: 1 },
+  { unique: true, partialFilterExpression: { isActive: true } }
+);
 roomSchema.index({ manager: 1 });
 roomSchema.index({ status: 1 });
 
@@ -56,6 +88,99 @@ roomSchema.virtual('tickets', {
   foreignField: 'room',
 });
 
+// Start a new stay whenever the room is marked occupied
+roomSchema.pre('save', function (next) {
+  if (this.isModified('status')) {
+    this.stayStartedAt = this.status === 'occupied' ? new Date() : null;
+  }
+  next();
+});
+
+/**
+ * Earliest creation time for tickets that belong to the current stay
+ * @returns {Date|null} - null if the room isn't tracked as occupied, in which
+ *   case there's no stay to share and guests only see their own session
+ */
+roomSchema.methods.getCurrentStayStart = function () {
+  if (!this.stayStartedAt) return null;
+  // Nothing from before the QR code was last rotated belongs to this stay
+  return this.qrRotatedAt && this.qrRotatedAt > this.stayStartedAt ? this.qrRotatedAt : this.stayStartedAt;
+};
+
+/**
+ * Filter for the room's tickets a guest session may follow: its own, plus
+ * anything raised in the room since the current stay began
+ * @param {string} sessionId - Guest session
+ * @returns {Object}
+ */
+roomSchema.methods.getStayTicketFilter = function (sessionId) {
+  const stayStart = this.getCurrentStayStart();
+  if (!stayStart) return { room: this._id, guestSession: sessionId };
+
+  return {
+    room: this._id,
+    $or: [{ guestSession: sessionId }, { createdAt: { $gte: stayStart } }],
+  };
+};
+
+/**
+ * Whether a guest session still gives access to its room. Sessions end when
+ * the room's QR code is rotated, e.g. as the guest checks out.
+ * @param {Object} guest - Session from verifyGuestToken
+ * @returns {Promise<boolean>}
+ */
+roomSchema.statics.acceptsGuestSession = async function (guest) {
+  const room = await this.findOne({ _id: guest.roomId, hotel: guest.hotelId, isActive: true })
+    .select('qrRotatedAt')
+    .exec();
+  if (!room) return false;
+  return !room.qrRotatedAt || guest.issuedAt >= room.qrRotatedAt.getTime();
+};
+
+/**
+ * Take one of the room's PIN attempts before checking a PIN. Claimed
+ * atomically, so parallel guesses can't get past the limit.
+ * @param {ObjectId} roomId - Room being unlocked
+ * @param {Date} [now]
+ * @returns {Promise<boolean>} - false while the room is locked
+ */
+roomSchema.statics.claimStayPinAttempt = async function (roomId, now = new Date()) {
+  const room = await this.findOneAndUpdate(
+    {
+      _id: roomId,
+      stayPinAttempts: { $lt: MAX_STAY_PIN_ATTEMPTS },
+      $or: [{ stayPinLockedUntil: null }, { stayPinLockedUntil: { $lte: now } }],
+    },
+    { $inc: { stayPinAttempts: 1 } }
+  )
+    .select('_id')
+    .exec();
+  return Boolean(room);
+};
+
+/**
+ * Settle a claimed attempt: a right PIN clears the count, the last wrong one
+ * locks the room
+ * @param {ObjectId} roomId - Room being unlocked
+ * @param {boolean} matched - Whether the PIN was right
+ * @param {Date} [now]
+ */
+roomSchema.statics.settleStayPinAttempt = async function (roomId, matched, now = new Date()) {
+  if (matched) {
+    await this.updateOne({ _id: roomId }, { $set: { stayPinAttempts: 0, stayPinLockedUntil: null } }).exec();
+    return;
+  }
+  await this.updateOne(
+    { _id: roomId, stayPinAttempts: { $gte: MAX_STAY_PIN_ATTEMPTS } },
+    {
+      $set: {
+        stayPinAttempts: 0,
+        stayPinLockedUntil: new Date(now.getTime() + STAY_PIN_LOCKOUT_MINUTES * 60 * 1000),
+      },
+    }
+  ).exec();
+};
+
 // Cascade delete tickets when a room is deleted
 roomSchema.pre('remove', async function (next) {
   await this.model('Ticket').deleteMany({ room: this._id });
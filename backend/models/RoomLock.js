@@ -0,0 +1,53 @@
+const crypto = require('crypto');
+const mongoose = require('mongoose');
+
+// How long a lock is honoured if its holder never releases it
+const LOCK_MS = 10 * 1000;
+
+// Short-lived claim on a room while a booking is checked and written, so two
+// requests can't both find the same nights free. Keyed by the room's id.
+const roomLockSchema = new mongoose.Schema({
+  _id: {
+    type: mongoose.Schema.ObjectId,
+    ref: 'Room',
+  },
+  token: {
+    type: String,
+    required: true,
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+    index: { expireAfterSeconds: 0 }, // MongoDB TTL index
+  },
+});
+
+/**
+ * Take the room's lock unless someone else holds an unexpired one
+ * @param {string|ObjectId} roomId - Room to lock
+ * @param {Date} [now]
+ * @returns {Promise<string|null>} - Token to release the lock with, or null if it is taken
+ */
+roomLockSchema.statics.acquire = async function(roomId, now = new Date()) {
+  const token = crypto.randomBytes(16).toString('hex');
+
+  try {
+    await this.findOneAndUpdate(
+      { _id: roomId, expiresAt: { $lte: now } },
+      { $set: { token, expiresAt: new Date(now.getTime() + LOCK_MS) } },
+      { upsert: true }
+    );
+    return token;
+  } catch (error) {
+    // A live lock doesn't match the filter, so the upsert collides with its _id
+    if (error.code === 11000) return null;
+    throw error;
+  }
+};
+
+// Release the lock, unless it expired and was taken over in the meantime
+roomLockSchema.statics.release = function(roomId, token) {
+  return this.deleteOne({ _id: roomId, token });
+};
+
+module.exports = mongoose.model('RoomLock', roomLockSchema);
@@ -0,0 +1,92 @@
+const mongoose = require('mongoose');
+const { hotelScoped } = require('../utils/tenant');
+const { DEVICE_CLASSES } = require('../utils/scanAnalytics');
+
+// A guest landing on a room's chat page from its QR code, and how far that
+// visit went: a chat with the assistant, then a service request
+const scanEventSchema = new mongoose.Schema(
+  {
+    room: {
+      type: mongoose.Schema.ObjectId,
+      ref: 'Room',
+      required: true,
+    },
+    roomNumber: {
+      type: String,
+      required: true,
+    },
+    floor: {
+      type: Number,
+      default: null,
+    },
+    device: {
+      type: String,
+      enum: DEVICE_CLASSES,
+      default: 'unknown',
+    },
+    // Guest session the scan led to; set once the session has started
+    sessionId: {
+      type: String,
+      default: null,
+    },
+    chatStartedAt: {
+      type: Date,
+      default: null,
+    },
+    // First service request raised after the scan
+    ticket: {
+      type: mongoose.Schema.ObjectId,
+      ref: 'Ticket',
+      default: null,
+    },
+    ticketCreatedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+scanEventSchema.plugin(hotelScoped);
+
+scanEventSchema.index({ hotel: 1, createdAt: -1 });
+scanEventSchema.index({ sessionId: 1, room: 1, createdAt: -1 });
+
+// Tie a scan to the guest session it started; only scans of the session's
+// room that aren't linked yet can be claimed
+scanEventSchema.statics.linkSession = async function(scanId, guest) {
+  if (!scanId || !mongoose.isValidObjectId(scanId)) return null;
+
+  return this.updateOne(
+    { _id: scanId, room: guest.roomId, sessionId: null },
+    { $set: { sessionId: guest.sessionId } }
+  );
+};
+
+// Latest scan that led to the guest's session; later steps count towards it
+scanEventSchema.statics.findLatestForGuest = function(guest) {
+  return this.findOne({ sessionId: guest.sessionId, room: guest.roomId }).sort({ createdAt: -1 });
+};
+
+// Record that the guest talked to the assistant after scanning
+scanEventSchema.statics.recordChat = async function(guest) {
+  const scan = await this.findLatestForGuest(guest);
+  if (!scan || scan.chatStartedAt) return scan;
+
+  scan.chatStartedAt = new Date();
+  return scan.save();
+};
+
+// Record the first service request raised after scanning
+scanEventSchema.statics.recordTicket = async function(guest, ticketId) {
+  const scan = await this.findLatestForGuest(guest);
+  if (!scan || scan.ticket) return scan;
+
+  scan.ticket = ticketId;
+  scan.ticketCreatedAt = new Date();
+  return scan.save();
+};
+
+module.exports = mongoose.model('ScanEvent', scanEventSchema);
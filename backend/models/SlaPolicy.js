@@ -0,0 +1,88 @@
+const mongoose = require('mongoose');
+const {
+  TICKET_CATEGORIES,
+  TICKET_PRIORITIES,
+  DEFAULT_SLA_MINUTES,
+} = require('../utils/constants');
+const { hotelScoped } = require('../utils/tenant');
+
+const slaPolicySchema = new mongoose.Schema(
+  {
+    manager: {
+      type: mongoose.Schema.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    category: {
+      type: String,
+      enum: TICKET_CATEGORIES,
+      required: [true, 'Category is required'],
+    },
+    priority: {
+      type: String,
+      enum: TICKET_PRIORITIES,
+      required: [true, 'Priority is required'],
+    },
+    acknowledgeMinutes: {
+      type: Number,
+      required: [true, 'Acknowledge time is required'],
+      min: [1, 'Acknowledge time must be at least 1 minute'],
+    },
+    resolveMinutes: {
+      type: Number,
+      required: [true, 'Resolve time is required'],
+      min: [1, 'Resolve time must be at least 1 minute'],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+slaPolicySchema.plugin(hotelScoped);
+
+// One policy per category and priority for each hotel
+slaPolicySchema.index({ hotel: 1, category: 1, priority: 1 }, { unique: true });
+
+// Static method to get the effective targets for a ticket
+slaPolicySchema.statics.resolveFor = async function(hotelId, category, priority) {
+  const policy = await this.findOne({ hotel: hotelId, category, priority });
+  if (policy) {
+    return {
+      acknowledgeMinutes: policy.acknowledgeMinutes,
+      resolveMinutes: policy.resolveMinutes,
+      isDefault: false,
+    };
+  }
+
+  const fallback = DEFAULT_SLA_MINUTES[priority] || DEFAULT_SLA_MINUTES.medium;
+  return {
+    acknowledgeMinutes: fallback.acknowledge,
+    resolveMinutes: fallback.resolve,
+    isDefault: true,
+  };
+};
+
+// Static method to build the full category x priority matrix for a hotel
+slaPolicySchema.statics.getMatrix = async function(hotelId) {
+  const policies = await this.find({ hotel: hotelId });
+  const overrides = new Map(
+    policies.map((policy) => [`${policy.category}:${policy.priority}`, policy])
+  );
+
+  return TICKET_CATEGORIES.flatMap((category) =>
+    TICKET_PRIORITIES.map((priority) => {
+      const policy = overrides.get(`${category}:${priority}`);
+      const fallback = DEFAULT_SLA_MINUTES[priority];
+      return {
+        category,
+        priority,
+        acknowledgeMinutes: policy ? policy.acknowledgeMinutes : fallback.acknowledge,
+        resolveMinutes: policy ? policy.resolveMinutes : fallback.resolve,
+        isDefault: !policy,
+      };
+    })
+  );
+};
+
+module.exports = mongoose.model('SlaPolicy', slaPolicySchema);
@@ -1,4 +1,13 @@
 const mongoose = require('mongoose');
+const SlaPolicy = require('./SlaPolicy');
+const { TICKET_CATEGORIES, TICKET_PRIORITIES } = require('../utils/constants');
+const { hotelScoped } = require('../utils/tenant');
+const {
+  TICKET_STATUSES,
+  OPEN_TICKET_STATUSES,
+  CLOSED_TICKET_STATUSES,
+  canTransition,
+} = require('../utils/ticketLifecycle');
 
 const messageSchema = new mongoose.Schema({
   content: {
@@ -18,6 +27,122 @@ const messageSchema = new mongoose.Schema({
   },
 }, { timestamps: true });
 
+const slaSchema = new mongoose.Schema({
+  acknowledgeBy: {
+    type: Date,
+    default: null,
+  },
+  resolveBy: {
+    type: Date,
+    default: null,
+  },
+  acknowledgedAt: {
+    type: Date,
+    default: null,
+  },
+  breachedAt: {
+    type: Date,
+    default: null,
+  },
+  breachType: {
+    type: String,
+    enum: ['acknowledge', 'resolve'],
+    default: null,
+  },
+}, { _id: false });
+
+const escalationSchema = new mongoose.Schema({
+  rule: {
+    type: String,
+    required: true,
+  },
+  escalatedAt: {
+    type: Date,
+    default: Date.now,
+  },
+  fromPriority: String,
+  toPriority: String,
+}, { _id: false });
+
+const statusChangeSchema = new mongoose.Schema({
+  from: {
+    type: String,
+    enum: TICKET_STATUSES,
+  },
+  to: {
+    type: String,
+    enum: TICKET_STATUSES,
+    required: true,
+  },
+  actorType: {
+    type: String,
+    enum: ['staff', 'guest', 'system'],
+    required: true,
+  },
+  actor: {
+    type: mongoose.Schema.ObjectId,
+    ref: 'User',
+    default: null,
+  },
+  actorName: {
+    type: String,
+    trim: true,
+  },
+  reason: {
+    type: String,
+    trim: true,
+    default: null,
+  },
+  changedAt: {
+    type: Date,
+    default: Date.now,
+  },
+}, { _id: false });
+
+// When each side of the conversation last read the thread
+const readReceiptSchema = new mongoose.Schema({
+  guest: {
+    type: Date,
+    default: null,
+  },
+  staff: {
+    type: Date,
+    default: null,
+  },
+}, { _id: false });
+
+// What the classifier predicted when the ticket was raised
+const classificationSchema = new mongoose.Schema({
+  provider: {
+    type: String,
+    default: null,
+  },
+  // Guest message the prediction was made from
+  guestMessage: {
+    type: String,
+    trim: true,
+  },
+  // Category this ticket was created under
+  category: {
+    type: String,
+    enum: TICKET_CATEGORIES,
+  },
+  // Every category the classifier returned for the message
+  predictedCategories: [{
+    type: String,
+    enum: TICKET_CATEGORIES,
+  }],
+  confidence: {
+    type: Number,
+    default: null,
+  },
+  // Set the first time staff move the ticket to another category
+  correctedAt: {
+    type: Date,
+    default: null,
+  },
+}, { _id: false });
+
 const ticketSchema = new mongoose.Schema(
   {
     room: {
@@ -32,20 +157,51 @@ const ticketSchema = new mongoose.Schema(
     },
     categories: [{
       type: String,
-      enum: ['reception', 'housekeeping', 'porter', 'concierge', 'service_fb', 'maintenance'],
+      enum: TICKET_CATEGORIES,
     }],
     category: {
       type: String,
-      enum: ['reception', 'housekeeping', 'porter', 'concierge', 'service_fb', 'maintenance'],
+      enum: TICKET_CATEGORIES,
       default: 'reception',
       index: true,
     },
     status: {
       type: String,
-      enum: ['raised', 'in_progress', 'completed'],
+      enum: TICKET_STATUSES,
       default: 'raised',
     },
+    statusChangedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    statusHistory: [statusChangeSchema],
+    // Why the ticket is parked; only set while on hold
+    holdReason: {
+      type: String,
+      trim: true,
+      default: null,
+    },
+    priority: {
+      type: String,
+      enum: TICKET_PRIORITIES,
+      default: 'medium',
+    },
+    escalations: [escalationSchema],
+    // Free-form estimate from the classifier (e.g. "30 minutes")
+    estimatedCompletion: {
+      type: String,
+      trim: true,
+      default: null,
+    },
+    sla: {
+      type: slaSchema,
+      default: () => ({}),
+    },
     messages: [messageSchema],
+    lastReadAt: {
+      type: readReceiptSchema,
+      default: () => ({}),
+    },
     guestInfo: {
       name: {
         type: String,
@@ -67,6 +223,31 @@ const ticketSchema = new mongoose.Schema(
       ref: 'User',
       required: true,
     },
+    // Guest chat session that raised the ticket (see utils/guestToken.js)
+    guestSession: {
+      type: String,
+      default: null,
+      index: true,
+    },
+    classification: {
+      type: classificationSchema,
+      default: null,
+    },
+    // Shared by every ticket raised from the same guest message
+    requestGroupId: {
+      type: String,
+      default: null,
+      index: true,
+    },
+    assignedTo: {
+      type: mongoose.Schema.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+    assignedAt: {
+      type: Date,
+      default: null,
+    },
     subject: {
       type: String,
       trim: true,
@@ -76,6 +257,11 @@ const ticketSchema = new mongoose.Schema(
       type: Date,
       default: null,
     },
+    // Set when a ticket is brought back from the archive
+    restoredAt: {
+      type: Date,
+      default: null,
+    },
   },
   {
     timestamps: true,
@@ -84,9 +270,17 @@ const ticketSchema = new mongoose.Schema(
   }
 );
 
+ticketSchema.plugin(hotelScoped);
+
 // Indexes for common queries
+ticketSchema.index({ hotel: 1, status: 1, createdAt: -1 });
+ticketSchema.index({ hotel: 1, room: 1, createdAt: -1 });
 ticketSchema.index({ manager: 1, status: 1 });
 ticketSchema.index({ room: 1, status: 1 });
+ticketSchema.index({ manager: 1, assignedTo: 1, status: 1 });
+ticketSchema.index({ status: 1, 'sla.breachedAt': 1 });
+ticketSchema.index({ status: 1, statusChangedAt: 1 });
+ticketSchema.index({ manager: 1, 'classification.category': 1, createdAt: 1 });
 ticketSchema.index({ 'guestInfo.name': 'text', 'guestInfo.email': 'text' });
 
 // Static method to get ticket statistics
@@ -103,41 +297,169 @@ ticketSchema.statics.getStats = async function(managerId) {
     }
   ]);
 
+  const breached = await this.countDocuments({
+    manager: managerId,
+    'sla.breachedAt': { $ne: null },
+  });
+
   return stats.reduce((acc, curr) => {
     acc[curr._id] = curr.count;
     return acc;
-  }, { raised: 0, in_progress: 0, completed: 0 });
+  }, { ...Object.fromEntries(TICKET_STATUSES.map((status) => [status, 0])), breached });
+};
+
+// Static method to count open tickets per assignee and status
+ticketSchema.statics.getWorkload = async function(match) {
+  return this.aggregate([
+    {
+      $match: { ...match, status: { $in: OPEN_TICKET_STATUSES } }
+    },
+    {
+      $group: {
+        _id: { assignedTo: '$assignedTo', status: '$status' },
+        count: { $sum: 1 }
+      }
+    }
+  ]);
 };
 
-// Update status timestamp when ticket is completed
+// Compute SLA deadlines for new tickets from the hotel's policy
+ticketSchema.pre('save', async function() {
+  if (!this.isNew || this.sla?.resolveBy) return;
+
+  const targets = await SlaPolicy.resolveFor(this.hotel, this.category, this.priority);
+  const start = this.createdAt || new Date();
+  this.sla = {
+    acknowledgeBy: new Date(start.getTime() + targets.acknowledgeMinutes * 60 * 1000),
+    resolveBy: new Date(start.getTime() + targets.resolveMinutes * 60 * 1000),
+  };
+});
+
+// Update status timestamps when the ticket moves through its lifecycle
 ticketSchema.pre('save', function(next) {
   if (this.isModified('status')) {
-    if (this.status === 'completed' && !this.completedAt) {
+    if (!this.isNew) {
+      this.statusChangedAt = new Date();
+    }
+
+    const isClosed = CLOSED_TICKET_STATUSES.includes(this.status);
+    if (isClosed && !this.completedAt) {
       this.completedAt = new Date();
-    } else if (this.status !== 'completed') {
-      // Reset completedAt if status changes away from completed
+    } else if (!isClosed) {
+      // Reset completedAt if the ticket is reopened
       this.completedAt = null;
     }
+
+    // Any staff move out of "raised" counts as acknowledging the ticket
+    if (!['raised', 'cancelled'].includes(this.status) && this.sla && !this.sla.acknowledgedAt) {
+      this.sla.acknowledgedAt = new Date();
+    }
+  }
+
+  // Record a breach the monitor hasn't caught yet
+  if (this.sla && !this.sla.breachedAt) {
+    const breachType = this.getSlaBreachType();
+    if (breachType) {
+      this.sla.breachedAt = new Date();
+      this.sla.breachType = breachType;
+    }
   }
   next();
 });
 
-// Static method to clean up old completed tickets
-ticketSchema.statics.cleanupOldTickets = async function() {
-  const twentyFourHoursAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
-  
-  try {
-    const result = await this.deleteMany({
-      status: 'completed',
-      completedAt: { $lt: twentyFourHoursAgo, $ne: null }
-    });
-    
-    console.log(`🗑️ Cleaned up ${result.deletedCount} completed tickets older than 24 hours`);
-    return result.deletedCount;
-  } catch (error) {
-    console.error('Error cleaning up old tickets:', error);
-    return 0;
-  }
+// Which SLA target (if any) this ticket has missed
+ticketSchema.methods.getSlaBreachType = function(now = new Date()) {
+  // Requests the guest withdrew can't miss a target
+  if (this.status === 'cancelled') return null;
+
+  const { acknowledgeBy, resolveBy, acknowledgedAt } = this.sla || {};
+  const ackTime = acknowledgedAt || (this.status === 'raised' ? now : null);
+  const resolveTime = this.completedAt || (!CLOSED_TICKET_STATUSES.includes(this.status) ? now : null);
+
+  if (acknowledgeBy && ackTime && ackTime > acknowledgeBy) return 'acknowledge';
+  if (resolveBy && resolveTime && resolveTime > resolveBy) return 'resolve';
+  return null;
+};
+
+// Whether the given actor may move this ticket to a new status
+ticketSchema.methods.canTransitionTo = function(status, actorType = 'staff') {
+  return canTransition(this.status, status, actorType);
+};
+
+// Move the ticket to a new status and record who did it.
+// Callers are expected to check canTransitionTo first.
+ticketSchema.methods.transitionTo = function(status, { actorType, actor = null, actorName, reason = null }) {
+  this.statusHistory.push({
+    from: this.status,
+    to: status,
+    actorType,
+    actor,
+    actorName,
+    reason,
+  });
+  this.status = status;
+  this.holdReason = status === 'on_hold' ? reason : null;
+};
+
+// Record that one side of the conversation has read the thread
+ticketSchema.methods.markRead = function(side, at = new Date()) {
+  if (!this.lastReadAt) this.lastReadAt = {};
+  this.lastReadAt[side] = at;
+  return at;
+};
+
+// Whether an escalation rule already fired since the ticket entered its current status
+ticketSchema.methods.hasEscalated = function(ruleId) {
+  const since = this.statusChangedAt || this.createdAt;
+  return (this.escalations || []).some(
+    (escalation) => escalation.rule === ruleId && escalation.escalatedAt >= since
+  );
+};
+
+// Static method to find an open ticket a new guest request would duplicate;
+// only the same guest session, or the same stay in the room, counts
+ticketSchema.statics.findOpenDuplicate = function(room, sessionId, category, since) {
+  return this.findOne({
+    ...room.getStayTicketFilter(sessionId),
+    category,
+    status: { $in: OPEN_TICKET_STATUSES },
+    createdAt: { $gte: since },
+  }).sort('-createdAt');
+};
+
+// Static method to find tickets that have sat in a status since before the cutoff
+ticketSchema.statics.findStaleInStatus = async function(status, cutoff) {
+  return this.find({
+    status,
+    $or: [
+      { statusChangedAt: { $lt: cutoff } },
+      // Tickets created before statusChangedAt was tracked
+      { statusChangedAt: null, createdAt: { $lt: cutoff } },
+    ],
+  });
+};
+
+// Static method to find open tickets that just missed an SLA target
+ticketSchema.statics.findNewSlaBreaches = async function(now = new Date()) {
+  return this.find({
+    status: { $in: OPEN_TICKET_STATUSES },
+    'sla.breachedAt': null,
+    $or: [
+      { status: 'raised', 'sla.acknowledgeBy': { $lt: now } },
+      { 'sla.resolveBy': { $lt: now } },
+    ],
+  });
+};
+
+// Static method to find completed tickets older than the retention window
+ticketSchema.statics.findExpiredCompleted = async function(hotelId, cutoff) {
+  return this.find({
+    hotel: hotelId,
+    status: { $in: CLOSED_TICKET_STATUSES },
+    completedAt: { $lt: cutoff, $ne: null },
+    // Recently restored tickets get a fresh retention window
+    $or: [{ restoredAt: null }, { restoredAt: { $lt: cutoff } }],
+  });
 };
 
 module.exports = mongoose.model('Ticket', ticketSchema);
@@ -1,4 +1,5 @@
 const mongoose = require('mongoose');
+const { TICKET_CATEGORIES, STAFF_ROLES } = require('../utils/constants');
 
 const userSchema = new mongoose.Schema(
   {
@@ -36,6 +37,32 @@ const userSchema = new mongoose.Schema(
       type: String,
       required: true,
     },
+    role: {
+      type: String,
+      enum: STAFF_ROLES,
+      default: 'owner',
+    },
+    // Ticket categories this user works on (empty means every category)
+    allowedCategories: [{
+      type: String,
+      enum: TICKET_CATEGORIES,
+    }],
+    // Properties in the owner's group this user works at (empty means every property)
+    hotels: [{
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Hotel',
+    }],
+    // Owner account for invited staff; null for the hotel owner themselves
+    hotelOwner: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+    invitedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
     isActive: {
       type: Boolean,
       default: true,
@@ -51,5 +78,11 @@ const userSchema = new mongoose.Schema(
 // Index for faster queries
 userSchema.index({ email: 1 }, { unique: true });
 userSchema.index({ supabaseId: 1 }, { unique: true });
+userSchema.index({ hotelOwner: 1 });
+
+// Account that owns the hotel's rooms and tickets
+userSchema.virtual('managerId').get(function() {
+  return this.hotelOwner || this._id;
+});
 
 module.exports = mongoose.model('User', userSchema);
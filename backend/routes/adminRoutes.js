@@ -1,10 +1,12 @@
 const express = require('express');
 const router = express.Router();
 const ticketCleanupService = require('../services/ticketCleanupService');
-const { authenticateManager } = require('../middleware/authMiddleware');
+const slaMonitorService = require('../services/slaMonitorService');
+const ticketEscalationService = require('../services/ticketEscalationService');
+const { authenticateManager, authorizeManager } = require('../middleware/authMiddleware');
 
 // All admin routes require manager authentication
-router.use(authenticateManager);
+router.use(authenticateManager, authorizeManager);
 
 // @desc    Get cleanup service status
 // @route   GET /api/admin/cleanup/status
@@ -22,10 +24,11 @@ router.get('/cleanup/status', (req, res) => {
 // @access  Private/Manager
 router.post('/cleanup/manual', async (req, res) => {
   try {
-    await ticketCleanupService.manualCleanup();
+    const { archived, purged } = await ticketCleanupService.manualCleanup();
     res.json({
       success: true,
-      message: 'Manual cleanup completed successfully'
+      message: `Manual cleanup completed: ${archived} archived, ${purged} purged`,
+      data: { archived, purged }
     });
   } catch (error) {
     console.error('Manual cleanup error:', error);
@@ -36,4 +39,64 @@ router.post('/cleanup/manual', async (req, res) => {
   }
 });
 
+// @desc    Get SLA monitor status
+// @route   GET /api/admin/sla/status
+// @access  Private/Manager
+router.get('/sla/status', (req, res) => {
+  res.json({
+    success: true,
+    data: slaMonitorService.getStatus()
+  });
+});
+
+// @desc    Get escalation service status and last run
+// @route   GET /api/admin/escalation/status
+// @access  Private/Manager
+router.get('/escalation/status', (req, res) => {
+  res.json({
+    success: true,
+    data: ticketEscalationService.getStatus()
+  });
+});
+
+// @desc    Get escalation rules with this hotel's thresholds
+// @route   GET /api/admin/escalation/rules
+// @access  Private/Manager
+router.get('/escalation/rules', async (req, res) => {
+  try {
+    const rules = await ticketEscalationService.getRules(req.user.hotelId);
+    res.json({
+      success: true,
+      count: rules.length,
+      data: rules
+    });
+  } catch (error) {
+    console.error('Get escalation rules error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to load escalation rules'
+    });
+  }
+});
+
+// @desc    Trigger manual escalation run
+// @route   POST /api/admin/escalation/manual
+// @access  Private/Manager
+router.post('/escalation/manual', async (req, res) => {
+  try {
+    const escalatedCount = await ticketEscalationService.manualEscalation();
+    res.json({
+      success: true,
+      message: 'Manual escalation completed successfully',
+      data: { escalatedCount }
+    });
+  } catch (error) {
+    console.error('Manual escalation error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to perform manual escalation'
+    });
+  }
+});
+
 module.exports = router;
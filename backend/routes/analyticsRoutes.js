@@ -0,0 +1,12 @@
+const express = require('express');
+const router = express.Router();
+const analyticsController = require('../controllers/analyticsController');
+const { authenticateManager } = require('../middleware/authMiddleware');
+
+// All analytics routes require authentication
+router.use(authenticateManager);
+
+// How guests use the room QR codes
+router.get('/scans', analyticsController.getScanFunnel);
+
+module.exports = router;
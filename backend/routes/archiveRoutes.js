@@ -0,0 +1,20 @@
+const express = require('express');
+const router = express.Router();
+const archiveController = require('../controllers/archiveController');
+const { authenticateManager, authorizeManager } = require('../middleware/authMiddleware');
+
+// All archive routes require authentication
+router.use(authenticateManager);
+
+// Archived ticket browser
+router.get('/tickets', archiveController.getArchivedTickets);
+router.get('/tickets/:id', archiveController.getArchivedTicket);
+router.post('/tickets/:id/restore', authorizeManager, archiveController.restoreTicket);
+
+// Retention policy
+router
+  .route('/retention')
+  .get(archiveController.getRetentionPolicy)
+  .put(authorizeManager, archiveController.validateRetention, archiveController.updateRetentionPolicy);
+
+module.exports = router;
@@ -18,6 +18,11 @@ router.post('/register', validateManagerSignup, authController.register);
 // @access  Public
 router.post('/verify-registration', authController.verifyRegistration);
 
+// @route   POST /api/auth/accept-invite
+// @desc    Accept a staff invitation and create the staff account
+// @access  Public
+router.post('/accept-invite', authController.acceptInvite);
+
 // @route   POST /api/auth/login
 // @desc    Authenticate manager (Step 1: Send OTP)
 // @access  Public
@@ -1,30 +1,30 @@
 const express = require('express');
-const router = express.Router({ mergeParams: true });
-const {
-  createBooking,
-  getBookings,
-  getBooking,
-  updateBooking,
-  cancelBooking,
-  generateGuestLink,
-  validateBooking,
-} = require('../controllers/bookingController');
-const { authenticateManager } = require('../middleware/authMiddleware');
+const router = express.Router();
+const bookingController = require('../controllers/bookingController');
+const { authenticateManager, authorizeManager } = require('../middleware/authMiddleware');
 
-// Public routes (no authentication required)
-router.post('/', validateBooking, createBooking);
-router.get('/:id', getBooking);
-router.delete('/:id/cancel', cancelBooking);
+// All booking routes require authentication
+router.use(authenticateManager);
 
-// Guest access link generation (public but could be rate-limited in production)
-router.get('/guest-link', generateGuestLink);
+// Rooms x days availability grid
+router.get('/calendar', bookingController.getCalendar);
 
-// Protected routes (require authentication)
-router.use(authenticateManager);
+router
+  .route('/')
+  .get(bookingController.getBookings)
+  .post(authorizeManager, bookingController.validateBooking, bookingController.createBooking);
+
+router
+  .route('/:id')
+  .get(bookingController.getBooking)
+  .put(authorizeManager, bookingController.validateBookingUpdate, bookingController.updateBooking);
 
-// Hotel manager routes
-router.get('/', getBookings);
-router.put('/:id', updateBooking);
-router.delete('/:id', cancelBooking);
+// Check-in, check-out, cancellation and no-shows
+router.put(
+  '/:id/status',
+  authorizeManager,
+  bookingController.validateBookingStatus,
+  bookingController.updateBookingStatus
+);
 
 module.exports = router;
@@ -0,0 +1,27 @@
+const express = require('express');
+const router = express.Router();
+const cannedResponseController = require('../controllers/cannedResponseController');
+const { authenticateManager, authorizeManager } = require('../middleware/authMiddleware');
+
+// All canned response routes require authentication
+router.use(authenticateManager);
+
+router
+  .route('/')
+  .get(cannedResponseController.getCannedResponses)
+  .post(
+    authorizeManager,
+    cannedResponseController.validateCannedResponse,
+    cannedResponseController.createCannedResponse
+  );
+
+router
+  .route('/:id')
+  .put(
+    authorizeManager,
+    cannedResponseController.validateCannedResponse,
+    cannedResponseController.updateCannedResponse
+  )
+  .delete(authorizeManager, cannedResponseController.deleteCannedResponse);
+
+module.exports = router;
@@ -1,13 +1,19 @@
 const express = require('express');
 const router = express.Router();
 const chatController = require('../controllers/chatController');
-const { authenticateManager } = require('../middleware/authMiddleware');
+const {
+  authenticateManager,
+  authenticateGuest,
+  identifyGuest,
+} = require('../middleware/authMiddleware');
 
 // Public routes (guest access)
-router.post('/ai', chatController.chatWithAI);
+router.post('/ai', identifyGuest, chatController.chatWithAI);
+router.get('/session', authenticateGuest, chatController.getChatSession);
 
 // Protected routes (manager access only)
 router.use(authenticateManager);
 router.post('/manager-assist', chatController.managerAIAssist);
+router.post('/manager-assist/feedback', chatController.rateReplySuggestion);
 
 module.exports = router;
@@ -0,0 +1,20 @@
+const express = require('express');
+const router = express.Router();
+const classifierController = require('../controllers/classifierController');
+const { authenticateManager, authorizeManager } = require('../middleware/authMiddleware');
+
+// All classifier routes require authentication
+router.use(authenticateManager);
+
+router
+  .route('/settings')
+  .get(classifierController.getSettings)
+  .put(authorizeManager, classifierController.validateSettings, classifierController.updateSettings);
+
+router.post('/preview', classifierController.previewClassification);
+
+// Staff corrections and how often they were needed
+router.get('/accuracy', authorizeManager, classifierController.getAccuracyReport);
+router.get('/feedback/export', authorizeManager, classifierController.exportFeedback);
+
+module.exports = router;
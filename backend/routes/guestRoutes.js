@@ -0,0 +1,22 @@
+const express = require('express');
+const router = express.Router();
+const guestController = require('../controllers/guestController');
+const { authenticateGuest, identifyGuest, identifyHotel } = require('../middleware/authMiddleware');
+
+// Public: scanning a room QR code starts a session
+router.post('/session', identifyHotel, guestController.startSession);
+
+// Public: every QR code landing is counted for the adoption report. The
+// hotel comes last so its scope wins over a session from another hotel.
+router.post('/scans', identifyGuest, identifyHotel, guestController.recordScan);
+
+// Everything else is scoped to the guest's session token
+router.use(authenticateGuest);
+
+router.get('/tickets', guestController.getSessionTickets);
+router.get('/tickets/:id', guestController.getSessionTicket);
+router.put('/tickets/:id/status', guestController.updateTicketStatus);
+router.post('/tickets/:id/messages', guestController.addMessage);
+router.put('/tickets/:id/read', guestController.markTicketRead);
+
+module.exports = router;
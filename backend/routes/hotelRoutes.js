@@ -7,9 +7,14 @@ const {
   updateHotel,
   deleteHotel,
   getHotelsByManager,
+  completeOnboarding,
   validateHotel,
 } = require('../controllers/hotelController');
-const { authenticateManager } = require('../middleware/authMiddleware');
+const {
+  authenticateManager,
+  authorize,
+  authorizeManager,
+} = require('../middleware/authMiddleware');
 
 // Public routes
 router.route('/').get(getHotels);
@@ -22,10 +27,13 @@ router.use(authenticateManager);
 router.route('/manager/my-hotels').get(getHotelsByManager);
 
 // Hotel CRUD operations
-router.route('/').post(validateHotel, createHotel);
+router.route('/').post(authorize('owner'), validateHotel, createHotel);
 router
   .route('/:id')
-  .put(validateHotel, updateHotel)
-  .delete(deleteHotel);
+  .put(authorizeManager, validateHotel, updateHotel)
+  .delete(authorize('owner'), deleteHotel);
+
+// Onboarding wizard
+router.put('/:id/onboarding', authorizeManager, completeOnboarding);
 
 module.exports = router;
@@ -0,0 +1,29 @@
+const express = require('express');
+const router = express.Router();
+const knowledgeController = require('../controllers/knowledgeController');
+const { authenticateManager, authorizeManager } = require('../middleware/authMiddleware');
+
+// All knowledge base routes require authentication
+router.use(authenticateManager);
+
+router
+  .route('/')
+  .get(knowledgeController.getKnowledgeBase)
+  .post(authorizeManager, knowledgeController.validateEntry, knowledgeController.createEntry);
+
+router.post('/preview', knowledgeController.previewAnswer);
+
+// Check-in/out times and amenities come from the hotel profile
+router.put(
+  '/hotel',
+  authorizeManager,
+  knowledgeController.validateHotelDetails,
+  knowledgeController.updateHotelDetails
+);
+
+router
+  .route('/:id')
+  .put(authorizeManager, knowledgeController.validateEntry, knowledgeController.updateEntry)
+  .delete(authorizeManager, knowledgeController.deleteEntry);
+
+module.exports = router;
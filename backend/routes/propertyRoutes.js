@@ -0,0 +1,16 @@
+const express = require('express');
+const router = express.Router();
+const propertyController = require('../controllers/propertyController');
+const { authenticateManager, authorize, authorizeManager } = require('../middleware/authMiddleware');
+
+// All property routes require authentication
+router.use(authenticateManager);
+
+router
+  .route('/')
+  .get(propertyController.getProperties)
+  .post(authorize('owner'), propertyController.validateProperty, propertyController.createProperty);
+
+router.get('/overview', authorizeManager, propertyController.getOverview);
+
+module.exports = router;
@@ -1,28 +1,41 @@
 const express = require('express');
 const router = express.Router();
 const roomController = require('../controllers/roomController');
-const { authenticateManager } = require('../middleware/authMiddleware');
+const {
+  authenticateManager,
+  authorizeManager,
+  identifyHotel,
+} = require('../middleware/authMiddleware');
 
 // Public routes
-router.get('/number/:number', roomController.getRoomByNumber);
+router.get('/public/:hotelSlug/:number', identifyHotel, roomController.getRoomByNumber);
 
 // Protected routes (require authentication)
 router.use(authenticateManager);
 
+// Bulk setup, used by the onboarding wizard
+router.post('/bulk', authorizeManager, roomController.validateRoomLayout, roomController.bulkCreateRooms);
+router.post('/qr', authorizeManager, roomController.generateMissingQRCodes);
+router.post('/qr/sheets', authorizeManager, roomController.validateQRSheets, roomController.printQRSheets);
+
+// CSV/JSON import and export
+router.post('/import', authorizeManager, roomController.importRooms);
+router.get('/export', authorizeManager, roomController.exportRooms);
+
 // Room CRUD operations
 router
   .route('/')
   .get(roomController.getRooms)
-  .post(roomController.validateRoom, roomController.createRoom);
+  .post(authorizeManager, roomController.validateRoom, roomController.createRoom);
 
 router
   .route('/:id')
   .get(roomController.getRoom)
-  .put(roomController.validateRoom, roomController.updateRoom)
-  .delete(roomController.deleteRoom);
+  .put(authorizeManager, roomController.validateRoom, roomController.updateRoom)
+  .delete(authorizeManager, roomController.deleteRoom);
 
 // QR code routes
-router.post('/:id/qr', roomController.generateQRCode);
+router.post('/:id/qr', authorizeManager, roomController.generateQRCode);
 router.get('/:id/qr/download', roomController.downloadQRCode);
 
 module.exports = router;
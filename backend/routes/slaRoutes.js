@@ -0,0 +1,23 @@
+const express = require('express');
+const router = express.Router();
+const slaController = require('../controllers/slaController');
+const { authenticateManager, authorizeManager } = require('../middleware/authMiddleware');
+
+// All SLA routes require authentication
+router.use(authenticateManager);
+
+router
+  .route('/policies')
+  .get(slaController.getPolicies)
+  .put(authorizeManager, slaController.validatePolicy, slaController.upsertPolicy);
+
+router.delete('/policies/:category/:priority', authorizeManager, slaController.resetPolicy);
+
+router
+  .route('/escalations')
+  .get(slaController.getEscalationRules)
+  .put(authorizeManager, slaController.validateEscalationRule, slaController.updateEscalationRule);
+
+router.delete('/escalations/:rule', authorizeManager, slaController.resetEscalationRule);
+
+module.exports = router;
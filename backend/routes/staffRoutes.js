@@ -0,0 +1,21 @@
+const express = require('express');
+const router = express.Router();
+const staffController = require('../controllers/staffController');
+const { authenticateManager, authorizeManager } = require('../middleware/authMiddleware');
+
+// All staff routes require an owner or manager account
+router.use(authenticateManager, authorizeManager);
+
+router.get('/', staffController.getStaff);
+
+// Invitations
+router.get('/invites', staffController.getInvites);
+router.post('/invite', staffController.validateInvite, staffController.inviteStaff);
+router.delete('/invites/:id', staffController.revokeInvite);
+
+router
+  .route('/:id')
+  .put(staffController.validateStaffUpdate, staffController.updateStaff)
+  .delete(staffController.deactivateStaff);
+
+module.exports = router;
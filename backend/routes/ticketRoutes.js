@@ -2,11 +2,17 @@ const express = require("express");
 const router = express.Router();
 const ticketController = require("../controllers/ticketController");
 const chatController = require("../controllers/chatController");
-const { authenticateManager } = require("../middleware/authMiddleware");
+const guestController = require("../controllers/guestController");
+const {
+  authenticateManager,
+  authorizeManager,
+  authenticateGuest,
+} = require("../middleware/authMiddleware");
 
-// Public routes (guest access via room-specific link)
-router.post("/", ticketController.createTicket);
-router.post("/guest", chatController.createGuestTicket);
+// Guest routes; raising a ticket needs the session from the room's QR code
+router.post("/", authenticateGuest, ticketController.createTicket);
+router.post("/guest", authenticateGuest, chatController.createGuestTicket);
+router.get("/room/:roomNumber", authenticateGuest, guestController.getRoomTickets);
 
 // Protected routes (manager access only)
 router.use(authenticateManager);
@@ -14,16 +20,34 @@ router.use(authenticateManager);
 // Ticket management routes
 router.route("/").get(chatController.getTickets);
 
+// Open ticket counts per staff member
+router.route("/workload").get(ticketController.getWorkload);
+
 router
   .route("/:id")
   .get(ticketController.getTicket)
   .put(chatController.updateTicket)
-  .delete(chatController.deleteTicket);
+  .delete(authorizeManager, chatController.deleteTicket);
 
 // Update ticket status
 router.route("/:id/status").put(ticketController.updateTicketStatus);
 
+// Assign ticket to a staff member
+router.route("/:id/assign").put(ticketController.assignTicket);
+
+// Re-categorise a ticket; feeds the classifier accuracy report
+router.route("/:id/category").put(ticketController.updateTicketCategory);
+
+// Assistant conversation the ticket was raised from
+router.route("/:id/transcript").get(chatController.getTicketTranscript);
+
+// Send a canned response and run its macro actions
+router.route("/:id/canned-response").post(ticketController.applyCannedResponse);
+
 // Add message to ticket
 router.route("/:id/messages").post(ticketController.addMessage);
 
+// Read receipt for the staff side of the conversation
+router.route("/:id/read").put(ticketController.markTicketRead);
+
 module.exports = router;
@@ -2,6 +2,15 @@ const app = require('./app');
 const http = require('http');
 const { Server } = require('socket.io');
 const ticketCleanupService = require('./services/ticketCleanupService');
+const slaMonitorService = require('./services/slaMonitorService');
+const ticketEscalationService = require('./services/ticketEscalationService');
+const {
+  authorizeGuestSession,
+  authorizeTicketRoom,
+  authorizeHotelRoom,
+  authorizeUserRoom,
+} = require('./utils/socketAuth');
+const { ticketRoomFor, emitToTicketParticipants } = require('./utils/ticketRooms');
 
 // Get port from environment and store in Express.
 const port = process.env.PORT || 5050;
@@ -73,16 +82,86 @@ io.on('connection', (socket) => {
   console.log('🔗 Socket ID:', socket.id);
   console.log('🔗 Headers:', socket.handshake.headers);
 
-  // Join managers room for real-time ticket notifications
-  socket.on('joinManagersRoom', (managerId) => {
-    socket.join('managers');
-    console.log(`👥 Manager ${managerId} joined managers room for real-time notifications`);
+  // Join the hotel's category rooms for real-time ticket notifications; requires
+  // a staff token, and staff limited to some departments only join theirs
+  socket.on('joinManagersRoom', async (token, requestedHotelId) => {
+    try {
+      const rooms = await authorizeHotelRoom(token, requestedHotelId);
+      if (!rooms) {
+        socket.emit('joinManagersRoomDenied');
+        return;
+      }
+      socket.join(rooms);
+      console.log(`👥 Dashboard joined ${rooms.length} category room(s) for real-time notifications`);
+    } catch (error) {
+      console.error('❌ Error joining hotel room:', error);
+    }
+  });
+
+  // Join personal room for assignment notifications; only the token's own user
+  socket.on('joinUserRoom', async (token) => {
+    try {
+      const userId = await authorizeUserRoom(token);
+      if (!userId) {
+        socket.emit('joinUserRoomDenied');
+        return;
+      }
+      socket.join(`user_${userId}`);
+      console.log(`👤 User ${userId} joined personal notification room`);
+    } catch (error) {
+      console.error('❌ Error joining user room:', error);
+    }
+  });
+
+  // Join room for ticket updates; requires a guest session or staff token
+  socket.on('joinTicketRoom', async (ticketId, token) => {
+    try {
+      const participant = await authorizeTicketRoom(ticketId, token);
+      if (!participant) {
+        socket.emit('joinTicketRoomDenied', ticketId);
+        return;
+      }
+      // Remember who this socket is so typing events can't be spoofed
+      socket.data.tickets = { ...socket.data.tickets, [ticketId]: participant };
+      // Guests and staff get different views of the ticket
+      socket.join(ticketRoomFor(ticketId, participant.side));
+      console.log(`User joined ticket room: ${ticketRoomFor(ticketId, participant.side)}`);
+    } catch (error) {
+      console.error('❌ Error joining ticket room:', error);
+    }
   });
 
-  // Join room for ticket updates
-  socket.on('joinTicketRoom', (ticketId) => {
-    socket.join(`ticket_${ticketId}`);
-    console.log(`User joined ticket room: ticket_${ticketId}`);
+  // Leave a ticket room when the conversation is closed
+  socket.on('leaveTicketRoom', (ticketId) => {
+    const participant = socket.data.tickets && socket.data.tickets[ticketId];
+    if (!participant) return;
+    socket.leave(ticketRoomFor(ticketId, participant.side));
+    delete socket.data.tickets[ticketId];
+  });
+
+  // Relay typing indicators to the other side of the conversation
+  socket.on('ticketTyping', ({ ticketId, isTyping } = {}) => {
+    const participant = socket.data.tickets && socket.data.tickets[ticketId];
+    if (!participant) return;
+
+    emitToTicketParticipants(socket, ticketId, 'ticketTyping', {
+      ticketId,
+      side: participant.side,
+      name: participant.name,
+      isTyping: !!isTyping,
+    });
+  });
+
+  // Join a guest session room to hear about newly created tickets
+  socket.on('joinGuestSession', async (token) => {
+    try {
+      const guest = await authorizeGuestSession(token);
+      if (!guest) return;
+      socket.join(`guest_${guest.sessionId}`);
+      console.log(`🧳 Guest joined session room for Room ${guest.roomNumber}`);
+    } catch (error) {
+      console.error('❌ Error joining guest session room:', error);
+    }
   });
 
   // Handle disconnection
@@ -109,6 +188,12 @@ server.listen(port, () => {
   
   // Start the ticket cleanup service
   ticketCleanupService.start();
+
+  // Start the SLA breach monitor
+  slaMonitorService.start(io);
+
+  // Start the stale ticket escalation service
+  ticketEscalationService.start(io);
 });
 
 // Handle unhandled promise rejections
@@ -133,6 +218,8 @@ process.on('uncaughtException', (err) => {
 process.on('SIGTERM', () => {
   console.log('👋 SIGTERM RECEIVED. Shutting down gracefully');
   ticketCleanupService.stop();
+  slaMonitorService.stop();
+  ticketEscalationService.stop();
   server.close(() => {
     console.log('💥 Process terminated!');
   });
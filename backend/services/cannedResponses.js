@@ -0,0 +1,34 @@
+const { buildReplyContext, CATEGORY_TEAMS } = require('./replySuggestions/context');
+const { formatEta } = require('./replySuggestions/localSuggester');
+
+// Placeholders a canned response may use
+const TEMPLATE_VARIABLES = ['guestName', 'roomNumber', 'eta', 'staffName', 'department'];
+
+/**
+ * Fill a canned response's placeholders for a ticket. Unknown placeholders
+ * are left as written so typos are easy to spot.
+ * @param {string} template - Response text with {variable} placeholders
+ * @param {Object} ticket - Ticket document
+ * @param {Object} [options]
+ * @param {string} [options.staffName] - Who is sending the reply
+ * @returns {string}
+ */
+const renderTemplate = (template, ticket, { staffName } = {}) => {
+  const context = buildReplyContext(ticket, { staffName });
+  const values = {
+    guestName: context.guestName || 'Guest',
+    roomNumber: context.roomNumber || '',
+    eta: formatEta(context.etaMinutes),
+    staffName: staffName || '',
+    department: CATEGORY_TEAMS[ticket.category] || 'team',
+  };
+
+  return String(template || '').replace(/\{(\w+)\}/g, (placeholder, name) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? values[name] : placeholder
+  );
+};
+
+module.exports = {
+  TEMPLATE_VARIABLES,
+  renderTemplate,
+};
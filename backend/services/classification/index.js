@@ -0,0 +1,78 @@
+const ClassifierSettings = require('../../models/ClassifierSettings');
+const { createLocalClassifier } = require('./localClassifier');
+const { createRemoteClassifier } = require('./remoteClassifier');
+
+// Returned only when every provider in the chain failed
+const UNAVAILABLE_RESULT = {
+  should_create_ticket: false,
+  categories: [],
+  confidence: 0.0,
+  reasoning: 'Classification service unavailable',
+  suggested_priority: 'low',
+  estimated_completion_time: null,
+};
+
+const PROVIDER_FACTORIES = {
+  // The server's own endpoint is trusted; one set by a hotel is not
+  remote: (settings) =>
+    createRemoteClassifier({
+      url: settings.remoteUrl,
+      timeoutMs: settings.remoteTimeoutMs,
+      publicOnly: Boolean(settings.remoteUrl),
+    }),
+  local: (settings) =>
+    createLocalClassifier({ keywords: settings.keywords, minScore: settings.minScore }),
+};
+
+/**
+ * Build a classifier that tries each provider in turn until one answers.
+ * A provider is any object with a name and an async classify(message, context)
+ * that resolves to the classifier response shape or throws.
+ * @param {Array<{name: string, classify: Function}>} providers
+ * @returns {{ classify: Function }}
+ */
+const createClassifierChain = (providers) => ({
+  classify: async (message, context = {}) => {
+    for (const provider of providers) {
+      try {
+        const result = await provider.classify(message, context);
+        return { ...result, provider: provider.name };
+      } catch (error) {
+        console.error(`Classifier "${provider.name}" failed:`, error.message);
+      }
+    }
+    return { ...UNAVAILABLE_RESULT, provider: null };
+  },
+});
+
+/**
+ * Build the classifier chain from a hotel's settings
+ * @param {Object} settings - From ClassifierSettings.getForHotel
+ * @returns {{ classify: Function }}
+ */
+const createClassifier = (settings = ClassifierSettings.DEFAULTS) =>
+  createClassifierChain(
+    settings.providers
+      .filter((name) => PROVIDER_FACTORIES[name])
+      .map((name) => PROVIDER_FACTORIES[name](settings))
+  );
+
+/**
+ * Classify a guest message with the hotel's configured providers
+ * @param {string} message - What the guest wrote
+ * @param {Object} [context]
+ * @param {string} [context.roomNumber] - Room the guest is in
+ * @param {string} [context.hotelId] - Hotel whose settings apply
+ * @returns {Promise<Object>} - Classifier response, tagged with the provider that answered
+ */
+const classifyMessage = async (message, { roomNumber, hotelId } = {}) => {
+  const settings = await ClassifierSettings.getForHotel(hotelId);
+  return createClassifier(settings).classify(message, { roomNumber });
+};
+
+module.exports = {
+  UNAVAILABLE_RESULT,
+  createClassifierChain,
+  createClassifier,
+  classifyMessage,
+};
@@ -0,0 +1,77 @@
+// Default vocabulary for the local classifier. Text and keywords are compared
+// after lowercasing and stripping accents and punctuation. Keywords longer than
+// four letters match the start of a word, so "towel" also matches "towels";
+// shorter ones must match a whole word. Multi-word phrases count double.
+
+const CATEGORY_KEYWORDS = {
+  housekeeping: [
+    // English
+    'clean', 'towel', 'linen', 'sheet', 'pillow', 'blanket', 'housekeep', 'trash',
+    'rubbish', 'garbage', 'amenit', 'toilet paper', 'toiletries', 'shampoo', 'soap',
+    'dirty', 'make up the room', 'tidy',
+    // Spanish
+    'toalla', 'sabana', 'almohada', 'manta', 'limpi', 'basura', 'papel higienico', 'jabon',
+    // French
+    'serviette', 'drap', 'oreiller', 'couverture', 'nettoy', 'menage', 'poubelle', 'savon',
+    // German
+    'handtuch', 'handtucher', 'bettwasche', 'kissen', 'decke', 'reinig', 'sauber', 'mull', 'seife',
+  ],
+  porter: [
+    'luggage', 'baggage', 'bags', 'suitcase', 'bellboy', 'bell boy', 'bellhop', 'bell hop',
+    'porter', 'trolley', 'carry', 'help with bags',
+    'equipaje', 'maleta', 'botones',
+    'bagage', 'valise', 'bagagiste',
+    'gepack', 'koffer', 'gepacktrager',
+  ],
+  maintenance: [
+    'broken', 'leak', 'air conditioning', 'aircon', 'heater', 'heating', 'hvac',
+    'power', 'no hot water', 'plumb', 'clogged', 'blocked', 'fix', 'repair', 'not working',
+    'doesnt work', "doesn't work", 'maintenance', 'light bulb', 'flood',
+    'roto', 'averiad', 'fuga', 'aire acondicionado', 'calefaccion', 'no funciona', 'reparar',
+    'casse', 'fuite', 'climatisation', 'chauffage', 'ne marche pas', 'ne fonctionne pas', 'repar',
+    'kaputt', 'undicht', 'klimaanlage', 'heizung', 'funktioniert nicht', 'reparier',
+  ],
+  service_fb: [
+    'food', 'breakfast', 'dinner', 'lunch', 'menu', 'restaurant', 'drink', 'beverage',
+    'room service', 'coffee', 'tea', 'wine', 'water bottle', 'hungry', 'snack',
+    'comida', 'desayuno', 'cena', 'almuerzo', 'bebida', 'cafe', 'servicio de habitaciones',
+    'nourriture', 'petit dejeuner', 'diner', 'dejeuner', 'boisson', 'service en chambre',
+    'essen', 'fruhstuck', 'abendessen', 'mittagessen', 'getrank', 'kaffee', 'zimmerservice',
+  ],
+  concierge: [
+    'taxi', 'uber', 'cab', 'transport', 'airport', 'reservation', 'tour', 'attraction',
+    'recommend', 'directions', 'concierge', 'tickets for', 'sightseeing',
+    'aeropuerto', 'reserva', 'recomend', 'excursion',
+    'aeroport', 'recommand', 'visite',
+    'flughafen', 'empfehl', 'ausflug',
+  ],
+  reception: [
+    'check in', 'check-in', 'checkin', 'check out', 'check-out', 'checkout', 'late checkout',
+    'bill', 'invoice', 'payment', 'key', 'key card', 'front desk', 'reception', 'wifi password',
+    'factura', 'pago', 'llave', 'recepcion',
+    'facture', 'paiement', 'cle',
+    'rechnung', 'zahlung', 'schlussel', 'rezeption',
+  ],
+};
+
+// Words that make a request urgent whatever its category
+const URGENT_KEYWORDS = [
+  'urgent', 'emergency', 'asap', 'immediately', 'right now', 'flood', 'fire', 'smoke',
+  'urgente', 'emergencia', 'inmediatamente',
+  'urgence', 'immediatement',
+  'dringend', 'notfall', 'sofort',
+];
+
+// Messages that are only pleasantries and never need a ticket
+const GREETING_KEYWORDS = [
+  'hi', 'hello', 'hey', 'good morning', 'good evening', 'thanks', 'thank you', 'ok', 'okay',
+  'hola', 'gracias', 'buenos dias',
+  'bonjour', 'bonsoir', 'merci',
+  'hallo', 'guten tag', 'danke',
+];
+
+module.exports = {
+  CATEGORY_KEYWORDS,
+  URGENT_KEYWORDS,
+  GREETING_KEYWORDS,
+};
@@ -0,0 +1,127 @@
+const { TICKET_CATEGORIES } = require('../../utils/constants');
+const { CATEGORY_KEYWORDS, URGENT_KEYWORDS, GREETING_KEYWORDS } = require('./keywords');
+
+// Keywords this short must match a whole word rather than a word prefix
+const WHOLE_WORD_MAX_LENGTH = 4;
+
+// Categories scoring below this share of the best score are dropped
+const RELATIVE_SCORE_CUTOFF = 0.25;
+
+/**
+ * Lowercase, strip accents and collapse punctuation so text in any language
+ * can be compared against the keyword lists.
+ * @param {string} text
+ * @returns {string}
+ */
+const normalize = (text = '') =>
+  String(text || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+const matches = (paddedText, keyword) =>
+  keyword.length <= WHOLE_WORD_MAX_LENGTH
+    ? paddedText.includes(` ${keyword} `)
+    : paddedText.includes(` ${keyword}`);
+
+const scoreKeywords = (paddedText, keywords) =>
+  keywords.reduce((score, keyword) => {
+    if (!keyword || !matches(paddedText, keyword)) return score;
+    return score + (keyword.includes(' ') ? 2 : 1);
+  }, 0);
+
+const normalizeKeywords = (keywords) => [...new Set(keywords.map(normalize).filter(Boolean))];
+
+/**
+ * Build a keyword classifier. Extra keywords are added to the defaults, not
+ * swapped in, so a hotel only lists the words its guests actually use.
+ * @param {Object} [options]
+ * @param {Object<string, string[]>} [options.keywords] - Extra keywords per category
+ * @param {number} [options.minScore] - Minimum score before a category is picked
+ * @returns {{ name: string, classify: Function, classifyCategory: Function }}
+ */
+const createLocalClassifier = ({ keywords = {}, minScore = 1 } = {}) => {
+  const vocabulary = TICKET_CATEGORIES.reduce((acc, category) => {
+    acc[category] = normalizeKeywords([
+      ...(CATEGORY_KEYWORDS[category] || []),
+      ...(keywords[category] || []),
+    ]);
+    return acc;
+  }, {});
+  const urgent = normalizeKeywords(URGENT_KEYWORDS);
+  const greetings = normalizeKeywords(GREETING_KEYWORDS);
+
+  // Score every category, best first
+  const score = (message) => {
+    const padded = ` ${normalize(message)} `;
+    return TICKET_CATEGORIES.map((category) => ({
+      category,
+      score: scoreKeywords(padded, vocabulary[category]),
+    }))
+      .filter((result) => result.score >= minScore)
+      .sort((a, b) => b.score - a.score);
+  };
+
+  const classify = async (message) => {
+    const normalized = normalize(message);
+    const padded = ` ${normalized} `;
+    const scored = score(message);
+    const isUrgent = scoreKeywords(padded, urgent) > 0;
+    const priority = isUrgent ? 'high' : 'medium';
+
+    if (scored.length === 0) {
+      const wordCount = normalized ? normalized.split(' ').length : 0;
+      const isGreeting = scoreKeywords(padded, greetings) > 0 || wordCount < 3;
+
+      // Anything that reads like a request still reaches the front desk
+      return {
+        should_create_ticket: !isGreeting,
+        categories: isGreeting
+          ? []
+          : [{ category: 'reception', message: String(message).trim(), urgency: priority }],
+        confidence: isGreeting ? 0.6 : 0.2,
+        reasoning: isGreeting
+          ? 'Greeting or acknowledgement'
+          : 'No department keywords matched; routed to reception',
+        suggested_priority: priority,
+        estimated_completion_time: null,
+      };
+    }
+
+    const best = scored[0].score;
+    const picked = scored.filter((result) => result.score >= best * RELATIVE_SCORE_CUTOFF);
+
+    return {
+      should_create_ticket: true,
+      categories: picked.map((result) => ({
+        category: result.category,
+        message: String(message).trim(),
+        urgency: priority,
+      })),
+      // Saturates as more keywords agree
+      confidence: Number((best / (best + 1)).toFixed(2)),
+      reasoning: `Matched keywords for ${picked.map((result) => result.category).join(', ')}`,
+      suggested_priority: priority,
+      estimated_completion_time: null,
+    };
+  };
+
+  // Single best category, for callers that need exactly one
+  const classifyCategory = (text) => {
+    const scored = score(text);
+    return scored.length > 0 ? scored[0].category : 'reception';
+  };
+
+  return {
+    name: 'local',
+    classify,
+    classifyCategory,
+  };
+};
+
+module.exports = {
+  normalize,
+  createLocalClassifier,
+};
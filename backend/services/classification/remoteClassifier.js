@@ -0,0 +1,65 @@
+const https = require('https');
+const axios = require('axios');
+const { publicLookup, checkPublicHttpsUrl } = require('../../utils/publicUrl');
+
+const DEFAULT_REMOTE_URL =
+  process.env.CLASSIFIER_API_URL || 'https://hotel-classifier-api.onrender.com/classify';
+
+// Hotel-supplied endpoints may only be reached over https at public
+// addresses, checked before each request and again as the socket connects
+// (so a hostname can't be re-pointed in between), and may not redirect
+const hotelEndpointOptions = {
+  httpsAgent: new https.Agent({ lookup: publicLookup }),
+  maxRedirects: 0,
+};
+
+/**
+ * Build a classifier backed by the hotel classifier HTTP service.
+ * Errors and malformed answers are thrown so the chain can fall back.
+ * @param {Object} [options]
+ * @param {string} [options.url] - Classify endpoint
+ * @param {number} [options.timeoutMs] - Give up after this long
+ * @param {boolean} [options.publicOnly] - Set for endpoints a hotel supplied
+ * @returns {{ name: string, classify: Function }}
+ */
+const createRemoteClassifier = ({ url, timeoutMs = 8000, publicOnly = false } = {}) => {
+  const endpoint = url || DEFAULT_REMOTE_URL;
+
+  const classify = async (message, { roomNumber } = {}) => {
+    if (publicOnly) {
+      await checkPublicHttpsUrl(endpoint).catch((error) => {
+        throw new Error(`Remote classifier URL rejected: ${error.message}`);
+      });
+    }
+
+    const response = await axios.post(
+      endpoint,
+      {
+        guest_message: message,
+        room_number: roomNumber != null ? String(roomNumber) : '',
+      },
+      { timeout: timeoutMs, ...(publicOnly ? hotelEndpointOptions : {}) }
+    );
+
+    const result = response.data;
+    if (
+      !result ||
+      typeof result.should_create_ticket !== 'boolean' ||
+      !Array.isArray(result.categories)
+    ) {
+      throw new Error('Remote classifier returned an unexpected response');
+    }
+
+    return result;
+  };
+
+  return {
+    name: 'remote',
+    classify,
+  };
+};
+
+module.exports = {
+  DEFAULT_REMOTE_URL,
+  createRemoteClassifier,
+};
@@ -0,0 +1,164 @@
+const KnowledgeEntry = require('../models/KnowledgeEntry');
+const Hotel = require('../models/Hotel');
+const { normalize } = require('./classification/localClassifier');
+
+// Share of the guest's words an entry must cover before it is used as the answer
+const MIN_ANSWER_SCORE = 0.5;
+
+// Words that say nothing about what the guest is asking for
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'is', 'are', 'was', 'be', 'do', 'does', 'did', 'can', 'could',
+  'i', 'we', 'you', 'my', 'our', 'your', 'me', 'us', 'it', 'there', 'here', 'this',
+  'what', 'whats', 'when', 'where', 'which', 'who', 'how', 'please', 'have', 'has',
+  'of', 'to', 'for', 'in', 'on', 'at', 'and', 'or', 'any', 'some', 'hotel', 'tell',
+  'el', 'la', 'los', 'las', 'de', 'es', 'que', 'hay', 'le', 'les', 'du', 'des', 'est',
+  'il', 'y', 'der', 'die', 'das', 'ist', 'gibt', 'ein', 'eine',
+]);
+
+// Openings that mark a message as a question rather than a request
+const QUESTION_STARTS = [
+  'what', 'whats', 'when', 'where', 'which', 'how', 'is', 'are', 'do', 'does', 'can i', 'could i',
+  'que', 'cuando', 'donde', 'cual', 'como', 'hay',
+  'quand', 'ou', 'quel', 'quelle', 'est ce', 'y a t il',
+  'wann', 'wo', 'was', 'welche', 'gibt es',
+];
+
+// Words of a text worth matching on, with plurals folded
+const tokenize = (text) =>
+  normalize(text)
+    .split(' ')
+    .filter((word) => word.length > 1 && !STOPWORDS.has(word))
+    .map((word) => (word.length > 3 && word.endsWith('s') ? word.slice(0, -1) : word));
+
+const isQuestion = (message) => {
+  if (String(message || '').includes('?')) return true;
+  const padded = `${normalize(message)} `;
+  return QUESTION_STARTS.some((start) => padded.startsWith(`${start} `));
+};
+
+/**
+ * Turn the hotel profile into entries so times and amenities are answered
+ * without anyone having to copy them into the knowledge base.
+ * @param {Object|null} hotel - Hotel document
+ * @returns {Array<{topic: string, question: string, answer: string, keywords: string[]}>}
+ */
+const buildHotelEntries = (hotel) => {
+  if (!hotel) return [];
+
+  const entries = [
+    {
+      topic: 'hours',
+      question: 'What time is check-in?',
+      answer: `Check-in is from ${hotel.checkInTime}.`,
+      keywords: ['checkin', 'check in', 'arrival', 'arrive'],
+    },
+    {
+      topic: 'hours',
+      question: 'What time is check-out?',
+      answer: `Check-out is at ${hotel.checkOutTime}.`,
+      keywords: ['checkout', 'check out', 'departure', 'leave'],
+    },
+  ];
+
+  const amenities = (hotel.amenities || []).filter(Boolean);
+  if (amenities.length > 0) {
+    entries.push({
+      topic: 'amenity',
+      question: 'What amenities does the hotel have?',
+      answer: `The hotel offers: ${amenities.join(', ')}.`,
+      keywords: ['amenities', 'facilities', 'services'],
+    });
+    amenities.forEach((amenity) => {
+      entries.push({
+        topic: 'amenity',
+        question: `Do you have ${amenity}?`,
+        answer: `Yes, the hotel has ${amenity}.`,
+        keywords: [amenity],
+      });
+    });
+  }
+
+  return entries.map((entry) => ({ ...entry, source: 'hotel' }));
+};
+
+/**
+ * Build a retriever over a set of entries. An entry answers a message when it
+ * covers enough of the guest's words; the best covered entry wins.
+ * @param {Array<{question: string, answer: string, keywords?: string[]}>} entries
+ * @returns {{ answer: Function }}
+ */
+const createKnowledgeBase = (entries) => {
+  const indexed = entries.map((entry) => ({
+    entry,
+    terms: new Set([
+      ...tokenize(entry.question),
+      ...(entry.keywords || []).flatMap((keyword) => [
+        ...tokenize(keyword),
+        normalize(keyword).replace(/ /g, ''),
+      ]),
+    ]),
+  }));
+
+  return {
+    answer: (message) => {
+      if (!isQuestion(message)) return null;
+
+      const words = tokenize(message);
+      if (words.length === 0) return null;
+
+      let best = null;
+      indexed.forEach(({ entry, terms }) => {
+        const covered = words.filter((word) => terms.has(word)).length;
+        const score = covered / words.length;
+        if (covered > 0 && (!best || score > best.score)) {
+          best = { entry, score };
+        }
+      });
+
+      if (!best || best.score < MIN_ANSWER_SCORE) return null;
+
+      return {
+        entryId: best.entry._id || null,
+        source: best.entry.source || 'knowledge',
+        topic: best.entry.topic,
+        question: best.entry.question,
+        answer: best.entry.answer,
+        score: Number(best.score.toFixed(2)),
+      };
+    },
+  };
+};
+
+/**
+ * Every entry the hotel's assistant answers from, its own first.
+ * @param {ObjectId|string} hotelId
+ */
+const getKnowledgeEntries = async (hotelId) => {
+  const [entries, hotel] = await Promise.all([
+    KnowledgeEntry.find({ hotel: hotelId, isActive: true }).lean(),
+    Hotel.findById(hotelId).lean(),
+  ]);
+
+  return [...entries.map((entry) => ({ ...entry, source: 'knowledge' })), ...buildHotelEntries(hotel)];
+};
+
+/**
+ * Answer a guest message from the hotel's knowledge base.
+ * @param {string} message
+ * @param {ObjectId|string|null} hotelId
+ * @returns {Promise<Object|null>} - The matched answer, or null when staff are needed
+ */
+const findKnowledgeAnswer = async (message, hotelId) => {
+  if (!hotelId) return null;
+  return createKnowledgeBase(await getKnowledgeEntries(hotelId)).answer(message);
+};
+
+module.exports = {
+  MIN_ANSWER_SCORE,
+  tokenize,
+  isQuestion,
+  buildHotelEntries,
+  createKnowledgeBase,
+  getKnowledgeEntries,
+  findKnowledgeAnswer,
+};
@@ -0,0 +1,85 @@
+// Only the most recent part of a thread is worth sending to a suggester
+const MAX_THREAD_MESSAGES = 12;
+
+// How guests are told who is handling their request
+const CATEGORY_TEAMS = {
+  reception: 'front desk team',
+  housekeeping: 'housekeeping team',
+  porter: 'porter team',
+  concierge: 'concierge',
+  service_fb: 'room service team',
+  maintenance: 'maintenance team',
+};
+
+// Minutes to promise when neither the ticket nor its SLA says otherwise
+const DEFAULT_ETA_MINUTES = { high: 15, medium: 30, low: 60 };
+
+// Chat placeholders like "Guest-101" are not names to greet anyone by
+const isPlaceholderName = (name) => !name || /^guest[-\s]?\d*$/i.test(String(name).trim());
+
+/**
+ * Gather what a reply needs to know about a ticket: who and where the guest
+ * is, what they asked, and how the request is doing against its SLA.
+ * @param {Object} ticket - Ticket document, with room populated if available
+ * @param {Object} [options]
+ * @param {Array} [options.conversationHistory] - Thread as the dashboard shows it; defaults to the ticket's messages
+ * @param {string} [options.staffName] - Who will send the reply
+ * @param {Date} [options.now]
+ * @returns {Object}
+ */
+const buildReplyContext = (ticket, { conversationHistory, staffName, now = new Date() } = {}) => {
+  const source =
+    Array.isArray(conversationHistory) && conversationHistory.length > 0
+      ? conversationHistory
+      : ticket.messages || [];
+
+  const thread = source
+    .filter((message) => message && typeof message.content === 'string' && message.content.trim())
+    .map((message) => ({
+      sender: message.sender || message.role || 'guest',
+      content: message.content.trim(),
+    }))
+    .slice(-MAX_THREAD_MESSAGES);
+
+  const lastGuestMessage = [...thread].reverse().find((message) => message.sender === 'guest');
+
+  const resolveBy = ticket.sla && ticket.sla.resolveBy ? new Date(ticket.sla.resolveBy) : null;
+  const minutesToResolve = resolveBy ? Math.round((resolveBy.getTime() - now.getTime()) / 60000) : null;
+  const estimated = parseInt(ticket.estimatedCompletion, 10);
+
+  let etaMinutes = DEFAULT_ETA_MINUTES[ticket.priority] || DEFAULT_ETA_MINUTES.medium;
+  if (Number.isFinite(estimated) && estimated > 0) {
+    etaMinutes = estimated;
+  } else if (minutesToResolve !== null && minutesToResolve > 0) {
+    etaMinutes = Math.min(etaMinutes, minutesToResolve);
+  }
+
+  const guestName = ticket.guestInfo && ticket.guestInfo.name;
+
+  return {
+    guestName: isPlaceholderName(guestName) ? null : guestName.trim().split(/\s+/)[0],
+    roomNumber: ticket.roomNumber || (ticket.room && ticket.room.number) || null,
+    category: ticket.category,
+    team: CATEGORY_TEAMS[ticket.category] || 'team',
+    status: ticket.status,
+    priority: ticket.priority,
+    holdReason: ticket.holdReason || null,
+    minutesOpen: ticket.createdAt
+      ? Math.max(0, Math.round((now.getTime() - new Date(ticket.createdAt).getTime()) / 60000))
+      : 0,
+    sla: {
+      resolveBy,
+      minutesToResolve,
+      breached: Boolean(ticket.sla && ticket.sla.breachedAt),
+    },
+    etaMinutes,
+    lastGuestMessage: lastGuestMessage ? lastGuestMessage.content : null,
+    thread,
+    staffName: staffName || null,
+  };
+};
+
+module.exports = {
+  CATEGORY_TEAMS,
+  buildReplyContext,
+};
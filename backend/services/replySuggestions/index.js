@@ -0,0 +1,88 @@
+const crypto = require('crypto');
+const { REPLY_SUGGESTION_TYPES } = require('../../utils/constants');
+const { buildReplyContext } = require('./context');
+const { createLocalSuggester } = require('./localSuggester');
+const { createLlmSuggester } = require('./llmSuggester');
+
+/**
+ * Build a suggester that tries each provider in turn until one answers.
+ * A provider is any object with a name and an async suggest(context, types)
+ * that resolves to [{ type, text }] or throws.
+ * @param {Array<{name: string, suggest: Function}>} providers
+ * @returns {{ suggest: Function }}
+ */
+const createSuggesterChain = (providers) => ({
+  suggest: async (context, types) => {
+    for (const provider of providers) {
+      try {
+        const suggestions = await provider.suggest(context, types);
+        return suggestions.map((suggestion) => ({ ...suggestion, provider: provider.name }));
+      } catch (error) {
+        console.error(`Reply suggester "${provider.name}" failed:`, error.message);
+      }
+    }
+    return [];
+  },
+});
+
+/**
+ * The configured providers: the LLM when an API key is set, always backed by templates
+ * @returns {{ suggest: Function }}
+ */
+const createReplySuggester = () =>
+  createSuggesterChain([
+    ...(process.env.MISTRAL_API_KEY
+      ? [createLlmSuggester({ apiKey: process.env.MISTRAL_API_KEY })]
+      : []),
+    createLocalSuggester(),
+  ]);
+
+/**
+ * The reply types that fit the ticket right now, most useful first
+ * @param {Object} context - From buildReplyContext
+ * @returns {string[]}
+ */
+const rankReplyTypes = (context) => {
+  if (['completed', 'verified'].includes(context.status)) {
+    return ['completion', 'apology', 'acknowledge', 'eta'];
+  }
+  if (context.sla.breached || context.status === 'reopened') {
+    return ['apology', 'eta', 'acknowledge', 'completion'];
+  }
+  if (context.status === 'raised') {
+    return ['acknowledge', 'eta', 'apology', 'completion'];
+  }
+  return ['eta', 'acknowledge', 'apology', 'completion'];
+};
+
+/**
+ * Suggest replies to a ticket's guest
+ * @param {Object} ticket - Ticket document
+ * @param {Object} [options]
+ * @param {Array} [options.conversationHistory] - Thread as the dashboard shows it
+ * @param {string} [options.requestType] - Only suggest this reply type; anything else gets every type
+ * @param {string} [options.staffName] - Who will send the reply
+ * @param {{ suggest: Function }} [options.suggester] - Defaults to the configured providers
+ * @returns {Promise<Array<{id: string, type: string, text: string, provider: string}>>}
+ */
+const suggestReplies = async (
+  ticket,
+  { conversationHistory, requestType, staffName, suggester = createReplySuggester() } = {}
+) => {
+  const context = buildReplyContext(ticket, { conversationHistory, staffName });
+  const ranked = rankReplyTypes(context);
+  const types = REPLY_SUGGESTION_TYPES.includes(requestType) ? [requestType] : ranked;
+
+  const suggestions = await suggester.suggest(context, types);
+
+  return suggestions
+    .sort((a, b) => ranked.indexOf(a.type) - ranked.indexOf(b.type))
+    .map((suggestion) => ({ id: crypto.randomUUID(), ...suggestion }));
+};
+
+module.exports = {
+  createSuggesterChain,
+  createReplySuggester,
+  rankReplyTypes,
+  suggestReplies,
+};
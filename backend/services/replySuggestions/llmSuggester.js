@@ -0,0 +1,100 @@
+const axios = require('axios');
+
+// Any OpenAI-compatible chat completions endpoint works; Mistral is the default
+const DEFAULT_LLM_URL =
+  process.env.REPLY_SUGGESTION_API_URL || 'https://api.mistral.ai/v1/chat/completions';
+const DEFAULT_LLM_MODEL = process.env.REPLY_SUGGESTION_MODEL || 'mistral-small-latest';
+
+const TYPE_GUIDANCE = {
+  acknowledge: 'confirm the request has been received and who is handling it',
+  eta: 'tell the guest when to expect someone, using the ETA given',
+  apology: 'apologise for the wait and say what happens next',
+  completion: 'say the request is done and ask whether anything else is needed',
+};
+
+const SYSTEM_PROMPT =
+  'You write short, warm replies from hotel staff to a guest about their service request. ' +
+  'Reply in the language the guest wrote in. Never promise anything the context does not support. ' +
+  'Answer with JSON only: {"suggestions":[{"type":"<type>","text":"<reply>"}]}.';
+
+const describeContext = (context, types) =>
+  [
+    `Room: ${context.roomNumber || 'unknown'}`,
+    `Guest name: ${context.guestName || 'not given'}`,
+    `Department: ${context.team}`,
+    `Status: ${context.status}${context.holdReason ? ` (${context.holdReason})` : ''}`,
+    `Priority: ${context.priority}`,
+    `Open for: ${context.minutesOpen} minutes`,
+    `ETA to promise: ${context.etaMinutes} minutes`,
+    `SLA breached: ${context.sla.breached ? 'yes' : 'no'}`,
+    context.staffName ? `Signed by: ${context.staffName}` : null,
+    '',
+    'Conversation so far:',
+    ...context.thread.map((message) => `${message.sender}: ${message.content}`),
+    '',
+    'Write one reply for each of these types:',
+    ...types.map((type) => `- ${type}: ${TYPE_GUIDANCE[type]}`),
+  ]
+    .filter((line) => line !== null)
+    .join('\n');
+
+/**
+ * Build a suggester backed by a hosted LLM.
+ * Errors and malformed answers are thrown so the chain can fall back.
+ * @param {Object} [options]
+ * @param {string} [options.apiKey] - Bearer token for the endpoint
+ * @param {string} [options.url] - Chat completions endpoint
+ * @param {string} [options.model]
+ * @param {number} [options.timeoutMs] - Give up after this long
+ * @returns {{ name: string, suggest: Function }}
+ */
+const createLlmSuggester = ({ apiKey, url, model, timeoutMs = 10000 } = {}) => {
+  const suggest = async (context, types) => {
+    if (!apiKey) {
+      throw new Error('No API key configured for reply suggestions');
+    }
+
+    const response = await axios.post(
+      url || DEFAULT_LLM_URL,
+      {
+        model: model || DEFAULT_LLM_MODEL,
+        temperature: 0.4,
+        response_format: { type: 'json_object' },
+        messages: [
+          { role: 'system', content: SYSTEM_PROMPT },
+          { role: 'user', content: describeContext(context, types) },
+        ],
+      },
+      {
+        timeout: timeoutMs,
+        headers: { Authorization: `Bearer ${apiKey}` },
+      }
+    );
+
+    const content = response.data?.choices?.[0]?.message?.content;
+    const parsed = typeof content === 'string' ? JSON.parse(content) : null;
+    const suggestions = (parsed && Array.isArray(parsed.suggestions) ? parsed.suggestions : []).filter(
+      (suggestion) =>
+        suggestion &&
+        types.includes(suggestion.type) &&
+        typeof suggestion.text === 'string' &&
+        suggestion.text.trim()
+    );
+
+    if (suggestions.length === 0) {
+      throw new Error('Reply suggestion model returned an unexpected response');
+    }
+
+    return suggestions.map(({ type, text }) => ({ type, text: text.trim() }));
+  };
+
+  return {
+    name: 'llm',
+    suggest,
+  };
+};
+
+module.exports = {
+  DEFAULT_LLM_URL,
+  createLlmSuggester,
+};
@@ -0,0 +1,51 @@
+const formatEta = (minutes) => {
+  if (minutes < 60) return `about ${minutes} minutes`;
+  if (minutes < 90) return 'about an hour';
+  return `about ${Math.round(minutes / 60)} hours`;
+};
+
+const greet = (context) => (context.guestName ? `Hello ${context.guestName},` : 'Hello,');
+
+const signOff = (context) => (context.staffName ? ` – ${context.staffName}` : '');
+
+// One template per reply type; each returns the finished text
+const TEMPLATES = {
+  acknowledge: (context) =>
+    `${greet(context)} thank you for letting us know. Our ${context.team} has your request` +
+    `${context.roomNumber ? ` for room ${context.roomNumber}` : ''} and is looking after it now.${signOff(context)}`,
+
+  eta: (context) =>
+    context.status === 'on_hold'
+      ? `${greet(context)} your request is briefly on hold` +
+        `${context.holdReason ? ` (${context.holdReason})` : ''}. ` +
+        `We will update you as soon as our ${context.team} can continue.${signOff(context)}`
+      : `${greet(context)} our ${context.team} expects to be with you in ${formatEta(context.etaMinutes)}. ` +
+        `We will let you know if anything changes.${signOff(context)}`,
+
+  apology: (context) =>
+    `${greet(context)} we are very sorry for the wait` +
+    `${context.sla.breached || context.status === 'reopened' ? ' – this has taken longer than it should have' : ''}. ` +
+    `Our ${context.team} is prioritising your request and will be with you in ${formatEta(context.etaMinutes)}.${signOff(context)}`,
+
+  completion: (context) =>
+    `${greet(context)} your request has now been taken care of. ` +
+    `Please let us know if everything is as it should be, or if there is anything else we can do for you.${signOff(context)}`,
+};
+
+/**
+ * Build a suggester that fills fixed templates from the ticket context.
+ * Always answers, so it works as the last provider in a chain.
+ * @returns {{ name: string, suggest: Function }}
+ */
+const createLocalSuggester = () => ({
+  name: 'local',
+  suggest: async (context, types) =>
+    types
+      .filter((type) => TEMPLATES[type])
+      .map((type) => ({ type, text: TEMPLATES[type](context) })),
+});
+
+module.exports = {
+  formatEta,
+  createLocalSuggester,
+};
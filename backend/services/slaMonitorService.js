@@ -0,0 +1,79 @@
+const cron = require('node-cron');
+const Ticket = require('../models/Ticket');
+const { emitToTicket, emitToHotelBoard } = require('../utils/ticketRooms');
+
+class SlaMonitorService {
+  constructor() {
+    this.isRunning = false;
+    this.io = null;
+  }
+
+  // Start the monitor; io is used to push breach notifications
+  start(io) {
+    if (this.isRunning) {
+      console.log('⚠️ SLA monitor service is already running');
+      return;
+    }
+
+    this.io = io || null;
+
+    // Check for breaches every minute
+    this.cronJob = cron.schedule('* * * * *', async () => {
+      await this.checkBreaches();
+    }, {
+      scheduled: false,
+      timezone: 'Asia/Kolkata'
+    });
+
+    this.cronJob.start();
+    this.isRunning = true;
+
+    console.log('⏱️ SLA monitor service started - will run every minute');
+  }
+
+  // Stop the monitor service
+  stop() {
+    if (this.cronJob) {
+      this.cronJob.stop();
+      this.isRunning = false;
+      console.log('🛑 SLA monitor service stopped');
+    }
+  }
+
+  // Flag open tickets that have just missed their acknowledge or resolve target
+  async checkBreaches() {
+    try {
+      const now = new Date();
+      const tickets = await Ticket.findNewSlaBreaches(now);
+
+      for (const ticket of tickets) {
+        ticket.sla.breachedAt = now;
+        ticket.sla.breachType = ticket.getSlaBreachType(now);
+        await ticket.save();
+
+        if (this.io) {
+          emitToHotelBoard(this.io, ticket, 'ticketSlaBreached');
+          emitToTicket(this.io, ticket, 'ticketUpdated');
+        }
+      }
+
+      if (tickets.length > 0) {
+        console.log(`⏰ Flagged ${tickets.length} ticket(s) as SLA breached`);
+      }
+      return tickets.length;
+    } catch (error) {
+      console.error('❌ Error during SLA breach check:', error);
+      return 0;
+    }
+  }
+
+  // Get service status
+  getStatus() {
+    return {
+      isRunning: this.isRunning,
+      nextRun: this.cronJob ? this.cronJob.getNextRun() : null
+    };
+  }
+}
+
+module.exports = new SlaMonitorService();
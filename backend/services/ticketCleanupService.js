@@ -1,9 +1,15 @@
 const cron = require('node-cron');
 const Ticket = require('../models/Ticket');
+const ArchivedTicket = require('../models/ArchivedTicket');
+const RetentionPolicy = require('../models/RetentionPolicy');
+const { CLOSED_TICKET_STATUSES } = require('../utils/ticketLifecycle');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 class TicketCleanupService {
   constructor() {
     this.isRunning = false;
+    this.lastRun = null;
   }
 
   // Start the cleanup service
@@ -42,33 +48,72 @@ class TicketCleanupService {
     }
   }
 
-  // Perform the actual cleanup
+  // Apply one hotel's retention policy
+  async applyRetention(hotelId, now = new Date()) {
+    const policy = await RetentionPolicy.getForHotel(hotelId);
+
+    const archiveCutoff = new Date(now.getTime() - policy.archiveAfterDays * DAY_MS);
+    const expired = await Ticket.findExpiredCompleted(hotelId, archiveCutoff);
+    const archived = await ArchivedTicket.archiveTickets(expired);
+
+    let purged = 0;
+    if (policy.purgeAfterDays) {
+      const purgeCutoff = new Date(now.getTime() - policy.purgeAfterDays * DAY_MS);
+      const result = await ArchivedTicket.deleteMany({
+        hotel: hotelId,
+        completedAt: { $lt: purgeCutoff },
+      });
+      purged = result.deletedCount;
+    }
+
+    return { archived, purged };
+  }
+
+  // Perform the actual cleanup: archive old completed tickets, then purge old archives
   async performCleanup() {
+    const startedAt = new Date();
+    const totals = { archived: 0, purged: 0 };
+
     try {
-      console.log('🔍 Starting ticket cleanup process...');
-      const deletedCount = await Ticket.cleanupOldTickets();
-      
-      if (deletedCount > 0) {
-        console.log(`✅ Successfully deleted ${deletedCount} old completed tickets`);
+      console.log('🔍 Starting ticket retention process...');
+      const [liveHotels, archivedHotels] = await Promise.all([
+        Ticket.distinct('hotel', { status: { $in: CLOSED_TICKET_STATUSES } }),
+        ArchivedTicket.distinct('hotel'),
+      ]);
+      const hotelIds = [...new Set([...liveHotels, ...archivedHotels].map(String))];
+
+      for (const hotelId of hotelIds) {
+        const { archived, purged } = await this.applyRetention(hotelId, startedAt);
+        totals.archived += archived;
+        totals.purged += purged;
+      }
+
+      if (totals.archived > 0 || totals.purged > 0) {
+        console.log(`✅ Archived ${totals.archived} and purged ${totals.purged} old tickets`);
       } else {
-        console.log('ℹ️ No old completed tickets found for cleanup');
+        console.log('ℹ️ No tickets due for archiving or purging');
       }
+      this.lastRun = { startedAt, finishedAt: new Date(), ...totals, error: null };
     } catch (error) {
       console.error('❌ Error during ticket cleanup:', error);
+      this.lastRun = { startedAt, finishedAt: new Date(), ...totals, error: error.message };
     }
+
+    return totals;
   }
 
   // Manual cleanup trigger (for testing)
   async manualCleanup() {
     console.log('🔧 Manual cleanup triggered');
-    await this.performCleanup();
+    return this.performCleanup();
   }
 
   // Get service status
   getStatus() {
     return {
       isRunning: this.isRunning,
-      nextRun: this.cronJob ? this.cronJob.nextDates().toString() : null
+      nextRun: this.cronJob ? this.cronJob.getNextRun() : null,
+      lastRun: this.lastRun
     };
   }
 }
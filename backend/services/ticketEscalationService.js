@@ -0,0 +1,173 @@
+const cron = require('node-cron');
+const Ticket = require('../models/Ticket');
+const User = require('../models/User');
+const EscalationPolicy = require('../models/EscalationPolicy');
+const { TICKET_PRIORITIES, MANAGEMENT_ROLES, ESCALATION_RULES } = require('../utils/constants');
+const { staffScope } = require('../utils/accessControl');
+const { emitToTicket } = require('../utils/ticketRooms');
+
+const formatDuration = (minutes) =>
+  minutes >= 60 && minutes % 60 === 0
+    ? `${minutes / 60} hour${minutes === 60 ? '' : 's'}`
+    : `${minutes} minutes`;
+
+class TicketEscalationService {
+  constructor() {
+    this.isRunning = false;
+    this.io = null;
+    this.lastRun = null;
+  }
+
+  // Start the escalation service; io is used to notify staff
+  start(io) {
+    if (this.isRunning) {
+      console.log('⚠️ Ticket escalation service is already running');
+      return;
+    }
+
+    this.io = io || null;
+
+    // Check for stale tickets every minute
+    this.cronJob = cron.schedule('* * * * *', async () => {
+      await this.performEscalation();
+    }, {
+      scheduled: false,
+      timezone: 'Asia/Kolkata'
+    });
+
+    this.cronJob.start();
+    this.isRunning = true;
+
+    console.log('📈 Ticket escalation service started - will run every minute');
+  }
+
+  // Stop the escalation service
+  stop() {
+    if (this.cronJob) {
+      this.cronJob.stop();
+      this.isRunning = false;
+      console.log('🛑 Ticket escalation service stopped');
+    }
+  }
+
+  // Staff who should hear about an escalation for this ticket
+  async getRecipients(ticket, notify) {
+    const roles = notify === 'supervisors' ? ['supervisor', ...MANAGEMENT_ROLES] : MANAGEMENT_ROLES;
+
+    // Only the team at the ticket's property, not staff limited to others in the group
+    const users = await User.find(
+      staffScope(
+        { managerId: ticket.manager, hotelId: ticket.hotel },
+        { isActive: true, role: { $in: roles } }
+      )
+    ).select('_id role allowedCategories');
+
+    // Supervisors only hear about their own departments
+    return users.filter(
+      (user) =>
+        user.role !== 'supervisor' ||
+        user.allowedCategories.length === 0 ||
+        user.allowedCategories.includes(ticket.category)
+    );
+  }
+
+  // Apply a single rule to a ticket
+  async escalate(ticket, rule) {
+    const fromPriority = ticket.priority;
+    let toPriority = fromPriority;
+
+    if (rule.bumpPriority) {
+      const index = TICKET_PRIORITIES.indexOf(fromPriority);
+      toPriority = TICKET_PRIORITIES[Math.min(index + 1, TICKET_PRIORITIES.length - 1)];
+      ticket.priority = toPriority;
+    }
+
+    const details = [`Escalated: ${rule.description.toLowerCase()} (${formatDuration(rule.afterMinutes)}).`];
+    if (toPriority !== fromPriority) {
+      details.push(`Priority raised from ${fromPriority} to ${toPriority}.`);
+    }
+    details.push(`${rule.notify === 'supervisors' ? 'Supervisors' : 'Managers'} notified.`);
+
+    ticket.escalations.push({ rule: rule.id, fromPriority, toPriority });
+    ticket.messages.push({
+      content: details.join(' '),
+      sender: 'system',
+      senderName: 'System',
+    });
+    await ticket.save();
+
+    if (this.io) {
+      const recipients = await this.getRecipients(ticket, rule.notify);
+      const payload = { ticket, rule: rule.id, message: details.join(' ') };
+
+      recipients.forEach((user) => {
+        this.io.to(`user_${user._id}`).emit('ticketEscalated', payload);
+      });
+      emitToTicket(this.io, ticket, 'ticketUpdated');
+    }
+  }
+
+  // Walk open tickets and apply every rule that is due
+  async performEscalation() {
+    const startedAt = new Date();
+    let escalatedCount = 0;
+
+    try {
+      const rulesByHotel = await EscalationPolicy.getRulesByHotel();
+      const rulesFor = (ticket) => rulesByHotel.get(String(ticket.hotel)) || ESCALATION_RULES;
+
+      for (const [index, defaultRule] of ESCALATION_RULES.entries()) {
+        // Fetch by the shortest threshold any hotel uses, then apply each ticket's own
+        const shortest = Math.min(
+          defaultRule.afterMinutes,
+          ...[...rulesByHotel.values()].map((rules) => rules[index].afterMinutes)
+        );
+        const tickets = await Ticket.findStaleInStatus(
+          defaultRule.status,
+          new Date(startedAt.getTime() - shortest * 60 * 1000)
+        );
+
+        for (const ticket of tickets) {
+          const rule = rulesFor(ticket)[index];
+          const cutoff = new Date(startedAt.getTime() - rule.afterMinutes * 60 * 1000);
+          if ((ticket.statusChangedAt || ticket.createdAt) > cutoff) continue;
+          if (ticket.hasEscalated(rule.id)) continue;
+          await this.escalate(ticket, rule);
+          escalatedCount += 1;
+        }
+      }
+
+      if (escalatedCount > 0) {
+        console.log(`📈 Escalated ${escalatedCount} stale ticket(s)`);
+      }
+      this.lastRun = { startedAt, finishedAt: new Date(), escalatedCount, error: null };
+    } catch (error) {
+      console.error('❌ Error during ticket escalation:', error);
+      this.lastRun = { startedAt, finishedAt: new Date(), escalatedCount, error: error.message };
+    }
+
+    return escalatedCount;
+  }
+
+  // Manual escalation trigger (for testing)
+  async manualEscalation() {
+    console.log('🔧 Manual escalation triggered');
+    return this.performEscalation();
+  }
+
+  // Get the rules with the hotel's thresholds, as the escalation run applies them
+  getRules(hotelId) {
+    return EscalationPolicy.getRules(hotelId);
+  }
+
+  // Get service status
+  getStatus() {
+    return {
+      isRunning: this.isRunning,
+      nextRun: this.cronJob ? this.cronJob.getNextRun() : null,
+      lastRun: this.lastRun
+    };
+  }
+}
+
+module.exports = new TicketEscalationService();
@@ -0,0 +1,50 @@
+const mongoose = require('mongoose');
+const { ticketScope, canAccessCategory, staffScope, canAccessHotels } = require('../utils/accessControl');
+
+describe('Access control', () => {
+  const managerId = new mongoose.Types.ObjectId();
+  const hotelId = new mongoose.Types.ObjectId();
+  const housekeeper = { role: 'staff', managerId, hotelId, allowedCategories: ['housekeeping'] };
+
+  it('should limit ticket queries to the owner account', () => {
+    expect(ticketScope({ role: 'owner', managerId }, { status: 'raised' })).toEqual({ status: 'raised', manager: managerId });
+  });
+
+  it('should override a caller supplied manager', () => {
+    const other = new mongoose.Types.ObjectId();
+    expect(ticketScope({ role: 'owner', managerId }, { manager: other }).manager).toBe(managerId);
+  });
+
+  it('should keep staff to their own departments', () => {
+    expect(ticketScope(housekeeper).category).toEqual({ $in: ['housekeeping'] });
+    expect(ticketScope(housekeeper, { category: 'housekeeping' }).category).toBe('housekeeping');
+    expect(ticketScope(housekeeper, { category: 'maintenance' }).category).toEqual({ $in: [] });
+
+    expect(canAccessCategory(housekeeper, 'housekeeping')).toBe(true);
+    expect(canAccessCategory(housekeeper, 'maintenance')).toBe(false);
+  });
+
+  it('should not restrict owners or staff without departments', () => {
+    const owner = { role: 'owner', managerId, allowedCategories: ['housekeeping'] };
+    expect(ticketScope(owner).category).toBeUndefined();
+    expect(canAccessCategory(owner, 'maintenance')).toBe(true);
+    expect(canAccessCategory({ role: 'staff', allowedCategories: [] }, 'maintenance')).toBe(true);
+  });
+
+  it('should only list staff working at the current property', () => {
+    expect(staffScope(housekeeper, { isActive: true })).toEqual({
+      isActive: true,
+      $and: [
+        { $or: [{ _id: managerId }, { hotelOwner: managerId }] },
+        { $or: [{ 'hotels.0': { $exists: false } }, { hotels: hotelId }] },
+      ],
+    });
+  });
+
+  it('should only allow properties the user may switch to', () => {
+    const otherHotelId = new mongoose.Types.ObjectId();
+    const user = { hotelIds: [hotelId] };
+    expect(canAccessHotels(user, [String(hotelId)])).toBe(true);
+    expect(canAccessHotels(user, [hotelId, otherHotelId])).toBe(false);
+  });
+});
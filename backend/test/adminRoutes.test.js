@@ -0,0 +1,90 @@
+process.env.SUPABASE_URL = process.env.SUPABASE_URL || 'http://localhost:54321';
+process.env.SUPABASE_ANON_KEY = process.env.SUPABASE_ANON_KEY || 'test-anon-key';
+
+const cron = require('node-cron');
+const express = require('express');
+const request = require('supertest');
+const jwt = require('jsonwebtoken');
+const mongoose = require('mongoose');
+const User = require('../models/User');
+const Hotel = require('../models/Hotel');
+const EscalationPolicy = require('../models/EscalationPolicy');
+const ticketEscalationService = require('../services/ticketEscalationService');
+const slaMonitorService = require('../services/slaMonitorService');
+const ticketCleanupService = require('../services/ticketCleanupService');
+const adminRoutes = require('../routes/adminRoutes');
+
+const SECRET = 'test-secret';
+
+describe('Admin routes', () => {
+  const originalSecret = process.env.JWT_SECRET;
+  const app = express();
+  app.use('/api/admin', adminRoutes);
+
+  const hotel = { _id: new mongoose.Types.ObjectId(), slug: 'seaside' };
+  const owner = { _id: new mongoose.Types.ObjectId(), role: 'owner', hotels: [] };
+  let token;
+
+  beforeAll(() => {
+    process.env.JWT_SECRET = SECRET;
+    token = jwt.sign({ userId: String(owner._id) }, SECRET);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    ticketEscalationService.start(null);
+    slaMonitorService.start(null);
+  });
+
+  afterAll(() => {
+    ticketEscalationService.stop();
+    slaMonitorService.stop();
+    process.env.JWT_SECRET = originalSecret;
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    jest.spyOn(User, 'findOne').mockResolvedValue({ ...owner, managerId: owner._id });
+    jest.spyOn(Hotel, 'selectForUser').mockResolvedValue({ hotel, hotels: [hotel] });
+  });
+
+  const get = (path) => request(app).get(path).set('Authorization', `Bearer ${token}`);
+
+  it('should report when the escalation service runs next', async () => {
+    const res = await get('/api/admin/escalation/status');
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.isRunning).toBe(true);
+    expect(new Date(res.body.data.nextRun).getTime()).toBeGreaterThan(Date.now() - 1000);
+  });
+
+  it('should report when the SLA monitor runs next', async () => {
+    const res = await get('/api/admin/sla/status');
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.isRunning).toBe(true);
+    expect(new Date(res.body.data.nextRun).getTime()).toBeGreaterThan(Date.now() - 1000);
+  });
+
+  it('should report when the cleanup runs next', async () => {
+    // Its own schedule rather than start(), which would also run a cleanup straight away
+    ticketCleanupService.cronJob = cron.schedule('0 * * * *', () => {});
+
+    const res = await get('/api/admin/cleanup/status');
+    ticketCleanupService.cronJob.stop();
+    ticketCleanupService.cronJob = undefined;
+
+    expect(res.status).toBe(200);
+    expect(new Date(res.body.data.nextRun).getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('should list the escalation thresholds the hotel actually uses', async () => {
+    const find = jest.spyOn(EscalationPolicy, 'find').mockResolvedValue([
+      { hotel: hotel._id, rule: 'raised_unacknowledged', afterMinutes: 25 },
+    ]);
+
+    const res = await get('/api/admin/escalation/rules');
+
+    expect(res.status).toBe(200);
+    expect(find).toHaveBeenCalledWith({ hotel: hotel._id });
+    expect(res.body.data[0]).toMatchObject({ id: 'raised_unacknowledged', afterMinutes: 25, isDefault: false });
+    expect(res.body.data[1].isDefault).toBe(true);
+  });
+});
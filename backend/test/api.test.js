@@ -3,6 +3,7 @@ const mongoose = require('mongoose');
 const app = require('../app');
 const Hotel = require('../models/Hotel');
 const Booking = require('../models/Booking');
+const Room = require('../models/Room');
 
 // Test data
 const testUser = {
@@ -72,19 +73,19 @@ beforeAll(async () => {
       amenities: ['wifi', 'pool', 'gym'],
       checkInTime: '15:00',
       checkOutTime: '12:00',
-      manager: 'test-user-id',
-      rooms: [{
-        number: '101',
-        type: 'Deluxe',
-        price: 199.99,
-        maxGuests: 2,
-        amenities: ['wifi', 'tv', 'ac'],
-        isAvailable: true
-      }]
+      manager: 'test-user-id'
+    });
+
+    const room = await Room.create({
+      hotel: hotel._id,
+      manager: new mongoose.Types.ObjectId(),
+      number: '101',
+      type: 'Deluxe',
+      floor: 1
     });
     
     testHotelId = hotel._id;
-    testRoomId = hotel.rooms[0]._id;
+    testRoomId = room._id;
     
     // Mock successful authentication
     const res = await request(app)
@@ -104,6 +105,7 @@ beforeAll(async () => {
 
 afterAll(async () => {
   await Hotel.deleteMany({});
+  await Room.deleteMany({});
   await Booking.deleteMany({});
   jest.clearAllMocks();
 });
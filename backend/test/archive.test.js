@@ -0,0 +1,85 @@
+const mongoose = require('mongoose');
+const ArchivedTicket = require('../models/ArchivedTicket');
+const RetentionPolicy = require('../models/RetentionPolicy');
+const Ticket = require('../models/Ticket');
+const ticketCleanupService = require('../services/ticketCleanupService');
+const { runWithHotel, getCurrentHotel } = require('../utils/tenant');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('Ticket archive', () => {
+  const hotelId = new mongoose.Types.ObjectId();
+  const otherHotelId = new mongoose.Types.ObjectId();
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should file archives and retention policies under a hotel', async () => {
+    const manager = new mongoose.Types.ObjectId();
+    const archived = new ArchivedTicket({ originalId: new mongoose.Types.ObjectId(), manager, snapshot: {} });
+    const policy = new RetentionPolicy({ manager, archiveAfterDays: 7 });
+
+    await expect(archived.validate()).rejects.toMatchObject({ errors: { hotel: expect.anything() } });
+    await expect(policy.validate()).rejects.toMatchObject({ errors: { hotel: expect.anything() } });
+
+    await runWithHotel(hotelId, () => Promise.all([archived.validate(), policy.validate()]));
+    expect(String(archived.hotel)).toBe(String(hotelId));
+    expect(String(policy.hotel)).toBe(String(hotelId));
+  });
+
+  it('should restore a ticket into the hotel it was archived from', async () => {
+    const ticketId = new mongoose.Types.ObjectId();
+    const archived = new ArchivedTicket({
+      originalId: ticketId,
+      hotel: otherHotelId,
+      manager: new mongoose.Types.ObjectId(),
+      snapshot: { _id: ticketId, subject: 'Towels' },
+    });
+
+    const inserted = [];
+    jest.spyOn(Ticket.collection, 'insertOne').mockImplementation(async (doc) => inserted.push(doc));
+    jest.spyOn(archived, 'deleteOne').mockResolvedValue({});
+    jest.spyOn(Ticket, 'findById').mockImplementation(async (id) => ({ _id: id, hotel: getCurrentHotel() }));
+
+    // Restored from a request acting for a different property
+    const restored = await runWithHotel(hotelId, () => archived.restore());
+
+    expect(inserted[0].hotel).toBe(otherHotelId);
+    expect(inserted[0].restoredAt).toBeInstanceOf(Date);
+    expect(restored).toEqual({ _id: ticketId, hotel: String(otherHotelId) });
+  });
+
+  it('should archive and purge by the hotel retention policy', async () => {
+    const now = new Date('2026-10-18T12:00:00Z');
+    jest.spyOn(RetentionPolicy, 'findOne').mockResolvedValue({ archiveAfterDays: 3, purgeAfterDays: 30 });
+    const findExpired = jest.spyOn(Ticket, 'findExpiredCompleted').mockResolvedValue([]);
+    const purge = jest.spyOn(ArchivedTicket, 'deleteMany').mockResolvedValue({ deletedCount: 2 });
+
+    await expect(ticketCleanupService.applyRetention(hotelId, now)).resolves.toEqual({ archived: 0, purged: 2 });
+
+    expect(findExpired).toHaveBeenCalledWith(hotelId, new Date(now.getTime() - 3 * DAY_MS));
+    expect(purge).toHaveBeenCalledWith({ hotel: hotelId, completedAt: { $lt: new Date(now.getTime() - 30 * DAY_MS) } });
+  });
+
+  it('should keep archived tickets when the hotel has no purge period', async () => {
+    jest.spyOn(RetentionPolicy, 'findOne').mockResolvedValue(null);
+    jest.spyOn(Ticket, 'findExpiredCompleted').mockResolvedValue([]);
+    const purge = jest.spyOn(ArchivedTicket, 'deleteMany');
+
+    await ticketCleanupService.applyRetention(hotelId);
+
+    expect(purge).not.toHaveBeenCalled();
+  });
+
+  it('should only remove live tickets that reached the archive', async () => {
+    const tickets = [1, 2].map(() => new Ticket({ hotel: hotelId, roomNumber: '101', guestInfo: { name: 'Guest' } }));
+    jest.spyOn(ArchivedTicket, 'insertMany').mockRejectedValue(new Error('duplicate key'));
+    jest.spyOn(ArchivedTicket, 'find').mockReturnValue({ select: async () => [{ originalId: tickets[0]._id }] });
+    const remove = jest.spyOn(Ticket, 'deleteMany').mockResolvedValue({ deletedCount: 1 });
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(ArchivedTicket.archiveTickets(tickets)).resolves.toBe(1);
+    expect(remove).toHaveBeenCalledWith({ _id: { $in: [tickets[0]._id] } });
+  });
+});
@@ -0,0 +1,68 @@
+const mongoose = require('mongoose');
+const Ticket = require('../models/Ticket');
+const User = require('../models/User');
+const ticketController = require('../controllers/ticketController');
+
+describe('Ticket assignment', () => {
+  const managerId = new mongoose.Types.ObjectId();
+  const hotelId = new mongoose.Types.ObjectId();
+
+  const buildTicket = () =>
+    new Ticket({
+      hotel: hotelId,
+      manager: managerId,
+      room: new mongoose.Types.ObjectId(),
+      roomNumber: '101',
+      guestInfo: { name: 'Guest' },
+      category: 'maintenance',
+    });
+
+  const assign = async (user, assigneeId, ticket = buildTicket()) => {
+    jest.spyOn(Ticket, 'findOne').mockResolvedValue(ticket);
+    const next = jest.fn();
+    const req = { user, params: { id: ticket._id }, body: { assigneeId } };
+    await ticketController.assignTicket(req, { status: jest.fn().mockReturnThis(), json: jest.fn() }, next);
+    return next.mock.calls[0] && next.mock.calls[0][0];
+  };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should only let staff pick up a ticket themselves', async () => {
+    const staff = { role: 'staff', userId: new mongoose.Types.ObjectId(), managerId, hotelId, name: 'Asha' };
+    const error = await assign(staff, String(new mongoose.Types.ObjectId()));
+
+    expect(error.statusCode).toBe(403);
+  });
+
+  it('should look the assignee up among staff at the current property', async () => {
+    let filter;
+    jest.spyOn(User, 'findOne').mockImplementation(async (query) => {
+      filter = query;
+      return null;
+    });
+    const manager = { role: 'manager', userId: new mongoose.Types.ObjectId(), managerId, hotelId, name: 'Ravi' };
+    const assigneeId = String(new mongoose.Types.ObjectId());
+
+    const error = await assign(manager, assigneeId);
+
+    expect(error.statusCode).toBe(404);
+    expect(filter).toMatchObject({ _id: assigneeId, isActive: true });
+    expect(filter.$and[1]).toEqual({ $or: [{ 'hotels.0': { $exists: false } }, { hotels: hotelId }] });
+  });
+
+  it('should not assign a ticket outside the assignee departments', async () => {
+    jest.spyOn(User, 'findOne').mockResolvedValue({
+      _id: new mongoose.Types.ObjectId(),
+      name: 'Meera',
+      role: 'staff',
+      allowedCategories: ['housekeeping'],
+    });
+    const manager = { role: 'manager', userId: new mongoose.Types.ObjectId(), managerId, hotelId, name: 'Ravi' };
+
+    const error = await assign(manager, String(new mongoose.Types.ObjectId()));
+
+    expect(error.statusCode).toBe(400);
+  });
+});
@@ -0,0 +1,196 @@
+const mongoose = require('mongoose');
+const Booking = require('../models/Booking');
+const Room = require('../models/Room');
+const RoomLock = require('../models/RoomLock');
+const bookingController = require('../controllers/bookingController');
+
+describe('Booking model', () => {
+  const roomId = new mongoose.Types.ObjectId();
+
+  it('should look for stays that overlap any night of the new one', () => {
+    const filter = Booking.findConflict(roomId, '2026-10-18', '2026-10-20').getFilter();
+
+    // Half-open: a stay ending on the 18th or starting on the 20th is fine
+    expect(filter.checkIn).toEqual({ $lt: new Date('2026-10-20') });
+    expect(filter.checkOut).toEqual({ $gt: new Date('2026-10-18') });
+    expect(filter.status.$in).toEqual(['confirmed', 'checked_in', 'completed']);
+    expect(filter._id).toBeUndefined();
+  });
+
+  it('should leave out the booking being moved', () => {
+    const bookingId = new mongoose.Types.ObjectId();
+    const filter = Booking.findConflict(roomId, '2026-10-18', '2026-10-20', bookingId).getFilter();
+
+    expect(filter._id).toEqual({ $ne: bookingId });
+  });
+
+  it('should give new bookings a reference and reject backwards stays', async () => {
+    const booking = new Booking({
+      hotel: new mongoose.Types.ObjectId(),
+      room: roomId,
+      guest: { name: 'Walk-in' },
+      checkIn: new Date('2026-10-18'),
+      checkOut: new Date('2026-10-20'),
+    });
+
+    await expect(booking.validate()).resolves.toBeUndefined();
+    expect(booking.bookingNumber).toMatch(/^BK-[0-9A-F]{8}$/);
+    expect(booking.duration).toBe(2);
+
+    booking.checkOut = new Date('2026-10-17');
+    await expect(booking.validate()).rejects.toThrow('Check-out date must be after check-in date');
+  });
+});
+
+describe('Booking room locks', () => {
+  const roomId = new mongoose.Types.ObjectId();
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should only take over a lock once it has expired', async () => {
+    const now = new Date('2026-10-18T12:00:00Z');
+    let query;
+    jest.spyOn(mongoose.Query.prototype, 'exec').mockImplementation(function () {
+      query = { filter: this.getFilter(), update: this.getUpdate(), options: this.getOptions() };
+      return Promise.resolve(null);
+    });
+
+    const token = await RoomLock.acquire(roomId, now);
+
+    expect(token).toMatch(/^[0-9a-f]{32}$/);
+    expect(query.filter).toEqual({ _id: roomId, expiresAt: { $lte: now } });
+    expect(query.update.$set.token).toBe(token);
+    expect(query.options.upsert).toBe(true);
+  });
+
+  it('should report a lock someone else holds', async () => {
+    jest.spyOn(RoomLock, 'findOneAndUpdate').mockRejectedValue(Object.assign(new Error('E11000'), { code: 11000 }));
+
+    await expect(RoomLock.acquire(roomId)).resolves.toBeNull();
+  });
+
+  describe('creating a booking', () => {
+    const room = { _id: roomId, number: '101' };
+    const req = { body: { room: String(roomId), checkIn: '2026-10-18', checkOut: '2026-10-20', guest: { name: 'Walk-in' } } };
+    const buildResponse = () => ({ status: jest.fn().mockReturnThis(), json: jest.fn() });
+
+    beforeEach(() => {
+      jest.spyOn(Room, 'findOne').mockResolvedValue(room);
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    it('should not check or write while another request holds the room', async () => {
+      jest.spyOn(RoomLock, 'acquire').mockResolvedValue(null);
+      const findConflict = jest.spyOn(Booking, 'findConflict');
+      const next = jest.fn();
+
+      await bookingController.createBooking(req, buildResponse(), next);
+
+      expect(next.mock.calls[0][0].statusCode).toBe(409);
+      expect(findConflict).not.toHaveBeenCalled();
+    });
+
+    it('should hold the lock until the booking is written', async () => {
+      const events = [];
+      jest.spyOn(RoomLock, 'acquire').mockImplementation(async () => {
+        events.push('lock');
+        return 'token';
+      });
+      jest.spyOn(Booking, 'findConflict').mockImplementation(async () => {
+        events.push('check');
+        return null;
+      });
+      jest.spyOn(Booking.prototype, 'save').mockImplementation(async () => events.push('save'));
+      jest.spyOn(Booking.prototype, 'populate').mockResolvedValue();
+      const release = jest.spyOn(RoomLock, 'release').mockImplementation(async () => events.push('release'));
+      const res = buildResponse();
+
+      await bookingController.createBooking(req, res, jest.fn());
+
+      expect(events).toEqual(['lock', 'check', 'save', 'release']);
+      expect(release).toHaveBeenCalledWith(roomId, 'token');
+      expect(res.status).toHaveBeenCalledWith(201);
+    });
+
+    it('should release the lock when the room is already booked', async () => {
+      jest.spyOn(RoomLock, 'acquire').mockResolvedValue('token');
+      jest.spyOn(Booking, 'findConflict').mockResolvedValue({
+        guest: { name: 'Priya' },
+        checkIn: new Date('2026-10-17'),
+        checkOut: new Date('2026-10-19'),
+      });
+      const release = jest.spyOn(RoomLock, 'release').mockResolvedValue({});
+      const next = jest.fn();
+
+      await bookingController.createBooking(req, buildResponse(), next);
+
+      expect(next.mock.calls[0][0].statusCode).toBe(409);
+      expect(release).toHaveBeenCalledWith(roomId, 'token');
+    });
+  });
+});
+
+describe('Checking in', () => {
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  const today = new Date(new Date().toISOString().slice(0, 10));
+  const buildResponse = () => ({ status: jest.fn().mockReturnThis(), json: jest.fn() });
+
+  let room;
+
+  const bookingFrom = (checkIn) => {
+    const booking = new Booking({
+      room: new mongoose.Types.ObjectId(),
+      guest: { name: 'Priya' },
+      checkIn,
+      checkOut: new Date(checkIn.getTime() + 2 * DAY_MS),
+      status: 'confirmed',
+    });
+    jest.spyOn(Booking, 'findById').mockResolvedValue(booking);
+    return booking;
+  };
+
+  const checkIn = async (booking) => {
+    const next = jest.fn();
+    const res = buildResponse();
+    await bookingController.updateBookingStatus(
+      { params: { id: String(booking._id) }, body: { status: 'checked_in' }, user: {} },
+      res,
+      next
+    );
+    return { next, res };
+  };
+
+  beforeEach(() => {
+    room = { number: '101', status: 'available', save: jest.fn().mockResolvedValue() };
+    jest.spyOn(Room, 'findOne').mockResolvedValue(room);
+    jest.spyOn(Booking.prototype, 'save').mockResolvedValue();
+    jest.spyOn(Booking.prototype, 'populate').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should refuse a guest who arrives before the stay starts', async () => {
+    const booking = bookingFrom(new Date(today.getTime() + DAY_MS));
+
+    const { next } = await checkIn(booking);
+
+    expect(next.mock.calls[0][0].statusCode).toBe(400);
+    expect(room.save).not.toHaveBeenCalled();
+    expect(booking.status).toBe('confirmed');
+  });
+
+  it('should check in a guest on the day the stay starts', async () => {
+    const booking = bookingFrom(today);
+
+    const { next, res } = await checkIn(booking);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(room.status).toBe('occupied');
+    expect(booking.status).toBe('checked_in');
+  });
+});
@@ -0,0 +1,76 @@
+const mongoose = require('mongoose');
+const Ticket = require('../models/Ticket');
+const CannedResponse = require('../models/CannedResponse');
+const ticketController = require('../controllers/ticketController');
+const { renderTemplate } = require('../services/cannedResponses');
+
+const buildTicket = (fields = {}) =>
+  new Ticket({
+    hotel: new mongoose.Types.ObjectId(),
+    manager: new mongoose.Types.ObjectId(),
+    room: new mongoose.Types.ObjectId(),
+    roomNumber: '204',
+    guestInfo: { name: 'Priya Shah' },
+    category: 'housekeeping',
+    estimatedCompletion: '20',
+    ...fields,
+  });
+
+describe('Canned responses', () => {
+  it('should fill placeholders from the ticket and leave unknown ones alone', () => {
+    const text = renderTemplate(
+      'Hi {guestName}, the {department} will be at room {roomNumber} in {eta}. {staffName} {signature}',
+      buildTicket(),
+      { staffName: 'Asha' }
+    );
+
+    expect(text).toBe('Hi Priya, the housekeeping team will be at room 204 in about 20 minutes. Asha {signature}');
+  });
+});
+
+describe('Macros', () => {
+  const managerId = new mongoose.Types.ObjectId();
+  const staff = {
+    role: 'staff',
+    userId: new mongoose.Types.ObjectId(),
+    managerId,
+    name: 'Asha',
+    allowedCategories: [],
+  };
+
+  const applyMacro = async (ticket, actions) => {
+    jest.spyOn(Ticket, 'findOne').mockResolvedValue(ticket);
+    jest.spyOn(CannedResponse, 'findOne').mockResolvedValue(
+      new CannedResponse({ manager: managerId, title: 'Macro', body: 'On it', actions })
+    );
+    const save = jest.spyOn(ticket, 'save');
+    const next = jest.fn();
+
+    const req = { user: staff, params: { id: ticket._id }, body: { cannedResponseId: new mongoose.Types.ObjectId() } };
+    await ticketController.applyCannedResponse(req, { status: jest.fn().mockReturnThis(), json: jest.fn() }, next);
+
+    return { error: next.mock.calls[0] && next.mock.calls[0][0], save };
+  };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should refuse a status change the lifecycle does not allow', async () => {
+    const ticket = buildTicket({ status: 'completed' });
+    const { error, save } = await applyMacro(ticket, { status: 'in_progress' });
+
+    expect(error.statusCode).toBe(400);
+    expect(save).not.toHaveBeenCalled();
+    expect(ticket.messages).toHaveLength(0);
+  });
+
+  it('should not let staff hand a ticket to someone else', async () => {
+    const ticket = buildTicket({ status: 'raised' });
+    const { error, save } = await applyMacro(ticket, { status: 'in_progress', assignee: String(new mongoose.Types.ObjectId()) });
+
+    expect(error.statusCode).toBe(403);
+    expect(save).not.toHaveBeenCalled();
+    expect(ticket.status).toBe('raised');
+  });
+});
@@ -0,0 +1,84 @@
+const mongoose = require('mongoose');
+const ChatSession = require('../models/ChatSession');
+const Ticket = require('../models/Ticket');
+const chatController = require('../controllers/chatController');
+
+describe('Chat transcripts', () => {
+  const guest = {
+    hotelId: new mongoose.Types.ObjectId(),
+    managerId: new mongoose.Types.ObjectId(),
+    roomId: new mongoose.Types.ObjectId(),
+    roomNumber: '101',
+    sessionId: 'session-1',
+  };
+
+  const buildResponse = () => ({ status: jest.fn().mockReturnThis(), json: jest.fn() });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should keep both sides of an exchange with the guest turn classification', () => {
+    const chatSession = new ChatSession({
+      hotel: guest.hotelId,
+      manager: guest.managerId,
+      room: guest.roomId,
+      roomNumber: guest.roomNumber,
+      sessionId: guest.sessionId,
+    });
+
+    chatSession.addExchange(
+      'The shower is leaking',
+      {
+        provider: 'local',
+        categories: [{ category: 'maintenance' }, { category: 'not-a-category' }],
+        confidence: 0.8,
+        suggested_priority: 'high',
+        should_create_ticket: true,
+      },
+      'I have let maintenance know.'
+    );
+
+    const [guestTurn, assistantTurn] = chatSession.turns;
+    expect(guestTurn.role).toBe('guest');
+    expect(guestTurn.classification.categories).toEqual(['maintenance']);
+    expect(guestTurn.classification.shouldCreateTicket).toBe(true);
+    expect(assistantTurn.role).toBe('assistant');
+    expect(assistantTurn.classification).toBeUndefined();
+  });
+
+  it('should only link tickets to the guest session in its own room', async () => {
+    const updateOne = jest.spyOn(ChatSession, 'updateOne').mockResolvedValue({});
+    const ticketId = new mongoose.Types.ObjectId();
+
+    await expect(ChatSession.linkTickets(guest, [])).resolves.toBeNull();
+    await ChatSession.linkTickets(guest, [ticketId]);
+
+    expect(updateOne).toHaveBeenCalledTimes(1);
+    expect(updateOne).toHaveBeenCalledWith(
+      { hotel: guest.hotelId, sessionId: 'session-1', room: guest.roomId },
+      { $addToSet: { tickets: { $each: [ticketId] } } }
+    );
+  });
+
+  it('should not show a transcript for a ticket outside the staff member departments', async () => {
+    let filter;
+    jest.spyOn(Ticket, 'findOne').mockImplementation((query) => {
+      filter = query;
+      return { select: async () => null };
+    });
+    const findSession = jest.spyOn(ChatSession, 'findOne');
+
+    const ticketId = new mongoose.Types.ObjectId();
+    const req = {
+      params: { id: ticketId },
+      user: { role: 'staff', managerId: guest.managerId, allowedCategories: ['housekeeping'] },
+    };
+    const res = buildResponse();
+    await chatController.getTicketTranscript(req, res);
+
+    expect(filter).toMatchObject({ _id: ticketId, category: { $in: ['housekeeping'] } });
+    expect(res.status).toHaveBeenCalledWith(404);
+    expect(findSession).not.toHaveBeenCalled();
+  });
+});
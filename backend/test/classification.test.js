@@ -0,0 +1,177 @@
+const http = require('http');
+const { createLocalClassifier } = require('../services/classification/localClassifier');
+const { createRemoteClassifier } = require('../services/classification/remoteClassifier');
+const {
+  createClassifierChain,
+  UNAVAILABLE_RESULT,
+} = require('../services/classification');
+
+// Minimal stand-in for the remote classifier service
+let stubServer;
+let stubUrl;
+let stubHandler;
+
+beforeAll((done) => {
+  stubServer = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => {
+      body += chunk;
+    });
+    req.on('end', () => stubHandler(req, res, body ? JSON.parse(body) : {}));
+  });
+  stubServer.listen(0, '127.0.0.1', () => {
+    stubUrl = `http://127.0.0.1:${stubServer.address().port}/classify`;
+    done();
+  });
+});
+
+afterAll((done) => {
+  stubServer.close(done);
+});
+
+const respondWith = (status, payload) => (req, res) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(payload));
+};
+
+describe('Local classifier', () => {
+  const classifier = createLocalClassifier();
+
+  it('should route requests in several languages', async () => {
+    const cases = [
+      ['Can I get more towels please', 'housekeeping'],
+      ['Necesito toallas limpias', 'housekeeping'],
+      ['La climatisation ne marche pas', 'maintenance'],
+      ['Ich brauche ein Taxi zum Flughafen', 'concierge'],
+      ['Breakfast for two to the room', 'service_fb'],
+      ['Could someone help with bags', 'porter'],
+    ];
+
+    for (const [message, category] of cases) {
+      const result = await classifier.classify(message);
+      expect(result.should_create_ticket).toBe(true);
+      expect(result.categories.map((c) => c.category)).toContain(category);
+    }
+  });
+
+  it('should split a message that covers several departments', async () => {
+    const result = await classifier.classify('Need fresh towels and the heater is broken');
+    const categories = result.categories.map((c) => c.category);
+
+    expect(categories).toEqual(expect.arrayContaining(['housekeeping', 'maintenance']));
+  });
+
+  it('should not raise a ticket for greetings', async () => {
+    const result = await classifier.classify('Hello, thanks!');
+
+    expect(result.should_create_ticket).toBe(false);
+    expect(result.categories).toHaveLength(0);
+  });
+
+  it('should send unmatched requests to reception', async () => {
+    const result = await classifier.classify('I would like to ask about something for tomorrow');
+
+    expect(result.should_create_ticket).toBe(true);
+    expect(result.categories[0].category).toBe('reception');
+  });
+
+  it('should mark urgent requests as high priority', async () => {
+    const result = await classifier.classify('Urgent: there is a leak in the bathroom');
+
+    expect(result.suggested_priority).toBe('high');
+  });
+
+  it('should use hotel keywords on top of the defaults', async () => {
+    const custom = createLocalClassifier({ keywords: { service_fb: ['poolside bar'] } });
+
+    expect(classifier.classifyCategory('order at the poolside bar')).not.toBe('service_fb');
+    expect(custom.classifyCategory('order at the poolside bar')).toBe('service_fb');
+  });
+});
+
+describe('Remote classifier', () => {
+  it('should return the service response', async () => {
+    stubHandler = (req, res, body) =>
+      respondWith(200, {
+        should_create_ticket: true,
+        categories: [{ category: 'porter', message: body.guest_message, urgency: 'low' }],
+        confidence: 0.9,
+      })(req, res);
+
+    const result = await createRemoteClassifier({ url: stubUrl }).classify('bags', {
+      roomNumber: 101,
+    });
+
+    expect(result.categories[0]).toEqual({ category: 'porter', message: 'bags', urgency: 'low' });
+  });
+
+  it('should reject malformed responses', async () => {
+    stubHandler = respondWith(200, { reply: 'hi' });
+
+    await expect(createRemoteClassifier({ url: stubUrl }).classify('hi')).rejects.toThrow(
+      'unexpected response'
+    );
+  });
+
+  it('should keep hotel endpoints off plain http and internal addresses', async () => {
+    stubHandler = jest.fn(respondWith(200, { should_create_ticket: false, categories: [] }));
+    const internalHttps = stubUrl.replace('http:', 'https:');
+
+    await expect(
+      createRemoteClassifier({ url: stubUrl, publicOnly: true }).classify('hi')
+    ).rejects.toThrow('https');
+    await expect(
+      createRemoteClassifier({ url: internalHttps, publicOnly: true }).classify('hi')
+    ).rejects.toThrow('public address');
+    expect(stubHandler).not.toHaveBeenCalled();
+  });
+});
+
+describe('Classifier chain', () => {
+  it('should use the first provider that answers', async () => {
+    stubHandler = respondWith(200, { should_create_ticket: false, categories: [] });
+    const chain = createClassifierChain([
+      createRemoteClassifier({ url: stubUrl }),
+      createLocalClassifier(),
+    ]);
+
+    const result = await chain.classify('towels please');
+
+    expect(result.provider).toBe('remote');
+  });
+
+  it('should fall back to the local classifier when the service is down', async () => {
+    stubHandler = respondWith(503, { message: 'Service unavailable' });
+    const chain = createClassifierChain([
+      createRemoteClassifier({ url: stubUrl }),
+      createLocalClassifier(),
+    ]);
+
+    const result = await chain.classify('towels please');
+
+    expect(result.provider).toBe('local');
+    expect(result.categories[0].category).toBe('housekeeping');
+  });
+
+  it('should fall back when the service is too slow', async () => {
+    stubHandler = (req, res) =>
+      setTimeout(() => respondWith(200, { should_create_ticket: false, categories: [] })(req, res), 300);
+    const chain = createClassifierChain([
+      createRemoteClassifier({ url: stubUrl, timeoutMs: 50 }),
+      createLocalClassifier(),
+    ]);
+
+    const result = await chain.classify('towels please');
+
+    expect(result.provider).toBe('local');
+  });
+
+  it('should report the service as unavailable when every provider fails', async () => {
+    stubHandler = respondWith(500, {});
+    const chain = createClassifierChain([createRemoteClassifier({ url: stubUrl })]);
+
+    const result = await chain.classify('towels please');
+
+    expect(result).toEqual({ ...UNAVAILABLE_RESULT, provider: null });
+  });
+});
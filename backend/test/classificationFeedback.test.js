@@ -0,0 +1,44 @@
+const mongoose = require('mongoose');
+const ClassificationFeedback = require('../models/ClassificationFeedback');
+const classifierController = require('../controllers/classifierController');
+const { runWithHotel } = require('../utils/tenant');
+
+describe('Classification feedback', () => {
+  const hotelId = new mongoose.Types.ObjectId();
+  const managerId = new mongoose.Types.ObjectId();
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should file each correction under a hotel', async () => {
+    const feedback = new ClassificationFeedback({
+      manager: managerId,
+      ticket: new mongoose.Types.ObjectId(),
+      guestMessage: 'Need more towels',
+      previousCategory: 'maintenance',
+      correctedCategory: 'housekeeping',
+      correctedBy: managerId,
+    });
+
+    await expect(feedback.validate()).rejects.toMatchObject({ errors: { hotel: expect.anything() } });
+
+    await runWithHotel(hotelId, () => feedback.validate());
+    expect(String(feedback.hotel)).toBe(String(hotelId));
+  });
+
+  it('should only export the current hotel corrections', async () => {
+    let filter;
+    jest.spyOn(ClassificationFeedback, 'find').mockImplementation((query) => {
+      filter = query;
+      return { sort: () => ({ lean: async () => [] }) };
+    });
+
+    const req = { user: { managerId, hotelId }, query: {} };
+    const res = { status: jest.fn().mockReturnThis(), json: jest.fn() };
+    await classifierController.exportFeedback(req, res, jest.fn());
+
+    expect(filter).toEqual({ hotel: hotelId });
+    expect(res.status).toHaveBeenCalledWith(200);
+  });
+});
@@ -0,0 +1,61 @@
+const mongoose = require('mongoose');
+const Ticket = require('../models/Ticket');
+const User = require('../models/User');
+const EscalationPolicy = require('../models/EscalationPolicy');
+const escalationService = require('../services/ticketEscalationService');
+const { ESCALATION_RULES } = require('../utils/constants');
+
+describe('Ticket escalation', () => {
+  const hotelId = new mongoose.Types.ObjectId();
+  const managerId = new mongoose.Types.ObjectId();
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should only notify staff with access to the ticket hotel', async () => {
+    let filter;
+    jest.spyOn(User, 'find').mockImplementation((query) => {
+      filter = query;
+      return { select: async () => [] };
+    });
+
+    await escalationService.getRecipients({ manager: managerId, hotel: hotelId, category: 'housekeeping' }, 'managers');
+
+    expect(filter.$and).toEqual([
+      { $or: [{ _id: managerId }, { hotelOwner: managerId }] },
+      { $or: [{ 'hotels.0': { $exists: false } }, { hotels: hotelId }] },
+    ]);
+  });
+
+  it('should apply a hotel threshold in place of the default', async () => {
+    const policies = [{ hotel: hotelId, rule: 'raised_unacknowledged', afterMinutes: 30 }];
+    jest.spyOn(EscalationPolicy, 'find').mockResolvedValue(policies);
+
+    const rules = await EscalationPolicy.getRules(hotelId);
+    expect(rules.map((rule) => [rule.id, rule.afterMinutes, rule.isDefault])).toEqual([
+      ['raised_unacknowledged', 30, false],
+      ['in_progress_stalled', ESCALATION_RULES[1].afterMinutes, true],
+    ]);
+  });
+
+  it('should escalate each ticket by its own hotel threshold', async () => {
+    const otherHotelId = new mongoose.Types.ObjectId();
+    const minutesAgo = (minutes) => new Date(Date.now() - minutes * 60 * 1000);
+    const ticketAt = (hotel, minutes) => ({ hotel, statusChangedAt: minutesAgo(minutes), hasEscalated: () => false });
+
+    // This hotel waits 30 minutes; the other keeps the 10 minute default
+    jest.spyOn(EscalationPolicy, 'find').mockResolvedValue([
+      { hotel: hotelId, rule: 'raised_unacknowledged', afterMinutes: 30 },
+    ]);
+    const tickets = [ticketAt(hotelId, 20), ticketAt(hotelId, 40), ticketAt(otherHotelId, 20)];
+    jest.spyOn(Ticket, 'findStaleInStatus').mockImplementation(async (status) => (status === 'raised' ? tickets : []));
+    const escalate = jest.spyOn(escalationService, 'escalate').mockResolvedValue();
+
+    await expect(escalationService.performEscalation()).resolves.toBe(2);
+    expect(escalate.mock.calls.map(([ticket, rule]) => [ticket, rule.afterMinutes])).toEqual([
+      [tickets[1], 30],
+      [tickets[2], 10],
+    ]);
+  });
+});
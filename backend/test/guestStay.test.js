@@ -0,0 +1,79 @@
+const mongoose = require('mongoose');
+const Room = require('../models/Room');
+const Ticket = require('../models/Ticket');
+
+const buildRoom = (fields = {}) =>
+  new Room({
+    hotel: new mongoose.Types.ObjectId(),
+    manager: new mongoose.Types.ObjectId(),
+    number: '101',
+    type: 'Double',
+    floor: 1,
+    ...fields,
+  });
+
+describe('Guest stay boundaries', () => {
+  const hoursAgo = (hours) => new Date(Date.now() - hours * 60 * 60 * 1000);
+
+  it('should only give a session its own tickets when no stay is tracked', () => {
+    const room = buildRoom({ status: 'available', stayStartedAt: null });
+
+    expect(room.getCurrentStayStart()).toBeNull();
+    expect(room.getStayTicketFilter('session-1')).toEqual({ room: room._id, guestSession: 'session-1' });
+  });
+
+  it('should share tickets raised since check-in with the whole stay', () => {
+    const checkIn = hoursAgo(30);
+    const room = buildRoom({ status: 'occupied', stayStartedAt: checkIn });
+
+    expect(room.getStayTicketFilter('session-1')).toEqual({
+      room: room._id,
+      $or: [{ guestSession: 'session-1' }, { createdAt: { $gte: checkIn } }],
+    });
+  });
+
+  it('should start the stay again once the QR code is rotated', () => {
+    const rotated = hoursAgo(2);
+    const room = buildRoom({ status: 'occupied', stayStartedAt: hoursAgo(30), qrRotatedAt: rotated });
+
+    expect(room.getCurrentStayStart()).toEqual(rotated);
+  });
+
+  it('should end the stay when the room is no longer occupied', async () => {
+    const room = buildRoom({ status: 'occupied', stayStartedAt: hoursAgo(30) });
+    room.status = 'available';
+
+    // Runs the save hooks without writing anything
+    jest.spyOn(room.collection, 'insertOne').mockResolvedValue({});
+    await room.save();
+
+    expect(room.stayStartedAt).toBeNull();
+    expect(room.getCurrentStayStart()).toBeNull();
+  });
+});
+
+describe('Duplicate guest requests', () => {
+  const since = new Date(Date.now() - 60 * 60 * 1000);
+
+  it('should only merge into the same session outside a tracked stay', () => {
+    const room = buildRoom({ status: 'available' });
+    const filter = Ticket.findOpenDuplicate(room, 'session-2', 'housekeeping', since).getFilter();
+
+    expect(filter).toMatchObject({
+      room: room._id,
+      guestSession: 'session-2',
+      category: 'housekeeping',
+      createdAt: { $gte: since },
+    });
+  });
+
+  it('should merge within the current stay but not into the previous one', () => {
+    const checkIn = new Date(Date.now() - 10 * 60 * 1000);
+    const room = buildRoom({ status: 'occupied', stayStartedAt: checkIn });
+    const filter = Ticket.findOpenDuplicate(room, 'session-2', 'housekeeping', since).getFilter();
+
+    // The request window reaches back past check-in; the stay boundary still applies
+    expect(filter.$or).toEqual([{ guestSession: 'session-2' }, { createdAt: { $gte: checkIn } }]);
+    expect(filter.createdAt).toEqual({ $gte: since });
+  });
+});
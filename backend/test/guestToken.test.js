@@ -0,0 +1,58 @@
+const jwt = require('jsonwebtoken');
+const {
+  STAY_PIN_LENGTH,
+  generateStayPin,
+  signRoomAccessToken,
+  verifyRoomAccessToken,
+} = require('../utils/guestToken');
+
+const SECRET = 'test-secret';
+
+describe('Room access tokens', () => {
+  const originalSecret = process.env.JWT_SECRET;
+  const qrCode = {
+    token: 'a1b2c3',
+    expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+  };
+
+  beforeAll(() => {
+    process.env.JWT_SECRET = SECRET;
+  });
+
+  afterAll(() => {
+    process.env.JWT_SECRET = originalSecret;
+  });
+
+  it('should read back the QR code token it signed', () => {
+    expect(verifyRoomAccessToken(signRoomAccessToken(qrCode))).toBe('a1b2c3');
+  });
+
+  it('should reject forged, expired and guest session tokens', () => {
+    const forged = jwt.sign({ type: 'room_access', token: 'a1b2c3' }, 'another-secret');
+    const expired = jwt.sign(
+      { type: 'room_access', token: 'a1b2c3', exp: Math.floor(Date.now() / 1000) - 60 },
+      SECRET
+    );
+    const session = jwt.sign({ type: 'guest', token: 'a1b2c3' }, SECRET);
+
+    expect(verifyRoomAccessToken(forged)).toBeNull();
+    expect(verifyRoomAccessToken(expired)).toBeNull();
+    expect(verifyRoomAccessToken(session)).toBeNull();
+    expect(verifyRoomAccessToken(undefined)).toBeNull();
+  });
+
+  it('should address new tokens to room access and still read older printed ones', () => {
+    expect(jwt.decode(signRoomAccessToken(qrCode)).aud).toBe('room_access');
+
+    const printed = jwt.sign({ type: 'room_access', token: 'a1b2c3' }, SECRET);
+    const otherAudience = jwt.sign({ type: 'room_access', token: 'a1b2c3' }, SECRET, { audience: 'guest' });
+    expect(verifyRoomAccessToken(printed)).toBe('a1b2c3');
+    expect(verifyRoomAccessToken(otherAudience)).toBeNull();
+  });
+
+  it('should issue numeric stay PINs of a fixed length', () => {
+    for (let i = 0; i < 20; i++) {
+      expect(generateStayPin()).toMatch(new RegExp(`^\\d{${STAY_PIN_LENGTH}}$`));
+    }
+  });
+});
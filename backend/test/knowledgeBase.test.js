@@ -0,0 +1,63 @@
+const {
+  buildHotelEntries,
+  createKnowledgeBase,
+  isQuestion,
+} = require('../services/knowledgeBase');
+
+const hotel = {
+  checkInTime: '15:00',
+  checkOutTime: '11:00',
+  amenities: ['Pool', 'Gym'],
+};
+
+const knowledgeBase = createKnowledgeBase([
+  {
+    _id: 'breakfast',
+    topic: 'hours',
+    question: 'What time is breakfast served?',
+    answer: 'Breakfast is served from 7 to 10am in the restaurant.',
+    keywords: ['desayuno', 'petit dejeuner'],
+  },
+  {
+    _id: 'wifi',
+    topic: 'faq',
+    question: 'What is the WiFi password?',
+    answer: 'The network is HotelGuest and the password is welcome123.',
+    keywords: ['wifi', 'internet'],
+  },
+  ...buildHotelEntries(hotel),
+]);
+
+describe('Knowledge base', () => {
+  it('should answer questions covered by an entry', () => {
+    expect(knowledgeBase.answer('What time is breakfast?')).toMatchObject({
+      entryId: 'breakfast',
+      source: 'knowledge',
+    });
+    expect(knowledgeBase.answer("what's the wifi password").entryId).toBe('wifi');
+  });
+
+  it('should answer from the hotel profile', () => {
+    expect(knowledgeBase.answer('When is check-out?').answer).toBe('Check-out is at 11:00.');
+    expect(knowledgeBase.answer('Do you have a pool?')).toMatchObject({
+      source: 'hotel',
+      answer: 'Yes, the hotel has Pool.',
+    });
+  });
+
+  it('should leave requests to the classifier', () => {
+    expect(knowledgeBase.answer('Please bring breakfast to my room')).toBeNull();
+    expect(knowledgeBase.answer('Can I get breakfast delivered to my room and extra towels?')).toBeNull();
+    expect(knowledgeBase.answer('Hello!')).toBeNull();
+  });
+
+  it('should tell questions from requests', () => {
+    expect(isQuestion('Is the pool open')).toBe(true);
+    expect(isQuestion('¿Dónde está el gimnasio')).toBe(true);
+    expect(isQuestion('Send someone to fix the shower')).toBe(false);
+  });
+
+  it('should skip the hotel entries when there is no hotel profile', () => {
+    expect(buildHotelEntries(null)).toEqual([]);
+  });
+});
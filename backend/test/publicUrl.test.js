@@ -0,0 +1,29 @@
+const { isPublicAddress, publicLookup, checkPublicHttpsUrl } = require('../utils/publicUrl');
+
+describe('Public endpoint checks', () => {
+  it('should tell public addresses from internal ones', () => {
+    expect(isPublicAddress('93.184.216.34')).toBe(true);
+    expect(isPublicAddress('2606:4700::1111')).toBe(true);
+
+    ['127.0.0.1', '10.1.2.3', '172.20.0.5', '192.168.1.1', '169.254.169.254', '0.0.0.0', '::1', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1'].forEach(
+      (address) => expect(isPublicAddress(address)).toBe(false)
+    );
+  });
+
+  it('should only accept https URLs at public addresses', async () => {
+    await expect(checkPublicHttpsUrl('https://93.184.216.34/classify')).resolves.toBe(true);
+
+    await expect(checkPublicHttpsUrl('http://93.184.216.34/classify')).rejects.toThrow('https');
+    await expect(checkPublicHttpsUrl('https://169.254.169.254/latest/meta-data')).rejects.toThrow('public');
+    await expect(checkPublicHttpsUrl('https://[::1]:8080/classify')).rejects.toThrow('public');
+    await expect(checkPublicHttpsUrl('https://localhost/classify')).rejects.toThrow('public');
+    await expect(checkPublicHttpsUrl('not a url')).rejects.toThrow('valid URL');
+  });
+
+  it('should refuse to connect to a host that resolves internally', (done) => {
+    publicLookup('localhost', { all: true }, (error) => {
+      expect(error.message).toMatch('public address');
+      done();
+    });
+  });
+});
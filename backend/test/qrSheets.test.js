@@ -0,0 +1,54 @@
+const { buildQRSheets, DEFAULT_INSTRUCTIONS } = require('../utils/qrSheets');
+const { measureText, renderPdf, renderSvg, wrapText } = require('../utils/vectorDocument');
+
+const rooms = Array.from({ length: 14 }, (_, index) => ({
+  number: String(101 + index),
+  url: `https://example.com/hotel/grand/${101 + index}?t=token`,
+}));
+
+const build = (layout) =>
+  buildQRSheets({
+    layout,
+    hotelName: 'Grand Hotel',
+    rooms,
+    primaryColor: '#111827',
+    accentColor: '#2563eb',
+  });
+
+describe('Vector documents', () => {
+  it('should wrap text to the given width', () => {
+    const lines = wrapText(DEFAULT_INSTRUCTIONS, 10, 150);
+
+    expect(lines.length).toBeGreaterThan(1);
+    expect(lines.join(' ')).toBe(DEFAULT_INSTRUCTIONS);
+    lines.forEach((line) => expect(measureText(line, 10)).toBeLessThanOrEqual(150));
+  });
+});
+
+describe('QR code sheets', () => {
+  it('should fit twelve rooms on each grid page', () => {
+    expect(build('grid')).toHaveLength(2);
+  });
+
+  it('should print one door hanger or table tent per room', () => {
+    expect(build('door-hanger')).toHaveLength(14);
+    expect(build('table-tent')).toHaveLength(14);
+  });
+
+  it('should render a PDF with one page per sheet', () => {
+    const pdf = renderPdf(build('grid')).toString('latin1');
+
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf).toContain('/Count 2');
+    expect(pdf).toContain('(Room 114)');
+  });
+
+  it('should escape text in SVG output', () => {
+    const svg = renderSvg(
+      buildQRSheets({ layout: 'grid', hotelName: 'Bed & <Breakfast>', rooms: rooms.slice(0, 1) })
+    );
+
+    expect(svg).toContain('Room 101');
+    expect(svg).toContain('Bed &amp; &lt;Breakfast&gt;');
+  });
+});
@@ -0,0 +1,91 @@
+const { buildReplyContext } = require('../services/replySuggestions/context');
+const { createLocalSuggester } = require('../services/replySuggestions/localSuggester');
+const { createSuggesterChain, suggestReplies } = require('../services/replySuggestions');
+
+const now = new Date('2026-05-01T10:00:00Z');
+
+const ticket = (overrides = {}) => ({
+  roomNumber: '204',
+  category: 'housekeeping',
+  status: 'raised',
+  priority: 'medium',
+  guestInfo: { name: 'Maria Lopez' },
+  createdAt: new Date('2026-05-01T09:40:00Z'),
+  sla: { resolveBy: new Date('2026-05-01T10:20:00Z'), breachedAt: null },
+  messages: [
+    { sender: 'system', content: 'Guest needs extra towels' },
+    { sender: 'guest', content: 'Could I get two more towels please?' },
+  ],
+  ...overrides,
+});
+
+const localOnly = createSuggesterChain([createLocalSuggester()]);
+
+describe('Reply context', () => {
+  it('should pull the guest, thread and SLA from the ticket', () => {
+    const context = buildReplyContext(ticket(), { staffName: 'Sam', now });
+
+    expect(context).toMatchObject({
+      guestName: 'Maria',
+      roomNumber: '204',
+      team: 'housekeeping team',
+      minutesOpen: 20,
+      etaMinutes: 20,
+      lastGuestMessage: 'Could I get two more towels please?',
+      staffName: 'Sam',
+    });
+    expect(context.sla.minutesToResolve).toBe(20);
+  });
+
+  it('should not greet guests by a room placeholder', () => {
+    const context = buildReplyContext(ticket({ guestInfo: { name: 'Guest-204' } }), { now });
+    expect(context.guestName).toBeNull();
+  });
+
+  it('should prefer the thread the dashboard sent', () => {
+    const context = buildReplyContext(ticket(), {
+      conversationHistory: [{ sender: 'guest', content: 'Actually, make it four' }],
+      now,
+    });
+    expect(context.lastGuestMessage).toBe('Actually, make it four');
+  });
+});
+
+describe('Reply suggestions', () => {
+  it('should offer every reply type, acknowledgement first for new tickets', async () => {
+    const suggestions = await suggestReplies(ticket(), { suggester: localOnly });
+
+    expect(suggestions.map((suggestion) => suggestion.type)).toEqual([
+      'acknowledge',
+      'eta',
+      'apology',
+      'completion',
+    ]);
+    expect(suggestions[0]).toMatchObject({ provider: 'local' });
+    expect(suggestions[0].id).toEqual(expect.any(String));
+    expect(suggestions[0].text).toContain('Maria');
+  });
+
+  it('should lead with an apology once the SLA is breached', async () => {
+    const suggestions = await suggestReplies(
+      ticket({ status: 'in_progress', sla: { resolveBy: now, breachedAt: now } }),
+      { suggester: localOnly }
+    );
+    expect(suggestions[0].type).toBe('apology');
+    expect(suggestions[0].text).toContain('longer than it should');
+  });
+
+  it('should only suggest the requested type', async () => {
+    const suggestions = await suggestReplies(ticket(), { requestType: 'eta', suggester: localOnly });
+    expect(suggestions).toHaveLength(1);
+    expect(suggestions[0].type).toBe('eta');
+  });
+
+  it('should fall back to templates when the LLM fails', async () => {
+    const failing = { name: 'llm', suggest: async () => { throw new Error('down'); } };
+    const chain = createSuggesterChain([failing, createLocalSuggester()]);
+
+    const suggestions = await suggestReplies(ticket(), { suggester: chain });
+    expect(suggestions.every((suggestion) => suggestion.provider === 'local')).toBe(true);
+  });
+});
@@ -0,0 +1,59 @@
+const { validateRoomRows } = require('../utils/roomImport');
+const { parseCsv, toCsv } = require('../utils/csv');
+
+describe('Room import', () => {
+  it('should read CSV rows by header', () => {
+    const rows = parseCsv('Number,Type,Floor\r\n101,"Double, sea view",1\n\n102,Single,1\n');
+
+    expect(rows).toEqual([
+      { number: '101', type: 'Double, sea view', floor: '1' },
+      { number: '102', type: 'Single', floor: '1' },
+    ]);
+  });
+
+  it('should read back what the export writes', () => {
+    const rooms = [{ number: '101', type: 'Suite "Royal"', floor: 1, status: 'occupied' }];
+    const csv = toCsv(['number', 'type', 'floor', 'status'], rooms);
+
+    expect(parseCsv(csv)).toEqual([{ number: '101', type: 'Suite "Royal"', floor: '1', status: 'occupied' }]);
+  });
+
+  it('should accept valid rows and default the status', () => {
+    const [result] = validateRoomRows([{ number: '101', type: 'Double', floor: '1' }], []);
+
+    expect(result).toEqual({
+      row: 1,
+      room: { number: '101', type: 'Double', floor: 1, status: 'available' },
+      errors: [],
+    });
+  });
+
+  it('should report every problem with a row', () => {
+    const [result] = validateRoomRows([{ number: '', type: '', floor: 'two', status: 'closed' }], []);
+
+    expect(result.room).toBeNull();
+    expect(result.errors).toEqual([
+      'Room number is required',
+      'Room type is required',
+      'Floor must be a number between 1 and 200',
+      'Invalid status "closed"',
+    ]);
+  });
+
+  it('should flag duplicate and existing room numbers', () => {
+    const results = validateRoomRows(
+      [
+        { number: '101', type: 'Double', floor: 1 },
+        { number: '101', type: 'Double', floor: 1 },
+        { number: '201', type: 'Double', floor: 2 },
+      ],
+      ['201']
+    );
+
+    expect(results.map((result) => result.errors)).toEqual([
+      [],
+      ['Duplicate of row 1'],
+      ['Room 201 already exists'],
+    ]);
+  });
+});
@@ -0,0 +1,55 @@
+const { generateRoomLayout } = require('../utils/roomNumbering');
+
+describe('Room numbering', () => {
+  it('should number rooms by floor', () => {
+    const rooms = generateRoomLayout({
+      startFloor: 1,
+      floors: 2,
+      roomsPerFloor: 3,
+      types: [
+        { type: 'Double', count: 2 },
+        { type: 'Suite', count: 1 },
+      ],
+    });
+
+    expect(rooms.map((room) => room.number)).toEqual(['101', '102', '103', '201', '202', '203']);
+    expect(rooms[2]).toEqual({ number: '103', floor: 1, type: 'Suite' });
+    expect(rooms[3].type).toBe('Double');
+  });
+
+  it('should number rooms sequentially with a prefix', () => {
+    const rooms = generateRoomLayout({
+      startFloor: 3,
+      floors: 2,
+      roomsPerFloor: 2,
+      scheme: 'sequential',
+      prefix: 'A-',
+      types: [{ type: 'Single', count: 2 }],
+    });
+
+    expect(rooms.map((room) => room.number)).toEqual(['A-1', 'A-2', 'A-3', 'A-4']);
+    expect(rooms[3].floor).toBe(4);
+  });
+
+  it('should reject type counts that do not fill a floor', () => {
+    expect(() =>
+      generateRoomLayout({
+        startFloor: 1,
+        floors: 1,
+        roomsPerFloor: 4,
+        types: [{ type: 'Double', count: 3 }],
+      })
+    ).toThrow('add up');
+  });
+
+  it('should reject floor numbering past 99 rooms a floor', () => {
+    expect(() =>
+      generateRoomLayout({
+        startFloor: 1,
+        floors: 1,
+        roomsPerFloor: 120,
+        types: [{ type: 'Double', count: 120 }],
+      })
+    ).toThrow('99 rooms');
+  });
+});
@@ -0,0 +1,28 @@
+const { classifyDevice, sumFunnel, summarizeFloors } = require('../utils/scanAnalytics');
+
+describe('Scan analytics', () => {
+  it('should classify common user agents', () => {
+    expect(
+      classifyDevice('Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 Mobile/15E148')
+    ).toBe('mobile');
+    expect(classifyDevice('Mozilla/5.0 (Linux; Android 14; Pixel 8) Chrome/120.0 Mobile Safari/537.36')).toBe('mobile');
+    expect(classifyDevice('Mozilla/5.0 (iPad; CPU OS 17_0 like Mac OS X) AppleWebKit/605.1.15')).toBe('tablet');
+    expect(classifyDevice('Mozilla/5.0 (Linux; Android 13; SM-X200) Chrome/120.0 Safari/537.36')).toBe('tablet');
+    expect(classifyDevice('Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/120.0 Safari/537.36')).toBe('desktop');
+    expect(classifyDevice(undefined)).toBe('unknown');
+  });
+
+  it('should roll room funnels up by floor', () => {
+    const rooms = [
+      { number: '201', floor: 2, scans: 4, chats: 2, tickets: 1, completed: 1 },
+      { number: '101', floor: 1, scans: 3, chats: 1, tickets: 1, completed: 0 },
+      { number: '102', floor: 1, scans: 0, chats: 0, tickets: 0, completed: 0 },
+    ];
+
+    expect(summarizeFloors(rooms)).toEqual([
+      { floor: 1, rooms: 2, roomsScanned: 1, scans: 3, chats: 1, tickets: 1, completed: 0 },
+      { floor: 2, rooms: 1, roomsScanned: 1, scans: 4, chats: 2, tickets: 1, completed: 1 },
+    ]);
+    expect(sumFunnel(rooms)).toEqual({ scans: 7, chats: 3, tickets: 2, completed: 1 });
+  });
+});
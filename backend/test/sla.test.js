@@ -0,0 +1,94 @@
+const mongoose = require('mongoose');
+const SlaPolicy = require('../models/SlaPolicy');
+const Ticket = require('../models/Ticket');
+const { DEFAULT_SLA_MINUTES } = require('../utils/constants');
+
+const buildTicket = (fields = {}) =>
+  new Ticket({
+    hotel: new mongoose.Types.ObjectId(),
+    manager: new mongoose.Types.ObjectId(),
+    room: new mongoose.Types.ObjectId(),
+    roomNumber: '101',
+    guestInfo: { name: 'Guest' },
+    ...fields,
+  });
+
+const minutesFrom = (date, minutes) => new Date(date.getTime() + minutes * 60 * 1000);
+
+describe('SLA policies', () => {
+  const hotelId = new mongoose.Types.ObjectId();
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should fall back to the default for the priority', async () => {
+    jest.spyOn(SlaPolicy, 'findOne').mockResolvedValue(null);
+
+    await expect(SlaPolicy.resolveFor(hotelId, 'housekeeping', 'high')).resolves.toEqual({
+      acknowledgeMinutes: DEFAULT_SLA_MINUTES.high.acknowledge,
+      resolveMinutes: DEFAULT_SLA_MINUTES.high.resolve,
+      isDefault: true,
+    });
+  });
+
+  it('should use the hotel policy for the category and priority', async () => {
+    jest.spyOn(SlaPolicy, 'findOne').mockResolvedValue({ acknowledgeMinutes: 3, resolveMinutes: 30 });
+
+    await expect(SlaPolicy.resolveFor(hotelId, 'housekeeping', 'high')).resolves.toEqual({
+      acknowledgeMinutes: 3,
+      resolveMinutes: 30,
+      isDefault: false,
+    });
+    expect(SlaPolicy.findOne).toHaveBeenCalledWith({ hotel: hotelId, category: 'housekeeping', priority: 'high' });
+  });
+
+  it('should mark only configured cells of the matrix as overridden', async () => {
+    jest.spyOn(SlaPolicy, 'find').mockResolvedValue([
+      { category: 'housekeeping', priority: 'low', acknowledgeMinutes: 20, resolveMinutes: 120 },
+    ]);
+
+    const matrix = await SlaPolicy.getMatrix(hotelId);
+    const cell = (category, priority) =>
+      matrix.find((entry) => entry.category === category && entry.priority === priority);
+
+    expect(cell('housekeeping', 'low')).toMatchObject({ acknowledgeMinutes: 20, resolveMinutes: 120, isDefault: false });
+    expect(cell('housekeeping', 'medium')).toMatchObject({ isDefault: true });
+  });
+});
+
+describe('Ticket SLA deadlines', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should set deadlines from the policy when the ticket is raised', async () => {
+    jest.spyOn(SlaPolicy, 'findOne').mockResolvedValue(null);
+    const ticket = buildTicket({ priority: 'medium' });
+
+    // Runs the save hooks without writing anything
+    jest.spyOn(ticket.collection, 'insertOne').mockResolvedValue({});
+    await ticket.save();
+
+    const { acknowledgeBy, resolveBy } = ticket.sla;
+    expect(resolveBy.getTime() - acknowledgeBy.getTime()).toBe(
+      (DEFAULT_SLA_MINUTES.medium.resolve - DEFAULT_SLA_MINUTES.medium.acknowledge) * 60 * 1000
+    );
+    expect(ticket.sla.breachedAt).toBeFalsy();
+  });
+
+  it('should tell which target a ticket has missed', () => {
+    const raisedAt = new Date('2026-10-18T10:00:00Z');
+    const sla = { acknowledgeBy: minutesFrom(raisedAt, 15), resolveBy: minutesFrom(raisedAt, 240) };
+
+    const waiting = buildTicket({ status: 'raised', sla });
+    expect(waiting.getSlaBreachType(minutesFrom(raisedAt, 10))).toBeNull();
+    expect(waiting.getSlaBreachType(minutesFrom(raisedAt, 20))).toBe('acknowledge');
+
+    const working = buildTicket({ status: 'in_progress', sla: { ...sla, acknowledgedAt: minutesFrom(raisedAt, 5) } });
+    expect(working.getSlaBreachType(minutesFrom(raisedAt, 300))).toBe('resolve');
+
+    const cancelled = buildTicket({ status: 'cancelled', sla });
+    expect(cancelled.getSlaBreachType(minutesFrom(raisedAt, 300))).toBeNull();
+  });
+});
@@ -0,0 +1,73 @@
+const jwt = require('jsonwebtoken');
+const mongoose = require('mongoose');
+const User = require('../models/User');
+const Hotel = require('../models/Hotel');
+const { authorizeUserRoom, authorizeHotelRoom } = require('../utils/socketAuth');
+const { hotelCategoryRoom } = require('../utils/tenant');
+const { TICKET_CATEGORIES } = require('../utils/constants');
+const { createGuestSession } = require('../utils/guestToken');
+
+const SECRET = 'test-secret';
+
+describe('Socket room authorization', () => {
+  const originalSecret = process.env.JWT_SECRET;
+  const user = { _id: new mongoose.Types.ObjectId(), name: 'Front Desk' };
+  const hotel = { _id: new mongoose.Types.ObjectId() };
+
+  beforeAll(() => {
+    process.env.JWT_SECRET = SECRET;
+  });
+
+  afterAll(() => {
+    process.env.JWT_SECRET = originalSecret;
+  });
+
+  beforeEach(() => {
+    jest.spyOn(User, 'findOne').mockImplementation(async (filter) =>
+      String(filter._id) === String(user._id) ? user : null
+    );
+    jest.spyOn(Hotel, 'selectForUser').mockResolvedValue({ hotel, hotels: [hotel] });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should only open the personal room of the signed-in user', async () => {
+    const token = jwt.sign({ userId: String(user._id) }, SECRET);
+
+    await expect(authorizeUserRoom(token)).resolves.toBe(String(user._id));
+  });
+
+  it('should refuse missing, forged and unknown-user tokens', async () => {
+    const forged = jwt.sign({ userId: String(user._id) }, 'another-secret');
+    const stranger = jwt.sign({ userId: String(new mongoose.Types.ObjectId()) }, SECRET);
+
+    await expect(authorizeUserRoom(undefined)).resolves.toBeNull();
+    await expect(authorizeUserRoom(String(user._id))).resolves.toBeNull();
+    await expect(authorizeUserRoom(forged)).resolves.toBeNull();
+    await expect(authorizeUserRoom(stranger)).resolves.toBeNull();
+  });
+
+  it('should refuse a guest session token without looking anyone up', async () => {
+    const room = { _id: new mongoose.Types.ObjectId(), number: '101', manager: new mongoose.Types.ObjectId() };
+    const { token } = createGuestSession({ _id: hotel._id, slug: 'seaside' }, room, 'Guest');
+
+    await expect(authorizeUserRoom(token)).resolves.toBeNull();
+    expect(User.findOne).not.toHaveBeenCalled();
+  });
+
+  it('should only join the category boards a staff member may see', async () => {
+    const staff = { _id: new mongoose.Types.ObjectId(), role: 'staff', allowedCategories: ['housekeeping', 'maintenance'] };
+    User.findOne.mockResolvedValue(staff);
+    const token = jwt.sign({ userId: String(staff._id) }, SECRET);
+
+    await expect(authorizeHotelRoom(token)).resolves.toEqual([
+      hotelCategoryRoom(hotel._id, 'housekeeping'),
+      hotelCategoryRoom(hotel._id, 'maintenance'),
+    ]);
+
+    staff.allowedCategories = [];
+    await expect(authorizeHotelRoom(token)).resolves.toHaveLength(TICKET_CATEGORIES.length);
+  });
+});
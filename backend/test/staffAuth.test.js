@@ -0,0 +1,83 @@
+process.env.SUPABASE_URL = process.env.SUPABASE_URL || 'http://localhost:54321';
+process.env.SUPABASE_ANON_KEY = process.env.SUPABASE_ANON_KEY || 'test-anon-key';
+
+const express = require('express');
+const request = require('supertest');
+const jwt = require('jsonwebtoken');
+const mongoose = require('mongoose');
+const User = require('../models/User');
+const Hotel = require('../models/Hotel');
+const SlaPolicy = require('../models/SlaPolicy');
+const slaRoutes = require('../routes/slaRoutes');
+const { createGuestSession, signRoomAccessToken } = require('../utils/guestToken');
+
+const SECRET = 'test-secret';
+
+describe('Staff authentication', () => {
+  const originalSecret = process.env.JWT_SECRET;
+  const app = express();
+  app.use(express.json());
+  app.use('/api/sla', slaRoutes);
+
+  const hotel = { _id: new mongoose.Types.ObjectId(), slug: 'seaside' };
+  const room = { _id: new mongoose.Types.ObjectId(), number: '101', manager: new mongoose.Types.ObjectId() };
+
+  beforeAll(() => {
+    process.env.JWT_SECRET = SECRET;
+  });
+
+  afterAll(() => {
+    process.env.JWT_SECRET = originalSecret;
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should refuse a guest session token on a manager route', async () => {
+    const findUser = jest.spyOn(User, 'findOne');
+    const { token } = createGuestSession(hotel, room, 'Guest');
+
+    const res = await request(app).get('/api/sla/policies').set('Authorization', `Bearer ${token}`);
+
+    expect(res.status).toBe(401);
+    expect(findUser).not.toHaveBeenCalled();
+  });
+
+  it('should refuse the room access token printed on a QR code', async () => {
+    const findUser = jest.spyOn(User, 'findOne');
+    const token = signRoomAccessToken({ token: 'a1b2c3', expiresAt: new Date(Date.now() + 60 * 60 * 1000) });
+
+    const res = await request(app).get('/api/sla/policies').set('Authorization', `Bearer ${token}`);
+
+    expect(res.status).toBe(401);
+    expect(findUser).not.toHaveBeenCalled();
+  });
+
+  it('should refuse a signed token without a staff user id', async () => {
+    const findUser = jest.spyOn(User, 'findOne');
+    const token = jwt.sign({ email: 'someone@example.com' }, SECRET);
+
+    const res = await request(app).get('/api/sla/policies').set('Authorization', `Bearer ${token}`);
+
+    expect(res.status).toBe(401);
+    expect(findUser).not.toHaveBeenCalled();
+  });
+
+  it('should accept a staff login token', async () => {
+    const user = { _id: new mongoose.Types.ObjectId(), managerId: room.manager, role: 'owner', hotels: [] };
+    jest.spyOn(User, 'findOne').mockResolvedValue(user);
+    jest.spyOn(Hotel, 'selectForUser').mockResolvedValue({ hotel, hotels: [hotel] });
+    jest.spyOn(SlaPolicy, 'getMatrix').mockResolvedValue([]);
+    const token = jwt.sign({ userId: String(user._id) }, SECRET);
+
+    const res = await request(app).get('/api/sla/policies').set('Authorization', `Bearer ${token}`);
+
+    expect(res.status).toBe(200);
+    expect(User.findOne).toHaveBeenCalledWith({ _id: String(user._id), isActive: true });
+  });
+});
@@ -0,0 +1,57 @@
+const mongoose = require('mongoose');
+const User = require('../models/User');
+const staffController = require('../controllers/staffController');
+
+describe('Staff management', () => {
+  const managerId = new mongoose.Types.ObjectId();
+  const hotelId = new mongoose.Types.ObjectId();
+  const staffId = new mongoose.Types.ObjectId();
+
+  // A manager limited to one property of the group
+  const manager = {
+    role: 'manager',
+    userId: new mongoose.Types.ObjectId(),
+    managerId,
+    hotelId,
+    hotelIds: [hotelId],
+    hotels: [hotelId],
+  };
+
+  const run = async (handler, body = {}) => {
+    const next = jest.fn();
+    const req = { user: manager, params: { id: String(staffId) }, body };
+    await handler(req, { status: jest.fn().mockReturnThis(), json: jest.fn() }, next);
+    return next.mock.calls[0] && next.mock.calls[0][0];
+  };
+
+  let filters;
+
+  beforeEach(() => {
+    filters = [];
+    // Nobody at another property matches the scoped lookup
+    jest.spyOn(User, 'findOne').mockImplementation(async (filter) => {
+      filters.push(filter);
+      return null;
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should only update staff at the manager property', async () => {
+    const error = await run(staffController.updateStaff, { role: 'staff' });
+
+    expect(error.statusCode).toBe(404);
+    expect(filters[0]).toMatchObject({ _id: String(staffId), hotelOwner: managerId });
+    expect(filters[0].$and[1]).toEqual({ $or: [{ 'hotels.0': { $exists: false } }, { hotels: hotelId }] });
+  });
+
+  it('should only deactivate staff at the manager property', async () => {
+    const error = await run(staffController.deactivateStaff);
+
+    expect(error.statusCode).toBe(404);
+    expect(filters[0]).toMatchObject({ _id: String(staffId), hotelOwner: managerId, isActive: true });
+    expect(filters[0].$and[1]).toEqual({ $or: [{ 'hotels.0': { $exists: false } }, { hotels: hotelId }] });
+  });
+});
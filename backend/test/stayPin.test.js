@@ -0,0 +1,59 @@
+const mongoose = require('mongoose');
+const Room = require('../models/Room');
+const { MAX_STAY_PIN_ATTEMPTS, stayPinMatches } = require('../utils/guestToken');
+const { createAttemptLimiter } = require('../utils/attemptLimiter');
+
+describe('Stay PIN attempts', () => {
+  const roomId = new mongoose.Types.ObjectId();
+  let queries;
+
+  beforeEach(() => {
+    queries = [];
+    // Capture what would be sent to the database
+    jest.spyOn(mongoose.Query.prototype, 'exec').mockImplementation(function () {
+      queries.push({ op: this.op, filter: this.getFilter(), update: this.getUpdate() });
+      return Promise.resolve(this.op === 'findOneAndUpdate' ? { _id: roomId } : {});
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should compare PINs exactly', () => {
+    expect(stayPinMatches('042917', '042917')).toBe(true);
+    expect(stayPinMatches('042917', '42917')).toBe(false);
+    expect(stayPinMatches('042917', '042918')).toBe(false);
+    expect(stayPinMatches('042917', undefined)).toBe(false);
+  });
+
+  it('should only hand out attempts while the room is under its limit and unlocked', async () => {
+    const now = new Date('2026-10-18T12:00:00Z');
+    await expect(Room.claimStayPinAttempt(roomId, now)).resolves.toBe(true);
+
+    const [{ filter, update }] = queries;
+    expect(filter.stayPinAttempts).toEqual({ $lt: MAX_STAY_PIN_ATTEMPTS });
+    expect(filter.$or).toEqual([{ stayPinLockedUntil: null }, { stayPinLockedUntil: { $lte: now } }]);
+    expect(update).toEqual({ $inc: { stayPinAttempts: 1 } });
+  });
+
+  it('should lock the room after the last wrong PIN and clear it after a right one', async () => {
+    const now = new Date('2026-10-18T12:00:00Z');
+    await Room.settleStayPinAttempt(roomId, false, now);
+    await Room.settleStayPinAttempt(roomId, true, now);
+
+    const [locked, cleared] = queries;
+    expect(locked.filter.stayPinAttempts).toEqual({ $gte: MAX_STAY_PIN_ATTEMPTS });
+    expect(locked.update.$set.stayPinLockedUntil.getTime()).toBeGreaterThan(now.getTime());
+    expect(cleared.update.$set).toEqual({ stayPinAttempts: 0, stayPinLockedUntil: null });
+  });
+
+  it('should block a client after too many failures until the window passes', () => {
+    const limiter = createAttemptLimiter({ maxFailures: 3, windowMs: 1000 });
+
+    [0, 10, 20].forEach((at) => limiter.recordFailure('1.2.3.4', at));
+    expect(limiter.isBlocked('1.2.3.4', 30)).toBe(true);
+    expect(limiter.isBlocked('5.6.7.8', 30)).toBe(false);
+    expect(limiter.isBlocked('1.2.3.4', 1015)).toBe(false);
+  });
+});
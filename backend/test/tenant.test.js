@@ -0,0 +1,52 @@
+const mongoose = require('mongoose');
+const Room = require('../models/Room');
+const { runWithHotel, getCurrentHotel, hotelRoom } = require('../utils/tenant');
+
+const hotelId = new mongoose.Types.ObjectId();
+const otherHotelId = new mongoose.Types.ObjectId();
+
+const buildRoom = (fields = {}) =>
+  new Room({
+    number: '101',
+    type: 'Double',
+    floor: 1,
+    manager: new mongoose.Types.ObjectId(),
+    ...fields,
+  });
+
+describe('Hotel tenancy', () => {
+  it('should keep the request hotel across awaits', async () => {
+    const seen = await runWithHotel(hotelId, async () => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      return getCurrentHotel();
+    });
+
+    expect(seen).toBe(String(hotelId));
+    expect(getCurrentHotel()).toBeNull();
+  });
+
+  it('should put new rooms in the request hotel', async () => {
+    const room = buildRoom();
+    await runWithHotel(hotelId, () => room.validate());
+
+    expect(String(room.hotel)).toBe(String(hotelId));
+  });
+
+  it('should refuse rooms for another hotel', async () => {
+    const room = buildRoom({ hotel: otherHotelId });
+
+    await expect(runWithHotel(hotelId, () => room.validate())).rejects.toMatchObject({
+      errors: { hotel: expect.anything() },
+    });
+  });
+
+  it('should require a hotel outside a request', async () => {
+    await expect(buildRoom().validate()).rejects.toMatchObject({
+      errors: { hotel: expect.anything() },
+    });
+  });
+
+  it('should name socket rooms after the hotel', () => {
+    expect(hotelRoom(hotelId)).toBe(`hotel_${hotelId}`);
+  });
+});
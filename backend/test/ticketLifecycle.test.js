@@ -0,0 +1,72 @@
+const mongoose = require('mongoose');
+const Ticket = require('../models/Ticket');
+const { canTransition, getAllowedTransitions } = require('../utils/ticketLifecycle');
+
+const buildTicket = (fields = {}) =>
+  new Ticket({
+    hotel: new mongoose.Types.ObjectId(),
+    manager: new mongoose.Types.ObjectId(),
+    room: new mongoose.Types.ObjectId(),
+    roomNumber: '101',
+    guestInfo: { name: 'Guest' },
+    ...fields,
+  });
+
+describe('Ticket lifecycle', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should let staff work a ticket through to completion', () => {
+    expect(canTransition('raised', 'acknowledged')).toBe(true);
+    expect(canTransition('acknowledged', 'in_progress')).toBe(true);
+    expect(canTransition('in_progress', 'completed')).toBe(true);
+    expect(canTransition('raised', 'completed')).toBe(false);
+  });
+
+  it('should leave cancelling and verifying to the guest', () => {
+    expect(canTransition('raised', 'cancelled', 'staff')).toBe(false);
+    expect(canTransition('raised', 'cancelled', 'guest')).toBe(true);
+    expect(canTransition('completed', 'verified', 'staff')).toBe(false);
+    expect(canTransition('completed', 'verified', 'guest')).toBe(true);
+    expect(canTransition('in_progress', 'cancelled', 'guest')).toBe(false);
+  });
+
+  it('should treat verified and cancelled tickets as final', () => {
+    ['staff', 'guest'].forEach((actorType) => {
+      expect(getAllowedTransitions('verified', actorType)).toEqual([]);
+      expect(getAllowedTransitions('cancelled', actorType)).toEqual([]);
+    });
+    expect(getAllowedTransitions('unknown')).toEqual([]);
+  });
+
+  it('should record each move and keep the hold reason only while on hold', () => {
+    const ticket = buildTicket({ status: 'in_progress' });
+    const actor = new mongoose.Types.ObjectId();
+
+    expect(ticket.canTransitionTo('on_hold')).toBe(true);
+    ticket.transitionTo('on_hold', { actorType: 'staff', actor, actorName: 'Asha', reason: 'Waiting for parts' });
+    expect(ticket.holdReason).toBe('Waiting for parts');
+
+    ticket.transitionTo('in_progress', { actorType: 'staff', actor, actorName: 'Asha' });
+    expect(ticket.holdReason).toBeNull();
+    expect(ticket.statusHistory.map(({ from, to }) => [from, to])).toEqual([
+      ['in_progress', 'on_hold'],
+      ['on_hold', 'in_progress'],
+    ]);
+  });
+
+  it('should set and clear the completion time as the ticket closes and reopens', async () => {
+    const ticket = buildTicket({ status: 'in_progress', sla: {} });
+    ticket.isNew = false;
+    jest.spyOn(ticket.collection, 'updateOne').mockResolvedValue({ matchedCount: 1 });
+
+    ticket.transitionTo('completed', { actorType: 'staff', actorName: 'Asha' });
+    await ticket.save();
+    expect(ticket.completedAt).toBeInstanceOf(Date);
+
+    ticket.transitionTo('reopened', { actorType: 'guest', actorName: 'Guest' });
+    await ticket.save();
+    expect(ticket.completedAt).toBeNull();
+  });
+});
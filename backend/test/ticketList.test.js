@@ -0,0 +1,44 @@
+const mongoose = require('mongoose');
+const Ticket = require('../models/Ticket');
+const chatController = require('../controllers/chatController');
+
+describe('Ticket list', () => {
+  const user = { role: 'owner', userId: new mongoose.Types.ObjectId(), managerId: new mongoose.Types.ObjectId() };
+  const buildResponse = () => ({ status: jest.fn().mockReturnThis(), json: jest.fn() });
+
+  let filter;
+
+  beforeEach(() => {
+    jest.spyOn(Ticket, 'find').mockImplementation((query) => {
+      filter = query;
+      const chain = { populate: () => chain, sort: async () => [] };
+      return chain;
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should reject an assignee that is not an id', async () => {
+    const res = buildResponse();
+
+    await chatController.getTickets({ user, query: { assignedTo: 'nobody' } }, res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(Ticket.find).not.toHaveBeenCalled();
+  });
+
+  it('should filter by a staff member or one of the queue shortcuts', async () => {
+    const assignee = String(new mongoose.Types.ObjectId());
+
+    await chatController.getTickets({ user, query: { assignedTo: assignee } }, buildResponse());
+    expect(filter.assignedTo).toBe(assignee);
+
+    await chatController.getTickets({ user, query: { assignedTo: 'me' } }, buildResponse());
+    expect(filter.assignedTo).toBe(user.userId);
+
+    await chatController.getTickets({ user, query: { assignedTo: 'unassigned' } }, buildResponse());
+    expect(filter.assignedTo).toBeNull();
+  });
+});
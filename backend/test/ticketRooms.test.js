@@ -0,0 +1,65 @@
+const mongoose = require('mongoose');
+const { toGuestView, ticketRoomFor, emitToTicket, emitToHotelBoard } = require('../utils/ticketRooms');
+const { hotelCategoryRoom } = require('../utils/tenant');
+
+// Records which room got which payload
+const createIo = () => {
+  const sent = {};
+  return {
+    sent,
+    to: (room) => ({
+      emit: (event, payload) => {
+        sent[room] = { event, payload };
+      },
+    }),
+  };
+};
+
+describe('Ticket rooms', () => {
+  const ticket = {
+    _id: new mongoose.Types.ObjectId(),
+    roomNumber: '204',
+    category: 'housekeeping',
+    status: 'in_progress',
+    assignedTo: { _id: new mongoose.Types.ObjectId(), name: 'Ana', email: 'ana@hotel.test', role: 'staff' },
+    classification: { guestMessage: 'More towels', confidence: 0.9 },
+    messages: [
+      { content: 'More towels please', sender: 'guest', senderName: 'Sam' },
+      { content: 'Assigned to Ana by Lee', sender: 'system', senderName: 'System' },
+      { content: 'On their way', sender: 'manager', senderName: 'Ana' },
+    ],
+    statusHistory: [{ from: 'open', to: 'in_progress', changedBy: new mongoose.Types.ObjectId() }],
+  };
+
+  it('should keep guests and staff in separate rooms', () => {
+    expect(ticketRoomFor(ticket._id, 'guest')).not.toBe(ticketRoomFor(ticket._id, 'staff'));
+  });
+
+  it('should leave staff details out of the guest view', () => {
+    const view = toGuestView(ticket);
+
+    expect(view.handledBy).toBe('Ana');
+    expect(view).not.toHaveProperty('assignedTo');
+    expect(view).not.toHaveProperty('classification');
+    expect(view.messages.map((message) => message.content)).toEqual(['More towels please', 'On their way']);
+    expect(view.statusHistory).toEqual([{ to: 'in_progress', changedAt: undefined }]);
+  });
+
+  it('should send guests their view and staff the full ticket', () => {
+    const io = createIo();
+    emitToTicket(io, ticket, 'ticketUpdated');
+
+    expect(io.sent[ticketRoomFor(ticket._id, 'guest')].payload).toEqual(toGuestView(ticket));
+    expect(io.sent[ticketRoomFor(ticket._id, 'staff')].payload).toBe(ticket);
+  });
+
+  it('should only reach the board of the ticket category', () => {
+    const io = createIo();
+    const hotelId = new mongoose.Types.ObjectId();
+
+    emitToHotelBoard(io, { ...ticket, hotel: hotelId }, 'newTicket', { ticket });
+
+    expect(Object.keys(io.sent)).toEqual([hotelCategoryRoom(hotelId, 'housekeeping')]);
+    expect(io.sent[hotelCategoryRoom(hotelId, 'housekeeping')]).toEqual({ event: 'newTicket', payload: { ticket } });
+  });
+});
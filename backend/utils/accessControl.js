@@ -0,0 +1,69 @@
+/**
+ * Build the base ticket query for the authenticated user.
+ * Tickets are always scoped to the user's hotel, and staff with a restricted
+ * set of categories only see tickets for their own departments.
+ * @param {Object} user - req.user as set by the authenticate middleware
+ * @param {Object} [filters={}] - Additional query conditions
+ * @returns {Object} - Mongoose query conditions
+ */
+const ticketScope = (user, filters = {}) => {
+  const query = { ...filters, manager: user.managerId };
+  const allowed = user.role === 'owner' ? [] : user.allowedCategories || [];
+
+  if (allowed.length > 0) {
+    if (typeof query.category === 'string') {
+      // Requested category outside the user's departments matches nothing
+      query.category = allowed.includes(query.category)
+        ? query.category
+        : { $in: [] };
+    } else {
+      query.category = { $in: allowed };
+    }
+  }
+
+  return query;
+};
+
+/**
+ * Check whether the user may work on a ticket of the given category
+ * @param {Object} user - req.user as set by the authenticate middleware
+ * @param {string} category - Ticket category
+ * @returns {boolean}
+ */
+const canAccessCategory = (user, category) => {
+  const allowed = user.role === 'owner' ? [] : user.allowedCategories || [];
+  return allowed.length === 0 || allowed.includes(category);
+};
+
+/**
+ * Build the query for staff accounts working at the user's current property:
+ * the owner's team, minus anyone limited to other properties in the group.
+ * @param {Object} user - req.user as set by the authenticate middleware
+ * @param {Object} [filters={}] - Additional query conditions
+ * @returns {Object} - Mongoose query conditions
+ */
+const staffScope = (user, filters = {}) => ({
+  ...filters,
+  $and: [
+    { $or: [{ _id: user.managerId }, { hotelOwner: user.managerId }] },
+    { $or: [{ 'hotels.0': { $exists: false } }, { hotels: user.hotelId }] },
+  ],
+});
+
+/**
+ * Check whether every property in a list is one the user may work in
+ * @param {Object} user - req.user as set by the authenticate middleware
+ * @param {string[]} hotelIds - Property ids
+ * @returns {boolean}
+ */
+const canAccessHotels = (user, hotelIds) => {
+  const allowed = (user.hotelIds || []).map(String);
+  return hotelIds.every((hotelId) => allowed.includes(String(hotelId)));
+};
+
+module.exports = {
+  ticketScope,
+  canAccessCategory,
+  staffScope,
+  canAccessHotels,
+};
@@ -0,0 +1,33 @@
+/**
+ * Count failed attempts per key (e.g. client IP) in a sliding window, in
+ * memory. Pairs with the per-room lockout so one client can't work through
+ * PINs across many rooms.
+ * @param {Object} options
+ * @param {number} options.maxFailures - Failures allowed within the window
+ * @param {number} options.windowMs - Window length
+ * @returns {{ isBlocked: Function, recordFailure: Function }}
+ */
+const createAttemptLimiter = ({ maxFailures, windowMs }) => {
+  const failures = new Map();
+
+  const recent = (key, now) => (failures.get(key) || []).filter((at) => now - at < windowMs);
+
+  const isBlocked = (key, now = Date.now()) => recent(key, now).length >= maxFailures;
+
+  const recordFailure = (key, now = Date.now()) => {
+    failures.set(key, [...recent(key, now), now]);
+
+    // Drop clients that have gone quiet so the map doesn't grow forever
+    if (failures.size > 10000) {
+      failures.forEach((times, client) => {
+        if (recent(client, now).length === 0) failures.delete(client);
+      });
+    }
+  };
+
+  return { isBlocked, recordFailure };
+};
+
+module.exports = {
+  createAttemptLimiter,
+};
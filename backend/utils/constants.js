@@ -0,0 +1,82 @@
+// Shared enums used by models, controllers and middleware
+
+// Service departments a ticket can be routed to
+const TICKET_CATEGORIES = [
+  'reception',
+  'housekeeping',
+  'porter',
+  'concierge',
+  'service_fb',
+  'maintenance',
+];
+
+// Ticket priorities, from least to most urgent
+const TICKET_PRIORITIES = ['low', 'medium', 'high'];
+
+// Fallback SLA targets (in minutes) when a hotel has not configured a policy
+const DEFAULT_SLA_MINUTES = {
+  low: { acknowledge: 60, resolve: 24 * 60 },
+  medium: { acknowledge: 15, resolve: 4 * 60 },
+  high: { acknowledge: 5, resolve: 60 },
+};
+
+// Escalation rules, checked in order on every run; afterMinutes is the
+// default a hotel can override (see models/EscalationPolicy).
+// Each rule fires at most once per ticket while it stays in the same status.
+const ESCALATION_RULES = [
+  {
+    id: 'raised_unacknowledged',
+    description: 'Raised without being picked up',
+    status: 'raised',
+    afterMinutes: 10,
+    bumpPriority: true,
+    notify: 'supervisors',
+  },
+  {
+    id: 'in_progress_stalled',
+    description: 'In progress without being resolved',
+    status: 'in_progress',
+    afterMinutes: 120,
+    bumpPriority: false,
+    notify: 'managers',
+  },
+];
+
+// How far back an open ticket in the same room and category counts as a duplicate
+const DUPLICATE_WINDOW_MINUTES = 60;
+
+// Guest message classifiers a hotel can chain together (see services/classification)
+const CLASSIFIER_PROVIDERS = ['remote', 'local'];
+
+// Kinds of reply staff can ask the suggestion engine for (see services/replySuggestions)
+const REPLY_SUGGESTION_TYPES = ['acknowledge', 'eta', 'apology', 'completion'];
+
+// Kinds of hotel knowledge base entries the assistant answers from
+const KNOWLEDGE_TOPICS = ['faq', 'hours', 'amenity', 'policy'];
+
+// Staff roles, from most to least privileged
+const STAFF_ROLES = ['owner', 'manager', 'supervisor', 'staff'];
+
+// Roles allowed to manage rooms, staff and hotel settings
+const MANAGEMENT_ROLES = ['owner', 'manager'];
+
+// Booking lifecycle: confirmed -> checked_in -> completed, or cancelled / no-show
+const BOOKING_STATUSES = ['confirmed', 'checked_in', 'completed', 'cancelled', 'no-show'];
+
+// Bookings that hold their room for their dates
+const ROOM_HOLDING_BOOKING_STATUSES = ['confirmed', 'checked_in', 'completed'];
+
+module.exports = {
+  TICKET_CATEGORIES,
+  TICKET_PRIORITIES,
+  DEFAULT_SLA_MINUTES,
+  ESCALATION_RULES,
+  DUPLICATE_WINDOW_MINUTES,
+  CLASSIFIER_PROVIDERS,
+  REPLY_SUGGESTION_TYPES,
+  KNOWLEDGE_TOPICS,
+  STAFF_ROLES,
+  MANAGEMENT_ROLES,
+  BOOKING_STATUSES,
+  ROOM_HOLDING_BOOKING_STATUSES,
+};
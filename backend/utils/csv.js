@@ -0,0 +1,80 @@
+/**
+ * Quote a value for a CSV cell when it contains a separator, quote or newline
+ * @param {*} value
+ * @returns {string}
+ */
+const csvCell = (value) => {
+  const text = value == null ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Build a CSV document with a header row
+ * @param {string[]} columns - Header names, also the keys read from each row
+ * @param {Object[]} rows
+ * @returns {string}
+ */
+const toCsv = (columns, rows) =>
+  [columns.join(','), ...rows.map((row) => columns.map((column) => csvCell(row[column])).join(','))].join(
+    '\n'
+  );
+
+/**
+ * Parse a CSV document whose first row names the columns. Quoted cells may
+ * contain commas, doubled quotes and newlines; blank lines are skipped.
+ * @param {string} text
+ * @returns {Object[]} - One object per data row, keyed by trimmed lowercase header
+ */
+const parseCsv = (text) => {
+  const records = [];
+  let record = [];
+  let cell = '';
+  let inQuotes = false;
+
+  const endCell = () => {
+    record.push(cell);
+    cell = '';
+  };
+  const endRecord = () => {
+    endCell();
+    if (record.some((value) => value.trim() !== '')) records.push(record);
+    record = [];
+  };
+
+  const source = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      endCell();
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endRecord();
+    } else {
+      cell += char;
+    }
+  }
+  endRecord();
+
+  const [header = [], ...rows] = records;
+  const columns = header.map((column) => column.trim().toLowerCase());
+  return rows.map((values) =>
+    Object.fromEntries(columns.map((column, index) => [column, (values[index] || '').trim()]))
+  );
+};
+
+module.exports = {
+  csvCell,
+  toCsv,
+  parseCsv,
+};
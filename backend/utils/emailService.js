@@ -136,6 +136,44 @@ const sendOTPEmail = async (email, otp, type) => {
         `;
         break;
 
+      case 'staff_invite': {
+        const frontendUrl = process.env.FRONTEND_URL || 'https://hotelflow-frontend-three.vercel.app';
+        const acceptUrl = `${frontendUrl}/auth/accept-invite?email=${encodeURIComponent(email)}`;
+        subject = 'You have been invited to GuestFlow';
+        htmlContent = `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+            <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
+              <h1 style="margin: 0; font-size: 28px;">GuestFlow</h1>
+              <p style="margin: 10px 0 0 0; opacity: 0.9;">Hotel Management System</p>
+            </div>
+            <div style="background: #f8f9fa; padding: 30px; border-radius: 0 0 10px 10px;">
+              <h2 style="color: #333; margin-bottom: 20px;">Join Your Hotel Team</h2>
+              <p style="color: #666; line-height: 1.6; margin-bottom: 25px;">
+                You've been invited to join your hotel's team on GuestFlow. Open the link below and enter this invitation code to set up your account:
+              </p>
+              <div style="background: white; border: 2px dashed #667eea; border-radius: 8px; padding: 20px; text-align: center; margin: 25px 0;">
+                <div style="font-size: 32px; font-weight: bold; color: #667eea; letter-spacing: 8px; font-family: 'Courier New', monospace;">
+                  ${otp}
+                </div>
+                <p style="color: #999; font-size: 14px; margin: 10px 0 0 0;">Valid for 7 days</p>
+              </div>
+              <div style="text-align: center; margin: 25px 0;">
+                <a href="${acceptUrl}" style="background: #667eea; color: white; padding: 12px 24px; border-radius: 6px; text-decoration: none; font-weight: bold;">Accept Invitation</a>
+              </div>
+              <p style="color: #666; font-size: 14px; margin-top: 25px;">
+                If you weren't expecting this invitation, you can safely ignore this email.
+              </p>
+              <div style="margin-top: 30px; padding-top: 20px; border-top: 1px solid #eee; text-align: center;">
+                <p style="color: #999; font-size: 12px;">
+                  © ${new Date().getFullYear()} GuestFlow. All rights reserved.
+                </p>
+              </div>
+            </div>
+          </div>
+        `;
+        break;
+      }
+
       default:
         throw new Error('Invalid OTP type');
     }
@@ -0,0 +1,144 @@
+const crypto = require('crypto');
+const jwt = require('jsonwebtoken');
+
+// How long a guest chat session stays valid
+const GUEST_SESSION_HOURS = 72;
+
+// How long a printed room QR code keeps working before it must be reissued
+const ROOM_ACCESS_DAYS = 365;
+
+// Audiences that keep guest and QR code tokens from being used anywhere else,
+// in particular as a staff login (see utils/staffToken.js)
+const GUEST_TOKEN_AUDIENCE = 'guest';
+const ROOM_ACCESS_AUDIENCE = 'room_access';
+
+// Digits in the optional PIN handed to a guest at check-in
+const STAY_PIN_LENGTH = 6;
+
+// Wrong PINs a room accepts before it stops taking guesses for a while
+const MAX_STAY_PIN_ATTEMPTS = 5;
+const STAY_PIN_LOCKOUT_MINUTES = 15;
+
+/**
+ * Issue a token for a new guest chat session in a room.
+ * The session id ties together every ticket raised from the same browser.
+ * @param {Object} hotel - Hotel document the room belongs to
+ * @param {Object} room - Room document the guest scanned into
+ * @param {string} guestName - Name the guest gave (or a room placeholder)
+ * @returns {{ token: string, session: Object }}
+ */
+const createGuestSession = (hotel, room, guestName) => {
+  const session = {
+    sessionId: crypto.randomUUID(),
+    hotelId: String(hotel._id),
+    hotelSlug: hotel.slug,
+    roomId: String(room._id),
+    roomNumber: room.number,
+    managerId: String(room.manager),
+    guestName,
+    // Compared with the room's qrRotatedAt; the JWT iat is only to the second
+    issuedAt: Date.now(),
+  };
+
+  const token = jwt.sign({ ...session, type: 'guest' }, process.env.JWT_SECRET, {
+    expiresIn: `${GUEST_SESSION_HOURS}h`,
+    audience: GUEST_TOKEN_AUDIENCE,
+  });
+
+  return {
+    token,
+    session: {
+      ...session,
+      expiresAt: new Date(Date.now() + GUEST_SESSION_HOURS * 60 * 60 * 1000),
+    },
+  };
+};
+
+/**
+ * Decode a guest token
+ * @param {string} token - Token from createGuestSession
+ * @returns {Object|null} - The session, or null if the token is missing, invalid, not a guest
+ *   token or was issued before sessions were tied to a hotel
+ */
+const verifyGuestToken = (token) => {
+  if (!token) return null;
+
+  try {
+    const decoded = jwt.verify(token, process.env.JWT_SECRET, { audience: GUEST_TOKEN_AUDIENCE });
+    if (decoded.type !== 'guest' || !decoded.sessionId || !decoded.hotelId) return null;
+
+    const { sessionId, hotelId, hotelSlug, roomId, roomNumber, managerId, guestName } = decoded;
+    const issuedAt = decoded.issuedAt || 0;
+    return { sessionId, hotelId, hotelSlug, roomId, roomNumber, managerId, guestName, issuedAt };
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Sign the access token printed on a room's QR code. Only the QR code's
+ * random token is carried; the room and hotel are looked up from it, so a
+ * revoked or replaced QR code stops working even before the signature expires.
+ * @param {Object} qrCode - QRCode document for the room
+ * @returns {string}
+ */
+const signRoomAccessToken = (qrCode) => {
+  const secondsLeft = Math.floor((new Date(qrCode.expiresAt).getTime() - Date.now()) / 1000);
+
+  return jwt.sign({ type: 'room_access', token: qrCode.token }, process.env.JWT_SECRET, {
+    expiresIn: Math.max(secondsLeft, 1),
+    audience: ROOM_ACCESS_AUDIENCE,
+  });
+};
+
+/**
+ * Decode a room access token from a QR code link
+ * @param {string} accessToken - Token from signRoomAccessToken
+ * @returns {string|null} - The QR code's token, or null if the access token is
+ *   missing, forged, expired or of another type
+ */
+const verifyRoomAccessToken = (accessToken) => {
+  if (!accessToken || typeof accessToken !== 'string') return null;
+
+  try {
+    // QR codes printed before the audience was added carry only the type
+    const decoded = jwt.verify(accessToken, process.env.JWT_SECRET);
+    if (decoded.aud !== undefined && decoded.aud !== ROOM_ACCESS_AUDIENCE) return null;
+    return decoded.type === 'room_access' && decoded.token ? decoded.token : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Random numeric PIN for a stay
+ * @returns {string}
+ */
+const generateStayPin = () =>
+  String(crypto.randomInt(0, 10 ** STAY_PIN_LENGTH)).padStart(STAY_PIN_LENGTH, '0');
+
+/**
+ * Compare a PIN the guest entered with the room's, in constant time
+ * @param {string} expected - Room's stay PIN
+ * @param {*} given - What the guest entered
+ * @returns {boolean}
+ */
+const stayPinMatches = (expected, given) => {
+  const a = Buffer.from(String(expected));
+  const b = Buffer.from(String(given == null ? '' : given));
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+};
+
+module.exports = {
+  GUEST_SESSION_HOURS,
+  ROOM_ACCESS_DAYS,
+  STAY_PIN_LENGTH,
+  MAX_STAY_PIN_ATTEMPTS,
+  STAY_PIN_LOCKOUT_MINUTES,
+  generateStayPin,
+  stayPinMatches,
+  createGuestSession,
+  verifyGuestToken,
+  signRoomAccessToken,
+  verifyRoomAccessToken,
+};
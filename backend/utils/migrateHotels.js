@@ -0,0 +1,82 @@
+const mongoose = require('mongoose');
+const dotenv = require('dotenv');
+const User = require('../models/User');
+const Hotel = require('../models/Hotel');
+const Room = require('../models/Room');
+const Ticket = require('../models/Ticket');
+const ChatSession = require('../models/ChatSession');
+const QRCode = require('../models/QRCode');
+const SlaPolicy = require('../models/SlaPolicy');
+const ClassifierSettings = require('../models/ClassifierSettings');
+const KnowledgeEntry = require('../models/KnowledgeEntry');
+const CannedResponse = require('../models/CannedResponse');
+const ArchivedTicket = require('../models/ArchivedTicket');
+const RetentionPolicy = require('../models/RetentionPolicy');
+const ClassificationFeedback = require('../models/ClassificationFeedback');
+
+// Load environment variables
+dotenv.config();
+
+// Collections that were scoped by owner account before they belonged to a hotel
+const OWNER_SCOPED = [
+  Room,
+  Ticket,
+  ChatSession,
+  SlaPolicy,
+  ClassifierSettings,
+  KnowledgeEntry,
+  CannedResponse,
+  ArchivedTicket,
+  RetentionPolicy,
+  ClassificationFeedback,
+];
+
+/**
+ * Give every owner account a hotel and move its rooms, tickets, archive, chat
+ * sessions and settings into it, then rebuild indexes so room numbers and
+ * settings are unique per hotel instead of per account. Safe to run more
+ * than once.
+ */
+const migrateHotels = async () => {
+  try {
+    await mongoose.connect(process.env.MONGODB_URI);
+    console.log('✅ Connected to MongoDB');
+
+    const owners = await User.find({ hotelOwner: null });
+
+    // Archived tickets already know their hotel from the ticket they were taken from
+    const archivedResult = await ArchivedTicket.updateMany(
+      { hotel: { $exists: false }, 'snapshot.hotel': { $exists: true } },
+      [{ $set: { hotel: '$snapshot.hotel' } }]
+    );
+    if (archivedResult.modifiedCount > 0) {
+      console.log(`🗄️ Matched ${archivedResult.modifiedCount} archived ticket(s) to their hotel`);
+    }
+
+    for (const owner of owners) {
+      const hotel = await Hotel.findOrCreateForOwner(owner._id, owner.hotelName);
+
+      for (const Model of OWNER_SCOPED) {
+        const result = await Model.updateMany(
+          { manager: owner._id, hotel: { $exists: false } },
+          { $set: { hotel: hotel._id } }
+        );
+        if (result.modifiedCount > 0) {
+          console.log(`🏨 ${hotel.slug}: moved ${result.modifiedCount} ${Model.modelName} document(s)`);
+        }
+      }
+    }
+
+    for (const Model of [...OWNER_SCOPED, QRCode, Hotel]) {
+      await Model.syncIndexes();
+    }
+
+    console.log(`✅ Migrated ${owners.length} hotel(s)`);
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Hotel migration failed:', error);
+    process.exit(1);
+  }
+};
+
+migrateHotels();
@@ -0,0 +1,90 @@
+const dns = require('dns');
+const net = require('net');
+
+// Addresses a hotel-supplied endpoint must never reach: this host, the
+// private network and cloud metadata services
+const blockedAddresses = new net.BlockList();
+[
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+].forEach(([network, prefix]) => blockedAddresses.addSubnet(network, prefix, 'ipv4'));
+[
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+].forEach(([network, prefix]) => blockedAddresses.addSubnet(network, prefix, 'ipv6'));
+
+/**
+ * Whether an IP address is on the public internet
+ * @param {string} address - IPv4 or IPv6 address
+ * @returns {boolean}
+ */
+const isPublicAddress = (address) => {
+  // IPv4-mapped IPv6, e.g. ::ffff:127.0.0.1
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  const ip = mapped ? mapped[1] : address;
+  const family = net.isIP(ip);
+  if (!family) return false;
+  return !blockedAddresses.check(ip, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+/**
+ * dns.lookup that refuses non-public addresses. Used as the socket lookup,
+ * so the address checked is the one actually connected to.
+ */
+const publicLookup = (hostname, options, callback) => {
+  dns.lookup(hostname, options, (error, address, family) => {
+    if (error) return callback(error);
+
+    const addresses = Array.isArray(address) ? address : [{ address, family }];
+    if (addresses.length === 0 || !addresses.every((entry) => isPublicAddress(entry.address))) {
+      return callback(new Error(`${hostname} does not resolve to a public address`));
+    }
+    return callback(null, address, family);
+  });
+};
+
+/**
+ * Check that a URL is https and only resolves to public addresses
+ * @param {string} value - URL to check
+ * @returns {Promise<true>} - Rejects with a message fit for a validation error
+ */
+const checkPublicHttpsUrl = async (value) => {
+  let url;
+  try {
+    url = new URL(value);
+  } catch (error) {
+    throw new Error('Must be a valid URL');
+  }
+  if (url.protocol !== 'https:') {
+    throw new Error('Must use https');
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  let addresses;
+  try {
+    addresses = await dns.promises.lookup(hostname, { all: true });
+  } catch (error) {
+    throw new Error(`Could not resolve ${hostname}`);
+  }
+  if (!addresses.every((entry) => isPublicAddress(entry.address))) {
+    throw new Error('Must point to a public address');
+  }
+  return true;
+};
+
+module.exports = {
+  isPublicAddress,
+  publicLookup,
+  checkPublicHttpsUrl,
+};
@@ -1,5 +1,7 @@
 const QRCode = require('qrcode');
 const crypto = require('crypto');
+const RoomQRCode = require('../models/QRCode');
+const { ROOM_ACCESS_DAYS, signRoomAccessToken } = require('./guestToken');
 
 /**
  * Generate a QR code image as a data URL
@@ -72,7 +74,53 @@ const generateGuestToken = (data, expiresIn = '24h') => {
   };
 };
 
+/**
+ * Guest link for a room, as printed on its QR code
+ * @param {string} hotelSlug - Slug of the hotel the room belongs to
+ * @param {string} roomNumber - Room number
+ * @param {string} [accessToken] - Signed room access token the guest page exchanges for a session
+ * @returns {string} - Absolute URL of the guest page
+ */
+const buildRoomUrl = (hotelSlug, roomNumber, accessToken) => {
+  const frontendUrl = process.env.FRONTEND_URL || 'https://hotelflow-frontend-three.vercel.app';
+  const roomUrl = `${frontendUrl}/hotel/${encodeURIComponent(hotelSlug)}/${encodeURIComponent(roomNumber)}`;
+  return accessToken ? `${roomUrl}?t=${encodeURIComponent(accessToken)}` : roomUrl;
+};
+
+/**
+ * Issue a new access token for a room and point its QR code at the guest page
+ * with that token. Codes issued for the room before, and guest sessions
+ * started from them, stop working.
+ * @param {Object} room - Room document; qrCode and qrCodeUrl are set, the caller saves it
+ * @param {Object} user - req.user of the staff member issuing the code
+ * @param {number} [daysValid=ROOM_ACCESS_DAYS] - How long the code keeps working
+ * @returns {Promise<Object>} - The QRCode document holding the new access token
+ */
+const attachRoomQRCode = async (room, user, daysValid = ROOM_ACCESS_DAYS) => {
+  const access = await RoomQRCode.generateForRoom(
+    room.number,
+    user.hotelId,
+    String(user.userId),
+    daysValid
+  );
+  const roomUrl = buildRoomUrl(user.hotelSlug, room.number, signRoomAccessToken(access));
+
+  room.qrCode = await QRCode.toDataURL(roomUrl, {
+    width: 300,
+    margin: 2,
+    color: {
+      dark: '#000000',
+      light: '#FFFFFF'
+    }
+  });
+  room.qrCodeUrl = roomUrl;
+  room.qrRotatedAt = access.createdAt;
+  return access;
+};
+
 module.exports = {
+  buildRoomUrl,
+  attachRoomQRCode,
   generateQRCode,
   generateToken,
   generateGuestToken,
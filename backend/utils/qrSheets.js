@@ -0,0 +1,167 @@
+const { PAGE_SIZES, measureText, wrapText } = require('./vectorDocument');
+
+const SHEET_LAYOUTS = ['grid', 'door-hanger', 'table-tent'];
+
+const SHEET_FORMATS = ['pdf', 'svg'];
+
+const MAX_SHEET_ROOMS = 500;
+
+const DEFAULT_INSTRUCTIONS =
+  'Scan with your phone camera to chat with us and request anything you need during your stay.';
+
+const TEXT_COLOR = '#4b5563';
+const CUT_LINE_COLOR = '#d1d5db';
+
+// Shrink a single line until it fits, then cut it short as a last resort
+const fitText = (text, size, maxWidth, bold) => {
+  let fitted = size;
+  while (fitted > 6 && measureText(text, fitted, bold) > maxWidth) fitted -= 0.5;
+
+  let line = text;
+  while (line.length > 1 && measureText(line, fitted, bold) > maxWidth) {
+    line = `${line.slice(0, -4)}...`;
+  }
+  return { text: line, size: fitted };
+};
+
+// Centred paragraph, one text shape per line
+const paragraph = (text, { x, y, size, width, lineHeight, maxLines, align = 'center' }) =>
+  wrapText(text, size, width)
+    .slice(0, maxLines)
+    .map((line, index) => ({
+      type: 'text',
+      x,
+      y: y + index * lineHeight,
+      text: line,
+      size,
+      color: TEXT_COLOR,
+      align,
+    }));
+
+// Measured against Helvetica; the extra padding covers SVG viewers that fall
+// back to a wider sans-serif
+const banner = (hotelName, { x, y, width, height, size, accentColor }) => {
+  const title = fitText(hotelName, size, width - 36, true);
+  return [
+    { type: 'rect', x, y, width, height, fill: accentColor },
+    {
+      type: 'text',
+      x: x + width / 2,
+      y: y + height / 2 + title.size * 0.35,
+      text: title.text,
+      size: title.size,
+      color: '#ffffff',
+      bold: true,
+      align: 'center',
+    },
+  ];
+};
+
+// A4 page of 3 x 4 cards with dashed cut lines
+const gridLayout = ({ hotelName, rooms, primaryColor, accentColor, instructions }) => {
+  const { width, height } = PAGE_SIZES.a4;
+  const margin = 36;
+  const gap = 12;
+  const columns = 3;
+  const rows = 4;
+  const cardWidth = (width - margin * 2 - gap * (columns - 1)) / columns;
+  const cardHeight = (height - margin * 2 - gap * (rows - 1)) / rows;
+  const qrSize = 104;
+  const perPage = columns * rows;
+
+  const pages = [];
+  for (let start = 0; start < rooms.length; start += perPage) {
+    const shapes = rooms.slice(start, start + perPage).flatMap((room, index) => {
+      const x = margin + (index % columns) * (cardWidth + gap);
+      const y = margin + Math.floor(index / columns) * (cardHeight + gap);
+      const centre = x + cardWidth / 2;
+
+      return [
+        { type: 'rect', x, y, width: cardWidth, height: cardHeight, stroke: CUT_LINE_COLOR, dash: true },
+        ...banner(hotelName, { x, y, width: cardWidth, height: 24, size: 9, accentColor }),
+        { type: 'qr', x: centre - qrSize / 2, y: y + 32, size: qrSize, url: room.url, color: primaryColor },
+        { type: 'text', x: centre, y: y + 154, text: `Room ${room.number}`, size: 14, color: primaryColor, bold: true, align: 'center' },
+        ...paragraph(instructions, { x: centre, y: y + 166, size: 6.5, width: cardWidth - 16, lineHeight: 8, maxLines: 2 }),
+      ];
+    });
+    pages.push({ width, height, shapes });
+  }
+  return pages;
+};
+
+// One 3.5 x 8.5 in hanger per page, with the cut-out for the door handle
+const doorHangerLayout = ({ hotelName, rooms, primaryColor, accentColor, instructions }) => {
+  const { width, height } = PAGE_SIZES.doorHanger;
+  const centre = width / 2;
+  const qrSize = 170;
+
+  return rooms.map((room) => ({
+    width,
+    height,
+    shapes: [
+      { type: 'rect', x: 6, y: 6, width: width - 12, height: height - 12, stroke: CUT_LINE_COLOR, dash: true },
+      { type: 'circle', cx: centre, cy: 66, r: 34, stroke: CUT_LINE_COLOR },
+      { type: 'line', x1: centre, y1: 6, x2: centre, y2: 32, stroke: CUT_LINE_COLOR, dash: true },
+      ...banner(hotelName, { x: 6, y: 120, width: width - 12, height: 44, size: 14, accentColor }),
+      { type: 'qr', x: centre - qrSize / 2, y: 188, size: qrSize, url: room.url, color: primaryColor },
+      { type: 'text', x: centre, y: 392, text: `Room ${room.number}`, size: 24, color: primaryColor, bold: true, align: 'center' },
+      ...paragraph(instructions, { x: centre, y: 420, size: 10, width: 200, lineHeight: 14, maxLines: 5 }),
+      { type: 'rect', x: 6, y: height - 16, width: width - 12, height: 10, fill: accentColor },
+    ],
+  }));
+};
+
+// A4 folded in half: the bottom panel reads upright and the top panel is the
+// same design upside down, so both sides face a guest once it stands on a table
+const tableTentLayout = ({ hotelName, rooms, primaryColor, accentColor, instructions }) => {
+  const { width, height } = PAGE_SIZES.a4;
+  const fold = height / 2;
+  const qrSize = 220;
+
+  return rooms.map((room) => {
+    const panel = [
+      ...banner(hotelName, { x: 36, y: fold + 36, width: width - 72, height: 40, size: 18, accentColor }),
+      { type: 'qr', x: 56, y: fold + 100, size: qrSize, url: room.url, color: primaryColor },
+      { type: 'text', x: 300, y: fold + 160, text: `Room ${room.number}`, size: 30, color: primaryColor, bold: true },
+      ...paragraph(instructions, { x: 300, y: fold + 195, size: 13, width: 250, lineHeight: 18, maxLines: 6, align: 'left' }),
+    ];
+
+    return {
+      width,
+      height,
+      shapes: [
+        { type: 'line', x1: 0, y1: fold, x2: width, y2: fold, stroke: CUT_LINE_COLOR, dash: true },
+        ...panel,
+        { type: 'group', rotate: 180, cx: width / 2, cy: fold, children: panel },
+      ],
+    };
+  });
+};
+
+const LAYOUT_BUILDERS = {
+  grid: gridLayout,
+  'door-hanger': doorHangerLayout,
+  'table-tent': tableTentLayout,
+};
+
+/**
+ * Lay out printable QR code pages for rooms
+ * @param {Object} options
+ * @param {string} options.layout - One of SHEET_LAYOUTS
+ * @param {string} options.hotelName - Printed in the banner on every code
+ * @param {Array<{number: string, url: string}>} options.rooms - Rooms in print order with their guest links
+ * @param {string} options.primaryColor - QR code and room number colour
+ * @param {string} options.accentColor - Banner colour
+ * @param {string} [options.instructions] - Short text printed under each code
+ * @returns {Array<{width: number, height: number, shapes: Object[]}>} - Pages for renderPdf/renderSvg
+ */
+const buildQRSheets = ({ layout, instructions, ...options }) =>
+  LAYOUT_BUILDERS[layout]({ ...options, instructions: instructions || DEFAULT_INSTRUCTIONS });
+
+module.exports = {
+  SHEET_LAYOUTS,
+  SHEET_FORMATS,
+  MAX_SHEET_ROOMS,
+  DEFAULT_INSTRUCTIONS,
+  buildQRSheets,
+};
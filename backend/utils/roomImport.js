@@ -0,0 +1,67 @@
+const ROOM_STATUSES = ['available', 'occupied', 'maintenance'];
+
+const MAX_IMPORT_ROWS = 1000;
+
+// Columns written by the export and read back by the import
+const ROOM_EXPORT_COLUMNS = ['number', 'type', 'floor', 'status', 'qrCodeUrl'];
+
+/**
+ * Check rows from an import file before any room is created.
+ * @param {Object[]} rows - Parsed CSV or JSON rows
+ * @param {Iterable<string>} existingNumbers - Room numbers the hotel already uses
+ * @returns {Array<{row: number, room: Object|null, errors: string[]}>} - row is
+ *   1-based, counting data rows only; room is set when the row can be imported
+ */
+const validateRoomRows = (rows, existingNumbers) => {
+  const existing = new Set(existingNumbers);
+  const seen = new Map();
+
+  return rows.map((raw, index) => {
+    const errors = [];
+    const number = String(raw.number ?? '').trim();
+    const type = String(raw.type ?? '').trim();
+    const floorText = String(raw.floor ?? '').trim();
+    const status = String(raw.status ?? '').trim().toLowerCase() || 'available';
+    const floor = Number(floorText);
+
+    if (!number) {
+      errors.push('Room number is required');
+    } else if (!/^[0-9A-Za-z-]+$/.test(number)) {
+      errors.push('Room number can only contain letters, numbers, and hyphens');
+    } else if (seen.has(number)) {
+      errors.push(`Duplicate of row ${seen.get(number)}`);
+    } else if (existing.has(number)) {
+      errors.push(`Room ${number} already exists`);
+    }
+    if (number && !seen.has(number)) seen.set(number, index + 1);
+
+    if (!type) {
+      errors.push('Room type is required');
+    } else if (type.length > 50) {
+      errors.push('Room type must be less than 50 characters');
+    }
+
+    if (!floorText) {
+      errors.push('Floor is required');
+    } else if (!Number.isInteger(floor) || floor < 1 || floor > 200) {
+      errors.push('Floor must be a number between 1 and 200');
+    }
+
+    if (!ROOM_STATUSES.includes(status)) {
+      errors.push(`Invalid status "${raw.status}"`);
+    }
+
+    return {
+      row: index + 1,
+      room: errors.length === 0 ? { number, type, floor, status } : null,
+      errors,
+    };
+  });
+};
+
+module.exports = {
+  ROOM_STATUSES,
+  MAX_IMPORT_ROWS,
+  ROOM_EXPORT_COLUMNS,
+  validateRoomRows,
+};
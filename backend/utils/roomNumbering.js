@@ -0,0 +1,61 @@
+// How room numbers are built when rooms are generated in bulk
+//   floor:      floor number followed by a two-digit index (101, 102 ... 201)
+//   sequential: one running count across the building (1, 2 ... 40)
+const NUMBERING_SCHEMES = ['floor', 'sequential'];
+
+const MAX_GENERATED_ROOMS = 1000;
+
+/**
+ * Lay out the rooms for a building from a numbering pattern.
+ * @param {Object} layout
+ * @param {number} layout.startFloor - Lowest floor with guest rooms
+ * @param {number} layout.floors - How many floors, counting up from startFloor
+ * @param {number} layout.roomsPerFloor - Rooms on every floor
+ * @param {string} [layout.scheme='floor'] - One of NUMBERING_SCHEMES
+ * @param {string} [layout.prefix=''] - Put in front of every number, e.g. "A-"
+ * @param {Array<{type: string, count: number}>} layout.types - Room types in
+ *   the order they appear along each floor; counts must add up to roomsPerFloor
+ * @returns {Array<{number: string, floor: number, type: string}>}
+ */
+const generateRoomLayout = ({
+  startFloor,
+  floors,
+  roomsPerFloor,
+  scheme = 'floor',
+  prefix = '',
+  types,
+}) => {
+  if (!NUMBERING_SCHEMES.includes(scheme)) {
+    throw new Error(`Unknown numbering scheme "${scheme}"`);
+  }
+  if (floors * roomsPerFloor > MAX_GENERATED_ROOMS) {
+    throw new Error(`Cannot generate more than ${MAX_GENERATED_ROOMS} rooms at once`);
+  }
+  if (types.reduce((sum, { count }) => sum + count, 0) !== roomsPerFloor) {
+    throw new Error('Room type counts must add up to the rooms per floor');
+  }
+  if (scheme === 'floor' && roomsPerFloor > 99) {
+    throw new Error('Floor numbering supports at most 99 rooms per floor');
+  }
+
+  // Room type for each position along a floor
+  const typeAt = types.flatMap(({ type, count }) => Array(count).fill(type));
+
+  const rooms = [];
+  for (let floor = startFloor; floor < startFloor + floors; floor++) {
+    for (let index = 1; index <= roomsPerFloor; index++) {
+      const number =
+        scheme === 'floor'
+          ? `${floor}${String(index).padStart(2, '0')}`
+          : String(rooms.length + 1);
+      rooms.push({ number: `${prefix}${number}`, floor, type: typeAt[index - 1] });
+    }
+  }
+  return rooms;
+};
+
+module.exports = {
+  NUMBERING_SCHEMES,
+  MAX_GENERATED_ROOMS,
+  generateRoomLayout,
+};
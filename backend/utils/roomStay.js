@@ -0,0 +1,39 @@
+const { attachRoomQRCode } = require('./qrGenerator');
+const { generateStayPin } = require('./guestToken');
+
+// A new PIN, or none, starts with a clean slate
+const resetPinAttempts = (room) => {
+  room.stayPinAttempts = 0;
+  room.stayPinLockedUntil = null;
+};
+
+/**
+ * Side effects of a room becoming occupied; the caller sets the status and saves.
+ * @param {Object} room - Room document
+ * @param {boolean} requirePin - Hand the guest a PIN to enter with the QR code
+ * @returns {Object} - The room
+ */
+const startStay = (room, requirePin) => {
+  room.stayPin = requirePin ? generateStayPin() : null;
+  resetPinAttempts(room);
+  return room;
+};
+
+/**
+ * Side effects of a guest leaving; the caller sets the status and saves.
+ * The departing guest's QR link and sessions stop working.
+ * @param {Object} room - Room document
+ * @param {Object} user - req.user of the staff member checking the guest out
+ * @returns {Promise<Object>} - The room
+ */
+const endStay = async (room, user) => {
+  await attachRoomQRCode(room, user);
+  room.stayPin = null;
+  resetPinAttempts(room);
+  return room;
+};
+
+module.exports = {
+  startStay,
+  endStay,
+};
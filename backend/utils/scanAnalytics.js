@@ -0,0 +1,63 @@
+// Device classes recorded for each QR code scan
+const DEVICE_CLASSES = ['mobile', 'tablet', 'desktop', 'unknown'];
+
+// Adoption funnel, in order: a scan of the room's code, a message to the
+// assistant, a service request and the request being finished
+const FUNNEL_STEPS = ['scans', 'chats', 'tickets', 'completed'];
+
+/**
+ * Rough device class from a browser's user agent
+ * @param {string} userAgent - User-Agent request header
+ * @returns {string} - One of DEVICE_CLASSES
+ */
+const classifyDevice = (userAgent) => {
+  const agent = String(userAgent || '').toLowerCase();
+  if (!agent) return 'unknown';
+  if (/ipad|tablet|kindle|silk|playbook/.test(agent) || (/android/.test(agent) && !/mobile/.test(agent))) {
+    return 'tablet';
+  }
+  if (/mobi|iphone|ipod|android|windows phone/.test(agent)) return 'mobile';
+  return 'desktop';
+};
+
+/**
+ * Add up the funnel counts of several rows
+ * @param {Object[]} rows - Rows with a count for each of FUNNEL_STEPS
+ * @returns {{scans: number, chats: number, tickets: number, completed: number}}
+ */
+const sumFunnel = (rows) =>
+  FUNNEL_STEPS.reduce(
+    (totals, step) => ({ ...totals, [step]: rows.reduce((sum, row) => sum + (row[step] || 0), 0) }),
+    {}
+  );
+
+/**
+ * Roll per-room funnels up to one funnel per floor
+ * @param {Object[]} rooms - Per-room rows with a floor and FUNNEL_STEPS counts
+ * @returns {Object[]} - One row per floor, lowest first, with how many of its
+ *   rooms have been scanned at least once
+ */
+const summarizeFloors = (rooms) => {
+  const floors = new Map();
+  rooms.forEach((room) => {
+    if (!floors.has(room.floor)) floors.set(room.floor, []);
+    floors.get(room.floor).push(room);
+  });
+
+  return [...floors.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([floor, floorRooms]) => ({
+      floor,
+      rooms: floorRooms.length,
+      roomsScanned: floorRooms.filter((room) => room.scans > 0).length,
+      ...sumFunnel(floorRooms),
+    }));
+};
+
+module.exports = {
+  DEVICE_CLASSES,
+  FUNNEL_STEPS,
+  classifyDevice,
+  sumFunnel,
+  summarizeFloors,
+};
@@ -3,6 +3,8 @@ const { createClient } = require('@supabase/supabase-js');
 const dotenv = require('dotenv');
 const bcrypt = require('bcryptjs');
 const Hotel = require('../models/Hotel');
+const Room = require('../models/Room');
+const User = require('../models/User');
 const Booking = require('../models/Booking');
 
 // Load environment variables
@@ -32,6 +34,7 @@ const supabase = createClient(
 const clearDatabase = async () => {
   try {
     await Hotel.deleteMany({});
+    await Room.deleteMany({});
     await Booking.deleteMany({});
     console.log('🗑️  Cleared all data');
   } catch (error) {
@@ -68,14 +71,21 @@ const createTestManager = async () => {
       console.log(`👤 Created test manager: ${email}`);
     }
     
-    return { id: userId, email };
+    // Hotels and rooms belong to the manager's account, not their Supabase id
+    const user = await User.findOneAndUpdate(
+      { email },
+      { $set: { name: 'Test Manager', hotelName: 'Grand Paradise Hotel', supabaseId: userId } },
+      { new: true, upsert: true, setDefaultsOnInsert: true }
+    );
+
+    return { id: user._id, email };
   } catch (error) {
     console.error('Error creating test manager:', error);
     process.exit(1);
   }
 };
 
-// Create sample hotels with rooms
+// Create sample hotels
 const createSampleHotels = async (managerId) => {
   const hotels = [
     {
@@ -97,36 +107,10 @@ const createSampleHotels = async (managerId) => {
         email: 'info@grandparadise.com',
         website: 'https://grandparadise.com',
       },
-      manager: managerId,
+      manager: String(managerId),
       amenities: ['pool', 'spa', 'restaurant', 'gym', 'wifi'],
       checkInTime: '15:00',
       checkOutTime: '12:00',
-      rooms: [
-        {
-          number: '101',
-          type: 'Deluxe King',
-          price: 299,
-          maxGuests: 2,
-          amenities: ['tv', 'minibar', 'safe', 'ac'],
-          isAvailable: true,
-        },
-        {
-          number: '102',
-          type: 'Deluxe Twin',
-          price: 279,
-          maxGuests: 2,
-          amenities: ['tv', 'minibar', 'safe', 'ac'],
-          isAvailable: true,
-        },
-        {
-          number: '201',
-          type: 'Executive Suite',
-          price: 499,
-          maxGuests: 3,
-          amenities: ['tv', 'minibar', 'safe', 'ac', 'balcony', 'ocean_view'],
-          isAvailable: true,
-        },
-      ],
     },
     {
       name: 'Mountain View Lodge',
@@ -147,28 +131,10 @@ const createSampleHotels = async (managerId) => {
         email: 'info@mountainviewlodge.com',
         website: 'https://mountainviewlodge.com',
       },
-      manager: managerId,
+      manager: String(managerId),
       amenities: ['restaurant', 'bar', 'wifi', 'parking', 'hot_tub'],
       checkInTime: '16:00',
       checkOutTime: '11:00',
-      rooms: [
-        {
-          number: '101',
-          type: 'Standard Queen',
-          price: 199,
-          maxGuests: 2,
-          amenities: ['tv', 'heating', 'mountain_view'],
-          isAvailable: true,
-        },
-        {
-          number: '102',
-          type: 'Deluxe King',
-          price: 249,
-          maxGuests: 2,
-          amenities: ['tv', 'heating', 'fireplace', 'mountain_view'],
-          isAvailable: true,
-        },
-      ],
     },
   ];
 
@@ -182,8 +148,36 @@ const createSampleHotels = async (managerId) => {
   }
 };
 
+// Create sample rooms for each hotel
+const createSampleRooms = async (hotels, managerId) => {
+  const layouts = [
+    [
+      { number: '101', type: 'Deluxe King', floor: 1 },
+      { number: '102', type: 'Deluxe Twin', floor: 1 },
+      { number: '201', type: 'Executive Suite', floor: 2 },
+    ],
+    [
+      { number: '101', type: 'Standard Queen', floor: 1 },
+      { number: '102', type: 'Deluxe King', floor: 1 },
+    ],
+  ];
+
+  try {
+    const rooms = await Promise.all(
+      hotels.map((hotel, index) =>
+        Room.insertMany(layouts[index].map((room) => ({ ...room, hotel: hotel._id, manager: managerId })))
+      )
+    );
+    console.log(`🛏️  Created ${rooms.flat().length} rooms`);
+    return rooms;
+  } catch (error) {
+    console.error('Error creating sample rooms:', error);
+    throw error;
+  }
+};
+
 // Create sample bookings
-const createSampleBookings = async (hotels) => {
+const createSampleBookings = async (hotels, rooms) => {
   const now = new Date();
   const nextWeek = new Date(now);
   nextWeek.setDate(now.getDate() + 7);
@@ -194,7 +188,7 @@ const createSampleBookings = async (hotels) => {
   const bookings = [
     {
       hotel: hotels[0]._id,
-      room: hotels[0].rooms[0]._id,
+      room: rooms[0][0]._id,
       guest: {
         name: 'John Doe',
         email: 'john.doe@example.com',
@@ -211,7 +205,7 @@ const createSampleBookings = async (hotels) => {
     },
     {
       hotel: hotels[1]._id,
-      room: hotels[1].rooms[1]._id,
+      room: rooms[1][1]._id,
       guest: {
         name: 'Jane Smith',
         email: 'jane.smith@example.com',
@@ -229,7 +223,8 @@ const createSampleBookings = async (hotels) => {
   ];
 
   try {
-    const createdBookings = await Booking.insertMany(bookings);
+    // Saved one by one so each gets its booking number
+    const createdBookings = await Promise.all(bookings.map((booking) => Booking.create(booking)));
     console.log(`📅 Created ${createdBookings.length} sample bookings`);
     return createdBookings;
   } catch (error) {
@@ -248,7 +243,8 @@ const seedDatabase = async () => {
     
     const manager = await createTestManager();
     const hotels = await createSampleHotels(manager.id);
-    await createSampleBookings(hotels);
+    const rooms = await createSampleRooms(hotels, manager.id);
+    await createSampleBookings(hotels, rooms);
     
     console.log('✅ Database seeded successfully!');
     console.log('\n🔑 Test Manager Credentials:');
@@ -0,0 +1,108 @@
+const mongoose = require('mongoose');
+const Ticket = require('../models/Ticket');
+const Room = require('../models/Room');
+const User = require('../models/User');
+const Hotel = require('../models/Hotel');
+const { verifyGuestToken } = require('./guestToken');
+const { verifyStaffJwt } = require('./staffToken');
+const { ticketScope, canAccessCategory } = require('./accessControl');
+const { TICKET_CATEGORIES } = require('./constants');
+const { runWithHotel, runAcrossHotels, hotelCategoryRoom } = require('./tenant');
+
+// Staff account behind a dashboard JWT with the property it picked and every
+// property it may work at, or null if the token isn't valid
+const verifyStaffToken = async (token, hotelId) => {
+  try {
+    const decoded = verifyStaffJwt(token);
+    const user = await User.findOne({ _id: decoded.userId, isActive: true });
+    if (!user) return null;
+
+    const { hotel, hotels } = await Hotel.selectForUser(user, hotelId);
+    return hotel ? { user, hotel, hotels } : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Work out which side of a ticket's conversation a socket is on.
+ * Guests may follow tickets from their own session; staff may follow any
+ * ticket they could open in the dashboard.
+ * @param {string} ticketId - Ticket to follow
+ * @param {string} token - Guest session token or staff JWT
+ * @returns {Promise<{side: 'guest'|'staff', name: string}|null>} - null if the socket may not join
+ */
+const authorizeTicketRoom = async (ticketId, token) => {
+  if (!token || !mongoose.Types.ObjectId.isValid(ticketId)) return null;
+
+  const guest = verifyGuestToken(token);
+  if (guest) {
+    if (!(await Room.acceptsGuestSession(guest))) return null;
+
+    const ticket = await runWithHotel(guest.hotelId, () =>
+      Ticket.findOne({ _id: ticketId, guestSession: guest.sessionId }).select('guestInfo.name').exec()
+    );
+    return ticket ? { side: 'guest', name: ticket.guestInfo.name } : null;
+  }
+
+  const staff = await verifyStaffToken(token);
+  if (!staff) return null;
+
+  // Ticket pages can be opened for any property the user works at
+  const { user, hotels } = staff;
+  const scope = ticketScope(
+    { managerId: user.managerId, role: user.role, allowedCategories: user.allowedCategories },
+    { _id: ticketId, hotel: { $in: hotels.map((hotel) => hotel._id) } }
+  );
+  const exists = await runAcrossHotels(() => Ticket.exists(scope).exec());
+  return exists ? { side: 'staff', name: user.name } : null;
+};
+
+/**
+ * Work out which of a hotel's live ticket feeds a dashboard socket may follow:
+ * one per ticket category, limited to the user's departments
+ * @param {string} token - Staff JWT
+ * @param {string} [hotelId] - Property picked in the dashboard
+ * @returns {Promise<string[]|null>} - Rooms to join, or null if the token isn't valid
+ */
+const authorizeHotelRoom = async (token, hotelId) => {
+  if (!token) return null;
+
+  const staff = await verifyStaffToken(token, hotelId);
+  if (!staff) return null;
+
+  const { user, hotel } = staff;
+  const categories = TICKET_CATEGORIES.filter((category) => canAccessCategory(user, category));
+  return categories.map((category) => hotelCategoryRoom(hotel._id, category));
+};
+
+/**
+ * Work out whose personal notification room a dashboard socket may join
+ * @param {string} token - Staff JWT
+ * @returns {Promise<string|null>} - The signed-in user's id, or null if the token isn't valid
+ */
+const authorizeUserRoom = async (token) => {
+  if (!token) return null;
+
+  const staff = await verifyStaffToken(token);
+  return staff ? String(staff.user._id) : null;
+};
+
+/**
+ * Check a guest session token before its socket joins the session's room
+ * @param {string} token - Guest session token
+ * @returns {Promise<Object|null>} - The session, or null if it has expired or
+ *   the room's QR code was rotated since it started
+ */
+const authorizeGuestSession = async (token) => {
+  const guest = verifyGuestToken(token);
+  if (!guest) return null;
+  return (await Room.acceptsGuestSession(guest)) ? guest : null;
+};
+
+module.exports = {
+  authorizeGuestSession,
+  authorizeTicketRoom,
+  authorizeHotelRoom,
+  authorizeUserRoom,
+};
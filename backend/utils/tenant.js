@@ -0,0 +1,135 @@
+const { AsyncLocalStorage } = require('async_hooks');
+const mongoose = require('mongoose');
+
+// Hotel the current request is acting for; set by the auth middleware
+const tenantStorage = new AsyncLocalStorage();
+
+// Queries that get the current hotel added to their filter
+const SCOPED_QUERIES = [
+  'countDocuments',
+  'deleteMany',
+  'deleteOne',
+  'distinct',
+  'find',
+  'findOne',
+  'findOneAndDelete',
+  'findOneAndReplace',
+  'findOneAndUpdate',
+  'replaceOne',
+  'updateMany',
+  'updateOne',
+];
+
+/**
+ * Run the rest of a request on behalf of a hotel
+ * @param {string|ObjectId} hotelId - Hotel every scoped query is limited to
+ * @param {Function} fn - Usually Express's next
+ * @returns {*} - Whatever fn returns
+ */
+const runWithHotel = (hotelId, fn) => tenantStorage.run({ hotelId: String(hotelId) }, fn);
+
+/**
+ * Run part of a request without the hotel limit, e.g. for a group-wide
+ * overview; the caller must filter by the hotels the user may see itself
+ * @param {Function} fn - Work to run across hotels
+ * @returns {*} - Whatever fn returns
+ */
+const runAcrossHotels = (fn) => tenantStorage.run({ hotelId: null }, fn);
+
+/**
+ * Hotel the current request is acting for
+ * @returns {string|null} - null outside a request, e.g. in background services
+ */
+const getCurrentHotel = () => {
+  const store = tenantStorage.getStore();
+  return store ? store.hotelId : null;
+};
+
+/**
+ * Socket.IO room that reaches every dashboard signed in to a hotel
+ * @param {string|ObjectId} hotelId - Hotel id
+ * @returns {string}
+ */
+const hotelRoom = (hotelId) => `hotel_${hotelId}`;
+
+/**
+ * Socket.IO room for one ticket category's board at a hotel. Dashboards only
+ * join the categories their user may see, so ticket events go here rather
+ * than to the whole hotel.
+ * @param {string|ObjectId} hotelId - Hotel id
+ * @param {string} category - Ticket category
+ * @returns {string}
+ */
+const hotelCategoryRoom = (hotelId, category) => `${hotelRoom(hotelId)}_${category}`;
+
+/**
+ * Mongoose plugin for collections that belong to a single hotel.
+ * Adds a required hotel reference, fills it in on new documents and limits
+ * every query made during a request to the request's hotel, so a controller
+ * that forgets to filter cannot reach another hotel's data. Code running
+ * outside a request (background services, scripts) or inside
+ * runAcrossHotels is not limited.
+ * @param {mongoose.Schema} schema - Schema to scope
+ */
+const hotelScoped = (schema) => {
+  if (!schema.path('hotel')) {
+    schema.add({
+      hotel: {
+        type: mongoose.Schema.ObjectId,
+        ref: 'Hotel',
+        required: [true, 'Hotel is required'],
+        index: true,
+      },
+    });
+  }
+
+  // New documents join the request's hotel and can never be moved to another
+  schema.pre('validate', function (next) {
+    const hotelId = getCurrentHotel();
+    if (!hotelId || !(this.isNew || this.isModified('hotel'))) return next();
+
+    if (!this.hotel) {
+      this.hotel = hotelId;
+    } else if (String(this.hotel._id || this.hotel) !== hotelId) {
+      this.invalidate('hotel', 'Belongs to another hotel');
+    }
+    next();
+  });
+
+  schema.pre('insertMany', function (next, docs) {
+    const hotelId = getCurrentHotel();
+    if (!hotelId) return next();
+
+    for (const doc of Array.isArray(docs) ? docs : [docs]) {
+      if (!doc.hotel) {
+        doc.hotel = hotelId;
+      } else if (String(doc.hotel) !== hotelId) {
+        return next(new Error('Cannot add documents to another hotel'));
+      }
+    }
+    next();
+  });
+
+  schema.pre(SCOPED_QUERIES, function () {
+    const hotelId = getCurrentHotel();
+    if (hotelId) {
+      this.and([{ hotel: hotelId }]);
+    }
+  });
+
+  schema.pre('aggregate', function () {
+    const hotelId = getCurrentHotel();
+    if (hotelId) {
+      this.pipeline().unshift({ $match: { hotel: new mongoose.Types.ObjectId(hotelId) } });
+    }
+  });
+};
+
+module.exports = {
+  runWithHotel,
+  runAcrossHotels,
+  getCurrentHotel,
+  hotelRoom,
+  hotelCategoryRoom,
+  hotelScoped,
+};
@@ -0,0 +1,70 @@
+// Ticket lifecycle state machine shared by models, controllers and services
+
+const TICKET_STATUSES = [
+  'raised',
+  'acknowledged',
+  'in_progress',
+  'on_hold',
+  'completed',
+  'reopened',
+  'verified',
+  'cancelled',
+];
+
+// Statuses where staff still owe the guest some work
+const OPEN_TICKET_STATUSES = ['raised', 'acknowledged', 'in_progress', 'on_hold', 'reopened'];
+
+// Statuses where the work is over (successfully or not)
+const CLOSED_TICKET_STATUSES = ['completed', 'verified', 'cancelled'];
+
+// Allowed moves per actor. Guests can only cancel open requests and sign off
+// (or push back) on completed ones; staff drive everything else.
+const TRANSITIONS = {
+  staff: {
+    raised: ['acknowledged', 'in_progress', 'on_hold'],
+    acknowledged: ['in_progress', 'on_hold'],
+    in_progress: ['on_hold', 'completed'],
+    on_hold: ['acknowledged', 'in_progress'],
+    completed: ['reopened'],
+    reopened: ['acknowledged', 'in_progress', 'on_hold'],
+    verified: [],
+    cancelled: [],
+  },
+  guest: {
+    raised: ['cancelled'],
+    acknowledged: ['cancelled'],
+    in_progress: [],
+    on_hold: ['cancelled'],
+    completed: ['verified', 'reopened'],
+    reopened: ['cancelled'],
+    verified: [],
+    cancelled: [],
+  },
+};
+
+/**
+ * Statuses a ticket may move to next
+ * @param {string} from - Current status
+ * @param {'staff'|'guest'} [actorType='staff'] - Who is making the change
+ * @returns {string[]}
+ */
+const getAllowedTransitions = (from, actorType = 'staff') =>
+  (TRANSITIONS[actorType] && TRANSITIONS[actorType][from]) || [];
+
+/**
+ * Check whether a status change is allowed
+ * @param {string} from - Current status
+ * @param {string} to - Requested status
+ * @param {'staff'|'guest'} [actorType='staff'] - Who is making the change
+ * @returns {boolean}
+ */
+const canTransition = (from, to, actorType = 'staff') =>
+  getAllowedTransitions(from, actorType).includes(to);
+
+module.exports = {
+  TICKET_STATUSES,
+  OPEN_TICKET_STATUSES,
+  CLOSED_TICKET_STATUSES,
+  getAllowedTransitions,
+  canTransition,
+};
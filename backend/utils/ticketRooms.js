@@ -0,0 +1,95 @@
+const { hotelCategoryRoom } = require('./tenant');
+
+// Guests and staff follow a ticket from separate socket rooms, so each side
+// only ever receives the version of the ticket meant for it
+
+// Messages a guest sees; assignment, category and escalation notes are for staff
+const GUEST_THREAD_SENDERS = ['guest', 'manager'];
+
+// Only what a guest needs to follow their request; no staff contact details
+const toGuestView = (ticket) => ({
+  _id: ticket._id,
+  roomNumber: ticket.roomNumber,
+  category: ticket.category,
+  subject: ticket.subject,
+  status: ticket.status,
+  holdReason: ticket.holdReason,
+  estimatedCompletion: ticket.estimatedCompletion,
+  expectedBy: ticket.sla ? ticket.sla.resolveBy : null,
+  handledBy: (ticket.assignedTo && ticket.assignedTo.name) || null,
+  messages: ticket.messages
+    .filter((message) => GUEST_THREAD_SENDERS.includes(message.sender))
+    .map((message) => ({
+      _id: message._id,
+      content: message.content,
+      sender: message.sender,
+      senderName: message.senderName,
+      createdAt: message.createdAt,
+    })),
+  lastReadAt: ticket.lastReadAt,
+  statusHistory: ticket.statusHistory.map((change) => ({
+    to: change.to,
+    changedAt: change.changedAt,
+  })),
+  createdAt: ticket.createdAt,
+  updatedAt: ticket.updatedAt,
+  completedAt: ticket.completedAt,
+});
+
+const guestTicketRoom = (ticketId) => `ticket_${ticketId}`;
+
+const staffTicketRoom = (ticketId) => `ticket_${ticketId}_staff`;
+
+/**
+ * Socket room a participant joins to follow a ticket
+ * @param {string} ticketId - Ticket being followed
+ * @param {'guest'|'staff'} side - Which side of the conversation the socket is on
+ * @returns {string} - Room name
+ */
+const ticketRoomFor = (ticketId, side) =>
+  side === 'staff' ? staffTicketRoom(ticketId) : guestTicketRoom(ticketId);
+
+/**
+ * Push a ticket change to everyone following it: the guest gets their
+ * redacted view, staff get the full document
+ * @param {Object} io - Socket.io server
+ * @param {Object} ticket - Ticket document
+ * @param {string} event - Event name
+ */
+const emitToTicket = (io, ticket, event) => {
+  io.to(guestTicketRoom(ticket._id)).emit(event, toGuestView(ticket));
+  io.to(staffTicketRoom(ticket._id)).emit(event, ticket);
+};
+
+/**
+ * Push a payload with nothing side-specific in it, e.g. a read receipt,
+ * to both sides of a ticket
+ * @param {Object} io - Socket.io server or a socket (to skip the sender)
+ * @param {string} ticketId - Ticket the payload is about
+ * @param {string} event - Event name
+ * @param {Object} payload - Data to send
+ */
+const emitToTicketParticipants = (io, ticketId, event, payload) => {
+  io.to([guestTicketRoom(ticketId), staffTicketRoom(ticketId)]).emit(event, payload);
+};
+
+/**
+ * Push a ticket event to the boards of staff who may see the ticket's
+ * category, leaving out staff limited to other departments
+ * @param {Object} io - Socket.io server
+ * @param {Object} ticket - Ticket document
+ * @param {string} event - Event name
+ * @param {Object} [payload=ticket] - Data to send
+ * @param {string[]} [categories] - Category boards to reach; defaults to the ticket's own
+ */
+const emitToHotelBoard = (io, ticket, event, payload = ticket, categories = [ticket.category]) => {
+  io.to(categories.map((category) => hotelCategoryRoom(ticket.hotel, category))).emit(event, payload);
+};
+
+module.exports = {
+  toGuestView,
+  ticketRoomFor,
+  emitToTicket,
+  emitToTicketParticipants,
+  emitToHotelBoard,
+};
@@ -0,0 +1,259 @@
+const QRCode = require('qrcode');
+
+// Page sizes in PDF points (1/72 inch)
+const PAGE_SIZES = {
+  a4: { width: 595.28, height: 841.89 },
+  doorHanger: { width: 252, height: 612 }, // 3.5 x 8.5 in
+};
+
+// Helvetica advance widths (per 1000 units) for the printable ASCII range,
+// used to centre and wrap text the same way in PDF and SVG
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+/**
+ * Width of a line of Helvetica text
+ * @param {string} text
+ * @param {number} size - Font size in points
+ * @param {boolean} [bold=false]
+ * @returns {number} - Width in points
+ */
+const measureText = (text, size, bold = false) => {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let total = 0;
+  for (const char of String(text)) {
+    const code = char.charCodeAt(0);
+    total += code >= 32 && code <= 126 ? widths[code - 32] : 556;
+  }
+  return (total * size) / 1000;
+};
+
+/**
+ * Break text into lines that fit a width, splitting on spaces
+ * @param {string} text
+ * @param {number} size - Font size in points
+ * @param {number} maxWidth - Line width in points
+ * @param {boolean} [bold=false]
+ * @returns {string[]}
+ */
+const wrapText = (text, size, maxWidth, bold = false) => {
+  const lines = [];
+  let line = '';
+  for (const word of String(text).split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && measureText(candidate, size, bold) > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+};
+
+// Dark modules of a QR code as horizontal runs, so each run is drawn once
+const qrRuns = (url) => {
+  const { modules } = QRCode.create(url, { errorCorrectionLevel: 'M' });
+  const runs = [];
+  for (let row = 0; row < modules.size; row++) {
+    let start = null;
+    for (let col = 0; col <= modules.size; col++) {
+      const dark = col < modules.size && modules.get(row, col);
+      if (dark && start === null) start = col;
+      if (!dark && start !== null) {
+        runs.push({ row, col: start, length: col - start });
+        start = null;
+      }
+    }
+  }
+  return { size: modules.size, runs };
+};
+
+const fmt = (value) => Number(value.toFixed(2)).toString();
+
+const hexToRgb = (hex) => {
+  const value = parseInt(String(hex).replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255].map((channel) => fmt(channel / 255));
+};
+
+const escapeXml = (text) =>
+  String(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/*
+ * Pages are lists of shapes in points with the origin at the top left:
+ *   { type: 'rect', x, y, width, height, fill?, stroke?, dash? }
+ *   { type: 'line', x1, y1, x2, y2, stroke, dash? }
+ *   { type: 'circle', cx, cy, r, stroke }
+ *   { type: 'text', x, y, text, size, color, bold?, align? } - y is the baseline
+ *   { type: 'qr', x, y, size, url, color }
+ *   { type: 'group', rotate: 180, cx, cy, children } - turned upside down around (cx, cy)
+ */
+
+const svgShape = (shape) => {
+  switch (shape.type) {
+    case 'rect':
+      return `<rect x="${fmt(shape.x)}" y="${fmt(shape.y)}" width="${fmt(shape.width)}" height="${fmt(shape.height)}" fill="${shape.fill || 'none'}"${shape.stroke ? ` stroke="${shape.stroke}" stroke-width="0.75"` : ''}${shape.dash ? ' stroke-dasharray="4 3"' : ''}/>`;
+    case 'line':
+      return `<line x1="${fmt(shape.x1)}" y1="${fmt(shape.y1)}" x2="${fmt(shape.x2)}" y2="${fmt(shape.y2)}" stroke="${shape.stroke}" stroke-width="0.75"${shape.dash ? ' stroke-dasharray="4 3"' : ''}/>`;
+    case 'circle':
+      return `<circle cx="${fmt(shape.cx)}" cy="${fmt(shape.cy)}" r="${fmt(shape.r)}" fill="none" stroke="${shape.stroke}" stroke-width="0.75"/>`;
+    case 'text': {
+      const anchor = shape.align === 'center' ? ' text-anchor="middle"' : '';
+      const weight = shape.bold ? ' font-weight="bold"' : '';
+      return `<text x="${fmt(shape.x)}" y="${fmt(shape.y)}" font-family="Helvetica, Arial, sans-serif" font-size="${fmt(shape.size)}" fill="${shape.color}"${anchor}${weight}>${escapeXml(shape.text)}</text>`;
+    }
+    case 'qr': {
+      const { size, runs } = qrRuns(shape.url);
+      const module = shape.size / size;
+      const path = runs
+        .map(({ row, col, length }) => `M${fmt(shape.x + col * module)} ${fmt(shape.y + row * module)}h${fmt(length * module)}v${fmt(module)}h${fmt(-length * module)}z`)
+        .join('');
+      return `<path d="${path}" fill="${shape.color}"/>`;
+    }
+    case 'group':
+      return `<g transform="rotate(${shape.rotate} ${fmt(shape.cx)} ${fmt(shape.cy)})">${shape.children.map(svgShape).join('')}</g>`;
+    default:
+      return '';
+  }
+};
+
+/**
+ * Render pages as one SVG document, stacked top to bottom
+ * @param {Array<{width: number, height: number, shapes: Object[]}>} pages
+ * @returns {string}
+ */
+const renderSvg = (pages) => {
+  const width = Math.max(...pages.map((page) => page.width));
+  const height = pages.reduce((total, page) => total + page.height, 0);
+  let offset = 0;
+  const body = pages
+    .map((page) => {
+      const group = `<g transform="translate(0 ${fmt(offset)})"><rect width="${fmt(page.width)}" height="${fmt(page.height)}" fill="#ffffff"/>${page.shapes.map(svgShape).join('')}</g>`;
+      offset += page.height;
+      return group;
+    })
+    .join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<svg xmlns="http://www.w3.org/2000/svg" width="${fmt(width)}pt" height="${fmt(height)}pt" viewBox="0 0 ${fmt(width)} ${fmt(height)}">${body}</svg>`;
+};
+
+// PDF strings are Latin-1; anything outside it is printed as "?"
+const pdfString = (text) =>
+  `(${Array.from(String(text))
+    .map((char) => (char.charCodeAt(0) > 255 ? '?' : char))
+    .join('')
+    .replace(/[\\()]/g, (char) => `\\${char}`)})`;
+
+// Content stream operators for one shape. The page is flipped so y runs
+// down like SVG; text is flipped back so it reads the right way up.
+const pdfShape = (shape) => {
+  const dash = shape.dash ? '[4 3] 0 d ' : '[] 0 d ';
+  switch (shape.type) {
+    case 'rect': {
+      const ops = [];
+      if (shape.fill) ops.push(`${hexToRgb(shape.fill).join(' ')} rg`);
+      if (shape.stroke) ops.push(`${hexToRgb(shape.stroke).join(' ')} RG 0.75 w ${dash}`);
+      const paint = shape.fill && shape.stroke ? 'B' : shape.fill ? 'f' : 'S';
+      ops.push(`${fmt(shape.x)} ${fmt(shape.y)} ${fmt(shape.width)} ${fmt(shape.height)} re ${paint}`);
+      return ops.join('\n');
+    }
+    case 'line':
+      return `${hexToRgb(shape.stroke).join(' ')} RG 0.75 w ${dash}${fmt(shape.x1)} ${fmt(shape.y1)} m ${fmt(shape.x2)} ${fmt(shape.y2)} l S`;
+    case 'circle': {
+      const { cx, cy, r } = shape;
+      const k = r * 0.5523;
+      return [
+        `${hexToRgb(shape.stroke).join(' ')} RG 0.75 w [] 0 d`,
+        `${fmt(cx + r)} ${fmt(cy)} m`,
+        `${fmt(cx + r)} ${fmt(cy + k)} ${fmt(cx + k)} ${fmt(cy + r)} ${fmt(cx)} ${fmt(cy + r)} c`,
+        `${fmt(cx - k)} ${fmt(cy + r)} ${fmt(cx - r)} ${fmt(cy + k)} ${fmt(cx - r)} ${fmt(cy)} c`,
+        `${fmt(cx - r)} ${fmt(cy - k)} ${fmt(cx - k)} ${fmt(cy - r)} ${fmt(cx)} ${fmt(cy - r)} c`,
+        `${fmt(cx + k)} ${fmt(cy - r)} ${fmt(cx + r)} ${fmt(cy - k)} ${fmt(cx + r)} ${fmt(cy)} c S`,
+      ].join('\n');
+    }
+    case 'text': {
+      const x = shape.align === 'center' ? shape.x - measureText(shape.text, shape.size, shape.bold) / 2 : shape.x;
+      return `${hexToRgb(shape.color).join(' ')} rg BT /${shape.bold ? 'F2' : 'F1'} ${fmt(shape.size)} Tf 1 0 0 -1 ${fmt(x)} ${fmt(shape.y)} Tm ${pdfString(shape.text)} Tj ET`;
+    }
+    case 'qr': {
+      const { size, runs } = qrRuns(shape.url);
+      const module = shape.size / size;
+      const rects = runs.map(
+        ({ row, col, length }) =>
+          `${fmt(shape.x + col * module)} ${fmt(shape.y + row * module)} ${fmt(length * module)} ${fmt(module)} re`
+      );
+      return `${hexToRgb(shape.color).join(' ')} rg\n${rects.join('\n')}\nf`;
+    }
+    case 'group':
+      return `q -1 0 0 -1 ${fmt(shape.cx * 2)} ${fmt(shape.cy * 2)} cm\n${shape.children.map(pdfShape).join('\n')}\nQ`;
+    default:
+      return '';
+  }
+};
+
+/**
+ * Render pages as a PDF using the built-in Helvetica fonts
+ * @param {Array<{width: number, height: number, shapes: Object[]}>} pages
+ * @returns {Buffer}
+ */
+const renderPdf = (pages) => {
+  // Objects 1-4 are the catalog, page tree and fonts; each page adds a page and a content object
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    null,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+  ];
+  const pageRefs = [];
+
+  pages.forEach((page) => {
+    const content = `1 0 0 -1 0 ${fmt(page.height)} cm\n${page.shapes.map(pdfShape).join('\n')}`;
+    const contentRef = objects.length + 2;
+    pageRefs.push(`${objects.length + 1} 0 R`);
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${fmt(page.width)} ${fmt(page.height)}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentRef} 0 R >>`
+    );
+    objects.push(`<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`);
+  });
+  objects[1] = `<< /Type /Pages /Kids [${pageRefs.join(' ')}] /Count ${pages.length} >>`;
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, index) => {
+    const offset = Buffer.byteLength(pdf, 'latin1');
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xrefOffset = Buffer.byteLength(pdf, 'latin1');
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+};
+
+module.exports = {
+  PAGE_SIZES,
+  measureText,
+  wrapText,
+  renderSvg,
+  renderPdf,
+};
@@ -1,18 +1,33 @@
 import { NextResponse } from 'next/server';
-import { apiClient } from '@/lib/api/client';
+import axios from 'axios';
+import { API_BASE_URL } from '@/lib/api/client';
 
+// Open tickets for a room's current stay, checked before a guest raises a new one
 export async function GET(
   request: Request,
-  { params }: { params: { roomNumber: string } }
+  { params }: { params: Promise<{ roomNumber: string }> }
 ) {
+  const { roomNumber } = await params;
+  const authorization = request.headers.get('authorization');
+
+  if (!authorization) {
+    return NextResponse.json({ error: 'Guest session required' }, { status: 401 });
+  }
+
   try {
-    // In a real app, you would call your backend API to check for existing tickets
-    // const response = await apiClient.get(`/tickets/room/${params.roomNumber}`);
-    
-    // For demo purposes, we'll simulate a response
-    // In a real app, you would return the actual response from your API
-    return NextResponse.json(null);
+    const response = await axios.get(
+      `${API_BASE_URL}/tickets/room/${encodeURIComponent(roomNumber)}`,
+      { headers: { Authorization: authorization } }
+    );
+    return NextResponse.json(response.data.data);
   } catch (error) {
+    if (axios.isAxiosError(error) && error.response) {
+      return NextResponse.json(
+        { error: error.response.data?.message || 'Failed to check for existing tickets' },
+        { status: error.response.status }
+      );
+    }
+
     console.error('Error checking for existing ticket:', error);
     return NextResponse.json(
       { error: 'Failed to check for existing ticket' },
@@ -0,0 +1,149 @@
+'use client';
+
+import { Suspense, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { OTPInput } from '@/components/ui/otp-input';
+import { acceptInvite, setAuthToken } from '@/lib/api/auth';
+import { useAuthStore } from '@/store/auth-store';
+import { toast } from 'sonner';
+import Link from 'next/link';
+
+const formSchema = z.object({
+  email: z.string().email('Please enter a valid email address'),
+  name: z.string().optional(),
+  password: z.string().min(6, 'Password must be at least 6 characters'),
+});
+
+function AcceptInviteForm() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [isLoading, setIsLoading] = useState(false);
+  const [otp, setOtp] = useState('');
+  const { setIsAuthenticated, setUser } = useAuthStore();
+
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      email: searchParams.get('email') || '',
+      name: '',
+      password: '',
+    },
+  });
+
+  const onSubmit = async (values: z.infer<typeof formSchema>) => {
+    if (otp.length !== 6) {
+      toast.error('Please enter the complete 6-digit invitation code');
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      const { token, user } = await acceptInvite({
+        ...values,
+        name: values.name || undefined,
+        otp,
+      });
+      setAuthToken(token);
+      setUser(user);
+      setIsAuthenticated(true);
+      toast.success(`Welcome to ${user.hotelName}`);
+      router.push('/dashboard');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to accept invitation');
+      console.error('Accept invite error:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="email"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Email</FormLabel>
+              <FormControl>
+                <Input placeholder="Enter your email" type="email" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div>
+          <label className="text-sm font-medium">Invitation Code</label>
+          <OTPInput
+            value={otp}
+            onChange={setOtp}
+            disabled={isLoading}
+            className="mt-2"
+          />
+        </div>
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name (optional)</FormLabel>
+              <FormControl>
+                <Input placeholder="Leave blank to keep the name from your invite" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Password</FormLabel>
+              <FormControl>
+                <Input placeholder="Create a password" type="password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full" disabled={isLoading}>
+          {isLoading ? 'Joining...' : 'Join Team'}
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+export default function AcceptInvitePage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-white dark:bg-white">
+      <Card className="w-full max-w-md border-none shadow-lg">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl font-bold">Join your hotel team</CardTitle>
+          <CardDescription>
+            Enter the invitation code from your email and choose a password
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Suspense>
+            <AcceptInviteForm />
+          </Suspense>
+          <div className="mt-4 text-center text-sm">
+            Already have an account?{' '}
+            <Link href="/auth/login" className="text-primary hover:underline">
+              Sign in
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
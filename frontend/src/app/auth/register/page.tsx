@@ -79,7 +79,7 @@ export default function RegisterPage() {
       setUser(user);
       setIsAuthenticated(true);
       toast.success('Registration completed successfully!');
-      router.push('/dashboard');
+      router.push('/onboarding');
     } catch (error) {
       toast.error('Invalid verification code');
       console.error('OTP verification error:', error);
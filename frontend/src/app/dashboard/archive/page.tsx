@@ -0,0 +1,372 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Archive, Search, RotateCcw, Save } from 'lucide-react';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import {
+  getArchivedTickets,
+  getArchivedTicket,
+  restoreArchivedTicket,
+  getRetentionPolicy,
+  updateRetentionPolicy,
+  ArchivedTicket,
+  ArchivedTicketDetail,
+  RetentionPolicy,
+} from '@/lib/api/archive';
+import { TICKET_CATEGORIES, TicketCategory, getCategoryLabel } from '@/lib/api/tickets';
+import { isManagementRole } from '@/lib/api/auth';
+import { useAuthStore } from '@/store/auth-store';
+
+export default function ArchivePage() {
+  const { user } = useAuthStore();
+  const [tickets, setTickets] = useState<ArchivedTicket[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [search, setSearch] = useState('');
+  const [submittedSearch, setSubmittedSearch] = useState('');
+  const [categoryFilter, setCategoryFilter] = useState<'all' | TicketCategory>('all');
+  const [isLoading, setIsLoading] = useState(true);
+  const [selectedTicket, setSelectedTicket] = useState<ArchivedTicketDetail | null>(null);
+  const [retention, setRetention] = useState<RetentionPolicy | null>(null);
+  const [retentionDraft, setRetentionDraft] = useState({ archiveAfterDays: '1', purgeAfterDays: '' });
+  const [isSavingRetention, setIsSavingRetention] = useState(false);
+
+  const canManage = isManagementRole(user?.role);
+
+  const fetchArchive = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const result = await getArchivedTickets({
+        search: submittedSearch || undefined,
+        category: categoryFilter === 'all' ? undefined : categoryFilter,
+        page,
+      });
+      setTickets(result.data);
+      setTotal(result.total);
+      setTotalPages(Math.max(result.totalPages, 1));
+    } catch (error) {
+      console.error('Failed to fetch archive:', error);
+      toast.error('Failed to load archived tickets');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [page, submittedSearch, categoryFilter]);
+
+  const fetchRetention = async () => {
+    try {
+      const policy = await getRetentionPolicy();
+      setRetention(policy);
+      setRetentionDraft({
+        archiveAfterDays: String(policy.archiveAfterDays),
+        purgeAfterDays: policy.purgeAfterDays ? String(policy.purgeAfterDays) : '',
+      });
+    } catch (error) {
+      console.error('Failed to fetch retention policy:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchArchive();
+  }, [fetchArchive]);
+
+  useEffect(() => {
+    fetchRetention();
+  }, []);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    setSubmittedSearch(search.trim());
+  };
+
+  const openTicket = async (ticket: ArchivedTicket) => {
+    try {
+      setSelectedTicket(await getArchivedTicket(ticket._id));
+    } catch (error) {
+      console.error('Failed to load archived ticket:', error);
+      toast.error('Failed to load ticket history');
+    }
+  };
+
+  const handleRestore = async (ticket: ArchivedTicket) => {
+    try {
+      await restoreArchivedTicket(ticket._id);
+      toast.success(`Ticket #${ticket.originalId.slice(-6)} restored`);
+      setSelectedTicket(null);
+      fetchArchive();
+    } catch (error) {
+      console.error('Failed to restore ticket:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to restore ticket');
+    }
+  };
+
+  const handleSaveRetention = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setIsSavingRetention(true);
+      const policy = await updateRetentionPolicy({
+        archiveAfterDays: parseInt(retentionDraft.archiveAfterDays) || 1,
+        purgeAfterDays: retentionDraft.purgeAfterDays ? parseInt(retentionDraft.purgeAfterDays) : null,
+      });
+      setRetention(policy);
+      toast.success('Retention policy saved');
+    } catch (error) {
+      console.error('Failed to save retention policy:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save retention policy');
+    } finally {
+      setIsSavingRetention(false);
+    }
+  };
+
+  return (
+    <motion.div
+      className="min-h-screen bg-background/50"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      transition={{ duration: 0.5 }}
+    >
+      <div className="container mx-auto px-4 py-6 space-y-8">
+        <motion.div
+          className="space-y-2"
+          initial={{ y: -20, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          transition={{ duration: 0.6, delay: 0.1 }}
+        >
+          <h1 className="text-4xl font-bold tracking-tight bg-gradient-to-r from-foreground to-foreground/70 bg-clip-text text-transparent">
+            Archive
+          </h1>
+          <p className="text-muted-foreground text-lg">
+            Search completed requests and bring them back to the board
+          </p>
+        </motion.div>
+
+        {retention && (
+          <motion.div
+            initial={{ y: 20, opacity: 0 }}
+            animate={{ y: 0, opacity: 1 }}
+            transition={{ duration: 0.6, delay: 0.15 }}
+          >
+            <Card className="border-none shadow-lg">
+              <CardHeader className="pb-4">
+                <CardTitle className="text-xl font-semibold">Retention</CardTitle>
+                <CardDescription className="text-muted-foreground">
+                  Completed tickets are archived after {retention.archiveAfterDays} day{retention.archiveAfterDays === 1 ? '' : 's'}
+                  {retention.purgeAfterDays
+                    ? ` and permanently deleted after ${retention.purgeAfterDays} days`
+                    : ' and kept in the archive indefinitely'}
+                </CardDescription>
+              </CardHeader>
+              {canManage && (
+                <CardContent>
+                  <form onSubmit={handleSaveRetention} className="flex flex-col sm:flex-row sm:items-end gap-4">
+                    <div>
+                      <Label htmlFor="archive-after">Archive after (days)</Label>
+                      <Input
+                        id="archive-after"
+                        type="number"
+                        min="1"
+                        className="w-40 border-none bg-muted/50"
+                        value={retentionDraft.archiveAfterDays}
+                        onChange={(e) => setRetentionDraft({ ...retentionDraft, archiveAfterDays: e.target.value })}
+                        required
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="purge-after">Delete after (days)</Label>
+                      <Input
+                        id="purge-after"
+                        type="number"
+                        min="1"
+                        placeholder="Never"
+                        className="w-40 border-none bg-muted/50"
+                        value={retentionDraft.purgeAfterDays}
+                        onChange={(e) => setRetentionDraft({ ...retentionDraft, purgeAfterDays: e.target.value })}
+                      />
+                    </div>
+                    <Button type="submit" disabled={isSavingRetention} className="border-none">
+                      <Save className="h-4 w-4 mr-2" />
+                      {isSavingRetention ? 'Saving...' : 'Save'}
+                    </Button>
+                  </form>
+                </CardContent>
+              )}
+            </Card>
+          </motion.div>
+        )}
+
+        <motion.div
+          initial={{ y: 30, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          transition={{ duration: 0.6, delay: 0.2 }}
+        >
+          <Card className="border-none shadow-lg">
+            <CardHeader className="pb-4">
+              <div className="flex items-center gap-3">
+                <div className="h-8 w-8 rounded-lg bg-primary/10 flex items-center justify-center">
+                  <Archive className="h-4 w-4 text-primary" />
+                </div>
+                <div>
+                  <CardTitle className="text-xl font-semibold">Archived Tickets ({total})</CardTitle>
+                  <CardDescription className="text-muted-foreground">
+                    Search by guest, room, subject, or conversation
+                  </CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-col lg:flex-row gap-4">
+                <form onSubmit={handleSearch} className="relative flex-1">
+                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    type="search"
+                    placeholder="Search archived tickets..."
+                    className="pl-10 h-11 border-none bg-muted/50 focus:bg-background transition-colors"
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                  />
+                </form>
+                <Select
+                  value={categoryFilter}
+                  onValueChange={(value: 'all' | TicketCategory) => {
+                    setPage(1);
+                    setCategoryFilter(value);
+                  }}
+                >
+                  <SelectTrigger className="w-full sm:w-[200px] h-11 border-none bg-muted/50">
+                    <SelectValue placeholder="Filter by category" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Categories</SelectItem>
+                    {TICKET_CATEGORIES.map((category) => (
+                      <SelectItem key={category} value={category}>
+                        {getCategoryLabel(category)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {isLoading ? (
+                <div className="flex items-center justify-center h-32">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+                </div>
+              ) : tickets.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-12">No archived tickets found</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Ticket</TableHead>
+                      <TableHead>Guest</TableHead>
+                      <TableHead>Room</TableHead>
+                      <TableHead>Category</TableHead>
+                      <TableHead>Completed</TableHead>
+                      <TableHead>Archived</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {tickets.map((ticket) => (
+                      <TableRow key={ticket._id} className="cursor-pointer" onClick={() => openTicket(ticket)}>
+                        <TableCell>
+                          <div className="font-mono text-sm">#{ticket.originalId.slice(-6)}</div>
+                          <div className="text-xs text-muted-foreground">{ticket.subject}</div>
+                        </TableCell>
+                        <TableCell>{ticket.guestName}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline">Room {ticket.roomNumber}</Badge>
+                        </TableCell>
+                        <TableCell>{ticket.category && getCategoryLabel(ticket.category)}</TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {ticket.completedAt ? format(new Date(ticket.completedAt), 'MMM d, yyyy') : '-'}
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {format(new Date(ticket.archivedAt), 'MMM d, yyyy')}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {canManage && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleRestore(ticket);
+                              }}
+                            >
+                              <RotateCcw className="h-4 w-4 mr-1" />
+                              Restore
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+
+              {totalPages > 1 && (
+                <div className="flex items-center justify-end gap-2">
+                  <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                    Previous
+                  </Button>
+                  <span className="text-sm text-muted-foreground">
+                    Page {page} of {totalPages}
+                  </span>
+                  <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+                    Next
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </motion.div>
+      </div>
+
+      <Dialog open={!!selectedTicket} onOpenChange={(open) => !open && setSelectedTicket(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          {selectedTicket && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Ticket #{selectedTicket.originalId.slice(-6)}</DialogTitle>
+                <DialogDescription>
+                  Room {selectedTicket.roomNumber} • {selectedTicket.guestName}
+                  {selectedTicket.category && ` • ${getCategoryLabel(selectedTicket.category)}`}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-3">
+                {selectedTicket.snapshot.messages?.map((message, index) => (
+                  <div key={index} className="p-3 rounded-lg bg-muted/50">
+                    <div className="flex items-center justify-between mb-1 text-xs text-muted-foreground">
+                      <span className="font-medium">{message.senderName}</span>
+                      {message.createdAt && <span>{format(new Date(message.createdAt), 'MMM d, yyyy HH:mm')}</span>}
+                    </div>
+                    <p className="text-sm">{message.content}</p>
+                  </div>
+                ))}
+              </div>
+              {canManage && (
+                <div className="flex justify-end">
+                  <Button onClick={() => handleRestore(selectedTicket)} className="border-none">
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Restore to board
+                  </Button>
+                </div>
+              )}
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </motion.div>
+  );
+}
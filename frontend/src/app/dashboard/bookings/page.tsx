@@ -0,0 +1,191 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { CalendarDays, ChevronLeft, ChevronRight } from 'lucide-react';
+import { toast } from 'sonner';
+import { AvailabilityCalendar } from '@/components/bookings/availability-calendar';
+import { BookingDialog, NewStay } from '@/components/bookings/booking-dialog';
+import {
+  Booking,
+  BookingCalendar,
+  addDays,
+  bookingRoomId,
+  getBookingCalendar,
+  toDayKey,
+  updateBooking,
+} from '@/lib/api/bookings';
+import { isManagementRole } from '@/lib/api/auth';
+import { useAuthStore } from '@/store/auth-store';
+
+const WINDOW_DAYS = 14;
+
+export default function BookingsPage() {
+  const { user } = useAuthStore();
+  const [from, setFrom] = useState(() => toDayKey(new Date()));
+  const [calendar, setCalendar] = useState<BookingCalendar | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [newStay, setNewStay] = useState<NewStay | null>(null);
+  const [selectedBooking, setSelectedBooking] = useState<Booking | null>(null);
+
+  const canEdit = isManagementRole(user?.role);
+
+  const fetchCalendar = useCallback(async () => {
+    try {
+      const data = await getBookingCalendar(from, addDays(from, WINDOW_DAYS));
+      setCalendar(data);
+    } catch (error) {
+      console.error('Failed to fetch bookings:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load bookings');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [from]);
+
+  useEffect(() => {
+    fetchCalendar();
+  }, [fetchCalendar]);
+
+  const handleCreate = useCallback(
+    (stay: { room: string; checkIn: string; checkOut: string }) => {
+      const room = calendar?.rooms.find((r) => r._id === stay.room);
+      if (room) setNewStay({ ...stay, room });
+    },
+    [calendar]
+  );
+
+  // The server rejects the new dates if they run into another stay
+  const handleExtend = useCallback(
+    async (booking: Booking, checkOut: string) => {
+      try {
+        await updateBooking(booking._id, { checkOut });
+        toast.success(`Stay now ends ${format(new Date(`${checkOut}T00:00:00`), 'EEE d MMM')}`);
+      } catch (error) {
+        console.error('Failed to extend booking:', error);
+        toast.error(error instanceof Error ? error.message : 'Failed to change booking');
+      } finally {
+        fetchCalendar();
+      }
+    },
+    [fetchCalendar]
+  );
+
+  const handleSaved = () => {
+    setNewStay(null);
+    setSelectedBooking(null);
+    fetchCalendar();
+  };
+
+  const selectedRoom =
+    (selectedBooking && calendar?.rooms.find((room) => room._id === bookingRoomId(selectedBooking))) || null;
+
+  if (isLoading) {
+    return (
+      <motion.div
+        className="flex items-center justify-center h-64"
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        transition={{ duration: 0.5 }}
+      >
+        <motion.div
+          className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"
+          animate={{ rotate: 360 }}
+          transition={{ duration: 1, repeat: Infinity, ease: "linear" }}
+        />
+      </motion.div>
+    );
+  }
+
+  return (
+    <motion.div
+      className="min-h-screen bg-background/50"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      transition={{ duration: 0.5 }}
+    >
+      <div className="container mx-auto px-4 py-6 space-y-8">
+        <motion.div
+          className="space-y-2"
+          initial={{ y: -20, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          transition={{ duration: 0.6, delay: 0.1 }}
+        >
+          <h1 className="text-4xl font-bold tracking-tight bg-gradient-to-r from-foreground to-foreground/70 bg-clip-text text-transparent">
+            Bookings
+          </h1>
+          <p className="text-muted-foreground text-lg">
+            {canEdit
+              ? 'Drag across a room\'s free nights to book them, or drag the end of a stay to extend it'
+              : 'See which rooms are booked over the coming days'}
+          </p>
+        </motion.div>
+
+        <motion.div
+          initial={{ y: 20, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          transition={{ duration: 0.6, delay: 0.2 }}
+        >
+          <Card className="border-none shadow-lg">
+            <CardHeader className="pb-4">
+              <div className="flex items-center justify-between gap-3">
+                <div className="flex items-center gap-3">
+                  <div className="h-8 w-8 rounded-lg bg-primary/10 flex items-center justify-center">
+                    <CalendarDays className="h-4 w-4 text-primary" />
+                  </div>
+                  <div>
+                    <CardTitle className="text-xl font-semibold">Availability</CardTitle>
+                    <CardDescription className="text-muted-foreground">
+                      {format(new Date(`${from}T00:00:00`), 'd MMM')} –{' '}
+                      {format(new Date(`${addDays(from, WINDOW_DAYS - 1)}T00:00:00`), 'd MMM yyyy')}
+                    </CardDescription>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button variant="outline" size="sm" onClick={() => setFrom(addDays(from, -WINDOW_DAYS))}>
+                    <ChevronLeft className="h-4 w-4" />
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => setFrom(toDayKey(new Date()))}>
+                    Today
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => setFrom(addDays(from, WINDOW_DAYS))}>
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {calendar && calendar.rooms.length > 0 ? (
+                <AvailabilityCalendar
+                  calendar={calendar}
+                  onCreate={handleCreate}
+                  onExtend={handleExtend}
+                  onSelect={setSelectedBooking}
+                  readOnly={!canEdit}
+                />
+              ) : (
+                <p className="text-sm text-muted-foreground text-center py-12">
+                  Add rooms to start taking bookings
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </motion.div>
+      </div>
+
+      <BookingDialog
+        stay={newStay}
+        booking={selectedBooking}
+        room={selectedRoom}
+        onClose={() => {
+          setNewStay(null);
+          setSelectedBooking(null);
+        }}
+        onSaved={handleSaved}
+        canEdit={canEdit}
+      />
+    </motion.div>
+  );
+}
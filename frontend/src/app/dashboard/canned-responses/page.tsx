@@ -0,0 +1,393 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { MessageSquareText, Pencil, Plus, Trash2, Zap } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  CannedResponse,
+  CannedResponseData,
+  MacroActions,
+  TEMPLATE_VARIABLES,
+  createCannedResponse,
+  deleteCannedResponse,
+  getCannedResponses,
+  updateCannedResponse,
+} from '@/lib/api/cannedResponses';
+import { TICKET_CATEGORIES, TICKET_STATUSES, TicketCategory, getCategoryLabel, getStatusLabel } from '@/lib/api/tickets';
+import { StaffMember, getStaff } from '@/lib/api/staff';
+import { describeMacroActions } from '@/components/tickets/canned-response-picker';
+import { isManagementRole } from '@/lib/api/auth';
+import { useAuthStore } from '@/store/auth-store';
+
+// Select values standing in for "no value"
+const ANY = 'any';
+const NONE = 'none';
+
+const MACRO_STATUSES = TICKET_STATUSES.filter(
+  (status): status is NonNullable<MacroActions['status']> => status !== 'on_hold'
+);
+
+const emptyResponse: CannedResponseData = {
+  title: '',
+  body: '',
+  category: null,
+  actions: { status: null, assignee: null },
+};
+
+export default function CannedResponsesPage() {
+  const { user } = useAuthStore();
+  const [responses, setResponses] = useState<CannedResponse[]>([]);
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<CannedResponseData>(emptyResponse);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const canEdit = isManagementRole(user?.role);
+
+  const fetchResponses = async () => {
+    try {
+      setResponses(await getCannedResponses());
+    } catch (error) {
+      console.error('Failed to fetch canned responses:', error);
+      toast.error('Failed to load canned responses');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchResponses();
+  }, []);
+
+  useEffect(() => {
+    if (!canEdit) return;
+    getStaff()
+      .then((members) => setStaff(members.filter((member) => member.isActive)))
+      .catch((error) => console.error('Failed to fetch staff:', error));
+  }, [canEdit]);
+
+  const openDialog = (response?: CannedResponse) => {
+    setEditingId(response?._id || null);
+    setForm(
+      response
+        ? {
+            title: response.title,
+            body: response.body,
+            category: response.category,
+            actions: { status: response.actions.status || null, assignee: response.actions.assignee || null },
+          }
+        : emptyResponse
+    );
+    setIsDialogOpen(true);
+  };
+
+  const insertVariable = (variable: string) => {
+    setForm((current) => ({ ...current, body: `${current.body}{${variable}}` }));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.title.trim() || !form.body.trim()) {
+      toast.error('Title and response text are required');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      if (editingId) {
+        await updateCannedResponse(editingId, form);
+        toast.success('Canned response updated');
+      } else {
+        await createCannedResponse(form);
+        toast.success('Canned response added');
+      }
+      setIsDialogOpen(false);
+      fetchResponses();
+    } catch (error) {
+      console.error('Failed to save canned response:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save canned response');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (response: CannedResponse) => {
+    if (!confirm(`Delete "${response.title}"?`)) return;
+
+    try {
+      await deleteCannedResponse(response._id);
+      toast.success('Canned response deleted');
+      fetchResponses();
+    } catch (error) {
+      console.error('Failed to delete canned response:', error);
+      toast.error('Failed to delete canned response');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <motion.div
+        className="flex items-center justify-center h-64"
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        transition={{ duration: 0.5 }}
+      >
+        <motion.div
+          className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"
+          animate={{ rotate: 360 }}
+          transition={{ duration: 1, repeat: Infinity, ease: "linear" }}
+        />
+      </motion.div>
+    );
+  }
+
+  return (
+    <motion.div
+      className="min-h-screen bg-background/50"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      transition={{ duration: 0.5 }}
+    >
+      <div className="container mx-auto px-4 py-6 space-y-8">
+        <motion.div
+          className="flex flex-wrap items-end justify-between gap-4"
+          initial={{ y: -20, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          transition={{ duration: 0.6, delay: 0.1 }}
+        >
+          <div className="space-y-2">
+            <h1 className="text-4xl font-bold tracking-tight bg-gradient-to-r from-foreground to-foreground/70 bg-clip-text text-transparent">
+              Canned Responses
+            </h1>
+            <p className="text-muted-foreground text-lg">
+              Saved replies and one-click macros for the ticket composer
+            </p>
+          </div>
+          {canEdit && (
+            <Button onClick={() => openDialog()}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Response
+            </Button>
+          )}
+        </motion.div>
+
+        <motion.div
+          initial={{ y: 20, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          transition={{ duration: 0.6, delay: 0.2 }}
+        >
+          <Card className="border-none shadow-lg">
+            <CardHeader className="pb-4">
+              <div className="flex items-center gap-3">
+                <div className="h-8 w-8 rounded-lg bg-primary/10 flex items-center justify-center">
+                  <MessageSquareText className="h-4 w-4 text-primary" />
+                </div>
+                <div>
+                  <CardTitle className="text-xl font-semibold">Library</CardTitle>
+                  <CardDescription className="text-muted-foreground">
+                    Most used first; department responses only show on that department&apos;s tickets
+                  </CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {responses.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-8">No canned responses yet</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Title</TableHead>
+                      <TableHead>Department</TableHead>
+                      <TableHead>Response</TableHead>
+                      <TableHead>Used</TableHead>
+                      <TableHead>Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {responses.map((response) => (
+                      <TableRow key={response._id}>
+                        <TableCell className="font-medium">
+                          <span className="flex items-center gap-1">
+                            {response.isMacro && <Zap className="h-3 w-3 text-amber-500" />}
+                            {response.title}
+                          </span>
+                          {response.isMacro && (
+                            <p className="text-xs text-amber-700">{describeMacroActions(response.actions)}</p>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline">
+                            {response.category ? getCategoryLabel(response.category) : 'All'}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="max-w-md truncate">{response.body}</TableCell>
+                        <TableCell>{response.usageCount}</TableCell>
+                        <TableCell>
+                          {canEdit && (
+                            <div className="flex items-center gap-2">
+                              <Button variant="ghost" size="sm" onClick={() => openDialog(response)}>
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                              <Button variant="ghost" size="sm" onClick={() => handleDelete(response)}>
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </motion.div>
+      </div>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <form onSubmit={handleSave} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>{editingId ? 'Edit response' : 'Add response'}</DialogTitle>
+              <DialogDescription>
+                Placeholders are filled in from the ticket when the response is used.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-1">
+              <Label htmlFor="title">Title</Label>
+              <Input
+                id="title"
+                placeholder="Housekeeping on the way"
+                value={form.title}
+                onChange={(e) => setForm({ ...form, title: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="body">Response</Label>
+              <Textarea
+                id="body"
+                rows={4}
+                placeholder="Hello {guestName}, housekeeping is on the way to room {roomNumber}, {eta}."
+                value={form.body}
+                onChange={(e) => setForm({ ...form, body: e.target.value })}
+              />
+              <div className="flex flex-wrap gap-1">
+                {TEMPLATE_VARIABLES.map((variable) => (
+                  <Badge
+                    key={variable}
+                    variant="outline"
+                    className="cursor-pointer text-xs"
+                    onClick={() => insertVariable(variable)}
+                  >
+                    {`{${variable}}`}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label>Department</Label>
+              <Select
+                value={form.category || ANY}
+                onValueChange={(value) =>
+                  setForm({ ...form, category: value === ANY ? null : (value as TicketCategory) })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>All departments</SelectItem>
+                  {TICKET_CATEGORIES.map((category) => (
+                    <SelectItem key={category} value={category}>
+                      {getCategoryLabel(category)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label>Then set status</Label>
+                <Select
+                  value={form.actions.status || NONE}
+                  onValueChange={(value) =>
+                    setForm({
+                      ...form,
+                      actions: {
+                        ...form.actions,
+                        status: value === NONE ? null : (value as MacroActions['status']),
+                      },
+                    })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>Leave as is</SelectItem>
+                    {MACRO_STATUSES.map((status) => (
+                      <SelectItem key={status} value={status}>
+                        {getStatusLabel(status)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Then assign to</Label>
+                <Select
+                  value={form.actions.assignee || NONE}
+                  onValueChange={(value) =>
+                    setForm({ ...form, actions: { ...form.actions, assignee: value === NONE ? null : value } })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>Leave as is</SelectItem>
+                    <SelectItem value="self">Whoever uses it</SelectItem>
+                    <SelectItem value="unassigned">Unassigned</SelectItem>
+                    {staff.map((member) => (
+                      <SelectItem key={member.id} value={member.id}>
+                        {member.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {editingId ? 'Save' : 'Add'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </motion.div>
+  );
+}
@@ -0,0 +1,193 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Gauge, Download } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  AccuracyInterval,
+  AccuracyReport,
+  downloadFeedbackExport,
+  getAccuracyReport,
+} from '@/lib/api/classifier';
+import { getCategoryLabel } from '@/lib/api/tickets';
+import { isManagementRole } from '@/lib/api/auth';
+import { useAuthStore } from '@/store/auth-store';
+
+const formatAccuracy = (accuracy: number | null) =>
+  accuracy === null ? '—' : `${Math.round(accuracy * 100)}%`;
+
+const accuracyColor = (accuracy: number | null) => {
+  if (accuracy === null) return 'bg-gray-100 text-gray-600';
+  if (accuracy >= 0.9) return 'bg-green-100 text-green-800';
+  if (accuracy >= 0.75) return 'bg-yellow-100 text-yellow-800';
+  return 'bg-red-100 text-red-800';
+};
+
+export default function ClassifierAccuracyPage() {
+  const { user } = useAuthStore();
+  const [report, setReport] = useState<AccuracyReport | null>(null);
+  const [interval, setReportInterval] = useState<AccuracyInterval>('week');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const canExport = isManagementRole(user?.role);
+
+  useEffect(() => {
+    setIsLoading(true);
+    getAccuracyReport(interval)
+      .then(setReport)
+      .catch((error) => {
+        console.error('Failed to fetch accuracy report:', error);
+        toast.error('Failed to load classifier accuracy');
+      })
+      .finally(() => setIsLoading(false));
+  }, [interval]);
+
+  const handleExport = async (format: 'csv' | 'json') => {
+    try {
+      setIsExporting(true);
+      await downloadFeedbackExport(format);
+    } catch (error) {
+      console.error('Failed to export feedback:', error);
+      toast.error('Failed to export training data');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // Most recent periods first, across every category
+  const periods = report
+    ? [...new Set(report.categories.flatMap((category) => category.periods.map((p) => p.period)))]
+        .sort()
+        .reverse()
+    : [];
+
+  return (
+    <motion.div
+      className="min-h-screen bg-background/50"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      transition={{ duration: 0.5 }}
+    >
+      <div className="container mx-auto px-4 py-6 space-y-8">
+        <motion.div
+          className="flex flex-wrap items-end justify-between gap-4"
+          initial={{ y: -20, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          transition={{ duration: 0.6, delay: 0.1 }}
+        >
+          <div className="space-y-2">
+            <h1 className="text-4xl font-bold tracking-tight bg-gradient-to-r from-foreground to-foreground/70 bg-clip-text text-transparent">
+              Classifier Accuracy
+            </h1>
+            <p className="text-muted-foreground text-lg">
+              How often staff had to move a request to another department
+            </p>
+          </div>
+          {canExport && (
+            <div className="flex gap-2">
+              <Button variant="outline" disabled={isExporting} onClick={() => handleExport('csv')}>
+                <Download className="h-4 w-4 mr-2" />
+                Export CSV
+              </Button>
+              <Button variant="outline" disabled={isExporting} onClick={() => handleExport('json')}>
+                <Download className="h-4 w-4 mr-2" />
+                Export JSON
+              </Button>
+            </div>
+          )}
+        </motion.div>
+
+        <motion.div
+          initial={{ y: 20, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          transition={{ duration: 0.6, delay: 0.2 }}
+        >
+          <Card className="border-none shadow-lg">
+            <CardHeader className="pb-4">
+              <div className="flex items-center justify-between gap-3">
+                <div className="flex items-center gap-3">
+                  <div className="h-8 w-8 rounded-lg bg-primary/10 flex items-center justify-center">
+                    <Gauge className="h-4 w-4 text-primary" />
+                  </div>
+                  <div>
+                    <CardTitle className="text-xl font-semibold">
+                      Overall {formatAccuracy(report?.overall.accuracy ?? null)}
+                    </CardTitle>
+                    <CardDescription className="text-muted-foreground">
+                      {report
+                        ? `${report.overall.corrected} of ${report.overall.total} classified tickets were re-categorised`
+                        : 'Loading...'}
+                    </CardDescription>
+                  </div>
+                </div>
+                <Select value={interval} onValueChange={(value: AccuracyInterval) => setReportInterval(value)}>
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="day">Daily</SelectItem>
+                    <SelectItem value="week">Weekly</SelectItem>
+                    <SelectItem value="month">Monthly</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              {isLoading || !report ? (
+                <div className="flex items-center justify-center h-32">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Category</TableHead>
+                      <TableHead>All time</TableHead>
+                      {periods.map((period) => (
+                        <TableHead key={period}>{period}</TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.categories.map((category) => (
+                      <TableRow key={category.category}>
+                        <TableCell className="font-medium">{getCategoryLabel(category.category)}</TableCell>
+                        <TableCell>
+                          <Badge className={`${accuracyColor(category.accuracy)} border-none`}>
+                            {formatAccuracy(category.accuracy)}
+                          </Badge>
+                          <span className="ml-2 text-xs text-muted-foreground">{category.total} tickets</span>
+                        </TableCell>
+                        {periods.map((period) => {
+                          const row = category.periods.find((p) => p.period === period);
+                          return (
+                            <TableCell key={period}>
+                              {row ? (
+                                <span title={`${row.corrected} of ${row.total} corrected`}>
+                                  {formatAccuracy(row.accuracy)}
+                                </span>
+                              ) : (
+                                <span className="text-muted-foreground">—</span>
+                              )}
+                            </TableCell>
+                          );
+                        })}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </motion.div>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,495 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { BookOpen, Hotel, Pencil, Plus, Save, Send, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  KNOWLEDGE_TOPICS,
+  KnowledgeAnswer,
+  KnowledgeBase,
+  KnowledgeEntry,
+  KnowledgeEntryData,
+  KnowledgeTopic,
+  createKnowledgeEntry,
+  deleteKnowledgeEntry,
+  getKnowledgeBase,
+  getTopicLabel,
+  previewKnowledgeAnswer,
+  updateHotelDetails,
+  updateKnowledgeEntry,
+} from '@/lib/api/knowledge';
+import { isManagementRole } from '@/lib/api/auth';
+import { useAuthStore } from '@/store/auth-store';
+
+const emptyEntry: KnowledgeEntryData = {
+  topic: 'faq',
+  question: '',
+  answer: '',
+  keywords: [],
+};
+
+// Comma separated text in the form, a list in the API
+const splitList = (value: string) =>
+  value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+export default function KnowledgeBasePage() {
+  const { user } = useAuthStore();
+  const [knowledgeBase, setKnowledgeBase] = useState<KnowledgeBase | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<KnowledgeEntryData>(emptyEntry);
+  const [keywordsText, setKeywordsText] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [hotelDraft, setHotelDraft] = useState({ checkInTime: '', checkOutTime: '', amenities: '' });
+  const [testMessage, setTestMessage] = useState('');
+  const [testResult, setTestResult] = useState<KnowledgeAnswer | null | undefined>(undefined);
+
+  const canEdit = isManagementRole(user?.role);
+
+  const fetchKnowledgeBase = async () => {
+    try {
+      const data = await getKnowledgeBase();
+      setKnowledgeBase(data);
+      if (data.hotel) {
+        setHotelDraft({
+          checkInTime: data.hotel.checkInTime,
+          checkOutTime: data.hotel.checkOutTime,
+          amenities: data.hotel.amenities.join(', '),
+        });
+      }
+    } catch (error) {
+      console.error('Failed to fetch knowledge base:', error);
+      toast.error('Failed to load knowledge base');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchKnowledgeBase();
+  }, []);
+
+  const openDialog = (entry?: KnowledgeEntry) => {
+    setEditingId(entry?._id || null);
+    setForm(
+      entry
+        ? { topic: entry.topic, question: entry.question, answer: entry.answer, keywords: entry.keywords }
+        : emptyEntry
+    );
+    setKeywordsText(entry ? entry.keywords.join(', ') : '');
+    setIsDialogOpen(true);
+  };
+
+  const handleSaveEntry = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.question.trim() || !form.answer.trim()) {
+      toast.error('Question and answer are required');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const data = { ...form, keywords: splitList(keywordsText) };
+      if (editingId) {
+        await updateKnowledgeEntry(editingId, data);
+        toast.success('Entry updated');
+      } else {
+        await createKnowledgeEntry(data);
+        toast.success('Entry added');
+      }
+      setIsDialogOpen(false);
+      fetchKnowledgeBase();
+    } catch (error) {
+      console.error('Failed to save knowledge entry:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save entry');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (entry: KnowledgeEntry) => {
+    try {
+      await updateKnowledgeEntry(entry._id, { isActive: !entry.isActive });
+      fetchKnowledgeBase();
+    } catch (error) {
+      console.error('Failed to update knowledge entry:', error);
+      toast.error('Failed to update entry');
+    }
+  };
+
+  const handleDelete = async (entry: KnowledgeEntry) => {
+    if (!confirm(`Delete "${entry.question}"?`)) return;
+
+    try {
+      await deleteKnowledgeEntry(entry._id);
+      toast.success('Entry deleted');
+      fetchKnowledgeBase();
+    } catch (error) {
+      console.error('Failed to delete knowledge entry:', error);
+      toast.error('Failed to delete entry');
+    }
+  };
+
+  const handleSaveHotel = async () => {
+    try {
+      setIsSaving(true);
+      const updated = await updateHotelDetails({
+        checkInTime: hotelDraft.checkInTime,
+        checkOutTime: hotelDraft.checkOutTime,
+        amenities: splitList(hotelDraft.amenities),
+      });
+      setKnowledgeBase((current) => (current ? { ...current, ...updated } : current));
+      toast.success('Hotel details saved');
+    } catch (error) {
+      console.error('Failed to save hotel details:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save hotel details');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleTest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!testMessage.trim()) return;
+
+    try {
+      setTestResult(await previewKnowledgeAnswer(testMessage));
+    } catch (error) {
+      console.error('Failed to preview answer:', error);
+      toast.error('Failed to test question');
+    }
+  };
+
+  if (isLoading || !knowledgeBase) {
+    return (
+      <motion.div
+        className="flex items-center justify-center h-64"
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        transition={{ duration: 0.5 }}
+      >
+        <motion.div
+          className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"
+          animate={{ rotate: 360 }}
+          transition={{ duration: 1, repeat: Infinity, ease: "linear" }}
+        />
+      </motion.div>
+    );
+  }
+
+  return (
+    <motion.div
+      className="min-h-screen bg-background/50"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      transition={{ duration: 0.5 }}
+    >
+      <div className="container mx-auto px-4 py-6 space-y-8">
+        <motion.div
+          className="flex flex-wrap items-end justify-between gap-4"
+          initial={{ y: -20, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          transition={{ duration: 0.6, delay: 0.1 }}
+        >
+          <div className="space-y-2">
+            <h1 className="text-4xl font-bold tracking-tight bg-gradient-to-r from-foreground to-foreground/70 bg-clip-text text-transparent">
+              Knowledge Base
+            </h1>
+            <p className="text-muted-foreground text-lg">
+              Answers the assistant gives guests without raising a request
+            </p>
+          </div>
+          {canEdit && (
+            <Button onClick={() => openDialog()}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Entry
+            </Button>
+          )}
+        </motion.div>
+
+        <motion.div
+          className="grid gap-6 lg:grid-cols-2"
+          initial={{ y: 20, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          transition={{ duration: 0.6, delay: 0.2 }}
+        >
+          <Card className="border-none shadow-lg">
+            <CardHeader className="pb-4">
+              <CardTitle className="text-xl font-semibold">Try a question</CardTitle>
+              <CardDescription className="text-muted-foreground">
+                Ask the way a guest would to see what the assistant answers
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <form onSubmit={handleTest} className="flex gap-2">
+                <Input
+                  placeholder="What time is breakfast?"
+                  value={testMessage}
+                  onChange={(e) => {
+                    setTestMessage(e.target.value);
+                    setTestResult(undefined);
+                  }}
+                />
+                <Button type="submit" size="icon" disabled={!testMessage.trim()}>
+                  <Send className="h-4 w-4" />
+                </Button>
+              </form>
+              {testResult === null && (
+                <p className="text-sm text-muted-foreground">
+                  No answer found, so the request would go to staff.
+                </p>
+              )}
+              {testResult && (
+                <div className="rounded-lg bg-muted/50 p-3 text-sm space-y-1">
+                  <p>{testResult.answer}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Matched &quot;{testResult.question}&quot; ({Math.round(testResult.score * 100)}%)
+                    {testResult.source === 'hotel' && ' from the hotel profile'}
+                  </p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="border-none shadow-lg">
+            <CardHeader className="pb-4">
+              <div className="flex items-center gap-3">
+                <div className="h-8 w-8 rounded-lg bg-primary/10 flex items-center justify-center">
+                  <Hotel className="h-4 w-4 text-primary" />
+                </div>
+                <div>
+                  <CardTitle className="text-xl font-semibold">Hotel details</CardTitle>
+                  <CardDescription className="text-muted-foreground">
+                    Check-in, check-out and amenities are answered from the hotel profile
+                  </CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {knowledgeBase.hotel ? (
+                <div className="space-y-3">
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-1">
+                      <Label htmlFor="checkInTime">Check-in from</Label>
+                      <Input
+                        id="checkInTime"
+                        type="time"
+                        disabled={!canEdit}
+                        value={hotelDraft.checkInTime}
+                        onChange={(e) => setHotelDraft({ ...hotelDraft, checkInTime: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="checkOutTime">Check-out by</Label>
+                      <Input
+                        id="checkOutTime"
+                        type="time"
+                        disabled={!canEdit}
+                        value={hotelDraft.checkOutTime}
+                        onChange={(e) => setHotelDraft({ ...hotelDraft, checkOutTime: e.target.value })}
+                      />
+                    </div>
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="amenities">Amenities</Label>
+                    <Input
+                      id="amenities"
+                      placeholder="Pool, Gym, Spa"
+                      disabled={!canEdit}
+                      value={hotelDraft.amenities}
+                      onChange={(e) => setHotelDraft({ ...hotelDraft, amenities: e.target.value })}
+                    />
+                  </div>
+                  {canEdit && (
+                    <Button variant="outline" disabled={isSaving} onClick={handleSaveHotel}>
+                      <Save className="h-4 w-4 mr-2" />
+                      Save details
+                    </Button>
+                  )}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  No hotel profile is set up for this account yet, so only the entries below are used.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </motion.div>
+
+        <motion.div
+          initial={{ y: 20, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          transition={{ duration: 0.6, delay: 0.3 }}
+        >
+          <Card className="border-none shadow-lg">
+            <CardHeader className="pb-4">
+              <div className="flex items-center gap-3">
+                <div className="h-8 w-8 rounded-lg bg-primary/10 flex items-center justify-center">
+                  <BookOpen className="h-4 w-4 text-primary" />
+                </div>
+                <div>
+                  <CardTitle className="text-xl font-semibold">Questions and answers</CardTitle>
+                  <CardDescription className="text-muted-foreground">
+                    {knowledgeBase.entries.length} entries, plus {knowledgeBase.hotelEntries.length} from the hotel profile
+                  </CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Question</TableHead>
+                    <TableHead>Topic</TableHead>
+                    <TableHead>Answer</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {knowledgeBase.entries.map((entry) => (
+                    <TableRow key={entry._id}>
+                      <TableCell className="font-medium">
+                        {entry.question}
+                        {entry.keywords.length > 0 && (
+                          <p className="text-xs text-muted-foreground">{entry.keywords.join(', ')}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{getTopicLabel(entry.topic)}</Badge>
+                      </TableCell>
+                      <TableCell className="max-w-sm truncate">{entry.answer}</TableCell>
+                      <TableCell>
+                        <Badge
+                          className={`border-none cursor-pointer ${
+                            entry.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'
+                          }`}
+                          onClick={() => canEdit && handleToggleActive(entry)}
+                        >
+                          {entry.isActive ? 'Active' : 'Paused'}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        {canEdit && (
+                          <div className="flex items-center gap-2">
+                            <Button variant="ghost" size="sm" onClick={() => openDialog(entry)}>
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => handleDelete(entry)}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  {knowledgeBase.hotelEntries.map((entry) => (
+                    <TableRow key={entry.question} className="text-muted-foreground">
+                      <TableCell>{entry.question}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{getTopicLabel(entry.topic)}</Badge>
+                      </TableCell>
+                      <TableCell className="max-w-sm truncate">{entry.answer}</TableCell>
+                      <TableCell>
+                        <span className="text-xs">Hotel profile</span>
+                      </TableCell>
+                      <TableCell />
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </motion.div>
+      </div>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <form onSubmit={handleSaveEntry} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>{editingId ? 'Edit entry' : 'Add entry'}</DialogTitle>
+              <DialogDescription>
+                Write the question the way guests ask it; keywords catch other wordings and languages.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-1">
+              <Label>Topic</Label>
+              <Select
+                value={form.topic}
+                onValueChange={(value: KnowledgeTopic) => setForm({ ...form, topic: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {KNOWLEDGE_TOPICS.map((topic) => (
+                    <SelectItem key={topic} value={topic}>
+                      {getTopicLabel(topic)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="question">Question</Label>
+              <Input
+                id="question"
+                placeholder="What time is breakfast?"
+                value={form.question}
+                onChange={(e) => setForm({ ...form, question: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="answer">Answer</Label>
+              <Textarea
+                id="answer"
+                rows={4}
+                placeholder="Breakfast is served from 7 to 10am in the restaurant on the ground floor."
+                value={form.answer}
+                onChange={(e) => setForm({ ...form, answer: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="keywords">Keywords</Label>
+              <Input
+                id="keywords"
+                placeholder="desayuno, petit dejeuner, morning"
+                value={keywordsText}
+                onChange={(e) => setKeywordsText(e.target.value)}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {editingId ? 'Save' : 'Add'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </motion.div>
+  );
+}
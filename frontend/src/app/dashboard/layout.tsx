@@ -1,15 +1,17 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
-import { LayoutDashboard, Building2, Ticket, Menu, X, LogOut, Bell, Search, Users, Settings, Hotel, MessageSquare, ChevronRight } from 'lucide-react';
+import { LayoutDashboard, Building2, Ticket, Menu, X, LogOut, Bell, Search, Users, Settings, Hotel, MessageSquare, ChevronRight, UserPlus, Timer, Archive, Gauge, BookOpen, MessageSquareText, Building, Sparkles, CalendarDays } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { useAuthStore } from '@/store/auth-store';
-import { logout } from '@/lib/api/auth';
+import { logout, isManagementRole } from '@/lib/api/auth';
+import { InviteStaffDialog } from '@/components/staff/invite-staff-dialog';
+import { PropertySwitcher } from '@/components/properties/property-switcher';
 import { toast } from 'sonner';
 import { Separator } from '@/components/ui/separator';
 import { motion, AnimatePresence } from 'framer-motion';
@@ -21,7 +23,16 @@ export default function DashboardLayout({
 }) {
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const pathname = usePathname();
-  const { user, setIsAuthenticated, setUser } = useAuthStore();
+  const [isInviteOpen, setIsInviteOpen] = useState(false);
+  const { user, setIsAuthenticated, setUser, initializeAuth } = useAuthStore();
+  const canManageTeam = isManagementRole(user?.role);
+
+  // Restore the signed-in user after a page reload
+  useEffect(() => {
+    if (!user) {
+      initializeAuth();
+    }
+  }, [user, initializeAuth]);
 
   const navItems = [
     { 
@@ -36,12 +47,62 @@ export default function DashboardLayout({
       icon: Building2,
       description: 'Manage hotel rooms'
     },
+    { 
+      name: 'Bookings', 
+      href: '/dashboard/bookings', 
+      icon: CalendarDays,
+      description: 'Room availability and stays'
+    },
     { 
       name: 'Service Requests', 
       href: '/dashboard/tickets', 
       icon: Ticket,
       description: 'Handle guest requests'
     },
+    { 
+      name: 'Archive', 
+      href: '/dashboard/archive', 
+      icon: Archive,
+      description: 'Completed request history'
+    },
+    {
+      name: 'Knowledge Base',
+      href: '/dashboard/knowledge',
+      icon: BookOpen,
+      description: 'Answers for common guest questions'
+    },
+    {
+      name: 'Canned Responses',
+      href: '/dashboard/canned-responses',
+      icon: MessageSquareText,
+      description: 'Saved replies and macros'
+    },
+    ...(canManageTeam
+      ? [{
+          name: 'Classifier',
+          href: '/dashboard/classifier',
+          icon: Gauge,
+          description: 'Request routing accuracy'
+        },
+        {
+          name: 'Properties',
+          href: '/dashboard/properties',
+          icon: Building,
+          description: 'Open requests across the group'
+        },
+        {
+          name: 'Team',
+          href: '/dashboard/staff',
+          icon: Users,
+          description: 'Staff and permissions'
+        },
+        {
+          name: 'SLA Policies',
+          href: '/dashboard/sla',
+          icon: Timer,
+          description: 'Response and resolution targets'
+        }]
+      : []),
   ];
 
   const handleLogout = async () => {
@@ -201,6 +262,24 @@ export default function DashboardLayout({
               </div>
             </motion.div>
             
+            {canManageTeam && (
+              <motion.div
+                className="flex items-center gap-2"
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+              >
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setIsInviteOpen(true)}
+                  className="w-full justify-start border-none"
+                >
+                  <UserPlus className="h-4 w-4 mr-2" />
+                  Invite Staff
+                </Button>
+              </motion.div>
+            )}
+
             <motion.div 
               className="flex items-center gap-2"
               whileHover={{ scale: 1.02 }}
@@ -258,7 +337,14 @@ export default function DashboardLayout({
               <h1 className="text-xl font-semibold text-foreground">
               {navItems.find((item) => item.href === pathname)?.name || 
                  (pathname?.startsWith('/dashboard/rooms') ? 'Rooms' : 
-                  pathname?.startsWith('/dashboard/tickets') ? 'Service Requests' : 'Dashboard')}
+                  pathname?.startsWith('/dashboard/tickets') ? 'Service Requests' :
+                  pathname?.startsWith('/dashboard/staff') ? 'Team' :
+                  pathname?.startsWith('/dashboard/properties') ? 'Properties' :
+                  pathname?.startsWith('/dashboard/sla') ? 'SLA Policies' :
+                  pathname?.startsWith('/dashboard/archive') ? 'Archive' :
+                  pathname?.startsWith('/dashboard/classifier') ? 'Classifier' :
+                  pathname?.startsWith('/dashboard/knowledge') ? 'Knowledge Base' :
+                  pathname?.startsWith('/dashboard/canned-responses') ? 'Canned Responses' : 'Dashboard')}
             </h1>
               {pathname && pathname !== '/dashboard' && (
                 <>
@@ -276,6 +362,15 @@ export default function DashboardLayout({
               animate={{ x: 0, opacity: 1 }}
               transition={{ delay: 0.5 }}
             >
+              {canManageTeam && user?.hotel && !user.hotel.onboarded && (
+                <Button asChild size="sm" className="border-none">
+                  <Link href="/onboarding">
+                    <Sparkles className="h-4 w-4 mr-2" />
+                    Finish setup
+                  </Link>
+                </Button>
+              )}
+              <PropertySwitcher />
               <motion.div
                 whileHover={{ scale: 1.1 }}
                 whileTap={{ scale: 0.9 }}
@@ -307,6 +402,8 @@ export default function DashboardLayout({
           {children}
         </motion.main>
       </motion.div>
+
+      <InviteStaffDialog open={isInviteOpen} onOpenChange={setIsInviteOpen} />
     </motion.div>
   );
 }
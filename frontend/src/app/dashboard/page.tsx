@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -22,7 +22,13 @@ import {
 } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { TicketCard } from "@/components/kanban/ticket-card";
-import { KanbanColumn } from "@/components/kanban/kanban-column";
+import {
+  KanbanColumn,
+  KanbanColumnId,
+  KANBAN_COLUMNS,
+  getColumnForStatus,
+  getDropStatus,
+} from "@/components/kanban/kanban-column";
 import {
   DndContext,
   DragEndEvent,
@@ -31,7 +37,6 @@ import {
   PointerSensor,
   useSensor,
   useSensors,
-  useDroppable,
 } from "@dnd-kit/core";
 import {
   SortableContext,
@@ -51,8 +56,45 @@ import {
   Bot,
   Sparkles,
   Bell,
+  CheckCheck,
+  ThumbsUp,
+  ThumbsDown,
 } from "lucide-react";
-import { apiClient } from "@/lib/api/client";
+import { apiClient, SOCKET_URL, getActiveHotelId } from "@/lib/api/client";
+import {
+  TICKET_CATEGORIES,
+  TicketAssignee,
+  TicketCategory,
+  TicketPriority,
+  TicketReadReceipts,
+  TicketSla,
+  TicketStatus,
+  TicketStatusChange,
+  Workload,
+  AssigneeFilter,
+  assignTicket,
+  getWorkload,
+  getAllowedTransitions,
+  getStatusLabel,
+  markTicketRead,
+  updateTicketCategory,
+  updateTicketStatus,
+  TYPING_IDLE_MS,
+} from "@/lib/api/tickets";
+import { AssigneeSelect } from "@/components/tickets/assignee-select";
+import { WorkloadPanel } from "@/components/tickets/workload-panel";
+import { ScanFunnelPanel } from "@/components/rooms/scan-funnel-panel";
+import { SlaBadge, isSlaBreached } from "@/components/tickets/sla-badge";
+import { ChatTranscript } from "@/components/tickets/chat-transcript";
+import { CannedResponsePicker } from "@/components/tickets/canned-response-picker";
+import {
+  ReplySuggestion,
+  SuggestionRating,
+  getReplySuggestions,
+  getReplyTypeLabel,
+  sendSuggestionFeedback,
+} from "@/lib/api/assist";
+import { useAuthStore } from "@/store/auth-store";
 import { toast } from "sonner";
 import { formatDistanceToNow } from "date-fns";
 import io from "socket.io-client";
@@ -163,24 +205,11 @@ const getCategoryColor = (category?: Ticket["category"]) => {
   }
 };
 
-// Group tickets by guest request (same guest, room, and similar creation time)
-const groupRelatedTickets = (tickets: Ticket[]) => {
-  const groups: Map<string, Ticket[]> = new Map();
-
-  tickets.forEach((ticket) => {
-    // Create a key based on guest name, room number, and creation time (within 5 minutes)
-    const createdTime = new Date(ticket.createdAt);
-    const timeSlot = Math.floor(createdTime.getTime() / (5 * 60 * 1000)); // 5-minute slots
-    const groupKey = `${ticket.guestInfo.name}-${ticket.roomNumber}-${timeSlot}`;
-
-    if (!groups.has(groupKey)) {
-      groups.set(groupKey, []);
-    }
-    groups.get(groupKey)!.push(ticket);
-  });
-
-  return Array.from(groups.values());
-};
+// Tickets raised from the same guest message, as grouped by the server
+const getRelatedTickets = (ticket: Ticket, tickets: Ticket[]) =>
+  ticket.requestGroupId
+    ? tickets.filter((t) => t.requestGroupId === ticket.requestGroupId)
+    : [ticket];
 
 // Get single category from ticket (no inference needed - AI already classified)
 const getTicketCategory = (ticket: Ticket): Ticket["category"] => {
@@ -210,9 +239,16 @@ interface Ticket {
     email?: string;
     phone?: string;
   };
-  status: "raised" | "in_progress" | "completed";
+  status: TicketStatus;
+  holdReason?: string | null;
+  statusHistory?: TicketStatusChange[];
   subject?: string;
+  assignedTo?: TicketAssignee | null;
+  requestGroupId?: string | null;
+  priority?: TicketPriority;
+  sla?: TicketSla;
   messages: Message[];
+  lastReadAt?: TicketReadReceipts;
   createdAt: string;
   updatedAt: string;
   completedAt?: string;
@@ -231,42 +267,58 @@ interface DashboardStats {
   raisedTickets: number;
   inProgressTickets: number;
   completedTickets: number;
+  breachedTickets: number;
 }
 
+const emptyColumns = (): Record<KanbanColumnId, Ticket[]> => ({
+  raised: [],
+  acknowledged: [],
+  in_progress: [],
+  on_hold: [],
+  completed: [],
+});
+
 export default function DashboardPage() {
-  const [tickets, setTickets] = useState<Record<string, Ticket[]>>({
-    raised: [],
-    in_progress: [],
-    completed: [],
-  });
+  const [tickets, setTickets] = useState<Record<KanbanColumnId, Ticket[]>>(
+    emptyColumns()
+  );
   const [rooms, setRooms] = useState<Room[]>([]);
   const [stats, setStats] = useState<DashboardStats>({
     totalRooms: 0,
     raisedTickets: 0,
     inProgressTickets: 0,
     completedTickets: 0,
+    breachedTickets: 0,
   });
   const [isLoading, setIsLoading] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
   const [filterRoom, setFilterRoom] = useState<string | null>(null);
+  const [assigneeFilter, setAssigneeFilter] = useState<AssigneeFilter>("all");
+  const [workload, setWorkload] = useState<Workload | null>(null);
   const [selectedTicket, setSelectedTicket] = useState<Ticket | null>(null);
   const [newMessage, setNewMessage] = useState("");
-  const [aiSuggestion, setAiSuggestion] = useState("");
+  const [aiSuggestions, setAiSuggestions] = useState<ReplySuggestion[]>([]);
+  const [suggestionRatings, setSuggestionRatings] = useState<Record<string, SuggestionRating>>({});
+  // Suggestion the reply box was filled from, to record what was finally sent
+  const usedSuggestion = useRef<ReplySuggestion | null>(null);
   const [isLoadingAI, setIsLoadingAI] = useState(false);
   const [newRoom, setNewRoom] = useState({ number: "", type: "", floor: 1 });
   const [activeTicket, setActiveTicket] = useState<Ticket | null>(null);
+  const [holdTicketId, setHoldTicketId] = useState<string | null>(null);
+  const [holdReason, setHoldReason] = useState("");
   const [isRoomDialogOpen, setIsRoomDialogOpen] = useState(false);
   const [isTicketDialogOpen, setIsTicketDialogOpen] = useState(false);
   const [socket, setSocket] = useState<any>(null);
-  // Category filter: default all selected
-  const allCategories: Ticket["category"][] = [
-    "reception",
-    "housekeeping",
-    "porter",
-    "concierge",
-    "service_fb",
-    "maintenance",
-  ];
+  const [guestTyping, setGuestTyping] = useState<string | null>(null);
+  // Id of the ticket open in the detail dialog, for socket handlers
+  const openTicketId = useRef<string | null>(null);
+  const typingTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const { user } = useAuthStore();
+  // Category filter: default all selected, limited to the user's departments
+  const allCategories: Ticket["category"][] =
+    user && user.role !== "owner" && user.allowedCategories?.length
+      ? user.allowedCategories
+      : TICKET_CATEGORIES;
   const [selectedCategories, setSelectedCategories] =
     useState<Ticket["category"][]>(allCategories);
 
@@ -302,10 +354,7 @@ export default function DashboardPage() {
     // Set up WebSocket connection for real-time ticket notifications
     const setupWebSocket = () => {
       // Use local WebSocket URL for development, production URL for production
-      const wsUrl =
-        process.env.NODE_ENV === "development"
-          ? "http://localhost:5050"
-          : "wss://hotel-mvp-7vdz.vercel.app";
+      const wsUrl = SOCKET_URL;
 
       console.log("🔌 Connecting to WebSocket:", wsUrl);
       console.log("🔌 NODE_ENV:", process.env.NODE_ENV);
@@ -326,7 +375,9 @@ export default function DashboardPage() {
         console.log("🔗 Connected to WebSocket server");
         console.log("🔗 Socket ID:", newSocket.id);
         // Join managers room to receive new ticket notifications
-        newSocket.emit("joinManagersRoom", "manager");
+        newSocket.emit("joinManagersRoom", localStorage.getItem("token"), getActiveHotelId());
+        // Join personal room to receive assignment notifications
+        newSocket.emit("joinUserRoom", localStorage.getItem("token"));
       });
 
       newSocket.on("connect_error", (error: any) => {
@@ -367,6 +418,103 @@ export default function DashboardPage() {
         fetchData();
       });
 
+      newSocket.on("ticketSlaBreached", (ticket: Ticket) => {
+        toast.error(`SLA breached for Room ${ticket.roomNumber}`, {
+          description: ticket.subject || "Service Request",
+          action: {
+            label: "View",
+            onClick: () => setSelectedTicket(ticket),
+          },
+        });
+        fetchData();
+      });
+
+      newSocket.on(
+        "ticketEscalated",
+        (data: { ticket: Ticket; message: string }) => {
+          toast.warning(`Escalated: Room ${data.ticket.roomNumber}`, {
+            description: data.message,
+            action: {
+              label: "View",
+              onClick: () => setSelectedTicket(data.ticket),
+            },
+          });
+          fetchData();
+        }
+      );
+
+      // Guests can cancel, verify or reopen tickets from their side
+      newSocket.on("ticketUpdated", () => {
+        fetchData();
+      });
+
+      // Keep the open conversation in step with the guest
+      newSocket.on("newMessage", (ticket: Ticket) => {
+        if (ticket._id !== openTicketId.current) return;
+        setSelectedTicket((current) =>
+          current && current._id === ticket._id
+            ? { ...current, messages: ticket.messages, lastReadAt: ticket.lastReadAt }
+            : current
+        );
+        markTicketRead(ticket._id).catch((error) =>
+          console.error("Failed to send read receipt:", error)
+        );
+      });
+
+      newSocket.on(
+        "guestMessage",
+        (data: { ticket: Ticket; message: Message }) => {
+          if (data.ticket._id !== openTicketId.current) {
+            toast.info(`Message from Room ${data.ticket.roomNumber}`, {
+              description: data.message.content,
+              action: {
+                label: "View",
+                onClick: () => setSelectedTicket(data.ticket),
+              },
+            });
+          }
+          fetchData();
+        }
+      );
+
+      newSocket.on(
+        "ticketTyping",
+        (data: { ticketId: string; side: string; name: string; isTyping: boolean }) => {
+          if (data.side !== "guest" || data.ticketId !== openTicketId.current) return;
+          setGuestTyping(data.isTyping ? data.name : null);
+        }
+      );
+
+      newSocket.on(
+        "ticketRead",
+        (data: { ticketId: string; side: keyof TicketReadReceipts; readAt: string }) => {
+          setSelectedTicket((current) =>
+            current && current._id === data.ticketId
+              ? {
+                  ...current,
+                  lastReadAt: { ...current.lastReadAt, [data.side]: data.readAt },
+                }
+              : current
+          );
+        }
+      );
+
+      newSocket.on("ticketAssigned", (ticket: Ticket) => {
+        const currentUser = useAuthStore.getState().user;
+        if (currentUser && ticket.assignedTo?._id === currentUser.id) {
+          toast.success(`Ticket assigned to you`, {
+            description: `Room ${ticket.roomNumber} - ${
+              ticket.subject || "Service Request"
+            }`,
+            action: {
+              label: "View",
+              onClick: () => setSelectedTicket(ticket),
+            },
+          });
+        }
+        fetchData();
+      });
+
       newSocket.on("disconnect", () => {
         console.log("❌ Disconnected from WebSocket server");
       });
@@ -387,6 +535,50 @@ export default function DashboardPage() {
     };
   }, []);
 
+  // Follow the open ticket's room for typing and read receipts
+  const selectedTicketId = selectedTicket?._id;
+  useEffect(() => {
+    openTicketId.current = selectedTicketId || null;
+    if (!selectedTicketId || !socket) return;
+
+    socket.emit("joinTicketRoom", selectedTicketId, localStorage.getItem("token"));
+    markTicketRead(selectedTicketId)
+      .then((lastReadAt) =>
+        setSelectedTicket((current) =>
+          current && current._id === selectedTicketId ? { ...current, lastReadAt } : current
+        )
+      )
+      .catch((error) => console.error("Failed to send read receipt:", error));
+
+    return () => {
+      if (typingTimeout.current) {
+        clearTimeout(typingTimeout.current);
+        typingTimeout.current = null;
+        socket.emit("ticketTyping", { ticketId: selectedTicketId, isTyping: false });
+      }
+      socket.emit("leaveTicketRoom", selectedTicketId);
+      setGuestTyping(null);
+      setAiSuggestions([]);
+      usedSuggestion.current = null;
+    };
+  }, [selectedTicketId, socket]);
+
+  const handleReplyChange = (value: string) => {
+    setNewMessage(value);
+    if (!socket || !selectedTicket) return;
+
+    const ticketId = selectedTicket._id;
+    if (!typingTimeout.current) {
+      socket.emit("ticketTyping", { ticketId, isTyping: true });
+    } else {
+      clearTimeout(typingTimeout.current);
+    }
+    typingTimeout.current = setTimeout(() => {
+      typingTimeout.current = null;
+      socket.emit("ticketTyping", { ticketId, isTyping: false });
+    }, TYPING_IDLE_MS);
+  };
+
   const fetchData = async () => {
     try {
       const [ticketsResponse, roomsResponse] = await Promise.all([
@@ -428,22 +620,26 @@ export default function DashboardPage() {
         }
 
         const groupedTickets = ticketsData.reduce(
-          (acc: Record<string, Ticket[]>, ticket: Ticket) => {
-            if (!acc[ticket.status]) {
-              acc[ticket.status] = [];
-            }
-            acc[ticket.status].push(ticket);
+          (acc: Record<KanbanColumnId, Ticket[]>, ticket: Ticket) => {
+            acc[getColumnForStatus(ticket.status)].push(ticket);
             return acc;
           },
-          { raised: [], in_progress: [], completed: [] }
+          emptyColumns()
         );
 
         setTickets(groupedTickets);
         setStats({
           totalRooms: roomsResponse.data?.data?.length || 0,
-          raisedTickets: groupedTickets.raised?.length || 0,
-          inProgressTickets: groupedTickets.in_progress?.length || 0,
-          completedTickets: groupedTickets.completed?.length || 0,
+          raisedTickets: groupedTickets.raised.length,
+          // Everything staff have picked up but not closed
+          inProgressTickets:
+            groupedTickets.acknowledged.length +
+            groupedTickets.in_progress.length +
+            groupedTickets.on_hold.length,
+          completedTickets: groupedTickets.completed.length,
+          breachedTickets: ticketsData.filter((t: Ticket) =>
+            isSlaBreached(t.sla)
+          ).length,
         });
       }
 
@@ -453,6 +649,11 @@ export default function DashboardPage() {
       ) {
         setRooms(roomsResponse.data.data);
       }
+
+      // Workload is secondary - don't fail the whole dashboard over it
+      getWorkload()
+        .then(setWorkload)
+        .catch((error) => console.error("Failed to fetch workload:", error));
     } catch (error) {
       console.error("Failed to fetch data:", error);
       toast.error("Failed to load dashboard data");
@@ -461,15 +662,94 @@ export default function DashboardPage() {
     }
   };
 
-  const handleStatusChange = async (ticketId: string, newStatus: string) => {
+  const handleStatusChange = async (
+    ticketId: string,
+    newStatus: TicketStatus,
+    reason?: string
+  ) => {
     try {
-      console.log("Updating ticket status:", { ticketId, newStatus });
-      await apiClient.put(`/tickets/${ticketId}/status`, { status: newStatus });
+      const updatedTicket = await updateTicketStatus<Ticket>(
+        ticketId,
+        newStatus,
+        reason
+      );
+      setSelectedTicket((current) =>
+        current?._id === ticketId ? updatedTicket : current
+      );
       fetchData();
-      toast.success("Ticket status updated");
+      toast.success(`Ticket moved to ${getStatusLabel(newStatus)}`);
     } catch (error) {
       console.error("Error updating ticket status:", error);
-      toast.error("Failed to update ticket status");
+      toast.error(
+        error instanceof Error ? error.message : "Failed to update ticket status"
+      );
+    }
+  };
+
+  // Putting a ticket on hold needs a reason, so ask for one first
+  const requestStatusChange = (ticketId: string, newStatus: TicketStatus) => {
+    if (newStatus === "on_hold") {
+      setHoldTicketId(ticketId);
+      setHoldReason("");
+      return;
+    }
+    handleStatusChange(ticketId, newStatus);
+  };
+
+  const confirmHold = async () => {
+    if (!holdTicketId || !holdReason.trim()) return;
+    await handleStatusChange(holdTicketId, "on_hold", holdReason.trim());
+    setHoldTicketId(null);
+    setHoldReason("");
+  };
+
+  const handleAssign = async (ticketId: string, assigneeId: string | null) => {
+    try {
+      const updatedTicket = await assignTicket<Ticket>(ticketId, assigneeId);
+      setSelectedTicket((current) =>
+        current?._id === ticketId ? updatedTicket : current
+      );
+      fetchData();
+      toast.success(
+        updatedTicket.assignedTo
+          ? `Assigned to ${updatedTicket.assignedTo.name}`
+          : "Ticket unassigned"
+      );
+    } catch (error) {
+      console.error("Error assigning ticket:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to assign ticket"
+      );
+    }
+  };
+
+  // A macro has already sent its reply and updated the ticket
+  const handleMacroApplied = (updatedTicket: Ticket) => {
+    setSelectedTicket((current) =>
+      current?._id === updatedTicket._id ? updatedTicket : current
+    );
+    fetchData();
+  };
+
+  const handleCategoryChange = async (
+    ticketId: string,
+    category: TicketCategory
+  ) => {
+    try {
+      const updatedTicket = await updateTicketCategory<Ticket>(
+        ticketId,
+        category
+      );
+      setSelectedTicket((current) =>
+        current?._id === ticketId ? updatedTicket : current
+      );
+      fetchData();
+      toast.success(`Moved to ${getCategoryLabel(category)}`);
+    } catch (error) {
+      console.error("Error changing category:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to change category"
+      );
     }
   };
 
@@ -498,16 +778,29 @@ export default function DashboardPage() {
         // Update tickets list
         setTickets((prev) => {
           const newTickets = { ...prev };
-          Object.keys(newTickets).forEach((status) => {
-            newTickets[status] = newTickets[status].map((t: Ticket) =>
+          KANBAN_COLUMNS.forEach(({ id }) => {
+            newTickets[id] = newTickets[id].map((t: Ticket) =>
               t._id === selectedTicket._id ? updatedTicket : t
             );
           });
           return newTickets;
         });
 
+        // Keep the edited text alongside the suggestion it started from
+        if (usedSuggestion.current) {
+          sendSuggestionFeedback(selectedTicket._id, usedSuggestion.current, {
+            sentText: newMessage,
+          }).catch((error) => console.error("Failed to record suggestion use:", error));
+          usedSuggestion.current = null;
+        }
+
         setNewMessage("");
-        setAiSuggestion(""); // Clear AI suggestion after sending
+        setAiSuggestions([]); // Clear AI suggestions after sending
+        if (typingTimeout.current) {
+          clearTimeout(typingTimeout.current);
+          typingTimeout.current = null;
+          socket?.emit("ticketTyping", { ticketId: selectedTicket._id, isTyping: false });
+        }
         toast.success("Message sent successfully");
       }
     } catch (error) {
@@ -523,15 +816,20 @@ export default function DashboardPage() {
 
     setIsLoadingAI(true);
     try {
-      const response = await apiClient.post("/chat/manager-assist", {
-        ticketId: selectedTicket._id,
-        conversationHistory: selectedTicket.messages || [],
-        requestType: "General",
-      });
+      const suggestions = await getReplySuggestions(
+        selectedTicket._id,
+        (selectedTicket.messages || []).map((message) => ({
+          sender: message.sender,
+          content: message.content,
+        }))
+      );
 
-      if (response.data.success) {
-        setAiSuggestion(response.data.suggestion);
-        toast.success("AI suggestion generated");
+      setAiSuggestions(suggestions);
+      setSuggestionRatings({});
+      if (suggestions.length > 0) {
+        toast.success("AI suggestions generated");
+      } else {
+        toast.error("No suggestions available right now");
       }
     } catch (error) {
       console.error("Error getting AI suggestion:", error);
@@ -541,10 +839,23 @@ export default function DashboardPage() {
     }
   };
 
-  const useAISuggestion = () => {
-    if (aiSuggestion) {
-      setNewMessage(aiSuggestion);
-      setAiSuggestion("");
+  const applyAISuggestion = (suggestion: ReplySuggestion) => {
+    // Goes into the reply box so it can be edited before sending
+    setNewMessage(suggestion.text);
+    usedSuggestion.current = suggestion;
+    setAiSuggestions([]);
+  };
+
+  const rateAISuggestion = async (suggestion: ReplySuggestion, rating: "up" | "down") => {
+    if (!selectedTicket) return;
+
+    const next = suggestionRatings[suggestion.id] === rating ? null : rating;
+    setSuggestionRatings((current) => ({ ...current, [suggestion.id]: next }));
+    try {
+      await sendSuggestionFeedback(selectedTicket._id, suggestion, { rating: next });
+    } catch (error) {
+      console.error("Failed to rate suggestion:", error);
+      toast.error("Failed to save rating");
     }
   };
 
@@ -561,8 +872,8 @@ export default function DashboardPage() {
     }
   };
 
-  const getFilteredTickets = (status: string) => {
-    let filtered = tickets[status] || [];
+  const getFilteredTickets = (column: KanbanColumnId) => {
+    let filtered = tickets[column] || [];
 
     // Filter out greeting messages or system messages that shouldn't create tickets
     filtered = filtered.filter((ticket) => {
@@ -591,6 +902,14 @@ export default function DashboardPage() {
       filtered = filtered.filter((ticket) => ticket.roomNumber === filterRoom);
     }
 
+    if (assigneeFilter === "me") {
+      filtered = filtered.filter(
+        (ticket) => ticket.assignedTo?._id === user?.id
+      );
+    } else if (assigneeFilter === "unassigned") {
+      filtered = filtered.filter((ticket) => !ticket.assignedTo);
+    }
+
     // Category filter (defaults to all) - single category per ticket
     filtered = filtered.filter((ticket) => {
       const ticketCategory = getTicketCategory(ticket);
@@ -620,16 +939,25 @@ export default function DashboardPage() {
     if (!over) return;
 
     const ticketId = active.id as string;
-    const newStatus = over.id as string;
+    const column = KANBAN_COLUMNS.find((c) => c.id === over.id);
+    if (!column) return;
 
     // Find the ticket being moved
     const ticket = Object.values(tickets)
       .flat()
       .find((t) => t._id === ticketId);
-    if (!ticket || ticket.status === newStatus) return;
+    if (!ticket || getColumnForStatus(ticket.status) === column.id) return;
+
+    // Only moves the lifecycle allows are sent to the server
+    const newStatus = getDropStatus(column.id, ticket.status);
+    if (!newStatus) {
+      toast.error(
+        `A ${getStatusLabel(ticket.status).toLowerCase()} ticket can't be moved to ${column.title}`
+      );
+      return;
+    }
 
-    // Update ticket status
-    await handleStatusChange(ticketId, newStatus);
+    requestStatusChange(ticketId, newStatus);
   };
 
   if (isLoading) {
@@ -705,12 +1033,28 @@ export default function DashboardPage() {
                   ))}
                 </SelectContent>
               </Select>
-              {(filterRoom || searchQuery) && (
+              <Select
+                value={assigneeFilter}
+                onValueChange={(value: AssigneeFilter) =>
+                  setAssigneeFilter(value)
+                }
+              >
+                <SelectTrigger className="w-full sm:w-[170px] h-11 bg-gray-50 rounded-lg border-none">
+                  <SelectValue placeholder="Assignee" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Everyone</SelectItem>
+                  <SelectItem value="me">Assigned to me</SelectItem>
+                  <SelectItem value="unassigned">Unassigned</SelectItem>
+                </SelectContent>
+              </Select>
+              {(filterRoom || searchQuery || assigneeFilter !== "all") && (
                 <Button
                   variant="outline"
                   onClick={() => {
                     setFilterRoom(null);
                     setSearchQuery("");
+                    setAssigneeFilter("all");
                   }}
                   className="h-11 border-none bg-gray-50 rounded-lg"
                 >
@@ -793,6 +1137,18 @@ export default function DashboardPage() {
                 Completion rate:{" "}
                 <span className={rateColor}>{completionRate.toFixed(2)}%</span>
               </p>
+              <p className="text-sm text-muted-foreground">
+                SLA breached:{" "}
+                <span
+                  className={
+                    stats.breachedTickets > 0
+                      ? "text-red-500 font-semibold"
+                      : "text-green-500"
+                  }
+                >
+                  {stats.breachedTickets}
+                </span>
+              </p>
             </CardHeader>
             <CardContent className="flex-1 pb-4 px-4">
               <ChartContainer
@@ -853,6 +1209,27 @@ export default function DashboardPage() {
           </Card>
         </motion.div>
 
+        {/* Team Workload */}
+        <motion.div
+          initial={{ y: 20, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          transition={{ duration: 0.6, delay: 0.25 }}
+        >
+          <WorkloadPanel
+            workload={workload}
+            onSelectUnassigned={() => setAssigneeFilter("unassigned")}
+          />
+        </motion.div>
+
+        {/* QR Code Adoption */}
+        <motion.div
+          initial={{ y: 20, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          transition={{ duration: 0.6, delay: 0.3 }}
+        >
+          <ScanFunnelPanel />
+        </motion.div>
+
         {/* Category Filters */}
         <motion.div
           initial={{ y: 20, opacity: 0 }}
@@ -930,89 +1307,22 @@ export default function DashboardPage() {
           onDragEnd={handleDragEnd}
         >
           <div className="flex gap-6 overflow-x-auto pb-6 h-[calc(100vh-200px)]">
-            {/* New Requests Column */}
-            <DroppableColumn id="raised">
-              <Card className="h-full shadow-lg border-none">
-                <CardHeader className="bg-[#1f1e24] rounded-t-md">
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center gap-3">
-                      <CardTitle className="text-2xl font-semibold text-white p-5">
-                        New Tickets
-                      </CardTitle>
-                    </div>
-                  </div>
-                </CardHeader>
-                <CardContent className="space-y-3 h-full overflow-y-auto p-3">
-                  <SortableContext
-                    items={getFilteredTickets("raised").map((t) => t._id)}
-                    strategy={verticalListSortingStrategy}
-                  >
-                    <div className="space-y-3">
-                      {getFilteredTickets("raised").map((ticket) => (
-                        <DraggableTicketCard
-                          key={ticket._id}
-                          ticket={ticket}
-                          allTickets={Object.values(tickets).flat()}
-                          onClick={() => setSelectedTicket(ticket)}
-                        />
-                      ))}
-                    </div>
-                  </SortableContext>
-                </CardContent>
-              </Card>
-            </DroppableColumn>
-
-            {/* In Progress Column */}
-            <DroppableColumn id="in_progress">
-              <Card className="h-full shadow-lg border-none">
-                <CardHeader className="bg-[#1f1e24] rounded-t-md">
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center gap-3">
-                      <CardTitle className="text-2xl font-semibold text-white p-5">
-                        In Progress
-                      </CardTitle>
-                    </div>
-                  </div>
-                </CardHeader>
-                <CardContent className="space-y-3 h-[calc(100vh-400px)] overflow-y-auto p-3">
-                  <SortableContext
-                    items={getFilteredTickets("in_progress").map((t) => t._id)}
-                    strategy={verticalListSortingStrategy}
-                  >
-                    <div className="space-y-3">
-                      {getFilteredTickets("in_progress").map((ticket) => (
-                        <DraggableTicketCard
-                          key={ticket._id}
-                          ticket={ticket}
-                          allTickets={Object.values(tickets).flat()}
-                          onClick={() => setSelectedTicket(ticket)}
-                        />
-                      ))}
-                    </div>
-                  </SortableContext>
-                </CardContent>
-              </Card>
-            </DroppableColumn>
-
-            {/* Completed Column */}
-            <DroppableColumn id="completed">
-              <Card className="h-full shadow-lg border-none">
-                <CardHeader className="bg-[#1f1e24] rounded-t-md">
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center gap-3">
-                      <CardTitle className="text-2xl font-semibold text-white p-5">
-                        Completed
-                      </CardTitle>
-                    </div>
-                  </div>
-                </CardHeader>
-                <CardContent className="space-y-3 h-[calc(100vh-400px)] overflow-y-auto p-3">
+            {KANBAN_COLUMNS.map((column) => {
+              const columnTickets = getFilteredTickets(column.id);
+              return (
+                <KanbanColumn
+                  key={column.id}
+                  id={column.id}
+                  title={column.title}
+                  count={columnTickets.length}
+                  draggingStatus={activeTicket?.status}
+                >
                   <SortableContext
-                    items={getFilteredTickets("completed").map((t) => t._id)}
+                    items={columnTickets.map((t) => t._id)}
                     strategy={verticalListSortingStrategy}
                   >
                     <div className="space-y-3">
-                      {getFilteredTickets("completed").map((ticket) => (
+                      {columnTickets.map((ticket) => (
                         <DraggableTicketCard
                           key={ticket._id}
                           ticket={ticket}
@@ -1022,9 +1332,9 @@ export default function DashboardPage() {
                       ))}
                     </div>
                   </SortableContext>
-                </CardContent>
-              </Card>
-            </DroppableColumn>
+                </KanbanColumn>
+              );
+            })}
           </div>
 
           {/* Enhanced Drag Overlay */}
@@ -1080,25 +1390,15 @@ export default function DashboardPage() {
                       Room {selectedTicket.roomNumber} •{" "}
                       {selectedTicket.guestInfo.name}
                     </p>
+                    <SlaBadge
+                      sla={selectedTicket.sla}
+                      status={selectedTicket.status}
+                      className="mt-2"
+                    />
                     {(() => {
-                      // Find related tickets
-                      const allTicketsFlat = Object.values(tickets).flat();
-                      const relatedTickets = allTicketsFlat.filter(
-                        (t: Ticket) => {
-                          if (t._id === selectedTicket._id) return true;
-                          if (
-                            t.guestInfo.name !== selectedTicket.guestInfo.name
-                          )
-                            return false;
-                          if (t.roomNumber !== selectedTicket.roomNumber)
-                            return false;
-
-                          const timeDiff = Math.abs(
-                            new Date(t.createdAt).getTime() -
-                              new Date(selectedTicket.createdAt).getTime()
-                          );
-                          return timeDiff <= 5 * 60 * 1000; // 5 minutes
-                        }
+                      const relatedTickets = getRelatedTickets(
+                        selectedTicket,
+                        Object.values(tickets).flat()
                       );
 
                       const allCategories = [
@@ -1138,19 +1438,49 @@ export default function DashboardPage() {
                     })()}
                   </div>
                   <div className="flex items-center gap-2">
+                    <Select
+                      value={getTicketCategory(selectedTicket)}
+                      onValueChange={(value: TicketCategory) =>
+                        handleCategoryChange(selectedTicket._id, value)
+                      }
+                    >
+                      <SelectTrigger className="w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {TICKET_CATEGORIES.map((category) => (
+                          <SelectItem key={category} value={category}>
+                            {getCategoryLabel(category)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <AssigneeSelect
+                      value={selectedTicket.assignedTo?._id}
+                      category={getTicketCategory(selectedTicket)}
+                      staff={workload?.staff || []}
+                      onChange={(assigneeId) =>
+                        handleAssign(selectedTicket._id, assigneeId)
+                      }
+                    />
                     <Select
                       value={selectedTicket.status}
-                      onValueChange={(value) =>
-                        handleStatusChange(selectedTicket._id, value)
+                      onValueChange={(value: TicketStatus) =>
+                        requestStatusChange(selectedTicket._id, value)
                       }
                     >
                       <SelectTrigger className="w-40">
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="raised">New</SelectItem>
-                        <SelectItem value="in_progress">In Progress</SelectItem>
-                        <SelectItem value="completed">Completed</SelectItem>
+                        {[
+                          selectedTicket.status,
+                          ...getAllowedTransitions(selectedTicket.status),
+                        ].map((status) => (
+                          <SelectItem key={status} value={status}>
+                            {getStatusLabel(status)}
+                          </SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                   </div>
@@ -1179,6 +1509,45 @@ export default function DashboardPage() {
                   </div>
                 </div>
 
+                {selectedTicket.status === "on_hold" &&
+                  selectedTicket.holdReason && (
+                    <div className="p-3 rounded-lg bg-gray-100 text-sm">
+                      <span className="font-medium">On hold:</span>{" "}
+                      {selectedTicket.holdReason}
+                    </div>
+                  )}
+
+                {!!selectedTicket.statusHistory?.length && (
+                  <div className="space-y-2">
+                    <h4 className="font-medium">Status History</h4>
+                    <div className="space-y-1">
+                      {selectedTicket.statusHistory.map((change, index) => (
+                        <div
+                          key={index}
+                          className="flex items-center justify-between text-xs text-muted-foreground"
+                        >
+                          <span>
+                            {change.from && `${getStatusLabel(change.from)} → `}
+                            <span className="font-medium text-foreground">
+                              {getStatusLabel(change.to)}
+                            </span>
+                            {change.actorName && ` by ${change.actorName}`}
+                            {change.actorType === "guest" && " (guest)"}
+                            {change.reason && ` – ${change.reason}`}
+                          </span>
+                          <span>
+                            {formatDistanceToNow(new Date(change.changedAt), {
+                              addSuffix: true,
+                            })}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                <ChatTranscript ticketId={selectedTicket._id} />
+
                 <div className="space-y-4 max-h-96 overflow-y-auto">
                   <div className="flex items-center justify-between">
                     <h4 className="font-medium">Conversation History</h4>
@@ -1194,6 +1563,16 @@ export default function DashboardPage() {
                         const isAI = message.sender === "ai_assistant";
                         const isSystem = message.sender === "system";
                         const isManager = message.sender === "manager";
+                        const isLastStaffReply =
+                          isManager &&
+                          !selectedTicket.messages
+                            .slice(index + 1)
+                            .some((m) => m.sender === "manager");
+                        const seenByGuest =
+                          isLastStaffReply &&
+                          !!selectedTicket.lastReadAt?.guest &&
+                          new Date(selectedTicket.lastReadAt.guest) >=
+                            new Date(message.createdAt || message.timestamp || 0);
 
                         return (
                           <div
@@ -1292,6 +1671,12 @@ export default function DashboardPage() {
                                       </p>
                                     ))}
                                 </div>
+                                {seenByGuest && (
+                                  <div className="flex items-center justify-end gap-1 mt-2 text-xs text-muted-foreground">
+                                    <CheckCheck className="h-3 w-3" />
+                                    Seen by guest
+                                  </div>
+                                )}
                               </div>
                             </div>
                           </div>
@@ -1300,6 +1685,12 @@ export default function DashboardPage() {
                     )}
                   </div>
 
+                  {guestTyping && (
+                    <p className="text-xs text-muted-foreground italic">
+                      {guestTyping} is typing...
+                    </p>
+                  )}
+
                   {selectedTicket.messages?.length === 0 && (
                     <div className="text-center py-8 text-muted-foreground">
                       <MessageSquare className="h-12 w-12 mx-auto mb-4 opacity-50" />
@@ -1309,38 +1700,17 @@ export default function DashboardPage() {
                 </div>
 
                 {/* AI Suggestion Section */}
-                {aiSuggestion && (
-                  <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg">
-                    <div className="flex items-center gap-2 mb-2">
-                      <Bot className="h-4 w-4 text-blue-600" />
-                      <span className="text-sm font-medium text-blue-800">
-                        AI Suggestion
-                      </span>
-                    </div>
-                    <p className="text-sm text-blue-700 mb-2">{aiSuggestion}</p>
-                    <div className="mb-2">
-                      <Badge
-                        variant="secondary"
-                        className={`text-xs ${getCategoryColor(
-                          getTicketCategory(selectedTicket)
-                        )}`}
-                      >
-                        {getTicketCategory(selectedTicket)
-                          ?.replace("_", " ")
-                          .toUpperCase()}
-                      </Badge>
-                    </div>
-                    <div className="flex gap-2">
+                {aiSuggestions.length > 0 && (
+                  <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg space-y-3">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-2">
+                        <Bot className="h-4 w-4 text-blue-600" />
+                        <span className="text-sm font-medium text-blue-800">
+                          AI Suggestions
+                        </span>
+                      </div>
                       <Button
-                        onClick={useAISuggestion}
-                        size="sm"
-                        variant="outline"
-                        className="text-blue-600 border-none hover:bg-blue-50"
-                      >
-                        Use This Response
-                      </Button>
-                      <Button
-                        onClick={() => setAiSuggestion("")}
+                        onClick={() => setAiSuggestions([])}
                         size="sm"
                         variant="ghost"
                         className="text-blue-600 border-none"
@@ -1348,6 +1718,56 @@ export default function DashboardPage() {
                         Dismiss
                       </Button>
                     </div>
+                    {aiSuggestions.map((suggestion) => (
+                      <div
+                        key={suggestion.id}
+                        className="p-2 bg-white/70 rounded-md space-y-2"
+                      >
+                        <Badge
+                          variant="secondary"
+                          className={`text-xs ${getCategoryColor(
+                            getTicketCategory(selectedTicket)
+                          )}`}
+                        >
+                          {getReplyTypeLabel(suggestion.type)}
+                        </Badge>
+                        <p className="text-sm text-blue-700">{suggestion.text}</p>
+                        <div className="flex items-center gap-1">
+                          <Button
+                            onClick={() => applyAISuggestion(suggestion)}
+                            size="sm"
+                            variant="outline"
+                            className="text-blue-600 border-none hover:bg-blue-50"
+                          >
+                            Use This Response
+                          </Button>
+                          <Button
+                            onClick={() => rateAISuggestion(suggestion, "up")}
+                            size="sm"
+                            variant="ghost"
+                            className={`border-none ${
+                              suggestionRatings[suggestion.id] === "up"
+                                ? "text-green-600"
+                                : "text-muted-foreground"
+                            }`}
+                          >
+                            <ThumbsUp className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            onClick={() => rateAISuggestion(suggestion, "down")}
+                            size="sm"
+                            variant="ghost"
+                            className={`border-none ${
+                              suggestionRatings[suggestion.id] === "down"
+                                ? "text-red-600"
+                                : "text-muted-foreground"
+                            }`}
+                          >
+                            <ThumbsDown className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
                   </div>
                 )}
 
@@ -1367,13 +1787,18 @@ export default function DashboardPage() {
                       )}
                       {isLoadingAI ? "Generating..." : "Get AI Suggestion"}
                     </Button>
+                    <CannedResponsePicker
+                      ticketId={selectedTicket._id}
+                      onInsert={(text) => handleReplyChange(text)}
+                      onApplied={(ticket) => handleMacroApplied(ticket as Ticket)}
+                    />
                   </div>
 
                   <div className="flex gap-2">
                     <Textarea
                       placeholder="Type your message..."
                       value={newMessage}
-                      onChange={(e) => setNewMessage(e.target.value)}
+                      onChange={(e) => handleReplyChange(e.target.value)}
                       className="flex-1 border-none"
                       rows={3}
                     />
@@ -1392,31 +1817,37 @@ export default function DashboardPage() {
           )}
         </DialogContent>
       </Dialog>
-    </motion.div>
-  );
-}
 
-// Droppable Column Component
-function DroppableColumn({
-  id,
-  children,
-}: {
-  id: string;
-  children: React.ReactNode;
-}) {
-  const { setNodeRef, isOver } = useDroppable({ id });
-
-  return (
-    <div
-      ref={setNodeRef}
-      className={`flex-1 min-w-[300px] transition-all duration-200 ${
-        isOver
-          ? "bg-muted/30 rounded-lg ring-2 ring-primary/20 scale-[1.02]"
-          : ""
-      }`}
-    >
-      {children}
-    </div>
+      {/* On Hold Reason Dialog */}
+      <Dialog
+        open={!!holdTicketId}
+        onOpenChange={(open) => !open && setHoldTicketId(null)}
+      >
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Put ticket on hold</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2">
+            <UILabel htmlFor="hold-reason">Reason</UILabel>
+            <Textarea
+              id="hold-reason"
+              placeholder="e.g. Waiting for a replacement part"
+              value={holdReason}
+              onChange={(e) => setHoldReason(e.target.value)}
+              rows={3}
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setHoldTicketId(null)}>
+              Cancel
+            </Button>
+            <Button onClick={confirmHold} disabled={!holdReason.trim()}>
+              Put on hold
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </motion.div>
   );
 }
 
@@ -1458,7 +1889,7 @@ function DraggableTicketCard({
       onClick={onClick}
       className={`bg-card border-none shadow-md rounded-lg p-4 cursor-grab active:cursor-grabbing hover:shadow-lg transition-all duration-200 ${
         isDragging ? "shadow-2xl scale-105 rotate-2" : ""
-      }`}
+      } ${isSlaBreached(ticket.sla) ? "ring-2 ring-red-400" : ""}`}
     >
       <div className="flex items-start justify-between mb-2">
         <div>
@@ -1481,10 +1912,24 @@ function DraggableTicketCard({
         {ticket.messages?.[0]?.content || "No message"}
       </p>
 
+      {/* Columns group several statuses, so call out the less obvious ones */}
+      {["reopened", "on_hold", "verified", "cancelled"].includes(
+        ticket.status
+      ) && (
+        <Badge variant="outline" className="mb-3 mr-2 text-[10px]">
+          {getStatusLabel(ticket.status)}
+        </Badge>
+      )}
+
+      <SlaBadge sla={ticket.sla} status={ticket.status} className="mb-3" />
+
       <div className="flex items-center justify-between text-xs text-muted-foreground">
         <span>
           {formatDistanceToNow(new Date(ticket.createdAt), { addSuffix: true })}
         </span>
+        <span className="truncate max-w-[40%]">
+          {ticket.assignedTo ? ticket.assignedTo.name : "Unassigned"}
+        </span>
         <div className="flex items-center gap-1">
           <MessageSquare className="h-3 w-3" />
           <span>{ticket.messages?.length || 0}</span>
@@ -0,0 +1,186 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Building, Ticket, UserX, AlertTriangle, ArrowRight } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatDistanceToNow } from 'date-fns';
+import { setActiveHotelId } from '@/lib/api/client';
+import { getPropertyOverview, PropertyOverview, PropertyOverviewTotals } from '@/lib/api/properties';
+
+export default function PropertiesPage() {
+  const [properties, setProperties] = useState<PropertyOverview[]>([]);
+  const [totals, setTotals] = useState<PropertyOverviewTotals | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchOverview = async () => {
+      try {
+        const data = await getPropertyOverview();
+        setProperties(data.properties);
+        setTotals(data.totals);
+      } catch (error) {
+        console.error('Failed to fetch property overview:', error);
+        toast.error('Failed to load properties');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchOverview();
+  }, []);
+
+  // Open the property's requests board
+  const openProperty = (property: PropertyOverview) => {
+    setActiveHotelId(property.id);
+    window.location.href = '/dashboard';
+  };
+
+  if (isLoading) {
+    return (
+      <motion.div
+        className="flex items-center justify-center h-64"
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        transition={{ duration: 0.5 }}
+      >
+        <motion.div
+          className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"
+          animate={{ rotate: 360 }}
+          transition={{ duration: 1, repeat: Infinity, ease: "linear" }}
+        />
+      </motion.div>
+    );
+  }
+
+  const summary = [
+    { label: 'Open requests', value: totals?.open || 0, icon: Ticket },
+    { label: 'Unassigned', value: totals?.unassigned || 0, icon: UserX },
+    { label: 'SLA breaches', value: totals?.breached || 0, icon: AlertTriangle },
+  ];
+
+  return (
+    <motion.div
+      className="min-h-screen bg-background/50"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      transition={{ duration: 0.5 }}
+    >
+      <div className="container mx-auto px-4 py-6 space-y-8">
+        <motion.div
+          className="space-y-2"
+          initial={{ y: -20, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          transition={{ duration: 0.6, delay: 0.1 }}
+        >
+          <h1 className="text-4xl font-bold tracking-tight bg-gradient-to-r from-foreground to-foreground/70 bg-clip-text text-transparent">
+            Properties
+          </h1>
+          <p className="text-muted-foreground text-lg">
+            Open requests and SLA breaches across every property you work at
+          </p>
+        </motion.div>
+
+        <motion.div
+          className="grid gap-4 md:grid-cols-3"
+          initial={{ y: 20, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          transition={{ duration: 0.6, delay: 0.2 }}
+        >
+          {summary.map((item) => (
+            <Card key={item.label} className="border-none shadow-lg">
+              <CardContent className="flex items-center gap-4 p-6">
+                <div className="h-10 w-10 rounded-lg bg-primary/10 flex items-center justify-center">
+                  <item.icon className="h-5 w-5 text-primary" />
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">{item.label}</p>
+                  <p className="text-2xl font-bold">{item.value}</p>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </motion.div>
+
+        <motion.div
+          initial={{ y: 20, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          transition={{ duration: 0.6, delay: 0.3 }}
+        >
+          <Card className="border-none shadow-lg">
+            <CardHeader className="pb-4">
+              <div className="flex items-center gap-3">
+                <div className="h-8 w-8 rounded-lg bg-primary/10 flex items-center justify-center">
+                  <Building className="h-4 w-4 text-primary" />
+                </div>
+                <div>
+                  <CardTitle className="text-xl font-semibold">Properties ({properties.length})</CardTitle>
+                  <CardDescription className="text-muted-foreground">
+                    Counts cover requests that are still open
+                  </CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Property</TableHead>
+                    <TableHead>Rooms</TableHead>
+                    <TableHead>Open</TableHead>
+                    <TableHead>Unassigned</TableHead>
+                    <TableHead>High priority</TableHead>
+                    <TableHead>SLA breaches</TableHead>
+                    <TableHead>Oldest open</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {properties.map((property) => (
+                    <TableRow key={property.id}>
+                      <TableCell>
+                        <div className="flex items-center gap-2 font-medium">
+                          {property.name}
+                          {property.isActive && <Badge variant="outline">Current</Badge>}
+                        </div>
+                        <div className="text-xs text-muted-foreground">{property.slug}</div>
+                      </TableCell>
+                      <TableCell>{property.rooms}</TableCell>
+                      <TableCell>{property.open}</TableCell>
+                      <TableCell>{property.unassigned}</TableCell>
+                      <TableCell>{property.highPriority}</TableCell>
+                      <TableCell>
+                        <Badge
+                          className={`border-none ${
+                            property.breached > 0 ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'
+                          }`}
+                        >
+                          {property.breached}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {property.oldestOpenAt
+                          ? formatDistanceToNow(new Date(property.oldestOpenAt), { addSuffix: true })
+                          : '—'}
+                      </TableCell>
+                      <TableCell>
+                        <Button variant="ghost" size="sm" onClick={() => openProperty(property)}>
+                          Open
+                          <ArrowRight className="h-4 w-4 ml-1" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </motion.div>
+      </div>
+    </motion.div>
+  );
+}
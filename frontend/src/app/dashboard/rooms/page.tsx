@@ -8,13 +8,17 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
-import { Hotel, Plus, Search, Grid, List } from 'lucide-react';
+import { Hotel, Plus, Search, Grid, List, Upload, Download, Printer } from 'lucide-react';
 import { toast } from 'sonner';
 import { apiClient } from '@/lib/api/client';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { RoomCard } from '@/components/rooms/room-card';
 import { RoomListItem } from '@/components/rooms/room-list-item';
 import { RoomDetailDialog } from '@/components/rooms/room-detail-dialog';
+import { RoomImportDialog } from '@/components/rooms/room-import-dialog';
+import { QRSheetDialog } from '@/components/rooms/qr-sheet-dialog';
+import { StayPinSelect } from '@/components/rooms/stay-pin-select';
+import { downloadRoomsExport, ImportFormat } from '@/lib/api/rooms';
 import { Table, TableBody, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 
 interface Room {
@@ -25,6 +29,8 @@ interface Room {
   status: 'available' | 'occupied' | 'maintenance';
   qrCode?: string;
   qrCodeUrl?: string;
+  qrRotatedAt?: string | null;
+  stayPin?: string | null;
 }
 
 export default function RoomsPage() {
@@ -37,12 +43,17 @@ export default function RoomsPage() {
   const [searchQuery, setSearchQuery] = useState('');
   const [filterStatus, setFilterStatus] = useState<string>('all');
   const [editingRoom, setEditingRoom] = useState<Room | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isQRSheetOpen, setIsQRSheetOpen] = useState(false);
   const [formData, setFormData] = useState({
     number: '',
     type: '',
     floor: 1,
     status: 'available' as Room['status']
   });
+  const [requirePin, setRequirePin] = useState(false);
+  const isCheckingIn = !!editingRoom && editingRoom.status !== 'occupied' && formData.status === 'occupied';
 
   const fetchRooms = async () => {
     try {
@@ -84,8 +95,18 @@ export default function RoomsPage() {
     
     try {
       if (editingRoom) {
-        await apiClient.put(`/rooms/${editingRoom._id}`, formData);
-        toast.success('Room updated successfully');
+        const response = await apiClient.put(`/rooms/${editingRoom._id}`, {
+          ...formData,
+          requirePin: isCheckingIn && requirePin,
+        });
+        const updated: Room = response.data.data;
+        if (updated.stayPin && editingRoom.status !== 'occupied') {
+          toast.success(`Checked in. Stay PIN for the guest: ${updated.stayPin}`, { duration: 15000 });
+        } else if (editingRoom.status === 'occupied' && updated.status !== 'occupied') {
+          toast.success('Checked out. The room has a new QR code');
+        } else {
+          toast.success('Room updated successfully');
+        }
       } else {
         await apiClient.post('/rooms', formData);
         toast.success('Room created successfully');
@@ -115,9 +136,22 @@ export default function RoomsPage() {
       floor: room.floor,
       status: room.status
     });
+    setRequirePin(false);
     setIsDialogOpen(true);
   };
 
+  const handleExport = async (format: ImportFormat) => {
+    try {
+      setIsExporting(true);
+      await downloadRoomsExport(format);
+    } catch (error) {
+      console.error('Failed to export rooms:', error);
+      toast.error('Failed to export rooms');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   const openRoomDetail = (room: Room) => {
     setSelectedRoom(room);
     setIsRoomDetailOpen(true);
@@ -183,15 +217,33 @@ export default function RoomsPage() {
               Manage hotel rooms, view QR codes, and track status
             </p>
           </div>
-          <motion.div
-            whileHover={{ scale: 1.05 }}
-            whileTap={{ scale: 0.95 }}
-          >
-            <Button onClick={openCreateDialog} className="shadow-sm border-none">
-              <Plus className="mr-2 h-4 w-4" />
-              Add Room
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" onClick={() => setIsImportOpen(true)} className="border-none">
+              <Upload className="mr-2 h-4 w-4" />
+              Import
+            </Button>
+            <Button variant="outline" disabled={isExporting} onClick={() => handleExport('csv')} className="border-none">
+              <Download className="mr-2 h-4 w-4" />
+              Export CSV
             </Button>
-          </motion.div>
+            <Button variant="outline" disabled={isExporting} onClick={() => handleExport('json')} className="border-none">
+              <Download className="mr-2 h-4 w-4" />
+              Export JSON
+            </Button>
+            <Button variant="outline" disabled={rooms.length === 0} onClick={() => setIsQRSheetOpen(true)} className="border-none">
+              <Printer className="mr-2 h-4 w-4" />
+              Download all QR codes
+            </Button>
+            <motion.div
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+            >
+              <Button onClick={openCreateDialog} className="shadow-sm border-none">
+                <Plus className="mr-2 h-4 w-4" />
+                Add Room
+              </Button>
+            </motion.div>
+          </div>
         </motion.div>
 
         {/* Enhanced Filters and Search */}
@@ -342,6 +394,14 @@ export default function RoomsPage() {
         onRoomUpdate={fetchRooms}
       />
 
+      <RoomImportDialog open={isImportOpen} onOpenChange={setIsImportOpen} onImported={fetchRooms} />
+      <QRSheetDialog
+        open={isQRSheetOpen}
+        onOpenChange={setIsQRSheetOpen}
+        floors={Array.from(new Set(rooms.map((room) => room.floor))).sort((a, b) => a - b)}
+        onDownloaded={fetchRooms}
+      />
+
       {/* Add/Edit Room Dialog */}
       <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
         <DialogContent>
@@ -414,6 +474,14 @@ export default function RoomsPage() {
                 </Select>
               </div>
             </div>
+            {isCheckingIn && (
+              <StayPinSelect
+                id="stay-pin"
+                requirePin={requirePin}
+                onChange={setRequirePin}
+                className="border-none"
+              />
+            )}
             <DialogFooter>
               <Button type="button" variant="outline" className="border-none" onClick={() => setIsDialogOpen(false)}>
                 Cancel
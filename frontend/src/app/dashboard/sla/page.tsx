@@ -0,0 +1,393 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Timer, Save, RotateCcw, AlertTriangle } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  getSlaPolicies,
+  updateSlaPolicy,
+  resetSlaPolicy,
+  SlaPolicy,
+  getEscalationRules,
+  updateEscalationRule,
+  resetEscalationRule,
+  EscalationRule,
+} from '@/lib/api/sla';
+import { getCategoryLabel } from '@/lib/api/tickets';
+import { isManagementRole } from '@/lib/api/auth';
+import { useAuthStore } from '@/store/auth-store';
+
+const priorityColors = {
+  low: 'bg-green-100 text-green-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  high: 'bg-red-100 text-red-800',
+};
+
+const policyKey = (policy: Pick<SlaPolicy, 'category' | 'priority'>) =>
+  `${policy.category}:${policy.priority}`;
+
+export default function SlaPoliciesPage() {
+  const { user } = useAuthStore();
+  const [policies, setPolicies] = useState<SlaPolicy[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, { acknowledgeMinutes: number; resolveMinutes: number }>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+  const [escalationRules, setEscalationRules] = useState<EscalationRule[]>([]);
+  const [escalationDrafts, setEscalationDrafts] = useState<Record<string, number>>({});
+
+  const canEdit = isManagementRole(user?.role);
+
+  const fetchPolicies = async () => {
+    try {
+      const [data, rules] = await Promise.all([getSlaPolicies(), getEscalationRules()]);
+      setPolicies(data);
+      setDrafts({});
+      setEscalationRules(rules);
+      setEscalationDrafts({});
+    } catch (error) {
+      console.error('Failed to fetch SLA policies:', error);
+      toast.error('Failed to load SLA policies');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchPolicies();
+  }, []);
+
+  const replacePolicy = (updated: SlaPolicy) => {
+    setPolicies((current) =>
+      current.map((policy) => (policyKey(policy) === policyKey(updated) ? updated : policy))
+    );
+    setDrafts((current) => {
+      const next = { ...current };
+      delete next[policyKey(updated)];
+      return next;
+    });
+  };
+
+  const handleChange = (policy: SlaPolicy, field: 'acknowledgeMinutes' | 'resolveMinutes', value: string) => {
+    const key = policyKey(policy);
+    const draft = drafts[key] || {
+      acknowledgeMinutes: policy.acknowledgeMinutes,
+      resolveMinutes: policy.resolveMinutes,
+    };
+    setDrafts({ ...drafts, [key]: { ...draft, [field]: parseInt(value) || 0 } });
+  };
+
+  const handleSave = async (policy: SlaPolicy) => {
+    const key = policyKey(policy);
+    const draft = drafts[key];
+    if (!draft) return;
+
+    if (draft.acknowledgeMinutes > draft.resolveMinutes) {
+      toast.error('Response time cannot be longer than resolution time');
+      return;
+    }
+
+    try {
+      setSavingKey(key);
+      const updated = await updateSlaPolicy({
+        category: policy.category,
+        priority: policy.priority,
+        ...draft,
+      });
+      replacePolicy(updated);
+      toast.success('SLA policy saved');
+    } catch (error) {
+      console.error('Failed to save SLA policy:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save SLA policy');
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  const handleReset = async (policy: SlaPolicy) => {
+    const key = policyKey(policy);
+    try {
+      setSavingKey(key);
+      const updated = await resetSlaPolicy(policy.category, policy.priority);
+      replacePolicy(updated);
+      toast.success('SLA policy reset to default');
+    } catch (error) {
+      console.error('Failed to reset SLA policy:', error);
+      toast.error('Failed to reset SLA policy');
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  const replaceEscalationRule = (updated: EscalationRule) => {
+    setEscalationRules((current) => current.map((rule) => (rule.id === updated.id ? updated : rule)));
+    setEscalationDrafts((current) => {
+      const next = { ...current };
+      delete next[updated.id];
+      return next;
+    });
+  };
+
+  const handleSaveEscalation = async (rule: EscalationRule) => {
+    const afterMinutes = escalationDrafts[rule.id];
+    if (afterMinutes === undefined) return;
+
+    if (afterMinutes < 1) {
+      toast.error('Escalation time must be at least 1 minute');
+      return;
+    }
+
+    try {
+      setSavingKey(rule.id);
+      replaceEscalationRule(await updateEscalationRule(rule.id, afterMinutes));
+      toast.success('Escalation threshold saved');
+    } catch (error) {
+      console.error('Failed to save escalation threshold:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save escalation threshold');
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  const handleResetEscalation = async (rule: EscalationRule) => {
+    try {
+      setSavingKey(rule.id);
+      replaceEscalationRule(await resetEscalationRule(rule.id));
+      toast.success('Escalation threshold reset to default');
+    } catch (error) {
+      console.error('Failed to reset escalation threshold:', error);
+      toast.error('Failed to reset escalation threshold');
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <motion.div
+        className="flex items-center justify-center h-64"
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        transition={{ duration: 0.5 }}
+      >
+        <motion.div
+          className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"
+          animate={{ rotate: 360 }}
+          transition={{ duration: 1, repeat: Infinity, ease: "linear" }}
+        />
+      </motion.div>
+    );
+  }
+
+  return (
+    <motion.div
+      className="min-h-screen bg-background/50"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      transition={{ duration: 0.5 }}
+    >
+      <div className="container mx-auto px-4 py-6 space-y-8">
+        <motion.div
+          className="space-y-2"
+          initial={{ y: -20, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          transition={{ duration: 0.6, delay: 0.1 }}
+        >
+          <h1 className="text-4xl font-bold tracking-tight bg-gradient-to-r from-foreground to-foreground/70 bg-clip-text text-transparent">
+            SLA Policies
+          </h1>
+          <p className="text-muted-foreground text-lg">
+            Set how quickly each department must respond to and resolve requests
+          </p>
+        </motion.div>
+
+        <motion.div
+          initial={{ y: 20, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          transition={{ duration: 0.6, delay: 0.2 }}
+        >
+          <Card className="border-none shadow-lg">
+            <CardHeader className="pb-4">
+              <div className="flex items-center gap-3">
+                <div className="h-8 w-8 rounded-lg bg-primary/10 flex items-center justify-center">
+                  <Timer className="h-4 w-4 text-primary" />
+                </div>
+                <div>
+                  <CardTitle className="text-xl font-semibold">Response and resolution targets</CardTitle>
+                  <CardDescription className="text-muted-foreground">
+                    Times are in minutes and apply to new tickets
+                  </CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Category</TableHead>
+                    <TableHead>Priority</TableHead>
+                    <TableHead>Respond within</TableHead>
+                    <TableHead>Resolve within</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {policies.map((policy) => {
+                    const key = policyKey(policy);
+                    const draft = drafts[key];
+                    return (
+                      <TableRow key={key}>
+                        <TableCell className="font-medium">{getCategoryLabel(policy.category)}</TableCell>
+                        <TableCell>
+                          <Badge className={`${priorityColors[policy.priority]} border-none capitalize`}>
+                            {policy.priority}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min="1"
+                            className="w-24 border-none bg-muted/50"
+                            disabled={!canEdit}
+                            value={draft?.acknowledgeMinutes ?? policy.acknowledgeMinutes}
+                            onChange={(e) => handleChange(policy, 'acknowledgeMinutes', e.target.value)}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min="1"
+                            className="w-24 border-none bg-muted/50"
+                            disabled={!canEdit}
+                            value={draft?.resolveMinutes ?? policy.resolveMinutes}
+                            onChange={(e) => handleChange(policy, 'resolveMinutes', e.target.value)}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          {canEdit && (
+                            <div className="flex items-center gap-2">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                disabled={!draft || savingKey === key}
+                                onClick={() => handleSave(policy)}
+                              >
+                                <Save className="h-4 w-4" />
+                              </Button>
+                              {!policy.isDefault && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  disabled={savingKey === key}
+                                  onClick={() => handleReset(policy)}
+                                >
+                                  <RotateCcw className="h-4 w-4" />
+                                </Button>
+                              )}
+                              {policy.isDefault && (
+                                <span className="text-xs text-muted-foreground">Default</span>
+                              )}
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </motion.div>
+
+        <motion.div
+          initial={{ y: 20, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          transition={{ duration: 0.6, delay: 0.3 }}
+        >
+          <Card className="border-none shadow-lg">
+            <CardHeader className="pb-4">
+              <div className="flex items-center gap-3">
+                <div className="h-8 w-8 rounded-lg bg-primary/10 flex items-center justify-center">
+                  <AlertTriangle className="h-4 w-4 text-primary" />
+                </div>
+                <div>
+                  <CardTitle className="text-xl font-semibold">Escalation thresholds</CardTitle>
+                  <CardDescription className="text-muted-foreground">
+                    How many minutes a ticket can wait before it is escalated
+                  </CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Rule</TableHead>
+                    <TableHead>Notifies</TableHead>
+                    <TableHead>Escalate after</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {escalationRules.map((rule) => {
+                    const draft = escalationDrafts[rule.id];
+                    return (
+                      <TableRow key={rule.id}>
+                        <TableCell className="font-medium">{rule.description}</TableCell>
+                        <TableCell className="capitalize">{rule.notify}</TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min="1"
+                            className="w-24 border-none bg-muted/50"
+                            disabled={!canEdit}
+                            value={draft ?? rule.afterMinutes}
+                            onChange={(e) =>
+                              setEscalationDrafts({ ...escalationDrafts, [rule.id]: parseInt(e.target.value) || 0 })
+                            }
+                          />
+                        </TableCell>
+                        <TableCell>
+                          {canEdit && (
+                            <div className="flex items-center gap-2">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                disabled={draft === undefined || savingKey === rule.id}
+                                onClick={() => handleSaveEscalation(rule)}
+                              >
+                                <Save className="h-4 w-4" />
+                              </Button>
+                              {!rule.isDefault && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  disabled={savingKey === rule.id}
+                                  onClick={() => handleResetEscalation(rule)}
+                                >
+                                  <RotateCcw className="h-4 w-4" />
+                                </Button>
+                              )}
+                              {rule.isDefault && (
+                                <span className="text-xs text-muted-foreground">Default</span>
+                              )}
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </motion.div>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,407 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Users, UserPlus, Mail, Edit, UserX } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatDistanceToNow } from 'date-fns';
+import { InviteStaffDialog } from '@/components/staff/invite-staff-dialog';
+import { CategoryPicker } from '@/components/staff/category-picker';
+import { PropertyPicker } from '@/components/staff/property-picker';
+import {
+  getStaff,
+  getInvites,
+  revokeInvite,
+  updateStaff,
+  deactivateStaff,
+  StaffMember,
+  StaffInvite,
+  UpdateStaffData,
+} from '@/lib/api/staff';
+import { getCategoryLabel } from '@/lib/api/tickets';
+import { isManagementRole } from '@/lib/api/auth';
+import { useAuthStore } from '@/store/auth-store';
+
+const getRoleColor = (role: StaffMember['role']) => {
+  switch (role) {
+    case 'owner': return 'bg-purple-100 text-purple-800';
+    case 'manager': return 'bg-blue-100 text-blue-800';
+    case 'supervisor': return 'bg-teal-100 text-teal-800';
+    default: return 'bg-gray-100 text-gray-800';
+  }
+};
+
+export default function StaffPage() {
+  const { user } = useAuthStore();
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+  const [invites, setInvites] = useState<StaffInvite[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isInviteOpen, setIsInviteOpen] = useState(false);
+  const [editingMember, setEditingMember] = useState<StaffMember | null>(null);
+  const [editData, setEditData] = useState<UpdateStaffData>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const properties = user?.hotels || [];
+
+  const fetchTeam = async () => {
+    try {
+      const [members, pending] = await Promise.all([getStaff(), getInvites()]);
+      setStaff(members);
+      setInvites(pending);
+    } catch (error) {
+      console.error('Failed to fetch team:', error);
+      toast.error('Failed to load team');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchTeam();
+  }, []);
+
+  // Managers can't edit the owner, and only the owner can edit managers
+  const canEdit = (member: StaffMember) =>
+    member.role !== 'owner' &&
+    member.id !== user?.id &&
+    (user?.role === 'owner' || member.role !== 'manager');
+
+  const openEditDialog = (member: StaffMember) => {
+    setEditingMember(member);
+    setEditData({
+      role: member.role === 'owner' ? undefined : member.role,
+      allowedCategories: member.allowedCategories,
+      hotels: member.hotels,
+    });
+  };
+
+  const handleSave = async () => {
+    if (!editingMember) return;
+
+    try {
+      setIsSaving(true);
+      // Only send properties when they changed, so managers limited to some
+      // properties can still edit members who work everywhere
+      const hotelsChanged =
+        [...(editData.hotels || [])].sort().join() !== [...editingMember.hotels].sort().join();
+      const updated = await updateStaff(editingMember.id, {
+        ...editData,
+        hotels: hotelsChanged ? editData.hotels : undefined,
+      });
+      setStaff(staff.map((member) => (member.id === updated.id ? updated : member)));
+      setEditingMember(null);
+      toast.success('Staff member updated');
+    } catch (error) {
+      console.error('Failed to update staff:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update staff member');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeactivate = async (member: StaffMember) => {
+    if (!confirm(`Deactivate ${member.name}? They will no longer be able to sign in.`)) return;
+
+    try {
+      await deactivateStaff(member.id);
+      setStaff(staff.map((m) => (m.id === member.id ? { ...m, isActive: false } : m)));
+      toast.success(`${member.name} has been deactivated`);
+    } catch (error) {
+      console.error('Failed to deactivate staff:', error);
+      toast.error('Failed to deactivate staff member');
+    }
+  };
+
+  const handleReactivate = async (member: StaffMember) => {
+    try {
+      const updated = await updateStaff(member.id, { isActive: true });
+      setStaff(staff.map((m) => (m.id === updated.id ? updated : m)));
+      toast.success(`${member.name} has been reactivated`);
+    } catch (error) {
+      console.error('Failed to reactivate staff:', error);
+      toast.error('Failed to reactivate staff member');
+    }
+  };
+
+  const handleRevoke = async (invite: StaffInvite) => {
+    try {
+      await revokeInvite(invite.id);
+      setInvites(invites.filter((i) => i.id !== invite.id));
+      toast.success(`Invitation for ${invite.email} revoked`);
+    } catch (error) {
+      console.error('Failed to revoke invite:', error);
+      toast.error('Failed to revoke invitation');
+    }
+  };
+
+  if (user && !isManagementRole(user.role)) {
+    return (
+      <div className="container mx-auto px-4 py-16 text-center text-muted-foreground">
+        Only hotel owners and managers can manage the team.
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <motion.div
+        className="flex items-center justify-center h-64"
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        transition={{ duration: 0.5 }}
+      >
+        <motion.div
+          className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"
+          animate={{ rotate: 360 }}
+          transition={{ duration: 1, repeat: Infinity, ease: "linear" }}
+        />
+      </motion.div>
+    );
+  }
+
+  return (
+    <motion.div
+      className="min-h-screen bg-background/50"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      transition={{ duration: 0.5 }}
+    >
+      <div className="container mx-auto px-4 py-6 space-y-8">
+        <motion.div
+          className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-6"
+          initial={{ y: -20, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          transition={{ duration: 0.6, delay: 0.1 }}
+        >
+          <div className="space-y-2">
+            <h1 className="text-4xl font-bold tracking-tight bg-gradient-to-r from-foreground to-foreground/70 bg-clip-text text-transparent">
+              Team
+            </h1>
+            <p className="text-muted-foreground text-lg">
+              Invite staff and control which departments they can see
+            </p>
+          </div>
+          <motion.div
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+          >
+            <Button onClick={() => setIsInviteOpen(true)} className="shadow-sm border-none">
+              <UserPlus className="mr-2 h-4 w-4" />
+              Invite Staff
+            </Button>
+          </motion.div>
+        </motion.div>
+
+        <motion.div
+          initial={{ y: 20, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          transition={{ duration: 0.6, delay: 0.2 }}
+        >
+          <Card className="border-none shadow-lg">
+            <CardHeader className="pb-4">
+              <div className="flex items-center gap-3">
+                <div className="h-8 w-8 rounded-lg bg-primary/10 flex items-center justify-center">
+                  <Users className="h-4 w-4 text-primary" />
+                </div>
+                <div>
+                  <CardTitle className="text-xl font-semibold">Members ({staff.length})</CardTitle>
+                  <CardDescription className="text-muted-foreground">
+                    Everyone with access to this hotel
+                  </CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Departments</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {staff.map((member) => (
+                    <TableRow key={member.id}>
+                      <TableCell>
+                        <div className="font-medium">{member.name}</div>
+                        <div className="text-xs text-muted-foreground">{member.email}</div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={`${getRoleColor(member.role)} border-none capitalize`}>
+                          {member.role}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        {member.allowedCategories.length === 0 ? (
+                          <span className="text-sm text-muted-foreground">All departments</span>
+                        ) : (
+                          <div className="flex flex-wrap gap-1">
+                            {member.allowedCategories.map((category) => (
+                              <Badge key={category} variant="outline">
+                                {getCategoryLabel(category)}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={member.isActive ? 'default' : 'secondary'}>
+                          {member.isActive ? 'Active' : 'Deactivated'}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        {canEdit(member) && (
+                          <div className="flex gap-2">
+                            <Button variant="ghost" size="sm" onClick={() => openEditDialog(member)}>
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            {member.isActive ? (
+                              <Button variant="ghost" size="sm" onClick={() => handleDeactivate(member)}>
+                                <UserX className="h-4 w-4" />
+                              </Button>
+                            ) : (
+                              <Button variant="ghost" size="sm" onClick={() => handleReactivate(member)}>
+                                Reactivate
+                              </Button>
+                            )}
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </motion.div>
+
+        <motion.div
+          initial={{ y: 30, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          transition={{ duration: 0.6, delay: 0.3 }}
+        >
+          <Card className="border-none shadow-lg">
+            <CardHeader className="pb-4">
+              <div className="flex items-center gap-3">
+                <div className="h-8 w-8 rounded-lg bg-primary/10 flex items-center justify-center">
+                  <Mail className="h-4 w-4 text-primary" />
+                </div>
+                <div>
+                  <CardTitle className="text-xl font-semibold">Pending Invitations ({invites.length})</CardTitle>
+                  <CardDescription className="text-muted-foreground">
+                    Invitations that have not been accepted yet
+                  </CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {invites.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-8">No pending invitations</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Role</TableHead>
+                      <TableHead>Expires</TableHead>
+                      <TableHead>Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {invites.map((invite) => (
+                      <TableRow key={invite.id}>
+                        <TableCell>
+                          <div className="font-medium">{invite.name}</div>
+                          <div className="text-xs text-muted-foreground">{invite.email}</div>
+                        </TableCell>
+                        <TableCell className="capitalize">{invite.role}</TableCell>
+                        <TableCell>
+                          {formatDistanceToNow(new Date(invite.expiresAt), { addSuffix: true })}
+                        </TableCell>
+                        <TableCell>
+                          <Button variant="ghost" size="sm" onClick={() => handleRevoke(invite)}>
+                            Revoke
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </motion.div>
+      </div>
+
+      <InviteStaffDialog
+        open={isInviteOpen}
+        onOpenChange={setIsInviteOpen}
+        onInvited={fetchTeam}
+      />
+
+      <Dialog open={!!editingMember} onOpenChange={(open) => !open && setEditingMember(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit {editingMember?.name}</DialogTitle>
+            <DialogDescription>
+              Change this member&apos;s role, the departments they handle and where they work
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="edit-role">Role</Label>
+              <Select
+                value={editData.role}
+                onValueChange={(value: NonNullable<UpdateStaffData['role']>) => setEditData({ ...editData, role: value })}
+              >
+                <SelectTrigger id="edit-role" className="border-none">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {user?.role === 'owner' && <SelectItem value="manager">Manager</SelectItem>}
+                  <SelectItem value="supervisor">Supervisor</SelectItem>
+                  <SelectItem value="staff">Staff</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Departments</Label>
+              <CategoryPicker
+                value={editData.allowedCategories || []}
+                onChange={(allowedCategories) => setEditData({ ...editData, allowedCategories })}
+              />
+            </div>
+            {properties.length > 1 && (
+              <div>
+                <Label>Properties</Label>
+                <PropertyPicker
+                  properties={properties}
+                  value={editData.hotels || []}
+                  allowAll={user?.hasAllProperties}
+                  onChange={(hotels) => setEditData({ ...editData, hotels })}
+                />
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" className="border-none" onClick={() => setEditingMember(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving} className="border-none">
+              {isSaving ? 'Saving...' : 'Save Changes'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </motion.div>
+  );
+}
@@ -46,6 +46,22 @@ import {
 } from "@/components/ui/dialog";
 import { Textarea } from "@/components/ui/textarea";
 import { formatDistanceToNow } from "date-fns";
+import {
+  TicketAssignee,
+  TicketSla,
+  TicketStatus,
+  TICKET_STATUSES,
+  StaffWorkload,
+  AssigneeFilter,
+  assignTicket,
+  getWorkload,
+  getAllowedTransitions,
+  getStatusLabel,
+  updateTicketStatus,
+} from "@/lib/api/tickets";
+import { AssigneeSelect } from "@/components/tickets/assignee-select";
+import { SlaBadge } from "@/components/tickets/sla-badge";
+import { useAuthStore } from "@/store/auth-store";
 
 interface Ticket {
   _id: string;
@@ -62,8 +78,10 @@ interface Ticket {
     email?: string;
     phone?: string;
   };
-  status: "raised" | "in_progress" | "completed";
+  status: TicketStatus;
   priority: "low" | "medium" | "high";
+  assignedTo?: TicketAssignee | null;
+  sla?: TicketSla;
   messages: Array<{
     content: string;
     sender: "guest" | "manager";
@@ -82,6 +100,9 @@ export default function TicketsPage() {
   const [statusFilter, setStatusFilter] = useState<string>("all");
   const [priorityFilter, setPriorityFilter] = useState<string>("all");
   const [categoryFilter, setCategoryFilter] = useState<string>("all");
+  const [assigneeFilter, setAssigneeFilter] = useState<AssigneeFilter>("all");
+  const [staff, setStaff] = useState<StaffWorkload[]>([]);
+  const { user } = useAuthStore();
   const [selectedTicket, setSelectedTicket] = useState<Ticket | null>(null);
   const [newMessage, setNewMessage] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -113,8 +134,18 @@ export default function TicketsPage() {
     }
   };
 
+  const fetchStaff = async () => {
+    try {
+      const workload = await getWorkload();
+      setStaff(workload.staff);
+    } catch (error) {
+      console.error("Failed to fetch staff:", error);
+    }
+  };
+
   useEffect(() => {
     fetchTickets();
+    fetchStaff();
   }, []);
 
   // Filter tickets based on search term, status, and priority
@@ -152,18 +183,58 @@ export default function TicketsPage() {
       );
     }
 
+    // Assignee filter
+    if (assigneeFilter === "me") {
+      filtered = filtered.filter(
+        (ticket) => ticket.assignedTo?._id === user?.id
+      );
+    } else if (assigneeFilter === "unassigned") {
+      filtered = filtered.filter((ticket) => !ticket.assignedTo);
+    }
+
     setFilteredTickets(filtered);
-  }, [tickets, searchTerm, statusFilter, priorityFilter, categoryFilter]);
+  }, [
+    tickets,
+    searchTerm,
+    statusFilter,
+    priorityFilter,
+    categoryFilter,
+    assigneeFilter,
+    user?.id,
+  ]);
 
-  const handleStatusChange = async (ticketId: string, newStatus: string) => {
+  const handleStatusChange = async (ticketId: string, newStatus: TicketStatus) => {
     try {
-      await apiClient.put(`/tickets/${ticketId}/status`, { status: newStatus });
+      await updateTicketStatus<Ticket>(ticketId, newStatus);
       // Refetch tickets to update the UI
       fetchTickets();
-      toast.success("Ticket status updated");
+      toast.success(`Ticket moved to ${getStatusLabel(newStatus)}`);
     } catch (error) {
       console.error("Failed to update ticket status:", error);
-      toast.error("Failed to update ticket status");
+      toast.error(
+        error instanceof Error ? error.message : "Failed to update ticket status"
+      );
+    }
+  };
+
+  const handleAssign = async (ticketId: string, assigneeId: string | null) => {
+    try {
+      const updatedTicket = await assignTicket<Ticket>(ticketId, assigneeId);
+      setSelectedTicket((current) =>
+        current?._id === ticketId ? updatedTicket : current
+      );
+      fetchTickets();
+      fetchStaff();
+      toast.success(
+        updatedTicket.assignedTo
+          ? `Assigned to ${updatedTicket.assignedTo.name}`
+          : "Ticket unassigned"
+      );
+    } catch (error) {
+      console.error("Failed to assign ticket:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to assign ticket"
+      );
     }
   };
 
@@ -198,10 +269,13 @@ export default function TicketsPage() {
   const getStatusColor = (status: Ticket["status"]) => {
     switch (status) {
       case "raised":
+      case "reopened":
         return "bg-yellow-100 text-yellow-800";
+      case "acknowledged":
       case "in_progress":
         return "bg-blue-100 text-blue-800";
       case "completed":
+      case "verified":
         return "bg-green-100 text-green-800";
       default:
         return "bg-gray-100 text-gray-800";
@@ -349,9 +423,11 @@ export default function TicketsPage() {
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="all">All Status</SelectItem>
-                      <SelectItem value="raised">New Requests</SelectItem>
-                      <SelectItem value="in_progress">In Progress</SelectItem>
-                      <SelectItem value="completed">Completed</SelectItem>
+                      {TICKET_STATUSES.map((status) => (
+                        <SelectItem key={status} value={status}>
+                          {getStatusLabel(status)}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                   <Select
@@ -385,6 +461,21 @@ export default function TicketsPage() {
                       <SelectItem value="maintenance">Maintenance</SelectItem>
                     </SelectContent>
                   </Select>
+                  <Select
+                    value={assigneeFilter}
+                    onValueChange={(value: AssigneeFilter) =>
+                      setAssigneeFilter(value)
+                    }
+                  >
+                    <SelectTrigger className="w-full sm:w-[180px] h-11 border-none bg-muted/50 focus:bg-background transition-colors">
+                      <SelectValue placeholder="Filter by assignee" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">Everyone</SelectItem>
+                      <SelectItem value="me">Assigned to me</SelectItem>
+                      <SelectItem value="unassigned">Unassigned</SelectItem>
+                    </SelectContent>
+                  </Select>
                 </div>
               </div>
             </CardContent>
@@ -408,6 +499,8 @@ export default function TicketsPage() {
                     <TableHead className="font-semibold">Category</TableHead>
                     <TableHead className="font-semibold">Status</TableHead>
                     <TableHead className="font-semibold">Priority</TableHead>
+                    <TableHead className="font-semibold">Assignee</TableHead>
+                    <TableHead className="font-semibold">SLA</TableHead>
                     <TableHead className="font-semibold">Created</TableHead>
                     <TableHead className="font-semibold">Messages</TableHead>
                     <TableHead className="text-right font-semibold">
@@ -456,11 +549,7 @@ export default function TicketsPage() {
                             ticket.status
                           )} font-medium`}
                         >
-                          {ticket.status === "raised"
-                            ? "New"
-                            : ticket.status === "in_progress"
-                            ? "In Progress"
-                            : "Completed"}
+                          {getStatusLabel(ticket.status)}
                         </Badge>
                       </TableCell>
                       <TableCell>
@@ -473,6 +562,18 @@ export default function TicketsPage() {
                           {ticket.priority}
                         </Badge>
                       </TableCell>
+                      <TableCell className="text-sm">
+                        {ticket.assignedTo ? (
+                          ticket.assignedTo.name
+                        ) : (
+                          <span className="text-muted-foreground">
+                            Unassigned
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <SlaBadge sla={ticket.sla} status={ticket.status} />
+                      </TableCell>
                       <TableCell className="text-sm text-muted-foreground">
                         {formatDistanceToNow(new Date(ticket.createdAt), {
                           addSuffix: true,
@@ -504,20 +605,19 @@ export default function TicketsPage() {
                             >
                               View Details
                             </DropdownMenuItem>
-                            <DropdownMenuItem
-                              onClick={() =>
-                                handleStatusChange(ticket._id, "in_progress")
-                              }
-                            >
-                              Mark In Progress
-                            </DropdownMenuItem>
-                            <DropdownMenuItem
-                              onClick={() =>
-                                handleStatusChange(ticket._id, "completed")
-                              }
-                            >
-                              Mark Completed
-                            </DropdownMenuItem>
+                            {/* Holding needs a reason, which the board asks for */}
+                            {getAllowedTransitions(ticket.status)
+                              .filter((status) => status !== "on_hold")
+                              .map((status) => (
+                                <DropdownMenuItem
+                                  key={status}
+                                  onClick={() =>
+                                    handleStatusChange(ticket._id, status)
+                                  }
+                                >
+                                  Mark {getStatusLabel(status)}
+                                </DropdownMenuItem>
+                              ))}
                           </DropdownMenuContent>
                         </DropdownMenu>
                       </TableCell>
@@ -535,7 +635,8 @@ export default function TicketsPage() {
                   <p className="text-muted-foreground mb-6 max-w-sm mx-auto">
                     {searchTerm ||
                     statusFilter !== "all" ||
-                    priorityFilter !== "all"
+                    priorityFilter !== "all" ||
+                    assigneeFilter !== "all"
                       ? "Try adjusting your search or filters to find what you're looking for"
                       : "No service requests have been created yet"}
                   </p>
@@ -567,11 +668,7 @@ export default function TicketsPage() {
                 <div className="space-y-4">
                   <div className="flex items-center gap-4">
                     <Badge className={getStatusColor(selectedTicket.status)}>
-                      {selectedTicket.status === "raised"
-                        ? "New"
-                        : selectedTicket.status === "in_progress"
-                        ? "In Progress"
-                        : "Completed"}
+                      {getStatusLabel(selectedTicket.status)}
                     </Badge>
                     <Badge
                       className={getCategoryColor(
@@ -591,6 +688,15 @@ export default function TicketsPage() {
                         addSuffix: true,
                       })}
                     </span>
+                    <AssigneeSelect
+                      className="w-48 ml-auto"
+                      value={selectedTicket.assignedTo?._id}
+                      category={getTicketCategory(selectedTicket)}
+                      staff={staff}
+                      onChange={(assigneeId) =>
+                        handleAssign(selectedTicket._id, assigneeId)
+                      }
+                    />
                   </div>
 
                   <div className="space-y-3 max-h-60 overflow-y-auto">
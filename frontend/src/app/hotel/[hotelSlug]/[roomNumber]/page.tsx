@@ -6,18 +6,49 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Loader2, ArrowLeft, User, ArrowUp } from "lucide-react";
+import { Loader2, ArrowLeft, User, ArrowUp, ListChecks } from "lucide-react";
 import { toast } from "sonner";
 import { formatDistanceToNow } from "date-fns";
-import axios from "axios";
 import { AnimatePresence } from "framer-motion";
+import io from "socket.io-client";
+import { SOCKET_URL } from "@/lib/api/client";
+import {
+  GuestSession,
+  GuestTicket,
+  createGuestTicket,
+  ensureGuestSession,
+  recordRoomScan,
+  getChatTranscript,
+  getGuestErrorMessage,
+  getGuestTicket,
+  getGuestTickets,
+  getOpenRoomTickets,
+  isGuestSessionEnded,
+  isStayPinRequired,
+  markGuestTicketRead,
+  sendAssistantMessage,
+  sendGuestMessage,
+} from "@/lib/api/guest";
+import { TicketCategory, getCategoryLabel } from "@/lib/api/tickets";
+import { ScanRoomCodeNotice } from "@/components/tickets/scan-room-code-notice";
+import { StayPinForm } from "@/components/tickets/stay-pin-form";
 
 interface Message {
-  role: "user" | "assistant";
+  role: "user" | "assistant" | "staff";
   content: string;
   timestamp: string;
+  // Staff member who replied, for staff messages
+  senderName?: string;
 }
 
 interface GuestInfo {
@@ -27,8 +58,11 @@ interface GuestInfo {
 
 export default function GuestChatPage() {
   const params = useParams();
+  const hotelSlug = params?.hotelSlug as string;
   const roomNumber = params?.roomNumber as string;
   const searchParams = useSearchParams();
+  // Access token from the room's QR code, exchanged for a guest session
+  const accessToken = searchParams.get("t");
   const router = useRouter();
   const [message, setMessage] = useState("");
   const [isLoading, setIsLoading] = useState(false);
@@ -39,9 +73,16 @@ export default function GuestChatPage() {
   const [ticketCreated, setTicketCreated] = useState(false);
   const [showTicketDialog, setShowTicketDialog] = useState(false);
   const [pendingTicketMessage, setPendingTicketMessage] = useState("");
+  // Open requests the pending message could be added to instead
+  const [matchingTickets, setMatchingTickets] = useState<GuestTicket[]>([]);
+  const [guestSession, setGuestSession] = useState<GuestSession | null>(null);
+  const [accessDenied, setAccessDenied] = useState(false);
+  const [needsPin, setNeedsPin] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  const API_BASE_URL =
-    process.env.NEXT_PUBLIC_API_URL || "http://localhost:5050/api";
+  // Staff replies already shown in the chat, by message id
+  const deliveredReplies = useRef<Set<string>>(new Set());
+  // This visit's scan, linked to the session once it starts
+  const scanId = useRef<string | null>(null);
 
   useEffect(() => {
     // Initialize with welcome message (no guest name required)
@@ -54,6 +95,135 @@ export default function GuestChatPage() {
     ]);
   }, [roomNumber, searchParams]);
 
+  useEffect(() => {
+    const startSession = async () => {
+      // Landing here from the QR code counts as a scan; a failure to record
+      // it never keeps the guest out
+      if (accessToken) {
+        scanId.current = await recordRoomScan(hotelSlug, roomNumber, accessToken).catch(() => null);
+      }
+
+      // The session token lets the guest follow their requests later
+      try {
+        setGuestSession(
+          await ensureGuestSession(hotelSlug, roomNumber, { token: accessToken, scanId: scanId.current })
+        );
+      } catch (error) {
+        if (isStayPinRequired(error)) {
+          setNeedsPin(true);
+          return;
+        }
+        console.error("Failed to start guest session:", error);
+        setAccessDenied(true);
+      }
+    };
+
+    startSession();
+  }, [hotelSlug, roomNumber, accessToken]);
+
+  const handlePinSubmit = async (pin: string) => {
+    try {
+      setGuestSession(
+        await ensureGuestSession(hotelSlug, roomNumber, { token: accessToken, pin, scanId: scanId.current })
+      );
+      setNeedsPin(false);
+    } catch (error) {
+      toast.error(getGuestErrorMessage(error, "We couldn't check that PIN"));
+    }
+  };
+
+  // Pick the conversation back up after a reload
+  useEffect(() => {
+    if (!guestSession) return;
+
+    getChatTranscript(guestSession)
+      .then((transcript) => {
+        if (!transcript || transcript.turns.length === 0) return;
+        setMessages((prev) => [
+          ...prev.slice(0, 1),
+          ...transcript.turns.map((turn) => ({
+            role: turn.role === "guest" ? ("user" as const) : ("assistant" as const),
+            content: turn.content,
+            timestamp: turn.createdAt,
+          })),
+          ...prev.slice(1),
+        ]);
+      })
+      .catch((error) => {
+        console.error("Failed to load conversation:", error);
+        if (isGuestSessionEnded(error)) setAccessDenied(true);
+      });
+  }, [guestSession]);
+
+  // Bring staff replies on the guest's tickets into the chat as they arrive
+  useEffect(() => {
+    if (!guestSession) return;
+
+    const socket = io(SOCKET_URL, {
+      transports: ["polling", "websocket"],
+      reconnection: true,
+      reconnectionAttempts: 5,
+      reconnectionDelay: 1000,
+    });
+
+    const staffReplies = (ticket: GuestTicket) =>
+      ticket.messages.filter((msg) => msg.sender === "manager");
+
+    const followTickets = async (announce: boolean) => {
+      try {
+        const tickets = await getGuestTickets(guestSession);
+        tickets.forEach((ticket) => {
+          socket.emit("joinTicketRoom", ticket._id, guestSession.token);
+          // Replies from before this page opened belong on the requests page
+          if (!announce) {
+            staffReplies(ticket).forEach((msg) => deliveredReplies.current.add(msg._id));
+          }
+        });
+      } catch (error) {
+        console.error("Failed to follow requests:", error);
+      }
+    };
+
+    const deliverReplies = async (ticketId: string) => {
+      try {
+        const ticket = await getGuestTicket(guestSession, ticketId);
+        const fresh = staffReplies(ticket).filter(
+          (msg) => !deliveredReplies.current.has(msg._id)
+        );
+        if (fresh.length === 0) return;
+
+        fresh.forEach((msg) => deliveredReplies.current.add(msg._id));
+        setMessages((prev) => [
+          ...prev,
+          ...fresh.map((msg) => ({
+            role: "staff" as const,
+            content: msg.content,
+            timestamp: msg.createdAt,
+            senderName: msg.senderName,
+          })),
+        ]);
+        await markGuestTicketRead(guestSession, ticketId);
+      } catch (error) {
+        console.error("Failed to load staff reply:", error);
+      }
+    };
+
+    socket.on("connect", () => {
+      socket.emit("joinGuestSession", guestSession.token);
+      followTickets(false);
+    });
+
+    socket.on("guestTicketsCreated", () => followTickets(true));
+
+    socket.on("newMessage", (ticket: { _id: string }) => {
+      if (ticket?._id) deliverReplies(ticket._id);
+    });
+
+    return () => {
+      socket.disconnect();
+    };
+  }, [guestSession]);
+
   useEffect(() => {
     scrollToBottom();
   }, [messages]);
@@ -79,6 +249,109 @@ export default function GuestChatPage() {
     ]);
   };
 
+  // Open requests covering every category in the message, if there are any
+  const findOpenRequests = async (
+    session: GuestSession,
+    categories: TicketCategory[]
+  ): Promise<GuestTicket[]> => {
+    try {
+      const openTickets = await getOpenRoomTickets(session);
+      const matches = categories.map((category) =>
+        openTickets.find((ticket) => ticket.category === category)
+      );
+      return matches.every(Boolean) ? (matches as GuestTicket[]) : [];
+    } catch (error) {
+      // Not being able to check should never stop the guest asking
+      console.error("Failed to check for open requests:", error);
+      return [];
+    }
+  };
+
+  const raiseTicket = async (
+    session: GuestSession,
+    content: string,
+    allowDuplicate = false
+  ) => {
+    try {
+      const ticketResponse = await createGuestTicket<{
+        success: boolean;
+        ticketCount: number;
+        categories: string[];
+        merged: { ticketId: string; category: TicketCategory }[];
+      }>(session, {
+        roomNumber: roomNumber,
+        guestInfo: {
+          name: `Guest-${roomNumber}`,
+          email: `guest.${roomNumber}@hotel.com`,
+          phone: "Not provided",
+        },
+        initialMessage: content,
+        allowDuplicate,
+      });
+
+      // Repeats of an open request are added to it rather than raised again
+      if (ticketResponse.success && ticketResponse.merged?.length > 0) {
+        setTicketCreated(true);
+        const merged = ticketResponse.merged
+          .map((item) => getCategoryLabel(item.category))
+          .join(", ");
+        toast.success(`Added to your open ${merged} request`);
+      }
+
+      // Show success message for multiple tickets
+      if (ticketResponse.success && ticketResponse.ticketCount > 0) {
+        setTicketCreated(true);
+        const ticketCount = ticketResponse.ticketCount;
+        const categories = ticketResponse.categories.join(", ");
+
+        if (ticketCount > 1) {
+          toast.success(
+            `🎫 ${ticketCount} service requests created for: ${categories}`
+          );
+        } else {
+          toast.success(`🎫 Service request created for ${categories}`);
+        }
+      }
+    } catch (ticketError: any) {
+      console.error("Failed to create ticket:", ticketError);
+      // Only show error if it's not a greeting message
+      if (!ticketError.response?.data?.isGreeting) {
+        toast.error("Failed to send request to staff");
+      }
+    }
+  };
+
+  const closeTicketDialog = () => {
+    setShowTicketDialog(false);
+    setPendingTicketMessage("");
+    setMatchingTickets([]);
+  };
+
+  const handleAppendToOpenRequests = async () => {
+    const session = guestSession || (await ensureGuestSession(hotelSlug, roomNumber, { token: accessToken }));
+    try {
+      await Promise.all(
+        matchingTickets.map((ticket) =>
+          sendGuestMessage(session, ticket._id, pendingTicketMessage)
+        )
+      );
+      setTicketCreated(true);
+      toast.success("Added to your open request");
+    } catch (error) {
+      console.error("Failed to add to request:", error);
+      toast.error("Failed to send request to staff");
+    } finally {
+      closeTicketDialog();
+    }
+  };
+
+  const handleRaiseNewRequest = async () => {
+    const session = guestSession || (await ensureGuestSession(hotelSlug, roomNumber, { token: accessToken }));
+    const content = pendingTicketMessage;
+    closeTicketDialog();
+    await raiseTicket(session, content, true);
+  };
+
   const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!message.trim() || isSubmitting) return;
@@ -95,65 +368,32 @@ export default function GuestChatPage() {
     setIsSubmitting(true);
 
     try {
-      // Call the updated AI endpoint that uses external classification
-      const aiResponse = await axios.post(`${API_BASE_URL}/chat/ai`, {
-        message: currentMessage,
-        guestInfo: {
-          guestName: `Guest-${roomNumber}`,
-          roomNumber: roomNumber,
-        },
-        conversationHistory: messages,
-      });
+      // The server classifies the message and records the exchange
+      const session = guestSession || (await ensureGuestSession(hotelSlug, roomNumber, { token: accessToken }));
+      const aiResponse = await sendAssistantMessage(session, currentMessage);
 
       const aiMessage: Message = {
         role: "assistant",
-        content: aiResponse.data.message,
-        timestamp: new Date().toISOString(),
+        content: aiResponse.message,
+        timestamp: aiResponse.timestamp,
       };
 
       setMessages((prev) => [...prev, aiMessage]);
 
       // Create tickets if classification says we should
-      if (
-        aiResponse.data.shouldCreateTicket &&
-        aiResponse.data.categories?.length > 0
-      ) {
-        try {
-          const ticketResponse = await axios.post(
-            `${API_BASE_URL}/tickets/guest`,
-            {
-              roomNumber: roomNumber,
-              guestInfo: {
-                name: `Guest-${roomNumber}`,
-                email: `guest.${roomNumber}@hotel.com`,
-                phone: "Not provided",
-              },
-              initialMessage: currentMessage,
-            }
-          );
+      if (aiResponse.shouldCreateTicket && aiResponse.categories?.length) {
+        const categories: TicketCategory[] = aiResponse.categories.map(
+          (cat) => cat.category
+        );
+        const matches = await findOpenRequests(session, categories);
 
-          // Show success message for multiple tickets
-          if (
-            ticketResponse.data.success &&
-            ticketResponse.data.ticketCount > 0
-          ) {
-            const ticketCount = ticketResponse.data.ticketCount;
-            const categories = ticketResponse.data.categories.join(", ");
-
-            if (ticketCount > 1) {
-              toast.success(
-                `🎫 ${ticketCount} service requests created for: ${categories}`
-              );
-            } else {
-              toast.success(`🎫 Service request created for ${categories}`);
-            }
-          }
-        } catch (ticketError: any) {
-          console.error("Failed to create ticket:", ticketError);
-          // Only show error if it's not a greeting message
-          if (!ticketError.response?.data?.isGreeting) {
-            toast.error("Failed to send request to staff");
-          }
+        if (matches.length > 0) {
+          // Let the guest decide before raising a duplicate
+          setPendingTicketMessage(currentMessage);
+          setMatchingTickets(matches);
+          setShowTicketDialog(true);
+        } else {
+          await raiseTicket(session, currentMessage);
         }
       }
     } catch (error) {
@@ -166,6 +406,14 @@ export default function GuestChatPage() {
     }
   };
 
+  if (accessDenied) {
+    return <ScanRoomCodeNotice roomNumber={roomNumber} />;
+  }
+
+  if (needsPin) {
+    return <StayPinForm roomNumber={roomNumber} onSubmit={handlePinSubmit} />;
+  }
+
   return (
     <div className="min-h-screen h-full ">
       {/* Mobile-first responsive container */}
@@ -188,27 +436,39 @@ export default function GuestChatPage() {
                 <h1 className="text-lg font-semibold">Room - {roomNumber}</h1>
               </div>
             </div>
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => {
-                setShowGuestForm(true);
-                setMessages([]);
-                setTicketCreated(false);
-              }}
-              className="h-9 w-full sm:h-10 sm:w-auto text-xs sm:text-sm touch-manipulation"
-            >
-              New Chat
-            </Button>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => router.push(`/hotel/${hotelSlug}/${roomNumber}/requests`)}
+                className="h-9 sm:h-10 text-xs sm:text-sm touch-manipulation"
+              >
+                <ListChecks className="h-4 w-4 mr-1" />
+                My Requests
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  setShowGuestForm(true);
+                  setMessages([]);
+                  setTicketCreated(false);
+                }}
+                className="h-9 w-full sm:h-10 sm:w-auto text-xs sm:text-sm touch-manipulation"
+              >
+                New Chat
+              </Button>
+            </div>
           </div>
           <AnimatePresence>
             {ticketCreated && (
               <div>
                 <Badge
                   variant="secondary"
-                  className="bg-green-100 text-green-800 hover:bg-green-100 text-xs sm:text-sm"
+                  className="bg-green-100 text-green-800 hover:bg-green-100 text-xs sm:text-sm cursor-pointer"
+                  onClick={() => router.push(`/hotel/${hotelSlug}/${roomNumber}/requests`)}
                 >
-                  ✅ Service Request Created
+                  ✅ Service Request Created – track progress
                 </Badge>
               </div>
             )}
@@ -322,6 +582,8 @@ export default function GuestChatPage() {
                                 className={`max-w-[80%] sm:max-w-[75%] rounded-lg px-2 items-center justify-center sm:px-5 py-2 break-words ${
                                   msg.role === "user"
                                     ? "bg-[#f4f4f4] text-black"
+                                    : msg.role === "staff"
+                                    ? "bg-blue-50 text-black"
                                     : "bg-transparent text-black "
                                 }`}
                               >
@@ -336,6 +598,11 @@ export default function GuestChatPage() {
                                     )}
                                   </span> */}
                                 </div>
+                                {msg.role === "staff" && (
+                                  <p className="text-xs font-medium text-blue-700">
+                                    {msg.senderName} · staff reply
+                                  </p>
+                                )}
                                 <p className="whitespace-pre-wrap break-words text-md overflow-wrap-anywhere word-break-break-word ">
                                   {msg.content}
                                 </p>
@@ -440,6 +707,32 @@ export default function GuestChatPage() {
           )}
         </AnimatePresence>
       </div>
+
+      {/* Existing request prompt */}
+      <Dialog
+        open={showTicketDialog}
+        onOpenChange={(open) => !open && closeTicketDialog()}
+      >
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>You already have an open request</DialogTitle>
+            <DialogDescription>
+              {matchingTickets
+                .map((ticket) => getCategoryLabel(ticket.category))
+                .join(", ")}{" "}
+              {matchingTickets.length > 1 ? "requests are" : "request is"} still
+              being looked after. Add this message to it so the team sees
+              everything in one place?
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={handleRaiseNewRequest}>
+              New request
+            </Button>
+            <Button onClick={handleAppendToOpenRequests}>Add to it</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -0,0 +1,351 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, ArrowLeft, Clock, CheckCircle, XCircle, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import { format, formatDistanceToNow } from "date-fns";
+import io, { Socket } from "socket.io-client";
+import { SOCKET_URL } from "@/lib/api/client";
+import {
+  GuestSession,
+  GuestTicket,
+  ensureGuestSession,
+  getGuestTickets,
+  getGuestTicket,
+  updateGuestTicketStatus,
+  sendGuestMessage,
+  markGuestTicketRead,
+  hasUnreadStaffReply,
+  getGuestErrorMessage,
+  isGuestSessionEnded,
+} from "@/lib/api/guest";
+import { TicketReadReceipts, TicketStatus, getCategoryLabel } from "@/lib/api/tickets";
+import { GuestTicketThread } from "@/components/tickets/guest-ticket-thread";
+import { ScanRoomCodeNotice } from "@/components/tickets/scan-room-code-notice";
+
+// How each status reads to a guest
+const guestStatusLabels: Record<TicketStatus, string> = {
+  raised: "Received",
+  acknowledged: "Seen by staff",
+  in_progress: "Being handled",
+  on_hold: "On hold",
+  completed: "Done",
+  reopened: "Reopened",
+  verified: "Confirmed by you",
+  cancelled: "Cancelled",
+};
+
+const guestStatusColors: Record<TicketStatus, string> = {
+  raised: "bg-yellow-100 text-yellow-800",
+  acknowledged: "bg-blue-100 text-blue-800",
+  in_progress: "bg-blue-100 text-blue-800",
+  on_hold: "bg-gray-100 text-gray-700",
+  completed: "bg-green-100 text-green-800",
+  reopened: "bg-yellow-100 text-yellow-800",
+  verified: "bg-green-100 text-green-800",
+  cancelled: "bg-gray-100 text-gray-500",
+};
+
+const CANCELLABLE: TicketStatus[] = ["raised", "acknowledged", "on_hold", "reopened"];
+
+// Requests the guest can no longer reply to
+const THREAD_CLOSED: TicketStatus[] = ["verified", "cancelled"];
+
+export default function GuestRequestsPage() {
+  const params = useParams();
+  const hotelSlug = params?.hotelSlug as string;
+  const roomNumber = params?.roomNumber as string;
+  const router = useRouter();
+  const [session, setSession] = useState<GuestSession | null>(null);
+  const [tickets, setTickets] = useState<GuestTicket[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [accessDenied, setAccessDenied] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [staffTyping, setStaffTyping] = useState<Record<string, string>>({});
+  const socketRef = useRef<Socket | null>(null);
+
+  // Send a read receipt for anything staff wrote since the guest last looked
+  const acknowledgeReplies = useCallback(
+    (current: GuestSession, loaded: GuestTicket[]) => {
+      loaded.filter(hasUnreadStaffReply).forEach((ticket) => {
+        markGuestTicketRead(current, ticket._id).catch((error) =>
+          console.error("Failed to send read receipt:", error)
+        );
+      });
+    },
+    []
+  );
+
+  const fetchTickets = useCallback(async (current: GuestSession) => {
+    try {
+      const loaded = await getGuestTickets(current);
+      setTickets(loaded);
+      acknowledgeReplies(current, loaded);
+    } catch (error) {
+      console.error("Failed to fetch requests:", error);
+      if (isGuestSessionEnded(error)) {
+        setAccessDenied(true);
+      } else {
+        toast.error("Failed to load your requests");
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  }, [acknowledgeReplies]);
+
+  useEffect(() => {
+    ensureGuestSession(hotelSlug, roomNumber)
+      .then((current) => {
+        setSession(current);
+        fetchTickets(current);
+      })
+      .catch((error) => {
+        // Requests can only be followed from a session started by the room's QR code
+        console.error("Failed to start guest session:", error);
+        setAccessDenied(true);
+        setIsLoading(false);
+      });
+  }, [hotelSlug, roomNumber, fetchTickets]);
+
+  // Follow every ticket in the session live
+  const ticketIds = tickets.map((ticket) => ticket._id).join(",");
+  useEffect(() => {
+    if (!session) return;
+
+    const socket = io(SOCKET_URL, {
+      transports: ["polling", "websocket"],
+      reconnection: true,
+      reconnectionAttempts: 5,
+      reconnectionDelay: 1000,
+    });
+
+    const refreshTicket = async (ticketId: string) => {
+      try {
+        const updated = await getGuestTicket(session, ticketId);
+        setTickets((current) =>
+          current.map((ticket) => (ticket._id === ticketId ? updated : ticket))
+        );
+        acknowledgeReplies(session, [updated]);
+      } catch (error) {
+        console.error("Failed to refresh request:", error);
+      }
+    };
+
+    socket.on("connect", () => {
+      socket.emit("joinGuestSession", session.token);
+      ticketIds
+        .split(",")
+        .filter(Boolean)
+        .forEach((ticketId) => socket.emit("joinTicketRoom", ticketId, session.token));
+    });
+
+    // Staff-side payloads carry more than a guest needs, so re-read our own view
+    ["ticketUpdated", "newMessage", "ticketAssigned", "ticketEscalated"].forEach((event) => {
+      socket.on(event, (payload: { _id?: string; ticket?: { _id: string } }) => {
+        const ticketId = payload?._id || payload?.ticket?._id;
+        if (ticketId) refreshTicket(ticketId);
+      });
+    });
+
+    socket.on("guestTicketsCreated", () => fetchTickets(session));
+
+    socket.on(
+      "ticketTyping",
+      (data: { ticketId: string; side: string; name: string; isTyping: boolean }) => {
+        if (data.side !== "staff") return;
+        setStaffTyping((current) => {
+          const next = { ...current };
+          if (data.isTyping) next[data.ticketId] = data.name;
+          else delete next[data.ticketId];
+          return next;
+        });
+      }
+    );
+
+    socket.on(
+      "ticketRead",
+      (data: { ticketId: string; side: keyof TicketReadReceipts; readAt: string }) => {
+        setTickets((current) =>
+          current.map((ticket) =>
+            ticket._id === data.ticketId
+              ? { ...ticket, lastReadAt: { ...ticket.lastReadAt, [data.side]: data.readAt } }
+              : ticket
+          )
+        );
+      }
+    );
+
+    socketRef.current = socket;
+
+    return () => {
+      socket.disconnect();
+      socketRef.current = null;
+    };
+  }, [session, ticketIds, fetchTickets, acknowledgeReplies]);
+
+  const handleSend = async (ticket: GuestTicket, content: string) => {
+    if (!session) return;
+    try {
+      const updated = await sendGuestMessage(session, ticket._id, content);
+      setTickets((current) => current.map((t) => (t._id === ticket._id ? updated : t)));
+    } catch (error) {
+      console.error("Failed to send message:", error);
+      toast.error(getGuestErrorMessage(error, "Failed to send your message"));
+      throw error;
+    }
+  };
+
+  const handleTyping = (ticketId: string, isTyping: boolean) => {
+    socketRef.current?.emit("ticketTyping", { ticketId, isTyping });
+  };
+
+  const handleStatusChange = async (
+    ticket: GuestTicket,
+    status: "cancelled" | "verified" | "reopened"
+  ) => {
+    if (!session) return;
+    try {
+      setUpdatingId(ticket._id);
+      const updated = await updateGuestTicketStatus(session, ticket._id, status);
+      setTickets((current) => current.map((t) => (t._id === ticket._id ? updated : t)));
+      toast.success(
+        status === "cancelled"
+          ? "Request cancelled"
+          : status === "verified"
+          ? "Thanks for confirming!"
+          : "We've let the team know it still needs attention"
+      );
+    } catch (error) {
+      console.error("Failed to update request:", error);
+      toast.error(getGuestErrorMessage(error, "Failed to update your request"));
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  if (accessDenied) {
+    return <ScanRoomCodeNotice roomNumber={roomNumber} />;
+  }
+
+  return (
+    <div className="min-h-screen h-full">
+      <div className="mx-auto px-2 sm:px-4 md:px-6 lg:px-8 h-full max-w-4xl">
+        <div className="flex items-center gap-2 mb-4 sm:mb-6 pt-2 sm:pt-4">
+          <Button
+            variant="default"
+            size="icon"
+            onClick={() => router.push(`/hotel/${hotelSlug}/${roomNumber}`)}
+            className="h-8 w-8 bg-[#f4f4f4] hover:bg-black/10 duration-500 rounded-full"
+          >
+            <ArrowLeft className="h-5 w-5 sm:h-6 sm:w-6 text-black" />
+          </Button>
+          <h1 className="text-lg font-semibold">Room - {roomNumber} · My Requests</h1>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-48">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : tickets.length === 0 ? (
+          <div className="text-center py-16 text-muted-foreground">
+            <p className="text-base font-medium">No requests yet</p>
+            <p className="text-sm">Ask Ella for anything you need and you can follow it here.</p>
+          </div>
+        ) : (
+          <div className="space-y-4 pb-8">
+            {tickets.map((ticket) => {
+              const isUpdating = updatingId === ticket._id;
+              return (
+                <Card key={ticket._id} className="border-none shadow-md">
+                  <CardHeader className="pb-2">
+                    <div className="flex items-start justify-between gap-2">
+                      <div>
+                        <CardTitle className="text-base">{getCategoryLabel(ticket.category)}</CardTitle>
+                        <p className="text-xs text-muted-foreground">
+                          #{ticket._id.slice(-6)} · requested{" "}
+                          {formatDistanceToNow(new Date(ticket.createdAt), { addSuffix: true })}
+                        </p>
+                      </div>
+                      <Badge className={`${guestStatusColors[ticket.status]} border-none`}>
+                        {guestStatusLabels[ticket.status]}
+                      </Badge>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    {ticket.messages[0] && (
+                      <p className="text-sm text-muted-foreground line-clamp-2">{ticket.messages[0].content}</p>
+                    )}
+
+                    {ticket.status === "on_hold" && ticket.holdReason && (
+                      <p className="text-sm bg-gray-50 rounded-lg p-2">{ticket.holdReason}</p>
+                    )}
+
+                    {!ticket.completedAt && (ticket.expectedBy || ticket.estimatedCompletion) && (
+                      <p className="flex items-center gap-1 text-sm">
+                        <Clock className="h-4 w-4" />
+                        {ticket.expectedBy
+                          ? `Expected by ${format(new Date(ticket.expectedBy), "h:mm a")}`
+                          : `Estimated ${ticket.estimatedCompletion}`}
+                      </p>
+                    )}
+
+                    {ticket.handledBy && (
+                      <p className="text-xs text-muted-foreground">Handled by {ticket.handledBy}</p>
+                    )}
+
+                    <GuestTicketThread
+                      ticket={ticket}
+                      staffTyping={staffTyping[ticket._id]}
+                      disabled={THREAD_CLOSED.includes(ticket.status)}
+                      onSend={(content) => handleSend(ticket, content)}
+                      onTyping={(isTyping) => handleTyping(ticket._id, isTyping)}
+                    />
+
+                    <div className="flex flex-wrap gap-2">
+                      {ticket.status === "completed" && (
+                        <>
+                          <Button
+                            size="sm"
+                            disabled={isUpdating}
+                            onClick={() => handleStatusChange(ticket, "verified")}
+                          >
+                            <CheckCircle className="h-4 w-4 mr-1" />
+                            All good
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={isUpdating}
+                            onClick={() => handleStatusChange(ticket, "reopened")}
+                          >
+                            <RotateCcw className="h-4 w-4 mr-1" />
+                            Still an issue
+                          </Button>
+                        </>
+                      )}
+                      {CANCELLABLE.includes(ticket.status) && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          disabled={isUpdating}
+                          onClick={() => handleStatusChange(ticket, "cancelled")}
+                        >
+                          <XCircle className="h-4 w-4 mr-1" />
+                          Cancel request
+                        </Button>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,597 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { motion } from 'framer-motion';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Building2, Hotel as HotelIcon, QrCode, Plus, Trash2, ArrowLeft, ArrowRight, Check, Download } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuthStore } from '@/store/auth-store';
+import { getHotel, updateHotel, completeOnboarding, HotelDetailsData } from '@/lib/api/hotels';
+import {
+  previewRoomLayout,
+  bulkCreateRooms,
+  generateMissingQRCodes,
+  PlannedRoom,
+  RoomLayout,
+  RoomQRCode,
+} from '@/lib/api/rooms';
+
+type Step = 'details' | 'rooms' | 'qr';
+
+const STEPS: { id: Step; label: string; icon: typeof HotelIcon }[] = [
+  { id: 'details', label: 'Hotel details', icon: HotelIcon },
+  { id: 'rooms', label: 'Rooms', icon: Building2 },
+  { id: 'qr', label: 'QR codes', icon: QrCode },
+];
+
+const emptyDetails: HotelDetailsData = {
+  name: '',
+  description: '',
+  location: { address: '', city: '', state: '', country: '', postalCode: '' },
+  contact: { phone: '', email: '', website: '' },
+  amenities: [],
+  checkInTime: '14:00',
+  checkOutTime: '12:00',
+  branding: { primaryColor: '#111827', accentColor: '#2563eb' },
+};
+
+const defaultLayout: RoomLayout = {
+  startFloor: 1,
+  floors: 3,
+  roomsPerFloor: 10,
+  scheme: 'floor',
+  prefix: '',
+  types: [{ type: 'Double', count: 10 }],
+};
+
+export default function OnboardingPage() {
+  const router = useRouter();
+  const { user, initializeAuth } = useAuthStore();
+  const [step, setStep] = useState<Step>('details');
+  const [details, setDetails] = useState<HotelDetailsData>(emptyDetails);
+  const [amenitiesText, setAmenitiesText] = useState('');
+  const [layout, setLayout] = useState<RoomLayout>(defaultLayout);
+  const [preview, setPreview] = useState<PlannedRoom[] | null>(null);
+  const [qrCodes, setQrCodes] = useState<RoomQRCode[] | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const hotelId = user?.hotel?.id;
+
+  // Restore the signed-in user after a page reload; users fresh from sign-up
+  // don't have their hotel loaded yet either
+  useEffect(() => {
+    if (!user?.hotel) {
+      initializeAuth();
+    }
+  }, [user, initializeAuth]);
+
+  // Start from whatever the hotel already has, e.g. its name from sign-up
+  useEffect(() => {
+    if (!hotelId) return;
+
+    const fetchHotel = async () => {
+      try {
+        const hotel = await getHotel(hotelId);
+        setDetails({
+          name: hotel.name,
+          description: hotel.description || '',
+          location: { ...emptyDetails.location, ...hotel.location },
+          contact: { ...emptyDetails.contact, ...hotel.contact },
+          amenities: hotel.amenities,
+          checkInTime: hotel.checkInTime,
+          checkOutTime: hotel.checkOutTime,
+          branding: { ...emptyDetails.branding, ...hotel.branding },
+        });
+        setAmenitiesText(hotel.amenities.join(', '));
+      } catch (error) {
+        console.error('Failed to fetch hotel:', error);
+        toast.error('Failed to load hotel details');
+      }
+    };
+
+    fetchHotel();
+  }, [hotelId]);
+
+  const typeTotal = layout.types.reduce((sum, { count }) => sum + count, 0);
+  const newRooms = preview?.filter((room) => !room.exists) || [];
+
+  const updateLayout = (changes: Partial<RoomLayout>) => {
+    setLayout({ ...layout, ...changes });
+    setPreview(null);
+  };
+
+  const updateType = (index: number, changes: Partial<RoomLayout['types'][number]>) => {
+    updateLayout({
+      types: layout.types.map((type, i) => (i === index ? { ...type, ...changes } : type)),
+    });
+  };
+
+  const handleSaveDetails = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!hotelId) return;
+
+    try {
+      setIsWorking(true);
+      await updateHotel(hotelId, {
+        ...details,
+        amenities: amenitiesText
+          .split(',')
+          .map((amenity) => amenity.trim())
+          .filter(Boolean),
+      });
+      toast.success('Hotel details saved');
+      setStep('rooms');
+    } catch (error) {
+      console.error('Failed to save hotel details:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save hotel details');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handlePreview = async () => {
+    if (typeTotal !== layout.roomsPerFloor) {
+      toast.error(`Room types add up to ${typeTotal}, but each floor has ${layout.roomsPerFloor} rooms`);
+      return;
+    }
+
+    try {
+      setIsWorking(true);
+      setPreview(await previewRoomLayout(layout));
+    } catch (error) {
+      console.error('Failed to preview rooms:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to preview rooms');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  // Rooms added before onboarding or just now get their QR codes here
+  const goToQRCodes = async () => {
+    try {
+      setIsWorking(true);
+      setQrCodes(await generateMissingQRCodes());
+      setStep('qr');
+    } catch (error) {
+      console.error('Failed to generate QR codes:', error);
+      toast.error('Failed to generate QR codes');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleCreateRooms = async () => {
+    try {
+      setIsWorking(true);
+      const { created, skipped } = await bulkCreateRooms(layout);
+      toast.success(
+        skipped.length > 0
+          ? `Created ${created.length} rooms, skipped ${skipped.length} that already exist`
+          : `Created ${created.length} rooms`
+      );
+      await goToQRCodes();
+    } catch (error) {
+      console.error('Failed to create rooms:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create rooms');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleFinish = async () => {
+    if (!hotelId) return;
+
+    try {
+      setIsWorking(true);
+      await completeOnboarding(hotelId);
+      // Refresh the user so the dashboard knows setup is done
+      await initializeAuth();
+      toast.success('Your hotel is ready');
+      router.push('/dashboard');
+    } catch (error) {
+      console.error('Failed to finish onboarding:', error);
+      toast.error('Failed to finish setup');
+      setIsWorking(false);
+    }
+  };
+
+  const stepIndex = STEPS.findIndex(({ id }) => id === step);
+
+  return (
+    <motion.div
+      className="min-h-screen bg-background/50"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      transition={{ duration: 0.5 }}
+    >
+      <div className="container mx-auto max-w-4xl px-4 py-10 space-y-8">
+        <div className="space-y-2">
+          <h1 className="text-4xl font-bold tracking-tight bg-gradient-to-r from-foreground to-foreground/70 bg-clip-text text-transparent">
+            Set up {details.name || 'your hotel'}
+          </h1>
+          <p className="text-muted-foreground text-lg">
+            Add your hotel&apos;s details, generate its rooms and print QR codes for guests
+          </p>
+        </div>
+
+        <div className="flex items-center gap-3">
+          {STEPS.map(({ id, label, icon: Icon }, index) => (
+            <div key={id} className="flex items-center gap-3">
+              <Badge
+                variant={index === stepIndex ? 'default' : 'outline'}
+                className="flex items-center gap-1 px-3 py-1"
+              >
+                {index < stepIndex ? <Check className="h-3 w-3" /> : <Icon className="h-3 w-3" />}
+                {label}
+              </Badge>
+              {index < STEPS.length - 1 && <ArrowRight className="h-4 w-4 text-muted-foreground" />}
+            </div>
+          ))}
+        </div>
+
+        {step === 'details' && (
+          <Card className="border-none shadow-lg">
+            <CardHeader>
+              <CardTitle>Hotel details</CardTitle>
+              <CardDescription>Guests see these details and the assistant uses them to answer questions</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSaveDetails} className="space-y-4">
+                <div>
+                  <Label htmlFor="hotel-name">Hotel name</Label>
+                  <Input
+                    id="hotel-name"
+                    className="border-none bg-muted/50"
+                    value={details.name}
+                    onChange={(e) => setDetails({ ...details, name: e.target.value })}
+                    required
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="hotel-address">Address</Label>
+                  <Input
+                    id="hotel-address"
+                    className="border-none bg-muted/50"
+                    value={details.location.address}
+                    onChange={(e) => setDetails({ ...details, location: { ...details.location, address: e.target.value } })}
+                    required
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="hotel-city">City</Label>
+                    <Input
+                      id="hotel-city"
+                      className="border-none bg-muted/50"
+                      value={details.location.city}
+                      onChange={(e) => setDetails({ ...details, location: { ...details.location, city: e.target.value } })}
+                      required
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="hotel-state">State / Region</Label>
+                    <Input
+                      id="hotel-state"
+                      className="border-none bg-muted/50"
+                      value={details.location.state}
+                      onChange={(e) => setDetails({ ...details, location: { ...details.location, state: e.target.value } })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="hotel-country">Country</Label>
+                    <Input
+                      id="hotel-country"
+                      className="border-none bg-muted/50"
+                      value={details.location.country}
+                      onChange={(e) => setDetails({ ...details, location: { ...details.location, country: e.target.value } })}
+                      required
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="hotel-postal-code">Postal code</Label>
+                    <Input
+                      id="hotel-postal-code"
+                      className="border-none bg-muted/50"
+                      value={details.location.postalCode}
+                      onChange={(e) => setDetails({ ...details, location: { ...details.location, postalCode: e.target.value } })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="hotel-phone">Phone</Label>
+                    <Input
+                      id="hotel-phone"
+                      type="tel"
+                      className="border-none bg-muted/50"
+                      value={details.contact.phone}
+                      onChange={(e) => setDetails({ ...details, contact: { ...details.contact, phone: e.target.value } })}
+                      required
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="hotel-email">Email</Label>
+                    <Input
+                      id="hotel-email"
+                      type="email"
+                      className="border-none bg-muted/50"
+                      value={details.contact.email}
+                      onChange={(e) => setDetails({ ...details, contact: { ...details.contact, email: e.target.value } })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="hotel-check-in">Check-in time</Label>
+                    <Input
+                      id="hotel-check-in"
+                      type="time"
+                      className="border-none bg-muted/50"
+                      value={details.checkInTime}
+                      onChange={(e) => setDetails({ ...details, checkInTime: e.target.value })}
+                      required
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="hotel-check-out">Check-out time</Label>
+                    <Input
+                      id="hotel-check-out"
+                      type="time"
+                      className="border-none bg-muted/50"
+                      value={details.checkOutTime}
+                      onChange={(e) => setDetails({ ...details, checkOutTime: e.target.value })}
+                      required
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="hotel-primary-color">QR code colour</Label>
+                    <Input
+                      id="hotel-primary-color"
+                      type="color"
+                      className="border-none bg-muted/50"
+                      value={details.branding.primaryColor}
+                      onChange={(e) =>
+                        setDetails({ ...details, branding: { ...details.branding, primaryColor: e.target.value } })
+                      }
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="hotel-accent-color">Banner colour</Label>
+                    <Input
+                      id="hotel-accent-color"
+                      type="color"
+                      className="border-none bg-muted/50"
+                      value={details.branding.accentColor}
+                      onChange={(e) =>
+                        setDetails({ ...details, branding: { ...details.branding, accentColor: e.target.value } })
+                      }
+                    />
+                  </div>
+                </div>
+                <div>
+                  <Label htmlFor="hotel-amenities">Amenities</Label>
+                  <Input
+                    id="hotel-amenities"
+                    className="border-none bg-muted/50"
+                    placeholder="Pool, Gym, Free WiFi"
+                    value={amenitiesText}
+                    onChange={(e) => setAmenitiesText(e.target.value)}
+                  />
+                </div>
+                <div className="flex justify-between">
+                  <Button type="button" variant="ghost" onClick={() => setStep('rooms')}>
+                    Skip for now
+                  </Button>
+                  <Button type="submit" disabled={isWorking || !hotelId} className="border-none">
+                    {isWorking ? 'Saving...' : 'Save and continue'}
+                    <ArrowRight className="h-4 w-4 ml-2" />
+                  </Button>
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+        )}
+
+        {step === 'rooms' && (
+          <Card className="border-none shadow-lg">
+            <CardHeader>
+              <CardTitle>Rooms</CardTitle>
+              <CardDescription>
+                Describe the building once and every room is created for you; existing room numbers are skipped
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div>
+                  <Label htmlFor="layout-start-floor">First floor</Label>
+                  <Input
+                    id="layout-start-floor"
+                    type="number"
+                    min="1"
+                    className="border-none bg-muted/50"
+                    value={layout.startFloor}
+                    onChange={(e) => updateLayout({ startFloor: parseInt(e.target.value) || 1 })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="layout-floors">Floors</Label>
+                  <Input
+                    id="layout-floors"
+                    type="number"
+                    min="1"
+                    className="border-none bg-muted/50"
+                    value={layout.floors}
+                    onChange={(e) => updateLayout({ floors: parseInt(e.target.value) || 1 })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="layout-rooms-per-floor">Rooms per floor</Label>
+                  <Input
+                    id="layout-rooms-per-floor"
+                    type="number"
+                    min="1"
+                    className="border-none bg-muted/50"
+                    value={layout.roomsPerFloor}
+                    onChange={(e) => updateLayout({ roomsPerFloor: parseInt(e.target.value) || 1 })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="layout-prefix">Prefix</Label>
+                  <Input
+                    id="layout-prefix"
+                    className="border-none bg-muted/50"
+                    placeholder="e.g. A-"
+                    value={layout.prefix}
+                    onChange={(e) => updateLayout({ prefix: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="layout-scheme">Numbering</Label>
+                <Select
+                  value={layout.scheme}
+                  onValueChange={(value: RoomLayout['scheme']) => updateLayout({ scheme: value })}
+                >
+                  <SelectTrigger id="layout-scheme" className="border-none bg-muted/50">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="floor">By floor (101, 102 … 201)</SelectItem>
+                    <SelectItem value="sequential">Sequential (1, 2, 3 …)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Room types along each floor</Label>
+                  <span className={`text-sm ${typeTotal === layout.roomsPerFloor ? 'text-muted-foreground' : 'text-red-600'}`}>
+                    {typeTotal} of {layout.roomsPerFloor} rooms
+                  </span>
+                </div>
+                {layout.types.map((type, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Input
+                      className="border-none bg-muted/50"
+                      placeholder="Room type"
+                      value={type.type}
+                      onChange={(e) => updateType(index, { type: e.target.value })}
+                    />
+                    <Input
+                      type="number"
+                      min="1"
+                      className="w-28 border-none bg-muted/50"
+                      value={type.count}
+                      onChange={(e) => updateType(index, { count: parseInt(e.target.value) || 1 })}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={layout.types.length === 1}
+                      onClick={() => updateLayout({ types: layout.types.filter((_, i) => i !== index) })}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="border-none"
+                  onClick={() => updateLayout({ types: [...layout.types, { type: '', count: 1 }] })}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add room type
+                </Button>
+              </div>
+
+              {preview && (
+                <div className="space-y-2">
+                  <p className="text-sm text-muted-foreground">
+                    {newRooms.length} new rooms
+                    {preview.length > newRooms.length && `, ${preview.length - newRooms.length} already exist`}
+                  </p>
+                  <div className="flex flex-wrap gap-1 max-h-48 overflow-y-auto">
+                    {preview.map((room) => (
+                      <Badge
+                        key={room.number}
+                        variant={room.exists ? 'secondary' : 'outline'}
+                        title={`${room.type}, floor ${room.floor}`}
+                      >
+                        {room.number}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="flex justify-between">
+                <Button variant="ghost" onClick={() => setStep('details')}>
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  Back
+                </Button>
+                <div className="flex gap-2">
+                  <Button variant="ghost" onClick={goToQRCodes} disabled={isWorking}>
+                    Skip for now
+                  </Button>
+                  {preview ? (
+                    <Button onClick={handleCreateRooms} disabled={isWorking || newRooms.length === 0} className="border-none">
+                      {isWorking ? 'Creating...' : `Create ${newRooms.length} rooms`}
+                    </Button>
+                  ) : (
+                    <Button onClick={handlePreview} disabled={isWorking} className="border-none">
+                      {isWorking ? 'Loading...' : 'Preview rooms'}
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {step === 'qr' && (
+          <Card className="border-none shadow-lg">
+            <CardHeader>
+              <CardTitle>QR codes</CardTitle>
+              <CardDescription>
+                Print a code for each room; guests scan it to chat with the front desk
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {qrCodes && qrCodes.length > 0 ? (
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 max-h-[480px] overflow-y-auto">
+                  {qrCodes.map((room) => (
+                    <div key={room._id} className="flex flex-col items-center gap-2 rounded-lg bg-muted/50 p-3">
+                      <img src={room.qrCode} alt={`QR code for room ${room.number}`} className="h-32 w-32" />
+                      <span className="font-medium">Room {room.number}</span>
+                      <a href={room.qrCode} download={`room-${room.number}-qr.png`} className="text-xs text-primary flex items-center gap-1">
+                        <Download className="h-3 w-3" />
+                        Download
+                      </a>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  No rooms needed a new QR code. You can download codes any time from the Rooms page.
+                </p>
+              )}
+              <div className="flex justify-between">
+                <Button variant="ghost" onClick={() => setStep('rooms')}>
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  Back
+                </Button>
+                <Button onClick={handleFinish} disabled={isWorking || !hotelId} className="border-none">
+                  {isWorking ? 'Finishing...' : 'Go to dashboard'}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </motion.div>
+  );
+}
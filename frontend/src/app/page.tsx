@@ -10,6 +10,7 @@ import { motion } from 'framer-motion';
 
 export default function Home() {
   const router = useRouter();
+  const [hotelSlug, setHotelSlug] = useState('');
   const [roomNumber, setRoomNumber] = useState('');
   const [isClient, setIsClient] = useState(false);
 
@@ -27,8 +28,8 @@ export default function Home() {
 
   const handleGuestAccess = (e: React.FormEvent) => {
     e.preventDefault();
-    if (roomNumber) {
-      router.push(`/hotel/${roomNumber}`);
+    if (hotelSlug && roomNumber) {
+      router.push(`/hotel/${encodeURIComponent(hotelSlug.trim().toLowerCase())}/${encodeURIComponent(roomNumber.trim())}`);
     }
   };
 
@@ -165,6 +166,22 @@ export default function Home() {
                     initial={{ y: 20, opacity: 0 }}
                     animate={{ y: 0, opacity: 1 }}
                     transition={{ delay: 0.6 }}
+                  >
+                    <Label htmlFor="hotelSlug">Hotel Code</Label>
+                    <Input
+                      id="hotelSlug"
+                      placeholder="e.g., grand-paradise"
+                      className="border-none"
+                      required
+                      value={hotelSlug}
+                      onChange={(e) => setHotelSlug(e.target.value)}
+                    />
+                  </motion.div>
+                  <motion.div 
+                    className="space-y-2"
+                    initial={{ y: 20, opacity: 0 }}
+                    animate={{ y: 0, opacity: 1 }}
+                    transition={{ delay: 0.65 }}
                   >
                     <Label htmlFor="roomNumber">Room Number</Label>
                     <Input
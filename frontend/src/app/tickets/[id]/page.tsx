@@ -11,6 +11,8 @@ import { MessageSquare, ArrowLeft, CheckCircle, Clock, AlertCircle, Send, Loader
 import { apiClient } from '@/lib/api/client';
 import { toast } from 'sonner';
 import { formatDistanceToNow } from 'date-fns';
+import { CannedResponsePicker } from '@/components/tickets/canned-response-picker';
+import { useAuthStore } from '@/store/auth-store';
 
 interface Message {
   id: string;
@@ -36,6 +38,7 @@ interface Ticket {
 export default function TicketDetailPage() {
   const { id } = useParams();
   const router = useRouter();
+  const { user } = useAuthStore();
   const [ticket, setTicket] = useState<Ticket | null>(null);
   const [message, setMessage] = useState('');
   const [isLoading, setIsLoading] = useState(true);
@@ -249,7 +252,13 @@ export default function TicketDetailPage() {
                 )}
               </div>
 
-              <form onSubmit={handleSendMessage} className="mt-6">
+              <form onSubmit={handleSendMessage} className="mt-6 space-y-2">
+                <CannedResponsePicker
+                  ticketId={String(id)}
+                  onInsert={setMessage}
+                  onApplied={() => fetchTicket()}
+                  disabled={isSubmitting}
+                />
                 <div className="flex gap-2">
                   <Textarea
                     placeholder="Type your message..."
@@ -342,7 +351,8 @@ export default function TicketDetailPage() {
                 <Button 
                   variant="outline" 
                   className="w-full"
-                  onClick={() => router.push(`/hotel/${ticket.roomNumber}`)}
+                  disabled={!user?.hotel}
+                  onClick={() => user?.hotel && router.push(`/hotel/${user.hotel.slug}/${ticket.roomNumber}`)}
                 >
                   View Room Chat
                 </Button>
@@ -0,0 +1,210 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import {
+  Booking,
+  BookingCalendar,
+  addDays,
+  bookingRoomId,
+  daysBetween,
+  toDayKey,
+} from '@/lib/api/bookings';
+
+const DAY_WIDTH = 44;
+
+const statusStyles: Record<string, string> = {
+  confirmed: 'bg-blue-500 text-white',
+  checked_in: 'bg-green-600 text-white',
+  completed: 'bg-gray-300 text-gray-700',
+};
+
+interface AvailabilityCalendarProps {
+  calendar: BookingCalendar;
+  // Drag across free nights in a room's row
+  onCreate: (stay: { room: string; checkIn: string; checkOut: string }) => void;
+  // Drag the end of a stay to a new departure day
+  onExtend: (booking: Booking, checkOut: string) => void;
+  onSelect: (booking: Booking) => void;
+  readOnly?: boolean;
+}
+
+type Drag =
+  | { type: 'create'; roomId: string; anchor: number; current: number }
+  | { type: 'extend'; booking: Booking; current: number };
+
+// Day index and room under the pointer, from the cell's data attributes
+const cellAt = (x: number, y: number) => {
+  const cell = document.elementFromPoint(x, y)?.closest<HTMLElement>('[data-day]');
+  return cell ? { day: Number(cell.dataset.day), roomId: cell.dataset.room as string } : null;
+};
+
+// Rooms x days grid; each stay is a bar from its check-in to its departure day
+export function AvailabilityCalendar({ calendar, onCreate, onExtend, onSelect, readOnly }: AvailabilityCalendarProps) {
+  const from = toDayKey(calendar.from);
+  const dayCount = daysBetween(from, toDayKey(calendar.to));
+  const days = Array.from({ length: dayCount }, (_, index) => addDays(from, index));
+  const today = toDayKey(new Date());
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const dragRef = useRef<Drag | null>(null);
+  dragRef.current = drag;
+
+  const bookingsByRoom = new Map<string, Booking[]>();
+  calendar.bookings.forEach((booking) => {
+    const roomId = bookingRoomId(booking);
+    bookingsByRoom.set(roomId, [...(bookingsByRoom.get(roomId) || []), booking]);
+  });
+
+  // Nights are [start, end) day indexes relative to the first column
+  const nightsOf = (booking: Booking) => ({
+    start: daysBetween(from, toDayKey(booking.checkIn)),
+    end: daysBetween(from, toDayKey(booking.checkOut)),
+  });
+
+  const isFree = (roomId: string, start: number, end: number, except?: Booking) =>
+    (bookingsByRoom.get(roomId) || []).every((booking) => {
+      if (booking === except) return true;
+      const nights = nightsOf(booking);
+      return nights.end <= start || nights.start >= end;
+    });
+
+  // Finish the drag wherever the pointer is released
+  useEffect(() => {
+    const handlePointerUp = () => {
+      const current = dragRef.current;
+      if (!current) return;
+      setDrag(null);
+
+      if (current.type === 'create') {
+        const start = Math.min(current.anchor, current.current);
+        const end = Math.max(current.anchor, current.current) + 1;
+        onCreate({ room: current.roomId, checkIn: addDays(from, start), checkOut: addDays(from, end) });
+      } else {
+        const checkOut = addDays(from, current.current + 1);
+        if (checkOut !== toDayKey(current.booking.checkOut)) onExtend(current.booking, checkOut);
+      }
+    };
+
+    window.addEventListener('pointerup', handlePointerUp);
+    return () => window.removeEventListener('pointerup', handlePointerUp);
+  }, [from, onCreate, onExtend]);
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag) return;
+    const cell = cellAt(e.clientX, e.clientY);
+    if (!cell) return;
+
+    if (drag.type === 'create' && cell.roomId === drag.roomId) {
+      setDrag({ ...drag, current: cell.day });
+    } else if (drag.type === 'extend' && cell.roomId === bookingRoomId(drag.booking)) {
+      // At least one night
+      setDrag({ ...drag, current: Math.max(cell.day, nightsOf(drag.booking).start) });
+    }
+  };
+
+  const startCreate = (e: React.PointerEvent, roomId: string, day: number) => {
+    if (readOnly || e.button !== 0) return;
+    e.preventDefault();
+    setDrag({ type: 'create', roomId, anchor: day, current: day });
+  };
+
+  const startExtend = (e: React.PointerEvent, booking: Booking) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDrag({ type: 'extend', booking, current: nightsOf(booking).end - 1 });
+  };
+
+  return (
+    <div className="overflow-x-auto" onPointerMove={handlePointerMove}>
+      <div className="select-none touch-none" style={{ minWidth: 120 + dayCount * DAY_WIDTH }}>
+        <div className="flex sticky top-0 bg-background z-10 border-b">
+          <div className="w-[120px] shrink-0 p-2 text-xs font-medium text-muted-foreground">Room</div>
+          {days.map((day) => (
+            <div
+              key={day}
+              className={`shrink-0 p-1 text-center text-xs ${day === today ? 'font-semibold text-primary' : 'text-muted-foreground'}`}
+              style={{ width: DAY_WIDTH }}
+            >
+              <div>{format(new Date(`${day}T00:00:00`), 'EEE')}</div>
+              <div>{format(new Date(`${day}T00:00:00`), 'd MMM')}</div>
+            </div>
+          ))}
+        </div>
+
+        {calendar.rooms.map((room) => {
+          const roomBookings = bookingsByRoom.get(room._id) || [];
+          const selection =
+            drag?.type === 'create' && drag.roomId === room._id
+              ? { start: Math.min(drag.anchor, drag.current), end: Math.max(drag.anchor, drag.current) + 1 }
+              : null;
+
+          return (
+            <div key={room._id} className="flex border-b last:border-b-0">
+              <div className="w-[120px] shrink-0 p-2">
+                <p className="text-sm font-medium">Room {room.number}</p>
+                <p className="text-xs text-muted-foreground truncate">{room.type}</p>
+              </div>
+              <div className="relative flex">
+                {days.map((day, index) => (
+                  <div
+                    key={day}
+                    data-day={index}
+                    data-room={room._id}
+                    className={`shrink-0 h-12 border-l ${day === today ? 'bg-primary/5' : ''} ${readOnly ? '' : 'cursor-crosshair hover:bg-muted/50'}`}
+                    style={{ width: DAY_WIDTH }}
+                    onPointerDown={(e) => startCreate(e, room._id, index)}
+                  />
+                ))}
+
+                {selection && (
+                  <div
+                    className={`absolute top-1 bottom-1 rounded-md border-2 border-dashed pointer-events-none ${
+                      isFree(room._id, selection.start, selection.end)
+                        ? 'border-primary bg-primary/10'
+                        : 'border-red-500 bg-red-100/60'
+                    }`}
+                    style={{ left: selection.start * DAY_WIDTH, width: (selection.end - selection.start) * DAY_WIDTH }}
+                  />
+                )}
+
+                {roomBookings.map((booking) => {
+                  const nights = nightsOf(booking);
+                  const end =
+                    drag?.type === 'extend' && drag.booking === booking ? drag.current + 1 : nights.end;
+                  const start = Math.max(nights.start, 0);
+                  const visibleEnd = Math.min(end, dayCount);
+                  if (visibleEnd <= start) return null;
+
+                  const clashes = end !== nights.end && !isFree(room._id, nights.start, end, booking);
+                  const canExtend = !readOnly && ['confirmed', 'checked_in'].includes(booking.status);
+
+                  return (
+                    <div
+                      key={booking._id}
+                      className={`absolute top-1 bottom-1 rounded-md px-2 flex items-center text-xs font-medium shadow-sm cursor-pointer ${
+                        clashes ? 'bg-red-500 text-white' : statusStyles[booking.status] || statusStyles.confirmed
+                      }`}
+                      style={{ left: start * DAY_WIDTH + 2, width: (visibleEnd - start) * DAY_WIDTH - 4 }}
+                      title={`${booking.guest.name} · ${toDayKey(booking.checkIn)} → ${toDayKey(booking.checkOut)}`}
+                      onPointerDown={(e) => e.stopPropagation()}
+                      onClick={() => onSelect(booking)}
+                    >
+                      <span className="truncate">{booking.guest.name}</span>
+                      {canExtend && end <= dayCount && (
+                        <span
+                          className="absolute right-0 top-0 bottom-0 w-2 rounded-r-md cursor-ew-resize bg-black/20"
+                          onPointerDown={(e) => startExtend(e, booking)}
+                          onClick={(e) => e.stopPropagation()}
+                        />
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
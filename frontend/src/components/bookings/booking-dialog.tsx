@@ -0,0 +1,243 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { toast } from 'sonner';
+import { StayPinSelect } from '@/components/rooms/stay-pin-select';
+import {
+  Booking,
+  BookingStatus,
+  CalendarRoom,
+  bookingStatusLabels,
+  createBooking,
+  daysBetween,
+  toDayKey,
+  updateBookingStatus,
+} from '@/lib/api/bookings';
+
+export interface NewStay {
+  room: CalendarRoom;
+  checkIn: string;
+  checkOut: string;
+}
+
+interface BookingDialogProps {
+  // A drawn selection to book, or an existing booking to manage
+  stay: NewStay | null;
+  booking: Booking | null;
+  room: CalendarRoom | null;
+  onClose: () => void;
+  onSaved: () => void;
+  canEdit: boolean;
+}
+
+const statusColors: Record<BookingStatus, string> = {
+  confirmed: 'bg-blue-100 text-blue-800',
+  checked_in: 'bg-green-100 text-green-800',
+  completed: 'bg-gray-100 text-gray-800',
+  cancelled: 'bg-red-100 text-red-800',
+  'no-show': 'bg-yellow-100 text-yellow-800',
+};
+
+const emptyGuest = { name: '', email: '', phone: '', numberOfGuests: 1, notes: '' };
+
+const formatDay = (day: string) => format(new Date(`${day}T00:00:00`), 'EEE d MMM yyyy');
+
+export function BookingDialog({ stay, booking, room, onClose, onSaved, canEdit }: BookingDialogProps) {
+  const [form, setForm] = useState(emptyGuest);
+  const [requirePin, setRequirePin] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+
+  useEffect(() => {
+    setForm(emptyGuest);
+    setRequirePin(false);
+  }, [stay, booking]);
+
+  const open = Boolean(stay || booking);
+  const checkIn = stay ? stay.checkIn : booking ? toDayKey(booking.checkIn) : '';
+  const checkOut = stay ? stay.checkOut : booking ? toDayKey(booking.checkOut) : '';
+  const nights = checkIn && checkOut ? daysBetween(checkIn, checkOut) : 0;
+  const roomNumber = stay?.room.number || room?.number;
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!stay) return;
+
+    try {
+      setIsWorking(true);
+      await createBooking({
+        room: stay.room._id,
+        checkIn: stay.checkIn,
+        checkOut: stay.checkOut,
+        guest: {
+          name: form.name,
+          email: form.email || undefined,
+          phone: form.phone || undefined,
+        },
+        numberOfGuests: form.numberOfGuests,
+        notes: form.notes || undefined,
+      });
+      toast.success('Booking created');
+      onSaved();
+    } catch (error) {
+      console.error('Failed to create booking:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create booking');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleStatus = async (status: 'checked_in' | 'completed' | 'cancelled' | 'no-show') => {
+    if (!booking) return;
+
+    try {
+      setIsWorking(true);
+      const updated = await updateBookingStatus(booking._id, status, {
+        requirePin: status === 'checked_in' && requirePin,
+      });
+      const pin = typeof updated.room === 'string' ? null : updated.room.stayPin;
+
+      if (status === 'checked_in' && pin) {
+        toast.success(`Checked in. Stay PIN for the guest: ${pin}`, { duration: 15000 });
+      } else if (status === 'completed') {
+        toast.success('Checked out. The room has a new QR code');
+      } else {
+        toast.success(`Booking marked ${bookingStatusLabels[status].toLowerCase()}`);
+      }
+      onSaved();
+    } catch (error) {
+      console.error('Failed to update booking:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update booking');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            {booking ? `Booking ${booking.bookingNumber}` : 'New Booking'}
+          </DialogTitle>
+          <DialogDescription>
+            Room {roomNumber} · {checkIn && formatDay(checkIn)} to {checkOut && formatDay(checkOut)} ·{' '}
+            {nights} {nights === 1 ? 'night' : 'nights'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {stay && (
+          <form onSubmit={handleCreate} className="space-y-4">
+            <div>
+              <Label htmlFor="guest-name">Guest name</Label>
+              <Input
+                id="guest-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                required
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="guest-email">Email</Label>
+                <Input
+                  id="guest-email"
+                  type="email"
+                  value={form.email}
+                  onChange={(e) => setForm({ ...form, email: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="guest-phone">Phone</Label>
+                <Input
+                  id="guest-phone"
+                  value={form.phone}
+                  onChange={(e) => setForm({ ...form, phone: e.target.value })}
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="guest-count">Guests</Label>
+              <Input
+                id="guest-count"
+                type="number"
+                min="1"
+                value={form.numberOfGuests}
+                onChange={(e) => setForm({ ...form, numberOfGuests: parseInt(e.target.value) || 1 })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="booking-notes">Notes</Label>
+              <Textarea
+                id="booking-notes"
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isWorking}>
+                Create Booking
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+
+        {booking && (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="font-medium">{booking.guest.name}</p>
+                <p className="text-sm text-muted-foreground">
+                  {[booking.guest.email, booking.guest.phone].filter(Boolean).join(' · ') || 'No contact details'}
+                </p>
+              </div>
+              <Badge className={`${statusColors[booking.status]} border-none`}>
+                {bookingStatusLabels[booking.status]}
+              </Badge>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {booking.numberOfGuests} {booking.numberOfGuests === 1 ? 'guest' : 'guests'}
+            </p>
+            {booking.notes && <p className="text-sm">{booking.notes}</p>}
+
+            {canEdit && booking.status === 'confirmed' && (
+              <StayPinSelect id="booking-stay-pin" requirePin={requirePin} onChange={setRequirePin} />
+            )}
+
+            {canEdit && ['confirmed', 'checked_in'].includes(booking.status) && (
+              <DialogFooter className="gap-2">
+                {booking.status === 'confirmed' && (
+                  <>
+                    <Button variant="outline" disabled={isWorking} onClick={() => handleStatus('no-show')}>
+                      No-show
+                    </Button>
+                    <Button variant="outline" disabled={isWorking} onClick={() => handleStatus('cancelled')}>
+                      Cancel Booking
+                    </Button>
+                    <Button disabled={isWorking} onClick={() => handleStatus('checked_in')}>
+                      Check In
+                    </Button>
+                  </>
+                )}
+                {booking.status === 'checked_in' && (
+                  <Button disabled={isWorking} onClick={() => handleStatus('completed')}>
+                    Check Out
+                  </Button>
+                )}
+              </DialogFooter>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,50 +1,79 @@
+import { useDroppable } from "@dnd-kit/core"
 import { cn } from "@/lib/utils"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
-import { Button } from "@/components/ui/button"
-import { Plus } from "lucide-react"
+import { TicketStatus, canTransition } from "@/lib/api/tickets"
+
+export type KanbanColumnId = 'raised' | 'acknowledged' | 'in_progress' | 'on_hold' | 'completed'
+
+// Board lanes and the ticket statuses shown in each
+export const KANBAN_COLUMNS: { id: KanbanColumnId; title: string; statuses: TicketStatus[] }[] = [
+  { id: 'raised', title: 'New Tickets', statuses: ['raised', 'reopened'] },
+  { id: 'acknowledged', title: 'Acknowledged', statuses: ['acknowledged'] },
+  { id: 'in_progress', title: 'In Progress', statuses: ['in_progress'] },
+  { id: 'on_hold', title: 'On Hold', statuses: ['on_hold'] },
+  { id: 'completed', title: 'Closed', statuses: ['completed', 'verified', 'cancelled'] },
+]
+
+export const getColumnForStatus = (status: TicketStatus): KanbanColumnId =>
+  KANBAN_COLUMNS.find((column) => column.statuses.includes(status))?.id || 'raised'
+
+// Status a ticket moves to when dropped on a column, or null if the move is not allowed
+export const getDropStatus = (columnId: KanbanColumnId, from: TicketStatus): TicketStatus | null => {
+  // Dragging a closed ticket back to "New" reopens it
+  const target: TicketStatus = columnId === 'raised' ? 'reopened' : columnId
+  return canTransition(from, target) ? target : null
+}
 
 type KanbanColumnProps = {
+  id: KanbanColumnId
   title: string
   count: number
-  variant?: 'default' | 'secondary' | 'destructive' | 'outline'
+  // Status of the ticket currently being dragged, if any
+  draggingStatus?: TicketStatus | null
   children: React.ReactNode
-  onAddClick?: () => void
   className?: string
 }
 
 export function KanbanColumn({
+  id,
   title,
   count,
-  variant = 'default',
+  draggingStatus,
   children,
-  onAddClick,
   className,
 }: KanbanColumnProps) {
+  const { setNodeRef, isOver } = useDroppable({ id })
+
+  const isSource = !!draggingStatus && getColumnForStatus(draggingStatus) === id
+  const canDrop = !!draggingStatus && !isSource && !!getDropStatus(id, draggingStatus)
+
   return (
-    <div className={cn("flex flex-col flex-1 min-w-[300px] max-w-full", className)}>
-      <div className="flex items-center justify-between mb-4">
-        <div className="flex items-center gap-2">
-          <h3 className="font-semibold text-sm uppercase tracking-wider">{title}</h3>
-          <Badge variant={variant} className="rounded-full px-2.5">
-            {count}
-          </Badge>
-        </div>
-        {onAddClick && (
-          <Button
-            variant="ghost"
-            size="icon"
-            className="h-7 w-7 rounded-full"
-            onClick={onAddClick}
-          >
-            <Plus className="h-4 w-4" />
-            <span className="sr-only">Add new {title.toLowerCase()} ticket</span>
-          </Button>
-        )}
-      </div>
-      <div className="space-y-3 overflow-y-auto flex-1 pb-4">
-        {children}
-      </div>
+    <div
+      ref={setNodeRef}
+      className={cn(
+        "flex-1 min-w-[300px] transition-all duration-200",
+        isOver && canDrop && "bg-muted/30 rounded-lg ring-2 ring-primary/20 scale-[1.02]",
+        isOver && !canDrop && !isSource && "rounded-lg ring-2 ring-red-300",
+        draggingStatus && !canDrop && !isSource && "opacity-50",
+        className
+      )}
+    >
+      <Card className="h-full shadow-lg border-none">
+        <CardHeader className="bg-[#1f1e24] rounded-t-md">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-2xl font-semibold text-white p-5">
+              {title}
+            </CardTitle>
+            <Badge variant="secondary" className="rounded-full px-2.5 mr-5">
+              {count}
+            </Badge>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3 h-[calc(100vh-400px)] overflow-y-auto p-3">
+          {children}
+        </CardContent>
+      </Card>
     </div>
   )
 }
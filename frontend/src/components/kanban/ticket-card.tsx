@@ -4,6 +4,8 @@ import { Badge } from "@/components/ui/badge"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { MessageSquare, Clock, User } from "lucide-react"
 import { formatDistanceToNow } from "date-fns"
+import { TicketSla } from "@/lib/api/tickets"
+import { SlaBadge, isSlaBreached } from "@/components/tickets/sla-badge"
 
 type Priority = 'low' | 'medium' | 'high'
 
@@ -19,6 +21,7 @@ type TicketCardProps = {
   guestAvatar?: string
   messagesCount: number
   updatedAt: string
+  sla?: TicketSla
   onClick?: () => void
   className?: string
 }
@@ -40,6 +43,7 @@ export function TicketCard({
   guestAvatar,
   messagesCount,
   updatedAt,
+  sla,
   onClick,
   className,
 }: TicketCardProps) {
@@ -60,6 +64,7 @@ export function TicketCard({
       onClick={onClick}
       className={cn(
         "group cursor-pointer transition-all hover:shadow-md hover:border-primary/50 dark:hover:border-primary/70",
+        isSlaBreached(sla) && "border-red-400 ring-1 ring-red-300",
         className
       )}
     >
@@ -77,6 +82,8 @@ export function TicketCard({
           </Badge>
         </div>
 
+        <SlaBadge sla={sla} status={status} />
+
         {description && (
           <p className="text-xs text-muted-foreground line-clamp-2">
             {description}
@@ -0,0 +1,122 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Building, Check, ChevronDown, Plus } from 'lucide-react';
+import { toast } from 'sonner';
+import { setActiveHotelId } from '@/lib/api/client';
+import { createProperty } from '@/lib/api/properties';
+import { useAuthStore } from '@/store/auth-store';
+
+// Every page loads its data for the active property, so switching reloads
+const switchTo = (hotelId: string) => {
+  setActiveHotelId(hotelId);
+  window.location.reload();
+};
+
+export function PropertySwitcher() {
+  const { user } = useAuthStore();
+  const [isAddOpen, setIsAddOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+
+  const properties = user?.hotels || [];
+  const canAdd = user?.role === 'owner';
+
+  if (!user?.hotel || (properties.length < 2 && !canAdd)) return null;
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setIsCreating(true);
+      const property = await createProperty(name.trim());
+      toast.success(`Added ${property.name}`);
+      // New properties start in the onboarding wizard
+      setActiveHotelId(property.id);
+      window.location.href = '/onboarding';
+    } catch (error) {
+      console.error('Failed to add property:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to add property');
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="flex items-center gap-2 border-none">
+            <Building className="h-4 w-4" />
+            <span className="max-w-40 truncate">{user.hotel.name}</span>
+            <ChevronDown className="h-3 w-3" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64">
+          <DropdownMenuLabel>Properties</DropdownMenuLabel>
+          {properties.map((property) => (
+            <DropdownMenuItem
+              key={property.id}
+              className="flex items-center justify-between"
+              onClick={() => property.id !== user.hotel?.id && switchTo(property.id)}
+            >
+              <span className="truncate">{property.name}</span>
+              {property.id === user.hotel?.id && <Check className="h-4 w-4" />}
+            </DropdownMenuItem>
+          ))}
+          {canAdd && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={() => setIsAddOpen(true)}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add property
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={isAddOpen} onOpenChange={setIsAddOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Property</DialogTitle>
+            <DialogDescription>
+              Each property has its own rooms, requests and settings
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleCreate} className="space-y-4">
+            <div>
+              <Label htmlFor="property-name">Name</Label>
+              <Input
+                id="property-name"
+                className="border-none"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                minLength={2}
+                required
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" className="border-none" onClick={() => setIsAddOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isCreating} className="border-none">
+                {isCreating ? 'Adding...' : 'Add Property'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,174 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Printer } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuthStore } from '@/store/auth-store';
+import { getHotel } from '@/lib/api/hotels';
+import { downloadQRSheets, QRSheetFormat, QRSheetLayout } from '@/lib/api/rooms';
+
+interface QRSheetDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  floors: number[];
+  // Codes are issued for rooms that don't have one, so the list may need refreshing
+  onDownloaded: () => void;
+}
+
+const layoutOptions: { value: QRSheetLayout; label: string }[] = [
+  { value: 'grid', label: 'A4 grid (12 per page)' },
+  { value: 'door-hanger', label: 'Door hanger' },
+  { value: 'table-tent', label: 'Table tent' },
+];
+
+export function QRSheetDialog({ open, onOpenChange, floors, onDownloaded }: QRSheetDialogProps) {
+  const { user } = useAuthStore();
+  const hotelId = user?.hotel?.id;
+  const [layout, setLayout] = useState<QRSheetLayout>('grid');
+  const [format, setFormat] = useState<QRSheetFormat>('pdf');
+  const [floor, setFloor] = useState('all');
+  const [primaryColor, setPrimaryColor] = useState('#111827');
+  const [accentColor, setAccentColor] = useState('#2563eb');
+  const [instructions, setInstructions] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+
+  // Start from the hotel's saved colours
+  useEffect(() => {
+    if (!open || !hotelId) return;
+
+    getHotel(hotelId)
+      .then((hotel) => {
+        if (!hotel.branding) return;
+        setPrimaryColor(hotel.branding.primaryColor);
+        setAccentColor(hotel.branding.accentColor);
+      })
+      .catch((error) => console.error('Failed to load hotel branding:', error));
+  }, [open, hotelId]);
+
+  const handleDownload = async () => {
+    try {
+      setIsWorking(true);
+      await downloadQRSheets({
+        layout,
+        format,
+        floor: floor === 'all' ? undefined : Number(floor),
+        primaryColor,
+        accentColor,
+        instructions: instructions.trim() || undefined,
+      });
+      onDownloaded();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Failed to download QR codes:', error);
+      toast.error('Failed to download QR codes');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Print QR Codes</DialogTitle>
+          <DialogDescription>
+            Download printable codes with your hotel name, room number and scan instructions
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="qr-sheet-layout">Layout</Label>
+              <Select value={layout} onValueChange={(value) => setLayout(value as QRSheetLayout)}>
+                <SelectTrigger id="qr-sheet-layout" className="border-none bg-muted/50">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {layoutOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="qr-sheet-format">Format</Label>
+              <Select value={format} onValueChange={(value) => setFormat(value as QRSheetFormat)}>
+                <SelectTrigger id="qr-sheet-format" className="border-none bg-muted/50">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="pdf">PDF</SelectItem>
+                  <SelectItem value="svg">SVG</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="col-span-2">
+              <Label htmlFor="qr-sheet-floor">Rooms</Label>
+              <Select value={floor} onValueChange={setFloor}>
+                <SelectTrigger id="qr-sheet-floor" className="border-none bg-muted/50">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All rooms</SelectItem>
+                  {floors.map((value) => (
+                    <SelectItem key={value} value={String(value)}>
+                      Floor {value}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="qr-sheet-primary">QR code colour</Label>
+              <Input
+                id="qr-sheet-primary"
+                type="color"
+                className="border-none bg-muted/50"
+                value={primaryColor}
+                onChange={(e) => setPrimaryColor(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="qr-sheet-accent">Banner colour</Label>
+              <Input
+                id="qr-sheet-accent"
+                type="color"
+                className="border-none bg-muted/50"
+                value={accentColor}
+                onChange={(e) => setAccentColor(e.target.value)}
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="qr-sheet-instructions">Instructions</Label>
+            <Textarea
+              id="qr-sheet-instructions"
+              className="border-none bg-muted/50"
+              placeholder="Scan with your phone camera to chat with us and request anything you need during your stay."
+              maxLength={200}
+              value={instructions}
+              onChange={(e) => setInstructions(e.target.value)}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" className="border-none" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button className="border-none" disabled={isWorking} onClick={handleDownload}>
+            <Printer className="mr-2 h-4 w-4" />
+            {isWorking ? 'Preparing...' : 'Download'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
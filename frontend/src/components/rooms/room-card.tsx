@@ -5,6 +5,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Bed, Eye, QrCode, MapPin } from 'lucide-react';
+import { formatQRAge } from '@/lib/api/rooms';
 
 interface Room {
   _id: string;
@@ -14,6 +15,8 @@ interface Room {
   status: 'available' | 'occupied' | 'maintenance';
   qrCode?: string;
   qrCodeUrl?: string;
+  qrRotatedAt?: string | null;
+  stayPin?: string | null;
 }
 
 interface RoomCardProps {
@@ -72,7 +75,7 @@ export function RoomCard({ room, onViewDetails }: RoomCardProps) {
         <div className="flex items-center justify-between pt-2">
           <div className="flex items-center gap-1 text-xs text-muted-foreground">
             <QrCode className="h-3 w-3" />
-            <span>{room.qrCode ? 'QR Available' : 'No QR Code'}</span>
+            <span>{room.qrCode ? `QR ${formatQRAge(room.qrRotatedAt).toLowerCase()}` : 'No QR Code'}</span>
           </div>
           
           <motion.div
@@ -9,9 +9,11 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Download, QrCode, ExternalLink, MapPin, Users, Bed, Edit, Save, X } from 'lucide-react';
+import { Download, QrCode, ExternalLink, MapPin, Users, Bed, Edit, Save, X, RefreshCw, KeyRound } from 'lucide-react';
 import { toast } from 'sonner';
 import { apiClient } from '@/lib/api/client';
+import { formatQRAge } from '@/lib/api/rooms';
+import { StayPinSelect } from '@/components/rooms/stay-pin-select';
 
 interface Room {
   _id: string;
@@ -21,6 +23,8 @@ interface Room {
   status: 'available' | 'occupied' | 'maintenance';
   qrCode?: string;
   qrCodeUrl?: string;
+  qrRotatedAt?: string | null;
+  stayPin?: string | null;
 }
 
 interface RoomDetailDialogProps {
@@ -41,9 +45,12 @@ export function RoomDetailDialog({ room, open, onOpenChange, onRoomUpdate }: Roo
     floor: 1,
     status: 'available' as Room['status']
   });
+  const [requirePin, setRequirePin] = useState(false);
 
   if (!room) return null;
 
+  const isCheckingIn = room.status !== 'occupied' && editFormData.status === 'occupied';
+
   const startEditing = () => {
     setEditFormData({
       number: room.number,
@@ -51,6 +58,7 @@ export function RoomDetailDialog({ room, open, onOpenChange, onRoomUpdate }: Roo
       floor: room.floor,
       status: room.status
     });
+    setRequirePin(false);
     setIsEditing(true);
   };
 
@@ -67,8 +75,18 @@ export function RoomDetailDialog({ room, open, onOpenChange, onRoomUpdate }: Roo
   const saveChanges = async () => {
     setIsSaving(true);
     try {
-      await apiClient.put(`/rooms/${room._id}`, editFormData);
-      toast.success('Room updated successfully');
+      const response = await apiClient.put(`/rooms/${room._id}`, {
+        ...editFormData,
+        requirePin: isCheckingIn && requirePin,
+      });
+      const updated: Room = response.data.data;
+      if (updated.stayPin && room.status !== 'occupied') {
+        toast.success(`Checked in. Stay PIN for the guest: ${updated.stayPin}`, { duration: 15000 });
+      } else if (room.status === 'occupied' && updated.status !== 'occupied') {
+        toast.success('Checked out. The room has a new QR code');
+      } else {
+        toast.success('Room updated successfully');
+      }
       setIsEditing(false);
       onRoomUpdate?.();
     } catch (error) {
@@ -79,12 +97,17 @@ export function RoomDetailDialog({ room, open, onOpenChange, onRoomUpdate }: Roo
     }
   };
 
+  // Rotating replaces the printed code and ends any guest session started from it
   const generateQRCode = async () => {
+    if (room.qrCode && !confirm('Rotate this QR code? The current code and any guest chats started from it will stop working.')) {
+      return;
+    }
+
     setIsGeneratingQR(true);
     try {
       const response = await apiClient.post(`/rooms/${room._id}/qr`);
       if (response.data.success) {
-        toast.success('QR code generated successfully');
+        toast.success(room.qrCode ? 'QR code rotated' : 'QR code generated successfully');
         onRoomUpdate?.();
       }
     } catch (error) {
@@ -234,6 +257,9 @@ export function RoomDetailDialog({ room, open, onOpenChange, onRoomUpdate }: Roo
                                </SelectContent>
                              </Select>
                            </div>
+                           {isCheckingIn && (
+                             <StayPinSelect id="edit-stay-pin" requirePin={requirePin} onChange={setRequirePin} />
+                           )}
                          </>
                        ) : (
                          <>
@@ -286,6 +312,15 @@ export function RoomDetailDialog({ room, open, onOpenChange, onRoomUpdate }: Roo
                     <p className="text-sm text-muted-foreground">
                       Guests can scan this QR code to access room services
                     </p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatQRAge(room.qrRotatedAt)}. A new code is issued when the guest checks out.
+                    </p>
+                    {room.status === 'occupied' && room.stayPin && (
+                      <p className="text-sm flex items-center justify-center gap-2">
+                        <KeyRound className="h-4 w-4" />
+                        Stay PIN: <span className="font-mono font-semibold">{room.stayPin}</span>
+                      </p>
+                    )}
                     <p className="text-xs font-mono bg-muted p-2 rounded">
                       {room.qrCodeUrl}
                     </p>
@@ -316,8 +351,8 @@ export function RoomDetailDialog({ room, open, onOpenChange, onRoomUpdate }: Roo
                       disabled={isGeneratingQR}
                       className="flex items-center gap-2"
                     >
-                      <QrCode className="h-4 w-4" />
-                      {isGeneratingQR ? 'Regenerating...' : 'Regenerate'}
+                      <RefreshCw className="h-4 w-4" />
+                      {isGeneratingQR ? 'Rotating...' : 'Rotate now'}
                     </Button>
                   </div>
                 </div>
@@ -0,0 +1,159 @@
+'use client';
+
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { importRooms, ImportFormat, RoomImportResult, RoomImportRow } from '@/lib/api/rooms';
+
+interface RoomImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+}
+
+const outcomeStyles: Record<RoomImportRow['outcome'], string> = {
+  ready: 'bg-blue-100 text-blue-800',
+  created: 'bg-green-100 text-green-800',
+  invalid: 'bg-red-100 text-red-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+export function RoomImportDialog({ open, onOpenChange, onImported }: RoomImportDialogProps) {
+  const [file, setFile] = useState<{ name: string; format: ImportFormat; content: string } | null>(null);
+  const [result, setResult] = useState<RoomImportResult | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const reset = () => {
+    setFile(null);
+    setResult(null);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  const runImport = async (upload: NonNullable<typeof file>, dryRun: boolean) => {
+    try {
+      setIsWorking(true);
+      const data = await importRooms(upload.format, upload.content, dryRun);
+      setResult(data);
+      if (!dryRun) {
+        toast.success(
+          data.failed > 0
+            ? `Imported ${data.created} rooms, ${data.failed} failed`
+            : `Imported ${data.created} rooms`
+        );
+        onImported();
+      }
+    } catch (error) {
+      console.error('Failed to import rooms:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to import rooms');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  // Every file is checked first; nothing is saved until the import is confirmed
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (!selected) return;
+
+    const upload = {
+      name: selected.name,
+      format: (selected.name.toLowerCase().endsWith('.json') ? 'json' : 'csv') as ImportFormat,
+      content: await selected.text(),
+    };
+    setFile(upload);
+    await runImport(upload, true);
+  };
+
+  const problemRows = result?.rows.filter((row) => row.errors.length > 0) || [];
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import Rooms</DialogTitle>
+          <DialogDescription>
+            Upload a CSV or JSON file with number, type, floor and optional status columns
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <Input
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            className="border-none bg-muted/50"
+            onChange={handleFileChange}
+            disabled={isWorking}
+          />
+
+          {result && (
+            <div className="space-y-3">
+              <div className="flex flex-wrap gap-2">
+                {result.dryRun ? (
+                  <Badge className={`${outcomeStyles.ready} border-none`}>{result.ready} ready to import</Badge>
+                ) : (
+                  <Badge className={`${outcomeStyles.created} border-none`}>{result.created} imported</Badge>
+                )}
+                {result.invalid > 0 && (
+                  <Badge className={`${outcomeStyles.invalid} border-none`}>{result.invalid} with problems</Badge>
+                )}
+                {result.failed > 0 && (
+                  <Badge className={`${outcomeStyles.failed} border-none`}>{result.failed} failed</Badge>
+                )}
+              </div>
+
+              {problemRows.length > 0 && (
+                <div className="max-h-64 overflow-y-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Row</TableHead>
+                        <TableHead>Room</TableHead>
+                        <TableHead>Problem</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {problemRows.map((row) => (
+                        <TableRow key={row.row}>
+                          <TableCell>{row.row}</TableCell>
+                          <TableCell>{row.room?.number || '—'}</TableCell>
+                          <TableCell className="text-sm text-red-700">{row.errors.join('; ')}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" className="border-none" onClick={() => handleOpenChange(false)}>
+            {result && !result.dryRun ? 'Done' : 'Cancel'}
+          </Button>
+          {file && result?.dryRun && (
+            <Button
+              onClick={() => runImport(file, false)}
+              disabled={isWorking || result.ready === 0}
+              className="border-none"
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              {isWorking
+                ? 'Importing...'
+                : result.invalid > 0
+                ? `Import ${result.ready} rooms, skip ${result.invalid}`
+                : `Import ${result.ready} rooms`}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -4,6 +4,7 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Bed, Eye, QrCode, MapPin, Edit } from 'lucide-react';
 import { TableCell, TableRow } from '@/components/ui/table';
+import { formatQRAge } from '@/lib/api/rooms';
 
 interface Room {
   _id: string;
@@ -13,6 +14,8 @@ interface Room {
   status: 'available' | 'occupied' | 'maintenance';
   qrCode?: string;
   qrCodeUrl?: string;
+  qrRotatedAt?: string | null;
+  stayPin?: string | null;
 }
 
 interface RoomListItemProps {
@@ -71,7 +74,7 @@ export function RoomListItem({ room, onViewDetails, onEdit }: RoomListItemProps)
       <TableCell>
         <div className="flex items-center gap-1 text-sm text-muted-foreground">
           <QrCode className="h-3 w-3" />
-          {room.qrCode ? 'Available' : 'Not Generated'}
+          {room.qrCode ? formatQRAge(room.qrRotatedAt) : 'Not Generated'}
         </div>
       </TableCell>
       <TableCell>
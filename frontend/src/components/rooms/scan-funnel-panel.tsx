@@ -0,0 +1,175 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { subDays, formatDistanceToNow } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { QrCode } from 'lucide-react';
+import { getScanFunnel, formatConversion, ScanFunnel, ScanFunnelReport } from '@/lib/api/analytics';
+
+const periods = [
+  { value: '7', label: 'Last 7 days' },
+  { value: '30', label: 'Last 30 days' },
+  { value: '90', label: 'Last 90 days' },
+];
+
+const steps: { key: keyof ScanFunnel; label: string }[] = [
+  { key: 'scans', label: 'Scanned' },
+  { key: 'chats', label: 'Chatted' },
+  { key: 'tickets', label: 'Raised a request' },
+  { key: 'completed', label: 'Completed' },
+];
+
+function FunnelCells({ funnel }: { funnel: ScanFunnel }) {
+  return (
+    <>
+      <TableCell className="text-right">{funnel.scans}</TableCell>
+      <TableCell className="text-right">
+        {funnel.chats} <span className="text-xs text-muted-foreground">{formatConversion(funnel.chats, funnel.scans)}</span>
+      </TableCell>
+      <TableCell className="text-right">
+        {funnel.tickets} <span className="text-xs text-muted-foreground">{formatConversion(funnel.tickets, funnel.scans)}</span>
+      </TableCell>
+      <TableCell className="text-right">
+        {funnel.completed}{' '}
+        <span className="text-xs text-muted-foreground">{formatConversion(funnel.completed, funnel.scans)}</span>
+      </TableCell>
+    </>
+  );
+}
+
+function FunnelHeads() {
+  return (
+    <>
+      <TableHead className="text-right">Scans</TableHead>
+      <TableHead className="text-right">Chats</TableHead>
+      <TableHead className="text-right">Requests</TableHead>
+      <TableHead className="text-right">Completed</TableHead>
+    </>
+  );
+}
+
+// Which rooms actually use the guest chat: every QR code scan and how far it went
+export function ScanFunnelPanel() {
+  const [period, setPeriod] = useState('30');
+  const [report, setReport] = useState<ScanFunnelReport | null>(null);
+
+  useEffect(() => {
+    getScanFunnel(subDays(new Date(), Number(period)))
+      .then(setReport)
+      .catch((error) => console.error('Failed to load scan analytics:', error));
+  }, [period]);
+
+  if (!report) return null;
+
+  const { totals } = report;
+
+  return (
+    <Card className="border border-[#e7e7e7]">
+      <CardHeader className="px-4 pt-4 pb-2 flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2 text-lg font-semibold">
+          <QrCode className="h-4 w-4" />
+          QR Code Adoption
+        </CardTitle>
+        <Select value={period} onValueChange={setPeriod}>
+          <SelectTrigger className="w-36 border-none bg-muted/50">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {periods.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="px-4 pb-4 space-y-4">
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+          {steps.map((step) => (
+            <div key={step.key} className="p-3 rounded-lg bg-muted/50">
+              <p className="text-xs text-muted-foreground">{step.label}</p>
+              <p className="text-2xl font-semibold tracking-tight">{totals[step.key]}</p>
+              {step.key !== 'scans' && (
+                <p className="text-xs text-muted-foreground">
+                  {formatConversion(totals[step.key], totals.scans)} of scans
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+          <span>
+            {totals.roomsScanned} of {totals.rooms} rooms scanned
+          </span>
+          {report.devices
+            .filter((device) => device.scans > 0)
+            .map((device) => (
+              <Badge key={device.device} variant="outline" className="border-none bg-muted capitalize">
+                {device.device} {device.scans}
+              </Badge>
+            ))}
+        </div>
+
+        <Tabs defaultValue="floors">
+          <TabsList>
+            <TabsTrigger value="floors">By floor</TabsTrigger>
+            <TabsTrigger value="rooms">By room</TabsTrigger>
+          </TabsList>
+          <TabsContent value="floors">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Floor</TableHead>
+                  <TableHead>Rooms scanned</TableHead>
+                  <FunnelHeads />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.floors.map((floor) => (
+                  <TableRow key={floor.floor}>
+                    <TableCell>Floor {floor.floor}</TableCell>
+                    <TableCell>
+                      {floor.roomsScanned} / {floor.rooms}
+                    </TableCell>
+                    <FunnelCells funnel={floor} />
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TabsContent>
+          <TabsContent value="rooms">
+            <div className="max-h-80 overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Room</TableHead>
+                    <TableHead>Last scan</TableHead>
+                    <FunnelHeads />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.rooms.map((room) => (
+                    <TableRow key={room._id}>
+                      <TableCell>{room.number}</TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {room.lastScanAt
+                          ? formatDistanceToNow(new Date(room.lastScanAt), { addSuffix: true })
+                          : 'Never'}
+                      </TableCell>
+                      <FunnelCells funnel={room} />
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,29 @@
+'use client';
+
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface StayPinSelectProps {
+  id: string;
+  requirePin: boolean;
+  onChange: (requirePin: boolean) => void;
+  className?: string;
+}
+
+// Offered when a room is being checked in; the PIN is shown once the room is saved
+export function StayPinSelect({ id, requirePin, onChange, className }: StayPinSelectProps) {
+  return (
+    <div>
+      <Label htmlFor={id}>Stay PIN</Label>
+      <Select value={requirePin ? 'issue' : 'none'} onValueChange={(value) => onChange(value === 'issue')}>
+        <SelectTrigger id={id} className={className}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">QR code only</SelectItem>
+          <SelectItem value="issue">Issue a PIN for this stay</SelectItem>
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { TICKET_CATEGORIES, TicketCategory, getCategoryLabel } from '@/lib/api/tickets';
+
+interface CategoryPickerProps {
+  value: TicketCategory[];
+  onChange: (categories: TicketCategory[]) => void;
+  disabled?: boolean;
+}
+
+export function CategoryPicker({ value, onChange, disabled }: CategoryPickerProps) {
+  const toggle = (category: TicketCategory) => {
+    onChange(
+      value.includes(category)
+        ? value.filter((c) => c !== category)
+        : [...value, category]
+    );
+  };
+
+  return (
+    <div className="flex flex-wrap gap-2 mt-2">
+      {TICKET_CATEGORIES.map((category) => {
+        const isSelected = value.includes(category);
+        return (
+          <button
+            key={category}
+            type="button"
+            disabled={disabled}
+            onClick={() => toggle(category)}
+          >
+            <Badge
+              variant={isSelected ? 'default' : 'outline'}
+              className="cursor-pointer"
+            >
+              {getCategoryLabel(category)}
+            </Badge>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
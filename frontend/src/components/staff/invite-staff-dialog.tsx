@@ -0,0 +1,153 @@
+'use client';
+
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { Send } from 'lucide-react';
+import { inviteStaff, InviteStaffData } from '@/lib/api/staff';
+import { useAuthStore } from '@/store/auth-store';
+import { CategoryPicker } from './category-picker';
+import { PropertyPicker } from './property-picker';
+
+interface InviteStaffDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onInvited?: () => void;
+}
+
+const emptyForm: InviteStaffData = {
+  name: '',
+  email: '',
+  role: 'staff',
+  allowedCategories: [],
+};
+
+export function InviteStaffDialog({ open, onOpenChange, onInvited }: InviteStaffDialogProps) {
+  const { user } = useAuthStore();
+  const [formData, setFormData] = useState<InviteStaffData>(emptyForm);
+  const [isSending, setIsSending] = useState(false);
+
+  const needsCategories = formData.role !== 'manager';
+  const properties = user?.hotels || [];
+  // New staff work at the active property unless another choice is made
+  const hotels = formData.hotels ?? (user?.hotel ? [user.hotel.id] : []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (needsCategories && formData.allowedCategories.length === 0) {
+      toast.error('Pick at least one department for this staff member');
+      return;
+    }
+
+    if (hotels.length === 0 && !user?.hasAllProperties) {
+      toast.error('Pick at least one property for this staff member');
+      return;
+    }
+
+    try {
+      setIsSending(true);
+      await inviteStaff({
+        ...formData,
+        allowedCategories: needsCategories ? formData.allowedCategories : [],
+        hotels,
+      });
+      toast.success(`Invitation sent to ${formData.email}`);
+      setFormData(emptyForm);
+      onOpenChange(false);
+      onInvited?.();
+    } catch (error) {
+      console.error('Failed to invite staff:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to send invitation');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Invite Staff</DialogTitle>
+          <DialogDescription>
+            Send an email invitation to join your hotel team
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="staff-name">Name</Label>
+              <Input
+                id="staff-name"
+                className="border-none"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="staff-email">Email</Label>
+              <Input
+                id="staff-email"
+                type="email"
+                className="border-none"
+                value={formData.email}
+                onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                required
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="staff-role">Role</Label>
+            <Select
+              value={formData.role}
+              onValueChange={(value: InviteStaffData['role']) => setFormData({ ...formData, role: value })}
+            >
+              <SelectTrigger id="staff-role" className="border-none">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {user?.role === 'owner' && <SelectItem value="manager">Manager</SelectItem>}
+                <SelectItem value="supervisor">Supervisor</SelectItem>
+                <SelectItem value="staff">Staff</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {needsCategories && (
+            <div>
+              <Label>Departments</Label>
+              <CategoryPicker
+                value={formData.allowedCategories}
+                onChange={(allowedCategories) => setFormData({ ...formData, allowedCategories })}
+              />
+            </div>
+          )}
+          {properties.length > 1 && (
+            <div>
+              <Label>Properties</Label>
+              <PropertyPicker
+                properties={properties}
+                value={hotels}
+                allowAll={user?.hasAllProperties}
+                onChange={(selected) => setFormData({ ...formData, hotels: selected })}
+              />
+            </div>
+          )}
+          <DialogFooter>
+            <Button type="button" variant="outline" className="border-none" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSending} className="border-none">
+              <Send className="h-4 w-4 mr-2" />
+              {isSending ? 'Sending...' : 'Send Invite'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
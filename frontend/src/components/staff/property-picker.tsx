@@ -0,0 +1,51 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { Property } from '@/lib/api/auth';
+
+interface PropertyPickerProps {
+  properties: Property[];
+  // Empty means every property in the group
+  value: string[];
+  onChange: (hotelIds: string[]) => void;
+  // Only users who work at every property can hand that out
+  allowAll?: boolean;
+  disabled?: boolean;
+}
+
+export function PropertyPicker({ properties, value, onChange, allowAll, disabled }: PropertyPickerProps) {
+  const toggle = (hotelId: string) => {
+    onChange(
+      value.includes(hotelId)
+        ? value.filter((id) => id !== hotelId)
+        : [...value, hotelId]
+    );
+  };
+
+  return (
+    <div className="flex flex-wrap gap-2 mt-2">
+      {allowAll && (
+        <button type="button" disabled={disabled} onClick={() => onChange([])}>
+          <Badge variant={value.length === 0 ? 'default' : 'outline'} className="cursor-pointer">
+            All properties
+          </Badge>
+        </button>
+      )}
+      {properties.map((property) => (
+        <button
+          key={property.id}
+          type="button"
+          disabled={disabled}
+          onClick={() => toggle(property.id)}
+        >
+          <Badge
+            variant={value.includes(property.id) ? 'default' : 'outline'}
+            className="cursor-pointer"
+          >
+            {property.name}
+          </Badge>
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+'use client';
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { StaffWorkload, TicketCategory, canHandleCategory } from '@/lib/api/tickets';
+import { useAuthStore } from '@/store/auth-store';
+
+interface AssigneeSelectProps {
+  value?: string | null;
+  category?: TicketCategory;
+  staff: StaffWorkload[];
+  onChange: (assigneeId: string | null) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const UNASSIGNED = 'unassigned';
+
+export function AssigneeSelect({ value, category, staff, onChange, disabled, className }: AssigneeSelectProps) {
+  const { user } = useAuthStore();
+
+  // Regular staff can only pick tickets up for themselves
+  const candidates = staff.filter(
+    (member) =>
+      canHandleCategory(member, category) &&
+      (user?.role !== 'staff' || member.id === user.id)
+  );
+
+  return (
+    <Select
+      value={value || UNASSIGNED}
+      onValueChange={(next) => onChange(next === UNASSIGNED ? null : next)}
+      disabled={disabled}
+    >
+      <SelectTrigger className={className || 'w-48'}>
+        <SelectValue placeholder="Assign to..." />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+        {candidates.map((member) => (
+          <SelectItem key={member.id} value={member.id}>
+            {member.id === user?.id ? `${member.name} (me)` : member.name}
+            {' '}
+            <span className="text-muted-foreground">· {member.open.total} open</span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,118 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { MessageSquareText, Zap } from 'lucide-react';
+import { toast } from 'sonner';
+import { CannedResponse, MacroActions, applyCannedResponse, getCannedResponses } from '@/lib/api/cannedResponses';
+import { getStatusLabel } from '@/lib/api/tickets';
+
+interface CannedResponsePickerProps {
+  ticketId: string;
+  // Plain responses go into the composer for editing
+  onInsert: (text: string) => void;
+  // Macros are sent straight away; receives the updated ticket
+  onApplied: (ticket: unknown) => void;
+  disabled?: boolean;
+}
+
+export const describeMacroActions = (actions: MacroActions): string =>
+  [
+    actions.status && `set ${getStatusLabel(actions.status)}`,
+    actions.assignee === 'self' && 'assign to me',
+    actions.assignee === 'unassigned' && 'unassign',
+    actions.assignee && !['self', 'unassigned'].includes(actions.assignee) && 'reassign',
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+export function CannedResponsePicker({ ticketId, onInsert, onApplied, disabled }: CannedResponsePickerProps) {
+  const [responses, setResponses] = useState<CannedResponse[] | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+
+  // Filled in for the ticket each time the menu opens
+  const loadResponses = async (open: boolean) => {
+    if (!open) return;
+    try {
+      setResponses(await getCannedResponses(ticketId));
+    } catch (error) {
+      console.error('Failed to load canned responses:', error);
+      toast.error('Failed to load canned responses');
+    }
+  };
+
+  const runMacro = async (response: CannedResponse) => {
+    try {
+      setIsApplying(true);
+      onApplied(await applyCannedResponse(ticketId, response._id));
+      toast.success(`Ran "${response.title}"`);
+    } catch (error) {
+      console.error('Failed to run macro:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to run macro');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const replies = responses?.filter((response) => !response.isMacro) || [];
+  const macros = responses?.filter((response) => response.isMacro) || [];
+
+  return (
+    <DropdownMenu onOpenChange={loadResponses}>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={disabled || isApplying}
+          className="flex items-center gap-2 border-none"
+        >
+          <MessageSquareText className="h-4 w-4" />
+          Canned Responses
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-80 max-h-96 overflow-y-auto">
+        {responses === null && <DropdownMenuLabel className="font-normal">Loading...</DropdownMenuLabel>}
+        {responses?.length === 0 && (
+          <DropdownMenuLabel className="font-normal text-muted-foreground">
+            No canned responses for this department yet
+          </DropdownMenuLabel>
+        )}
+        {replies.length > 0 && <DropdownMenuLabel>Responses</DropdownMenuLabel>}
+        {replies.map((response) => (
+          <DropdownMenuItem
+            key={response._id}
+            className="flex flex-col items-start gap-0.5"
+            onClick={() => onInsert(response.rendered || response.body)}
+          >
+            <span className="font-medium">{response.title}</span>
+            <span className="text-xs text-muted-foreground line-clamp-2">{response.rendered || response.body}</span>
+          </DropdownMenuItem>
+        ))}
+        {replies.length > 0 && macros.length > 0 && <DropdownMenuSeparator />}
+        {macros.length > 0 && <DropdownMenuLabel>Macros</DropdownMenuLabel>}
+        {macros.map((response) => (
+          <DropdownMenuItem
+            key={response._id}
+            className="flex flex-col items-start gap-0.5"
+            onClick={() => runMacro(response)}
+          >
+            <span className="flex items-center gap-1 font-medium">
+              <Zap className="h-3 w-3 text-amber-500" />
+              {response.title}
+            </span>
+            <span className="text-xs text-muted-foreground line-clamp-2">{response.rendered || response.body}</span>
+            <span className="text-xs text-amber-700">Sends and will {describeMacroActions(response.actions)}</span>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,74 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Bot, ChevronDown, ChevronUp, User } from 'lucide-react';
+import { format } from 'date-fns';
+import { ChatTranscript as Transcript, getCategoryLabel, getTicketTranscript } from '@/lib/api/tickets';
+
+interface ChatTranscriptProps {
+  ticketId: string;
+}
+
+// What the guest said to the assistant before the ticket was raised
+export function ChatTranscript({ ticketId }: ChatTranscriptProps) {
+  const [transcript, setTranscript] = useState<Transcript | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+
+  useEffect(() => {
+    setTranscript(null);
+    setIsOpen(false);
+    getTicketTranscript(ticketId)
+      .then(setTranscript)
+      .catch((error) => console.error('Failed to load transcript:', error));
+  }, [ticketId]);
+
+  if (!transcript || transcript.turns.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium">Assistant Transcript</h4>
+        <Button variant="ghost" size="sm" onClick={() => setIsOpen((open) => !open)}>
+          {transcript.turns.length} messages
+          {isOpen ? <ChevronUp className="h-4 w-4 ml-1" /> : <ChevronDown className="h-4 w-4 ml-1" />}
+        </Button>
+      </div>
+
+      {isOpen && (
+        <div className="space-y-2 max-h-72 overflow-y-auto rounded-lg border p-3">
+          {transcript.turns.map((turn) => {
+            const isGuest = turn.role === 'guest';
+
+            return (
+              <div key={turn._id} className={`flex gap-2 ${isGuest ? '' : 'flex-row-reverse'}`}>
+                <div className="h-6 w-6 shrink-0 rounded-full bg-muted flex items-center justify-center">
+                  {isGuest ? <User className="h-3 w-3" /> : <Bot className="h-3 w-3" />}
+                </div>
+                <div
+                  className={`max-w-[80%] rounded-lg px-3 py-2 text-sm ${
+                    isGuest ? 'bg-muted' : 'bg-primary/10'
+                  }`}
+                >
+                  <p className="whitespace-pre-wrap">{turn.content}</p>
+                  <div className="mt-1 flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+                    <span>{format(new Date(turn.createdAt), 'MMM d, HH:mm')}</span>
+                    {turn.classification?.categories.map((category) => (
+                      <Badge key={category} variant="outline" className="text-[10px] py-0">
+                        {getCategoryLabel(category)}
+                      </Badge>
+                    ))}
+                    {turn.classification?.confidence != null && (
+                      <span>{Math.round(turn.classification.confidence * 100)}% confident</span>
+                    )}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
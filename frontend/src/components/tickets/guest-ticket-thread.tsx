@@ -0,0 +1,116 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ArrowUp, CheckCheck, Loader2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { GuestTicket } from '@/lib/api/guest';
+import { TYPING_IDLE_MS } from '@/lib/api/tickets';
+
+interface GuestTicketThreadProps {
+  ticket: GuestTicket;
+  // Name of the staff member currently typing, if any
+  staffTyping?: string | null;
+  disabled?: boolean;
+  onSend: (content: string) => Promise<void>;
+  onTyping: (isTyping: boolean) => void;
+}
+
+// Guest-side view of a ticket conversation with staff
+export function GuestTicketThread({ ticket, staffTyping, disabled, onSend, onTyping }: GuestTicketThreadProps) {
+  const [draft, setDraft] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const typingTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const thread = ticket.messages.filter(
+    (message) => message.sender === 'guest' || message.sender === 'manager'
+  );
+  const lastGuestMessage = [...thread].reverse().find((message) => message.sender === 'guest');
+  const seenByStaff =
+    !!lastGuestMessage &&
+    !!ticket.lastReadAt?.staff &&
+    new Date(ticket.lastReadAt.staff) >= new Date(lastGuestMessage.createdAt);
+
+  const stopTyping = () => {
+    if (typingTimeout.current) clearTimeout(typingTimeout.current);
+    typingTimeout.current = null;
+    onTyping(false);
+  };
+
+  const handleChange = (value: string) => {
+    setDraft(value);
+    if (!typingTimeout.current) onTyping(true);
+    if (typingTimeout.current) clearTimeout(typingTimeout.current);
+    typingTimeout.current = setTimeout(stopTyping, TYPING_IDLE_MS);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim() || isSending) return;
+
+    try {
+      setIsSending(true);
+      await onSend(draft.trim());
+      setDraft('');
+      stopTyping();
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {thread.map((message) => (
+        <div
+          key={message._id}
+          className={`flex ${message.sender === 'guest' ? 'justify-end' : 'justify-start'}`}
+        >
+          <div
+            className={`max-w-[80%] rounded-lg px-3 py-2 ${
+              message.sender === 'guest' ? 'bg-[#f4f4f4]' : 'bg-blue-50'
+            }`}
+          >
+            {message.sender === 'manager' && (
+              <p className="text-xs font-medium">{message.senderName}</p>
+            )}
+            <p className="text-sm whitespace-pre-wrap break-words">{message.content}</p>
+            <p className="text-[10px] text-muted-foreground mt-1">
+              {formatDistanceToNow(new Date(message.createdAt), { addSuffix: true })}
+              {message === lastGuestMessage && seenByStaff && (
+                <span className="inline-flex items-center gap-0.5 ml-2">
+                  <CheckCheck className="h-3 w-3" />
+                  Seen
+                </span>
+              )}
+            </p>
+          </div>
+        </div>
+      ))}
+
+      {staffTyping && (
+        <p className="text-xs text-muted-foreground italic">{staffTyping} is typing...</p>
+      )}
+
+      {!disabled && (
+        <form onSubmit={handleSubmit} className="flex gap-2">
+          <Input
+            placeholder="Reply to the team"
+            className="flex-1 border-none bg-muted/50"
+            value={draft}
+            onChange={(e) => handleChange(e.target.value)}
+            onBlur={stopTyping}
+          />
+          <Button
+            type="submit"
+            size="icon"
+            className="rounded-full"
+            disabled={isSending || !draft.trim()}
+          >
+            {isSending ? <Loader2 className="h-4 w-4 animate-spin" /> : <ArrowUp className="h-4 w-4" />}
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
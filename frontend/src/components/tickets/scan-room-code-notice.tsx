@@ -0,0 +1,21 @@
+import { QrCode } from "lucide-react";
+
+interface ScanRoomCodeNoticeProps {
+  roomNumber: string;
+}
+
+// Shown to guests whose link has no valid access token, e.g. a typed URL or an old QR code
+export function ScanRoomCodeNotice({ roomNumber }: ScanRoomCodeNoticeProps) {
+  return (
+    <div className="min-h-screen flex items-center justify-center px-6">
+      <div className="max-w-sm text-center space-y-3">
+        <QrCode className="h-10 w-10 mx-auto text-muted-foreground" />
+        <h1 className="text-lg font-semibold">Scan the QR code in Room {roomNumber}</h1>
+        <p className="text-sm text-muted-foreground">
+          This link is invalid or has expired. Scan the QR code in your room to chat with us and
+          follow your requests.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { cn } from '@/lib/utils';
+import { Timer, AlertTriangle, CheckCircle } from 'lucide-react';
+import { formatDistanceStrict } from 'date-fns';
+import { TicketSla, TicketStatus } from '@/lib/api/tickets';
+
+interface SlaBadgeProps {
+  sla?: TicketSla;
+  status: TicketStatus;
+  className?: string;
+}
+
+// Under this much time left, a countdown turns amber
+const AT_RISK_MS = 10 * 60 * 1000;
+
+export const isSlaBreached = (sla?: TicketSla) => !!sla?.breachedAt;
+
+const isResolved = (status: TicketStatus) => status === 'completed' || status === 'verified';
+
+export function SlaBadge({ sla, status, className }: SlaBadgeProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  // Re-render every 30 seconds so the countdown stays current
+  useEffect(() => {
+    if (isResolved(status) || status === 'cancelled') return;
+    const interval = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(interval);
+  }, [status]);
+
+  if (!sla?.resolveBy || (status === 'cancelled' && !sla.breachedAt)) return null;
+
+  if (sla.breachedAt) {
+    return (
+      <span className={cn('inline-flex items-center gap-1 px-2 py-0.5 rounded text-[10px] font-medium bg-red-100 text-red-800', className)}>
+        <AlertTriangle className="h-3 w-3" />
+        SLA breached{sla.breachType === 'acknowledge' ? ' (response)' : ''}
+      </span>
+    );
+  }
+
+  if (isResolved(status)) {
+    return (
+      <span className={cn('inline-flex items-center gap-1 px-2 py-0.5 rounded text-[10px] font-medium bg-green-100 text-green-800', className)}>
+        <CheckCircle className="h-3 w-3" />
+        SLA met
+      </span>
+    );
+  }
+
+  // New tickets race the acknowledge deadline, everything else the resolve deadline
+  const awaitingAck = status === 'raised' && !sla.acknowledgedAt && !!sla.acknowledgeBy;
+  const deadline = new Date((awaitingAck ? sla.acknowledgeBy : sla.resolveBy) as string).getTime();
+  const remaining = deadline - now;
+  const label = awaitingAck ? 'Respond' : 'Resolve';
+
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center gap-1 px-2 py-0.5 rounded text-[10px] font-medium',
+        remaining <= 0
+          ? 'bg-red-100 text-red-800'
+          : remaining <= AT_RISK_MS
+          ? 'bg-amber-100 text-amber-800'
+          : 'bg-gray-100 text-gray-700',
+        className
+      )}
+    >
+      <Timer className="h-3 w-3" />
+      {remaining <= 0
+        ? `${label} overdue`
+        : `${label} in ${formatDistanceStrict(deadline, now)}`}
+    </span>
+  );
+}
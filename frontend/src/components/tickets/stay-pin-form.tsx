@@ -0,0 +1,47 @@
+"use client";
+
+import { useState } from "react";
+import { KeyRound } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { OTPInput } from "@/components/ui/otp-input";
+
+// Matches STAY_PIN_LENGTH on the server
+const STAY_PIN_LENGTH = 6;
+
+interface StayPinFormProps {
+  roomNumber: string;
+  onSubmit: (pin: string) => Promise<void>;
+}
+
+// Asked for when the room's QR code is valid but staff issued a PIN at check-in
+export function StayPinForm({ roomNumber, onSubmit }: StayPinFormProps) {
+  const [pin, setPin] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    try {
+      await onSubmit(pin);
+    } finally {
+      setIsSubmitting(false);
+      setPin("");
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center px-6">
+      <form onSubmit={handleSubmit} className="max-w-sm text-center space-y-4">
+        <KeyRound className="h-10 w-10 mx-auto text-muted-foreground" />
+        <h1 className="text-lg font-semibold">Enter your PIN for Room {roomNumber}</h1>
+        <p className="text-sm text-muted-foreground">
+          Use the PIN you were given at check-in.
+        </p>
+        <OTPInput length={STAY_PIN_LENGTH} value={pin} onChange={setPin} disabled={isSubmitting} />
+        <Button type="submit" className="w-full" disabled={isSubmitting || pin.length < STAY_PIN_LENGTH}>
+          {isSubmitting ? "Checking..." : "Continue"}
+        </Button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+'use client';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Users, Inbox } from 'lucide-react';
+import { Workload } from '@/lib/api/tickets';
+
+interface WorkloadPanelProps {
+  workload: Workload | null;
+  onSelectUnassigned?: () => void;
+}
+
+export function WorkloadPanel({ workload, onSelectUnassigned }: WorkloadPanelProps) {
+  if (!workload) return null;
+
+  // Busiest people first so overloaded staff stand out
+  const members = [...workload.staff].sort((a, b) => b.open.total - a.open.total);
+
+  return (
+    <Card className="border border-[#e7e7e7]">
+      <CardHeader className="px-4 pt-4 pb-2">
+        <CardTitle className="flex items-center gap-2 text-lg font-semibold">
+          <Users className="h-4 w-4" />
+          Team Workload
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="px-4 pb-4 space-y-2">
+        <button
+          type="button"
+          onClick={onSelectUnassigned}
+          className="w-full flex items-center justify-between p-2 rounded-lg bg-amber-50 hover:bg-amber-100 transition-colors"
+        >
+          <span className="flex items-center gap-2 text-sm font-medium">
+            <Inbox className="h-4 w-4" />
+            Unassigned queue
+          </span>
+          <Badge variant="secondary">{workload.unassigned.total}</Badge>
+        </button>
+        {members.map((member) => (
+          <div key={member.id} className="flex items-center gap-3 p-2 rounded-lg hover:bg-muted/50">
+            <Avatar className="h-7 w-7">
+              <AvatarFallback className="text-xs">{member.name.charAt(0)}</AvatarFallback>
+            </Avatar>
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium truncate">{member.name}</p>
+              <p className="text-xs text-muted-foreground capitalize">{member.role}</p>
+            </div>
+            <div className="flex gap-1">
+              <Badge variant="outline" className="bg-yellow-50 text-yellow-800 border-none">
+                {member.open.raised + member.open.reopened} new
+              </Badge>
+              <Badge variant="outline" className="bg-blue-50 text-blue-800 border-none">
+                {member.open.acknowledged + member.open.in_progress} in progress
+              </Badge>
+              {member.open.on_hold > 0 && (
+                <Badge variant="outline" className="bg-gray-100 text-gray-700 border-none">
+                  {member.open.on_hold} on hold
+                </Badge>
+              )}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,42 @@
+import apiClient from './client';
+
+export type DeviceClass = 'mobile' | 'tablet' | 'desktop' | 'unknown';
+
+// Scan → chat → ticket → completed, counted per QR code scan
+export interface ScanFunnel {
+  scans: number;
+  chats: number;
+  tickets: number;
+  completed: number;
+}
+
+export interface RoomScanFunnel extends ScanFunnel {
+  _id: string;
+  number: string;
+  floor: number;
+  lastScanAt: string | null;
+}
+
+export interface FloorScanFunnel extends ScanFunnel {
+  floor: number;
+  rooms: number;
+  roomsScanned: number;
+}
+
+export interface ScanFunnelReport {
+  totals: ScanFunnel & { rooms: number; roomsScanned: number };
+  devices: { device: DeviceClass; scans: number }[];
+  floors: FloorScanFunnel[];
+  rooms: RoomScanFunnel[];
+}
+
+export const getScanFunnel = async (from?: Date): Promise<ScanFunnelReport> => {
+  const response = await apiClient.get<{ data: ScanFunnelReport }>('/analytics/scans', {
+    params: { from: from ? from.toISOString() : undefined },
+  });
+  return response.data.data;
+};
+
+// Share of scans that reached a step, e.g. "42%"
+export const formatConversion = (count: number, scans: number): string =>
+  scans > 0 ? `${Math.round((count / scans) * 100)}%` : '—';
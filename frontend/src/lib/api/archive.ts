@@ -0,0 +1,68 @@
+import apiClient from './client';
+import { TicketCategory } from './tickets';
+
+export interface ArchivedTicket {
+  _id: string;
+  originalId: string;
+  roomNumber: string;
+  category?: TicketCategory;
+  subject?: string;
+  guestName?: string;
+  ticketCreatedAt: string;
+  completedAt?: string;
+  archivedAt: string;
+}
+
+export interface ArchivedTicketDetail extends ArchivedTicket {
+  snapshot: {
+    messages: Array<{
+      content: string;
+      sender: 'guest' | 'manager' | 'ai_assistant' | 'system';
+      senderName: string;
+      createdAt: string;
+    }>;
+  };
+}
+
+export interface ArchivedTicketPage {
+  data: ArchivedTicket[];
+  total: number;
+  totalPages: number;
+  currentPage: number;
+}
+
+export interface RetentionPolicy {
+  archiveAfterDays: number;
+  purgeAfterDays: number | null;
+  isDefault: boolean;
+}
+
+export const getArchivedTickets = async (params: {
+  search?: string;
+  category?: TicketCategory;
+  page?: number;
+}): Promise<ArchivedTicketPage> => {
+  const response = await apiClient.get<ArchivedTicketPage>('/archive/tickets', { params });
+  return response.data;
+};
+
+export const getArchivedTicket = async (id: string): Promise<ArchivedTicketDetail> => {
+  const response = await apiClient.get<{ data: ArchivedTicketDetail }>(`/archive/tickets/${id}`);
+  return response.data.data;
+};
+
+export const restoreArchivedTicket = async (id: string): Promise<void> => {
+  await apiClient.post(`/archive/tickets/${id}/restore`);
+};
+
+export const getRetentionPolicy = async (): Promise<RetentionPolicy> => {
+  const response = await apiClient.get<{ data: RetentionPolicy }>('/archive/retention');
+  return response.data.data;
+};
+
+export const updateRetentionPolicy = async (
+  data: Pick<RetentionPolicy, 'archiveAfterDays' | 'purgeAfterDays'>
+): Promise<RetentionPolicy> => {
+  const response = await apiClient.put<{ data: RetentionPolicy }>('/archive/retention', data);
+  return response.data.data;
+};
@@ -0,0 +1,53 @@
+import apiClient from './client';
+
+export type ReplySuggestionType = 'acknowledge' | 'eta' | 'apology' | 'completion';
+
+export const getReplyTypeLabel = (type: ReplySuggestionType): string => {
+  const labels: Record<ReplySuggestionType, string> = {
+    acknowledge: 'Acknowledge',
+    eta: 'ETA',
+    apology: 'Apology',
+    completion: 'Completed',
+  };
+  return labels[type];
+};
+
+export interface ReplySuggestion {
+  id: string;
+  type: ReplySuggestionType;
+  text: string;
+  // 'llm' or 'local' templates
+  provider: string;
+}
+
+export type SuggestionRating = 'up' | 'down' | null;
+
+// Suggested replies for a ticket, most fitting first
+export const getReplySuggestions = async (
+  ticketId: string,
+  conversationHistory: { sender: string; content: string }[],
+  requestType?: ReplySuggestionType
+): Promise<ReplySuggestion[]> => {
+  const response = await apiClient.post<{ suggestions: ReplySuggestion[] }>('/chat/manager-assist', {
+    ticketId,
+    conversationHistory,
+    requestType,
+  });
+  return response.data.suggestions || [];
+};
+
+// Rate a suggestion, or record what was actually sent after using it
+export const sendSuggestionFeedback = async (
+  ticketId: string,
+  suggestion: ReplySuggestion,
+  feedback: { rating?: SuggestionRating; sentText?: string }
+): Promise<void> => {
+  await apiClient.post('/chat/manager-assist/feedback', {
+    ticketId,
+    suggestionId: suggestion.id,
+    type: suggestion.type,
+    provider: suggestion.provider,
+    text: suggestion.text,
+    ...feedback,
+  });
+};
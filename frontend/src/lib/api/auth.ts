@@ -1,4 +1,9 @@
-import apiClient from './client';
+import apiClient, { setActiveHotelId } from './client';
+import { TicketCategory } from './tickets';
+
+export type StaffRole = 'owner' | 'manager' | 'supervisor' | 'staff';
+
+export const MANAGEMENT_ROLES: StaffRole[] = ['owner', 'manager'];
 
 export interface RegisterData {
   name: string;
@@ -17,6 +22,24 @@ export interface OTPVerificationData {
   otp: string;
 }
 
+export interface AcceptInviteData {
+  email: string;
+  otp: string;
+  name?: string;
+  password: string;
+}
+
+export interface Property {
+  id: string;
+  name: string;
+  slug: string;
+}
+
+export interface ActiveProperty extends Property {
+  // False until the onboarding wizard has been finished
+  onboarded: boolean;
+}
+
 export interface AuthResponse {
   token: string;
   user: {
@@ -24,6 +47,13 @@ export interface AuthResponse {
     name: string;
     email: string;
     hotelName: string;
+    // Only returned by /auth/me; the slug is used in guest links
+    hotel?: ActiveProperty;
+    // Every property the user can switch to, also only from /auth/me
+    hotels?: Property[];
+    hasAllProperties?: boolean;
+    role: StaffRole;
+    allowedCategories: TicketCategory[];
   };
 }
 
@@ -54,16 +84,22 @@ export const verifyRegistrationOTP = async (data: OTPVerificationData): Promise<
   return response.data;
 };
 
-export const getCurrentUser = async (): Promise<AuthResponse['user']> => {
-  const response = await apiClient.get<AuthResponse['user']>('/auth/me');
+export const acceptInvite = async (data: AcceptInviteData): Promise<AuthResponse> => {
+  const response = await apiClient.post<AuthResponse>('/auth/accept-invite', data);
   return response.data;
 };
 
+export const getCurrentUser = async (): Promise<AuthResponse['user']> => {
+  const response = await apiClient.get<{ data: AuthResponse['user'] }>('/auth/me');
+  return response.data.data;
+};
+
 export const logout = async (): Promise<void> => {
   try {
     await apiClient.post('/auth/logout');
   } finally {
     localStorage.removeItem('token');
+    setActiveHotelId(null);
     window.location.href = '/auth/login';
   }
 };
@@ -73,6 +109,10 @@ export const setAuthToken = (token: string) => {
   apiClient.defaults.headers.common['Authorization'] = `Bearer ${token}`;
 };
 
+export const isManagementRole = (role?: StaffRole): boolean => {
+  return !!role && MANAGEMENT_ROLES.includes(role);
+};
+
 export const isAuthenticated = (): boolean => {
   return !!localStorage.getItem('token');
 };
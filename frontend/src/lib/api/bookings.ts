@@ -0,0 +1,99 @@
+import apiClient from './client';
+
+export type BookingStatus = 'confirmed' | 'checked_in' | 'completed' | 'cancelled' | 'no-show';
+
+export interface BookingGuest {
+  name: string;
+  email?: string;
+  phone?: string;
+}
+
+export interface Booking {
+  _id: string;
+  bookingNumber: string;
+  // An id on the calendar, a populated room everywhere else
+  room: string | { _id: string; number: string; type: string; floor: number; status: string; stayPin?: string | null };
+  guest: BookingGuest;
+  checkIn: string;
+  checkOut: string;
+  numberOfGuests: number;
+  totalAmount: number;
+  status: BookingStatus;
+  specialRequests?: string;
+  notes?: string;
+  checkedInAt?: string | null;
+  checkedOutAt?: string | null;
+}
+
+export interface CalendarRoom {
+  _id: string;
+  number: string;
+  type: string;
+  floor: number;
+  status: 'available' | 'occupied' | 'maintenance';
+}
+
+export interface BookingCalendar {
+  from: string;
+  to: string;
+  rooms: CalendarRoom[];
+  bookings: Booking[];
+}
+
+export interface BookingData {
+  room: string;
+  checkIn: string;
+  checkOut: string;
+  guest: BookingGuest;
+  numberOfGuests?: number;
+  notes?: string;
+}
+
+export const bookingStatusLabels: Record<BookingStatus, string> = {
+  confirmed: 'Confirmed',
+  checked_in: 'Checked in',
+  completed: 'Checked out',
+  cancelled: 'Cancelled',
+  'no-show': 'No-show',
+};
+
+// Stays are whole nights; days are 'YYYY-MM-DD' keys in UTC, as the server stores them
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const toDayKey = (value: string | Date): string => new Date(value).toISOString().slice(0, 10);
+
+export const addDays = (day: string, days: number): string =>
+  toDayKey(new Date(new Date(`${day}T00:00:00Z`).getTime() + days * DAY_MS));
+
+export const daysBetween = (from: string, to: string): number =>
+  Math.round((new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / DAY_MS);
+
+export const bookingRoomId = (booking: Booking): string =>
+  typeof booking.room === 'string' ? booking.room : booking.room._id;
+
+export const getBookingCalendar = async (from: string, to: string): Promise<BookingCalendar> => {
+  const response = await apiClient.get<{ data: BookingCalendar }>('/bookings/calendar', {
+    params: { from, to },
+  });
+  return response.data.data;
+};
+
+export const createBooking = async (data: BookingData): Promise<Booking> => {
+  const response = await apiClient.post<{ data: Booking }>('/bookings', data);
+  return response.data.data;
+};
+
+// Moving or extending a stay is checked against the room's other bookings
+export const updateBooking = async (id: string, data: Partial<BookingData>): Promise<Booking> => {
+  const response = await apiClient.put<{ data: Booking }>(`/bookings/${id}`, data);
+  return response.data.data;
+};
+
+export const updateBookingStatus = async (
+  id: string,
+  status: Extract<BookingStatus, 'checked_in' | 'completed' | 'cancelled' | 'no-show'>,
+  options: { requirePin?: boolean; reason?: string } = {}
+): Promise<Booking> => {
+  const response = await apiClient.put<{ data: Booking }>(`/bookings/${id}/status`, { status, ...options });
+  return response.data.data;
+};
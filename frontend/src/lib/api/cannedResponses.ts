@@ -0,0 +1,68 @@
+import apiClient from './client';
+import { TicketCategory, TicketStatus } from './tickets';
+
+// Placeholders filled in from the ticket when a response is used
+export const TEMPLATE_VARIABLES = ['guestName', 'roomNumber', 'eta', 'staffName', 'department'] as const;
+
+export interface MacroActions {
+  status?: Exclude<TicketStatus, 'on_hold'> | null;
+  // 'self', 'unassigned' or a staff member's id
+  assignee?: string | null;
+}
+
+export interface CannedResponse {
+  _id: string;
+  title: string;
+  body: string;
+  category: TicketCategory | null;
+  actions: MacroActions;
+  isMacro: boolean;
+  usageCount: number;
+  lastUsedAt: string | null;
+  // Filled in for the ticket when one was asked for
+  rendered?: string;
+}
+
+export interface CannedResponseData {
+  title: string;
+  body: string;
+  category: TicketCategory | null;
+  actions: MacroActions;
+}
+
+export const getCannedResponses = async (ticketId?: string): Promise<CannedResponse[]> => {
+  const response = await apiClient.get<{ data: CannedResponse[] }>('/canned-responses', {
+    params: ticketId ? { ticketId } : undefined,
+  });
+  return response.data.data;
+};
+
+export const createCannedResponse = async (data: CannedResponseData): Promise<CannedResponse> => {
+  const response = await apiClient.post<{ data: CannedResponse }>('/canned-responses', data);
+  return response.data.data;
+};
+
+export const updateCannedResponse = async (
+  id: string,
+  data: Partial<CannedResponseData>
+): Promise<CannedResponse> => {
+  const response = await apiClient.put<{ data: CannedResponse }>(`/canned-responses/${id}`, data);
+  return response.data.data;
+};
+
+export const deleteCannedResponse = async (id: string): Promise<void> => {
+  await apiClient.delete(`/canned-responses/${id}`);
+};
+
+// Send a canned response on a ticket and run its macro actions; returns the updated ticket
+export const applyCannedResponse = async <T>(
+  ticketId: string,
+  cannedResponseId: string,
+  content?: string
+): Promise<T> => {
+  const response = await apiClient.post<{ data: T }>(`/tickets/${ticketId}/canned-response`, {
+    cannedResponseId,
+    content,
+  });
+  return response.data.data;
+};
@@ -0,0 +1,51 @@
+import apiClient from './client';
+import { TicketCategory } from './tickets';
+
+export type AccuracyInterval = 'day' | 'week' | 'month';
+
+export interface AccuracyPeriod {
+  period: string;
+  total: number;
+  corrected: number;
+  accuracy: number | null;
+}
+
+export interface CategoryAccuracy {
+  category: TicketCategory;
+  total: number;
+  corrected: number;
+  accuracy: number | null;
+  periods: AccuracyPeriod[];
+}
+
+export interface AccuracyReport {
+  interval: AccuracyInterval;
+  overall: { total: number; corrected: number; accuracy: number | null };
+  categories: CategoryAccuracy[];
+}
+
+export const getAccuracyReport = async (interval: AccuracyInterval): Promise<AccuracyReport> => {
+  const response = await apiClient.get<{ data: AccuracyReport }>('/classifier/accuracy', {
+    params: { interval },
+  });
+  return response.data.data;
+};
+
+// Download staff corrections as a training data file
+export const downloadFeedbackExport = async (format: 'csv' | 'json'): Promise<void> => {
+  const response = await apiClient.get('/classifier/feedback/export', {
+    params: { format },
+    responseType: format === 'csv' ? 'blob' : 'json',
+  });
+
+  const blob =
+    format === 'csv'
+      ? (response.data as Blob)
+      : new Blob([JSON.stringify(response.data.data, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `classifier-feedback.${format}`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
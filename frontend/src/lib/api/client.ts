@@ -2,6 +2,25 @@ import axios, { AxiosInstance } from 'axios';
 
 export const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5050/api';
 
+export const SOCKET_URL =
+  process.env.NODE_ENV === 'development'
+    ? 'http://localhost:5050'
+    : 'wss://hotel-mvp-7vdz.vercel.app';
+
+// Property picked in the dashboard header; the backend falls back to the
+// user's first property when none is set or it is no longer accessible
+const ACTIVE_HOTEL_KEY = 'activeHotelId';
+
+export const getActiveHotelId = (): string | null => localStorage.getItem(ACTIVE_HOTEL_KEY);
+
+export const setActiveHotelId = (hotelId: string | null) => {
+  if (hotelId) {
+    localStorage.setItem(ACTIVE_HOTEL_KEY, hotelId);
+  } else {
+    localStorage.removeItem(ACTIVE_HOTEL_KEY);
+  }
+};
+
 export const apiClient: AxiosInstance = axios.create({
   baseURL: API_BASE_URL,
   withCredentials: true,
@@ -18,6 +37,11 @@ apiClient.interceptors.request.use(
     if (token) {
       config.headers.Authorization = `Bearer ${token}`;
     }
+
+    const hotelId = getActiveHotelId();
+    if (hotelId) {
+      config.headers['X-Hotel-Id'] = hotelId;
+    }
     
     // Debug OTP verification requests
     if (config.url?.includes('verify-registration')) {
@@ -0,0 +1,264 @@
+import axios from 'axios';
+import { API_BASE_URL } from './client';
+import { ChatTranscript, TicketCategory, TicketReadReceipts, TicketStatus } from './tickets';
+
+// Guests have no staff login, so they get their own client that sends the
+// guest session token instead of the staff JWT
+export const guestClient = axios.create({
+  baseURL: API_BASE_URL,
+  headers: {
+    'Content-Type': 'application/json',
+    'Accept': 'application/json',
+  },
+});
+
+export interface GuestSession {
+  token: string;
+  hotelSlug: string;
+  hotelName: string;
+  roomNumber: string;
+  guestName: string;
+  expiresAt: string;
+}
+
+export interface GuestTicket {
+  _id: string;
+  roomNumber: string;
+  category: TicketCategory;
+  subject?: string;
+  status: TicketStatus;
+  holdReason?: string | null;
+  estimatedCompletion?: string | null;
+  expectedBy?: string | null;
+  handledBy?: string | null;
+  messages: {
+    _id: string;
+    content: string;
+    sender: 'guest' | 'manager' | 'ai_assistant' | 'system';
+    senderName: string;
+    createdAt: string;
+  }[];
+  statusHistory: { to: TicketStatus; changedAt: string }[];
+  lastReadAt?: TicketReadReceipts;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string | null;
+}
+
+// Room numbers repeat across hotels, so sessions are stored per hotel and room
+const SESSION_KEY_PREFIX = 'guestSession_';
+const sessionKey = (hotelSlug: string, roomNumber: string) => `${SESSION_KEY_PREFIX}${hotelSlug}_${roomNumber}`;
+
+// Rotating a room's QR code (e.g. at check-out) ends its sessions early;
+// forget a session the server turned down so the next scan starts a new one
+guestClient.interceptors.response.use(undefined, (error) => {
+  if (axios.isAxiosError(error) && error.response?.status === 401) {
+    const rejected = String(error.config?.headers?.Authorization || '');
+    Object.keys(localStorage)
+      .filter((key) => key.startsWith(SESSION_KEY_PREFIX))
+      .forEach((key) => {
+        try {
+          const session: GuestSession = JSON.parse(localStorage.getItem(key) || '{}');
+          if (rejected === `Bearer ${session.token}`) localStorage.removeItem(key);
+        } catch {
+          localStorage.removeItem(key);
+        }
+      });
+  }
+  return Promise.reject(error);
+});
+
+export const getStoredGuestSession = (hotelSlug: string, roomNumber: string): GuestSession | null => {
+  const stored = localStorage.getItem(sessionKey(hotelSlug, roomNumber));
+  if (!stored) return null;
+
+  try {
+    const session: GuestSession = JSON.parse(stored);
+    if (new Date(session.expiresAt).getTime() > Date.now()) return session;
+  } catch {
+    // Fall through and clear the unreadable session
+  }
+  localStorage.removeItem(sessionKey(hotelSlug, roomNumber));
+  return null;
+};
+
+// What the guest proves room access with: the token from the room's QR code
+// (the `t` link parameter) and, if one was issued at check-in, the stay PIN
+export interface RoomAccess {
+  token?: string | null;
+  pin?: string;
+  // From recordRoomScan, so the new session counts towards that scan
+  scanId?: string | null;
+}
+
+// Count a landing from the room's QR code for the adoption report. A session
+// the guest already has is sent along so the scan is linked to it.
+export const recordRoomScan = async (
+  hotelSlug: string,
+  roomNumber: string,
+  accessToken: string
+): Promise<string> => {
+  const existing = getStoredGuestSession(hotelSlug, roomNumber);
+  const response = await guestClient.post<{ data: { _id: string } }>(
+    '/guest/scans',
+    { hotelSlug, roomNumber, accessToken },
+    existing ? authHeader(existing) : undefined
+  );
+  return response.data.data._id;
+};
+
+// Reuse the room's session if it is still valid, otherwise exchange the
+// room access for a new one
+export const ensureGuestSession = async (
+  hotelSlug: string,
+  roomNumber: string,
+  access: RoomAccess = {},
+  guestName?: string
+): Promise<GuestSession> => {
+  const existing = getStoredGuestSession(hotelSlug, roomNumber);
+  if (existing) return existing;
+
+  const response = await guestClient.post<{ data: GuestSession }>('/guest/session', {
+    hotelSlug,
+    roomNumber,
+    accessToken: access.token,
+    pin: access.pin,
+    scanId: access.scanId,
+    guestName,
+  });
+  localStorage.setItem(sessionKey(hotelSlug, roomNumber), JSON.stringify(response.data.data));
+  return response.data.data;
+};
+
+const authHeader = (session: GuestSession) => ({
+  headers: { Authorization: `Bearer ${session.token}` },
+});
+
+export const getGuestTickets = async (session: GuestSession): Promise<GuestTicket[]> => {
+  const response = await guestClient.get<{ data: GuestTicket[] }>('/guest/tickets', authHeader(session));
+  return response.data.data;
+};
+
+export const getGuestTicket = async (session: GuestSession, ticketId: string): Promise<GuestTicket> => {
+  const response = await guestClient.get<{ data: GuestTicket }>(
+    `/guest/tickets/${ticketId}`,
+    authHeader(session)
+  );
+  return response.data.data;
+};
+
+export const updateGuestTicketStatus = async (
+  session: GuestSession,
+  ticketId: string,
+  status: Extract<TicketStatus, 'cancelled' | 'verified' | 'reopened'>,
+  reason?: string
+): Promise<GuestTicket> => {
+  const response = await guestClient.put<{ data: GuestTicket }>(
+    `/guest/tickets/${ticketId}/status`,
+    { status, reason },
+    authHeader(session)
+  );
+  return response.data.data;
+};
+
+export const sendGuestMessage = async (
+  session: GuestSession,
+  ticketId: string,
+  content: string
+): Promise<GuestTicket> => {
+  const response = await guestClient.post<{ data: GuestTicket }>(
+    `/guest/tickets/${ticketId}/messages`,
+    { content },
+    authHeader(session)
+  );
+  return response.data.data;
+};
+
+export const markGuestTicketRead = async (
+  session: GuestSession,
+  ticketId: string
+): Promise<TicketReadReceipts> => {
+  const response = await guestClient.put<{ data: TicketReadReceipts }>(
+    `/guest/tickets/${ticketId}/read`,
+    {},
+    authHeader(session)
+  );
+  return response.data.data;
+};
+
+// Whether staff have written since the guest last looked at the thread
+export const hasUnreadStaffReply = (ticket: GuestTicket): boolean => {
+  const lastRead = ticket.lastReadAt?.guest ? new Date(ticket.lastReadAt.guest).getTime() : 0;
+  return ticket.messages.some(
+    (message) => message.sender === 'manager' && new Date(message.createdAt).getTime() > lastRead
+  );
+};
+
+// Open requests already raised from the room during this stay. Goes through
+// the app's own API route rather than straight to the backend.
+export const getOpenRoomTickets = async (session: GuestSession): Promise<GuestTicket[]> => {
+  const response = await axios.get<GuestTicket[]>(
+    `/api/tickets/room/${encodeURIComponent(session.roomNumber)}`,
+    authHeader(session)
+  );
+  return response.data;
+};
+
+export interface AssistantReply {
+  message: string;
+  shouldCreateTicket: boolean;
+  categories?: { category: TicketCategory; message: string; urgency?: string }[];
+  confidence?: number;
+  chatSessionId: string | null;
+  timestamp: string;
+}
+
+// Send a message to the assistant; the server keeps the transcript for the session
+export const sendAssistantMessage = async (
+  session: GuestSession,
+  message: string
+): Promise<AssistantReply> => {
+  const response = await guestClient.post<AssistantReply>(
+    '/chat/ai',
+    {
+      message,
+      guestInfo: { guestName: session.guestName, roomNumber: session.roomNumber },
+    },
+    authHeader(session)
+  );
+  return response.data;
+};
+
+// The session's conversation so far, or null before the first message
+export const getChatTranscript = async (session: GuestSession): Promise<ChatTranscript | null> => {
+  const response = await guestClient.get<{ data: ChatTranscript | null }>('/chat/session', authHeader(session));
+  return response.data.data;
+};
+
+export const createGuestTicket = async <T>(
+  session: GuestSession,
+  data: {
+    roomNumber: string;
+    guestInfo: { name: string; email?: string; phone?: string };
+    initialMessage: string;
+    // Skip the server's duplicate check when the guest explicitly asked for a new request
+    allowDuplicate?: boolean;
+  }
+): Promise<T> => {
+  const response = await guestClient.post<T>('/tickets/guest', data, authHeader(session));
+  return response.data;
+};
+
+// Pull the server's message out of a failed guest request
+export const getGuestErrorMessage = (error: unknown, fallback: string): string =>
+  axios.isAxiosError(error) && error.response?.data?.message
+    ? error.response.data.message
+    : fallback;
+
+// The QR code was fine but the stay has a PIN the guest still has to enter
+export const isStayPinRequired = (error: unknown): boolean =>
+  axios.isAxiosError(error) && error.response?.status === 403 && !!error.response.data?.pinRequired;
+
+// The guest's session has expired or ended with a QR code rotation
+export const isGuestSessionEnded = (error: unknown): boolean =>
+  axios.isAxiosError(error) && error.response?.status === 401;
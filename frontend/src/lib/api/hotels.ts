@@ -0,0 +1,49 @@
+import apiClient from './client';
+
+export interface Hotel {
+  _id: string;
+  name: string;
+  slug: string;
+  description?: string;
+  location: {
+    address?: string;
+    city?: string;
+    state?: string;
+    country?: string;
+    postalCode?: string;
+  };
+  contact: {
+    phone?: string;
+    email?: string;
+    website?: string;
+  };
+  amenities: string[];
+  checkInTime: string;
+  checkOutTime: string;
+  // Colours used on printed QR code sheets
+  branding: {
+    primaryColor: string;
+    accentColor: string;
+  };
+  onboardedAt: string | null;
+}
+
+export type HotelDetailsData = Pick<
+  Hotel,
+  'name' | 'description' | 'location' | 'contact' | 'amenities' | 'checkInTime' | 'checkOutTime' | 'branding'
+>;
+
+export const getHotel = async (id: string): Promise<Hotel> => {
+  const response = await apiClient.get<{ data: Hotel }>(`/hotels/${id}`);
+  return response.data.data;
+};
+
+export const updateHotel = async (id: string, data: HotelDetailsData): Promise<Hotel> => {
+  const response = await apiClient.put<{ data: Hotel }>(`/hotels/${id}`, data);
+  return response.data.data;
+};
+
+export const completeOnboarding = async (id: string): Promise<Hotel> => {
+  const response = await apiClient.put<{ data: Hotel }>(`/hotels/${id}/onboarding`);
+  return response.data.data;
+};
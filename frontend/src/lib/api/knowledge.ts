@@ -0,0 +1,102 @@
+import apiClient from './client';
+
+export type KnowledgeTopic = 'faq' | 'hours' | 'amenity' | 'policy';
+
+export const KNOWLEDGE_TOPICS: KnowledgeTopic[] = ['faq', 'hours', 'amenity', 'policy'];
+
+export const getTopicLabel = (topic: KnowledgeTopic): string => {
+  const labels: Record<KnowledgeTopic, string> = {
+    faq: 'FAQ',
+    hours: 'Opening Hours',
+    amenity: 'Amenity',
+    policy: 'Policy',
+  };
+  return labels[topic];
+};
+
+export interface KnowledgeEntry {
+  _id: string;
+  topic: KnowledgeTopic;
+  question: string;
+  answer: string;
+  keywords: string[];
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface KnowledgeEntryData {
+  topic: KnowledgeTopic;
+  question: string;
+  answer: string;
+  keywords: string[];
+  isActive?: boolean;
+}
+
+// Entries answered automatically from the hotel profile
+export interface HotelKnowledgeEntry {
+  topic: KnowledgeTopic;
+  question: string;
+  answer: string;
+  keywords: string[];
+}
+
+export interface HotelDetails {
+  name: string;
+  checkInTime: string;
+  checkOutTime: string;
+  amenities: string[];
+}
+
+export interface KnowledgeBase {
+  entries: KnowledgeEntry[];
+  hotel: HotelDetails | null;
+  hotelEntries: HotelKnowledgeEntry[];
+}
+
+export interface KnowledgeAnswer {
+  entryId: string | null;
+  source: 'knowledge' | 'hotel';
+  topic: KnowledgeTopic;
+  question: string;
+  answer: string;
+  score: number;
+}
+
+export const getKnowledgeBase = async (): Promise<KnowledgeBase> => {
+  const response = await apiClient.get<{ data: KnowledgeBase }>('/knowledge');
+  return response.data.data;
+};
+
+export const createKnowledgeEntry = async (data: KnowledgeEntryData): Promise<KnowledgeEntry> => {
+  const response = await apiClient.post<{ data: KnowledgeEntry }>('/knowledge', data);
+  return response.data.data;
+};
+
+export const updateKnowledgeEntry = async (
+  entryId: string,
+  data: Partial<KnowledgeEntryData>
+): Promise<KnowledgeEntry> => {
+  const response = await apiClient.put<{ data: KnowledgeEntry }>(`/knowledge/${entryId}`, data);
+  return response.data.data;
+};
+
+export const deleteKnowledgeEntry = async (entryId: string): Promise<void> => {
+  await apiClient.delete(`/knowledge/${entryId}`);
+};
+
+export const updateHotelDetails = async (
+  data: Partial<Omit<HotelDetails, 'name'>>
+): Promise<Pick<KnowledgeBase, 'hotel' | 'hotelEntries'>> => {
+  const response = await apiClient.put<{ data: Pick<KnowledgeBase, 'hotel' | 'hotelEntries'> }>(
+    '/knowledge/hotel',
+    data
+  );
+  return response.data.data;
+};
+
+// How the assistant would answer a guest, or null when it would hand over to staff
+export const previewKnowledgeAnswer = async (message: string): Promise<KnowledgeAnswer | null> => {
+  const response = await apiClient.post<{ data: KnowledgeAnswer | null }>('/knowledge/preview', { message });
+  return response.data.data;
+};
@@ -0,0 +1,40 @@
+import apiClient from './client';
+import { Property } from './auth';
+
+export interface PropertyOverview extends Property {
+  isActive: boolean;
+  rooms: number;
+  open: number;
+  unassigned: number;
+  breached: number;
+  highPriority: number;
+  oldestOpenAt: string | null;
+}
+
+export interface PropertyOverviewTotals {
+  rooms: number;
+  open: number;
+  unassigned: number;
+  breached: number;
+  highPriority: number;
+}
+
+export const getProperties = async (): Promise<{ activeId: string; properties: Property[] }> => {
+  const response = await apiClient.get<{ data: { activeId: string; properties: Property[] } }>('/properties');
+  return response.data.data;
+};
+
+export const createProperty = async (name: string): Promise<Property> => {
+  const response = await apiClient.post<{ data: Property }>('/properties', { name });
+  return response.data.data;
+};
+
+export const getPropertyOverview = async (): Promise<{
+  properties: PropertyOverview[];
+  totals: PropertyOverviewTotals;
+}> => {
+  const response = await apiClient.get<{
+    data: { properties: PropertyOverview[]; totals: PropertyOverviewTotals };
+  }>('/properties/overview');
+  return response.data.data;
+};
@@ -0,0 +1,134 @@
+import { formatDistanceToNow } from 'date-fns';
+import apiClient from './client';
+
+export type NumberingScheme = 'floor' | 'sequential';
+
+export interface RoomLayout {
+  startFloor: number;
+  floors: number;
+  roomsPerFloor: number;
+  scheme: NumberingScheme;
+  prefix: string;
+  // In the order they appear along each floor
+  types: { type: string; count: number }[];
+}
+
+export interface PlannedRoom {
+  number: string;
+  floor: number;
+  type: string;
+  // Already in use, so it will be skipped
+  exists: boolean;
+}
+
+export interface RoomQRCode {
+  _id: string;
+  number: string;
+  qrCode: string;
+  url: string;
+}
+
+export const previewRoomLayout = async (layout: RoomLayout): Promise<PlannedRoom[]> => {
+  const response = await apiClient.post<{ data: PlannedRoom[] }>('/rooms/bulk', layout, {
+    params: { preview: true },
+  });
+  return response.data.data;
+};
+
+export const bulkCreateRooms = async (
+  layout: RoomLayout
+): Promise<{ created: { _id: string; number: string }[]; skipped: string[] }> => {
+  const response = await apiClient.post<{
+    data: { created: { _id: string; number: string }[]; skipped: string[] };
+  }>('/rooms/bulk', layout);
+  return response.data.data;
+};
+
+// Only rooms without a working QR code get a new one
+export const generateMissingQRCodes = async (): Promise<RoomQRCode[]> => {
+  const response = await apiClient.post<{ data: RoomQRCode[] }>('/rooms/qr');
+  return response.data.data;
+};
+
+export type ImportFormat = 'csv' | 'json';
+
+export interface RoomImportRow {
+  row: number;
+  room: { number: string; type: string; floor: number; status: string } | null;
+  errors: string[];
+  outcome: 'ready' | 'invalid' | 'created' | 'failed';
+}
+
+export interface RoomImportResult {
+  dryRun: boolean;
+  ready: number;
+  created: number;
+  invalid: number;
+  failed: number;
+  rows: RoomImportRow[];
+}
+
+// Check a file with dryRun, then send it again to create the valid rows
+export const importRooms = async (
+  format: ImportFormat,
+  content: string,
+  dryRun: boolean
+): Promise<RoomImportResult> => {
+  const response = await apiClient.post<{ data: RoomImportResult }>(
+    '/rooms/import',
+    { format, content },
+    { params: { dryRun } }
+  );
+  return response.data.data;
+};
+
+// Download every room with its status and QR link
+export const downloadRoomsExport = async (format: ImportFormat): Promise<void> => {
+  const response = await apiClient.get('/rooms/export', {
+    params: { format },
+    responseType: format === 'csv' ? 'blob' : 'json',
+  });
+
+  const blob =
+    format === 'csv'
+      ? (response.data as Blob)
+      : new Blob([JSON.stringify(response.data.data, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `rooms.${format}`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export type QRSheetLayout = 'grid' | 'door-hanger' | 'table-tent';
+
+export type QRSheetFormat = 'pdf' | 'svg';
+
+export interface QRSheetOptions {
+  layout: QRSheetLayout;
+  format: QRSheetFormat;
+  // Every active room when neither is set
+  floor?: number;
+  roomIds?: string[];
+  primaryColor?: string;
+  accentColor?: string;
+  instructions?: string;
+}
+
+// Download printable QR codes; rooms without a working code get one first
+export const downloadQRSheets = async (options: QRSheetOptions): Promise<void> => {
+  const response = await apiClient.post('/rooms/qr/sheets', options, { responseType: 'blob' });
+
+  const url = URL.createObjectURL(response.data as Blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `qr-codes-${options.layout}.${options.format}`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// How long a room's QR code has been in use; codes from before rotation was
+// tracked have no date
+export const formatQRAge = (qrRotatedAt?: string | null): string =>
+  qrRotatedAt ? `Issued ${formatDistanceToNow(new Date(qrRotatedAt), { addSuffix: true })}` : 'Available';
@@ -0,0 +1,57 @@
+import apiClient from './client';
+import { TicketCategory, TicketPriority } from './tickets';
+
+export interface SlaPolicy {
+  category: TicketCategory;
+  priority: TicketPriority;
+  acknowledgeMinutes: number;
+  resolveMinutes: number;
+  isDefault: boolean;
+}
+
+export interface UpdateSlaPolicyData {
+  category: TicketCategory;
+  priority: TicketPriority;
+  acknowledgeMinutes: number;
+  resolveMinutes: number;
+}
+
+export const getSlaPolicies = async (): Promise<SlaPolicy[]> => {
+  const response = await apiClient.get<{ data: SlaPolicy[] }>('/sla/policies');
+  return response.data.data;
+};
+
+export const updateSlaPolicy = async (data: UpdateSlaPolicyData): Promise<SlaPolicy> => {
+  const response = await apiClient.put<{ data: SlaPolicy }>('/sla/policies', data);
+  return response.data.data;
+};
+
+export const resetSlaPolicy = async (category: TicketCategory, priority: TicketPriority): Promise<SlaPolicy> => {
+  const response = await apiClient.delete<{ data: SlaPolicy }>(`/sla/policies/${category}/${priority}`);
+  return response.data.data;
+};
+
+export interface EscalationRule {
+  id: string;
+  description: string;
+  status: string;
+  afterMinutes: number;
+  bumpPriority: boolean;
+  notify: 'supervisors' | 'managers';
+  isDefault: boolean;
+}
+
+export const getEscalationRules = async (): Promise<EscalationRule[]> => {
+  const response = await apiClient.get<{ data: EscalationRule[] }>('/sla/escalations');
+  return response.data.data;
+};
+
+export const updateEscalationRule = async (rule: string, afterMinutes: number): Promise<EscalationRule> => {
+  const response = await apiClient.put<{ data: EscalationRule }>('/sla/escalations', { rule, afterMinutes });
+  return response.data.data;
+};
+
+export const resetEscalationRule = async (rule: string): Promise<EscalationRule> => {
+  const response = await apiClient.delete<{ data: EscalationRule }>(`/sla/escalations/${rule}`);
+  return response.data.data;
+};
@@ -0,0 +1,69 @@
+import apiClient from './client';
+import { StaffRole } from './auth';
+import { TicketCategory } from './tickets';
+
+export interface StaffMember {
+  id: string;
+  name: string;
+  email: string;
+  role: StaffRole;
+  allowedCategories: TicketCategory[];
+  // Property ids the member works at; empty means every property
+  hotels: string[];
+  isActive: boolean;
+  createdAt: string;
+}
+
+export interface StaffInvite {
+  id: string;
+  name: string;
+  email: string;
+  role: StaffRole;
+  allowedCategories: TicketCategory[];
+  hotels: string[];
+  expiresAt: string;
+}
+
+export interface InviteStaffData {
+  name: string;
+  email: string;
+  role: Exclude<StaffRole, 'owner'>;
+  allowedCategories: TicketCategory[];
+  // Defaults to the active property
+  hotels?: string[];
+}
+
+export interface UpdateStaffData {
+  role?: Exclude<StaffRole, 'owner'>;
+  allowedCategories?: TicketCategory[];
+  hotels?: string[];
+  isActive?: boolean;
+}
+
+export const getStaff = async (): Promise<StaffMember[]> => {
+  const response = await apiClient.get<{ data: StaffMember[] }>('/staff');
+  return response.data.data;
+};
+
+export const getInvites = async (): Promise<StaffInvite[]> => {
+  const response = await apiClient.get<{ data: StaffInvite[] }>('/staff/invites');
+  return response.data.data;
+};
+
+export const inviteStaff = async (data: InviteStaffData): Promise<StaffInvite> => {
+  const response = await apiClient.post<{ data: StaffInvite }>('/staff/invite', data);
+  return response.data.data;
+};
+
+export const revokeInvite = async (id: string): Promise<void> => {
+  await apiClient.delete(`/staff/invites/${id}`);
+};
+
+export const updateStaff = async (id: string, data: UpdateStaffData): Promise<StaffMember> => {
+  const response = await apiClient.put<{ data: StaffMember }>(`/staff/${id}`, data);
+  return response.data.data;
+};
+
+export const deactivateStaff = async (id: string): Promise<void> => {
+  await apiClient.delete(`/staff/${id}`);
+};
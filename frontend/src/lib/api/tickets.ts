@@ -0,0 +1,216 @@
+import apiClient from './client';
+import { StaffRole } from './auth';
+
+export type TicketCategory =
+  | 'reception'
+  | 'housekeeping'
+  | 'porter'
+  | 'concierge'
+  | 'service_fb'
+  | 'maintenance';
+
+export const TICKET_CATEGORIES: TicketCategory[] = [
+  'reception',
+  'housekeeping',
+  'porter',
+  'concierge',
+  'service_fb',
+  'maintenance',
+];
+
+export const getCategoryLabel = (category: TicketCategory): string => {
+  switch (category) {
+    case 'reception': return 'Reception';
+    case 'housekeeping': return 'Housekeeping';
+    case 'porter': return 'Porter';
+    case 'concierge': return 'Concierge';
+    case 'service_fb': return 'Service (F&B)';
+    case 'maintenance': return 'Maintenance';
+    default: return category;
+  }
+};
+
+export type TicketPriority = 'low' | 'medium' | 'high';
+
+export const TICKET_PRIORITIES: TicketPriority[] = ['low', 'medium', 'high'];
+
+export type TicketStatus =
+  | 'raised'
+  | 'acknowledged'
+  | 'in_progress'
+  | 'on_hold'
+  | 'completed'
+  | 'reopened'
+  | 'verified'
+  | 'cancelled';
+
+export const TICKET_STATUSES: TicketStatus[] = [
+  'raised',
+  'acknowledged',
+  'in_progress',
+  'on_hold',
+  'completed',
+  'reopened',
+  'verified',
+  'cancelled',
+];
+
+export const getStatusLabel = (status: TicketStatus): string => {
+  switch (status) {
+    case 'raised': return 'New';
+    case 'acknowledged': return 'Acknowledged';
+    case 'in_progress': return 'In Progress';
+    case 'on_hold': return 'On Hold';
+    case 'completed': return 'Completed';
+    case 'reopened': return 'Reopened';
+    case 'verified': return 'Verified';
+    case 'cancelled': return 'Cancelled';
+    default: return status;
+  }
+};
+
+// Status changes staff may make; mirrors backend/utils/ticketLifecycle.js
+const STAFF_TRANSITIONS: Record<TicketStatus, TicketStatus[]> = {
+  raised: ['acknowledged', 'in_progress', 'on_hold'],
+  acknowledged: ['in_progress', 'on_hold'],
+  in_progress: ['on_hold', 'completed'],
+  on_hold: ['acknowledged', 'in_progress'],
+  completed: ['reopened'],
+  reopened: ['acknowledged', 'in_progress', 'on_hold'],
+  verified: [],
+  cancelled: [],
+};
+
+export const getAllowedTransitions = (from: TicketStatus): TicketStatus[] =>
+  STAFF_TRANSITIONS[from] || [];
+
+export const canTransition = (from: TicketStatus, to: TicketStatus): boolean =>
+  getAllowedTransitions(from).includes(to);
+
+export interface TicketStatusChange {
+  from?: TicketStatus;
+  to: TicketStatus;
+  actorType: 'staff' | 'guest' | 'system';
+  actorName?: string;
+  reason?: string | null;
+  changedAt: string;
+}
+
+// When each side of the conversation last read the thread
+export interface TicketReadReceipts {
+  guest?: string | null;
+  staff?: string | null;
+}
+
+// Milliseconds of silence before a typing indicator is cleared
+export const TYPING_IDLE_MS = 3000;
+
+export interface TicketSla {
+  acknowledgeBy?: string | null;
+  resolveBy?: string | null;
+  acknowledgedAt?: string | null;
+  breachedAt?: string | null;
+  breachType?: 'acknowledge' | 'resolve' | null;
+}
+
+export interface TicketAssignee {
+  _id: string;
+  name: string;
+  email: string;
+  role: StaffRole;
+}
+
+export interface WorkloadCounts {
+  raised: number;
+  acknowledged: number;
+  in_progress: number;
+  on_hold: number;
+  reopened: number;
+  total: number;
+}
+
+export interface StaffWorkload {
+  id: string;
+  name: string;
+  email: string;
+  role: StaffRole;
+  allowedCategories: TicketCategory[];
+  open: WorkloadCounts;
+}
+
+export interface Workload {
+  unassigned: WorkloadCounts;
+  staff: StaffWorkload[];
+}
+
+export type AssigneeFilter = 'all' | 'me' | 'unassigned';
+
+export interface ChatTurn {
+  _id: string;
+  role: 'guest' | 'assistant';
+  content: string;
+  classification?: {
+    provider: string | null;
+    categories: TicketCategory[];
+    confidence: number | null;
+    priority: string | null;
+    shouldCreateTicket: boolean;
+  };
+  createdAt: string;
+}
+
+// A guest's conversation with the assistant and the tickets it raised
+export interface ChatTranscript {
+  _id: string;
+  roomNumber: string;
+  guestName?: string;
+  turns: ChatTurn[];
+  tickets: string[];
+  lastMessageAt: string;
+  createdAt: string;
+}
+
+// Whether a staff member is allowed to work on tickets of the given category
+export const canHandleCategory = (
+  member: { role: StaffRole; allowedCategories: TicketCategory[] },
+  category?: TicketCategory
+): boolean => {
+  if (member.role === 'owner' || member.allowedCategories.length === 0) return true;
+  return !!category && member.allowedCategories.includes(category);
+};
+
+export const assignTicket = async <T>(ticketId: string, assigneeId: string | null): Promise<T> => {
+  const response = await apiClient.put<{ data: T }>(`/tickets/${ticketId}/assign`, { assigneeId });
+  return response.data.data;
+};
+
+// Move a ticket to another department; the correction is kept for classifier training
+export const updateTicketCategory = async <T>(ticketId: string, category: TicketCategory): Promise<T> => {
+  const response = await apiClient.put<{ data: T }>(`/tickets/${ticketId}/category`, { category });
+  return response.data.data;
+};
+
+export const updateTicketStatus = async <T>(
+  ticketId: string,
+  status: TicketStatus,
+  reason?: string
+): Promise<T> => {
+  const response = await apiClient.put<{ data: T }>(`/tickets/${ticketId}/status`, { status, reason });
+  return response.data.data;
+};
+
+// The assistant conversation a ticket came from; null for tickets raised elsewhere
+export const getTicketTranscript = async (ticketId: string): Promise<ChatTranscript | null> => {
+  const response = await apiClient.get<{ data: ChatTranscript | null }>(`/tickets/${ticketId}/transcript`);
+  return response.data.data;
+};
+
+export const markTicketRead = async (ticketId: string): Promise<TicketReadReceipts> => {
+  const response = await apiClient.put<{ data: TicketReadReceipts }>(`/tickets/${ticketId}/read`);
+  return response.data.data;
+};
+
+export const getWorkload = async (): Promise<Workload> => {
+  const response = await apiClient.get<{ data: Workload }>('/tickets/workload');
+  return response.data.data;
+};
@@ -1,6 +1,6 @@
 import { create } from 'zustand';
 import { AuthResponse } from '@/lib/api/auth';
-import { apiClient } from '@/lib/api/client';
+import { apiClient, setActiveHotelId } from '@/lib/api/client';
 
 interface AuthState {
   user: AuthResponse['user'] | null;
@@ -28,6 +28,7 @@ export const useAuthStore = create<AuthState>((set) => ({
       console.error('Logout error:', error);
     } finally {
       localStorage.removeItem('token');
+      setActiveHotelId(null);
       set({ user: null, isAuthenticated: false, isLoading: false });
     }
   },
@@ -43,7 +44,7 @@ export const useAuthStore = create<AuthState>((set) => ({
       // Verify token with backend
       const response = await apiClient.get('/auth/me');
       set({
-        user: response.data.user,
+        user: response.data.data,
         isAuthenticated: true,
         isLoading: false,
       });